@@ -0,0 +1,13 @@
+-- Migration: Invite lifecycle (accept, decline, resend, revoke)
+-- Date: 2026-10-19
+
+-- Only one pending invite per email and organisation. The original
+-- UNIQUE(organisation_id, email, status) also blocked keeping more than one
+-- accepted/declined/cancelled invite for the same email.
+ALTER TABLE invites DROP CONSTRAINT IF EXISTS invites_organisation_id_email_status_key;
+CREATE UNIQUE INDEX invites_org_email_pending_unique ON invites(organisation_id, email) WHERE status = 'pending';
+
+-- Allow invitees to decline
+ALTER TABLE invites DROP CONSTRAINT IF EXISTS invites_status_check;
+ALTER TABLE invites ADD CONSTRAINT invites_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled'));
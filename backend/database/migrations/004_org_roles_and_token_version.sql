@@ -0,0 +1,23 @@
+-- Migration: Organisation-scoped role management and token versioning
+-- Date: 2026-10-19
+
+-- Bumped whenever a user's access changes; access tokens carrying an older
+-- version are rejected by the authenticate middleware.
+ALTER TABLE users ADD COLUMN token_version INTEGER NOT NULL DEFAULT 1;
+
+-- Role names only need to be unique within an organisation (or globally for
+-- system roles), and a soft-deleted role should not block reusing its name.
+ALTER TABLE roles DROP CONSTRAINT IF EXISTS roles_name_key;
+ALTER TABLE roles DROP CONSTRAINT IF EXISTS roles_name_organisation_id_key;
+CREATE UNIQUE INDEX roles_name_org_unique ON roles(name, organisation_id) WHERE deleted_at IS NULL;
+
+-- Role management permissions
+INSERT INTO permissions (name, description, resource, action, is_system_permission) VALUES
+('role.view', 'View organisation roles and user permissions', 'role', 'view', true),
+('role.manage', 'Create roles and assign them to users', 'role', 'manage', true);
+
+INSERT INTO role_permissions (role_id, permission_id, granted_by)
+SELECT r.id, p.id, (SELECT id FROM users LIMIT 1)
+FROM roles r, permissions p
+WHERE r.name = 'ADMIN' AND r.organisation_id IS NULL
+AND p.name IN ('role.view', 'role.manage');
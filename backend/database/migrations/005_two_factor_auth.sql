@@ -0,0 +1,29 @@
+-- Migration: TOTP two-factor authentication
+-- Date: 2026-10-19
+
+-- One TOTP secret per user; the secret is encrypted at rest (AES-256-GCM)
+CREATE TABLE user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT FALSE,
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  last_used_step BIGINT, -- Last accepted time step, prevents code replay
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Single-use recovery codes (stored hashed)
+CREATE TABLE two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(255) NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organisations can require 2FA for every member who is not a student
+ALTER TABLE organisations ADD COLUMN require_staff_two_factor BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id) WHERE used_at IS NULL;
+
+CREATE TRIGGER update_user_two_factor_updated_at BEFORE UPDATE ON user_two_factor FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
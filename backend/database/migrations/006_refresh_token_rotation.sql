@@ -0,0 +1,12 @@
+-- Migration: Refresh token rotation with reuse detection
+-- Date: 2026-10-19
+
+-- Every refresh replaces sessions.refresh_token_hash; the hashes of tokens
+-- that have already been exchanged are kept here so a replay can be detected
+CREATE TABLE session_refresh_tokens (
+  token_hash VARCHAR(255) PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  rotated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_session_refresh_tokens_session_id ON session_refresh_tokens(session_id);
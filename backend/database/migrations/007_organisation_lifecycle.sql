@@ -0,0 +1,21 @@
+-- Migration: Organisation soft-delete, restore and purge
+-- Date: 2026-10-19
+
+-- A deleted organisation can be restored until purge_after; the purge job
+-- then removes its invites, roles and memberships and keeps only a tombstone
+-- row so the audit trail stays intact.
+ALTER TABLE organisations ADD COLUMN deleted_by UUID REFERENCES users(id);
+ALTER TABLE organisations ADD COLUMN purge_after TIMESTAMP WITH TIME ZONE;
+ALTER TABLE organisations ADD COLUMN purged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_organisations_purge_after ON organisations(purge_after) WHERE deleted_at IS NOT NULL AND purged_at IS NULL;
+
+-- Deleting an organisation is separate from managing it
+INSERT INTO permissions (name, description, resource, action, is_system_permission) VALUES
+('org.delete', 'Delete and restore the organisation', 'organisation', 'delete', true);
+
+INSERT INTO role_permissions (role_id, permission_id, granted_by)
+SELECT r.id, p.id, (SELECT id FROM users LIMIT 1)
+FROM roles r, permissions p
+WHERE r.name = 'ADMIN' AND r.organisation_id IS NULL
+AND p.name = 'org.delete';
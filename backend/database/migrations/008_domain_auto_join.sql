@@ -0,0 +1,28 @@
+-- Migration: Verified-domain auto-join
+-- Date: 2026-10-19
+
+-- Ownership of organisations.verified_domain is proven by publishing
+-- domain_verification_token in a DNS TXT record. Once verified, users who
+-- register with a matching email address join automatically or request to.
+ALTER TABLE organisations ADD COLUMN domain_verification_token VARCHAR(255);
+ALTER TABLE organisations ADD COLUMN domain_verified_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE organisations ADD COLUMN auto_join_mode VARCHAR(20) NOT NULL DEFAULT 'disabled' CHECK (auto_join_mode IN ('disabled', 'automatic', 'approval'));
+ALTER TABLE organisations ADD COLUMN auto_join_role_id UUID REFERENCES roles(id) ON DELETE SET NULL;
+
+-- A verified domain belongs to at most one organisation (domains are stored lowercase)
+CREATE UNIQUE INDEX organisations_verified_domain_unique ON organisations(verified_domain)
+WHERE domain_verified_at IS NOT NULL AND deleted_at IS NULL;
+
+-- Users waiting for an admin to approve their domain-based join
+CREATE TABLE organisation_join_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX organisation_join_requests_pending_unique ON organisation_join_requests(organisation_id, user_id) WHERE status = 'pending';
+CREATE INDEX idx_organisation_join_requests_organisation_id ON organisation_join_requests(organisation_id, status);
@@ -0,0 +1,49 @@
+-- Migration: Single sign-on via OpenID Connect
+-- Date: 2026-10-19
+
+-- One identity provider per organisation
+CREATE TABLE organisation_sso_configs (
+  organisation_id UUID PRIMARY KEY REFERENCES organisations(id) ON DELETE CASCADE,
+  issuer VARCHAR(500) NOT NULL,
+  client_id VARCHAR(255) NOT NULL,
+  client_secret_encrypted TEXT, -- AES-256-GCM; NULL for public clients
+  scopes TEXT NOT NULL DEFAULT 'openid email profile',
+  claim_mapping JSONB NOT NULL DEFAULT '{}',
+  role_mappings JSONB NOT NULL DEFAULT '[]', -- [{ "claimValue": "...", "roleId": "..." }]
+  default_role_id UUID REFERENCES roles(id) ON DELETE SET NULL,
+  trust_email_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Links an account to a subject at an identity provider
+CREATE TABLE user_identities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  issuer VARCHAR(500) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_login_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE(issuer, subject)
+);
+
+-- In-flight authorization requests (state, nonce and PKCE verifier)
+CREATE TABLE sso_login_states (
+  state VARCHAR(255) PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  nonce VARCHAR(255) NOT NULL,
+  code_verifier VARCHAR(255) NOT NULL,
+  return_to TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_identities_user_id ON user_identities(user_id);
+CREATE INDEX idx_sso_login_states_expires_at ON sso_login_states(expires_at);
+
+CREATE TRIGGER update_organisation_sso_configs_updated_at BEFORE UPDATE ON organisation_sso_configs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
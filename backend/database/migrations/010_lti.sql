@@ -0,0 +1,69 @@
+-- Migration: LTI 1.3 tool provider
+-- Date: 2026-10-19
+
+-- LMS platforms registered by an organisation (one row per issuer/client_id)
+CREATE TABLE lti_platforms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  issuer VARCHAR(500) NOT NULL,
+  client_id VARCHAR(255) NOT NULL,
+  deployment_ids JSONB NOT NULL DEFAULT '[]', -- empty accepts any deployment
+  auth_login_url TEXT NOT NULL,
+  auth_token_url TEXT NOT NULL,
+  auth_token_audience TEXT, -- defaults to auth_token_url
+  jwks_url TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(issuer, client_id)
+);
+
+-- In-flight OIDC login initiations (state and nonce)
+CREATE TABLE lti_login_states (
+  state VARCHAR(255) PRIMARY KEY,
+  platform_id UUID NOT NULL REFERENCES lti_platforms(id) ON DELETE CASCADE,
+  nonce VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- LMS placements, each pointing at a quiz or todo chosen through deep linking
+CREATE TABLE lti_resource_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  platform_id UUID NOT NULL REFERENCES lti_platforms(id) ON DELETE CASCADE,
+  resource_link_id VARCHAR(255) NOT NULL,
+  context_id VARCHAR(255),
+  context_title VARCHAR(500),
+  title VARCHAR(500),
+  target_type VARCHAR(20),
+  target_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(platform_id, resource_link_id),
+  CONSTRAINT target_type_check CHECK (target_type IN ('quiz', 'todo'))
+);
+
+-- Latest launch of a resource link by a user, with the gradebook column to post to
+CREATE TABLE lti_launches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  resource_link_id UUID NOT NULL REFERENCES lti_resource_links(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lti_user_id VARCHAR(255) NOT NULL,
+  line_item_url TEXT,
+  ags_scopes JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_launched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(resource_link_id, user_id)
+);
+
+CREATE INDEX idx_lti_platforms_organisation_id ON lti_platforms(organisation_id);
+CREATE INDEX idx_lti_login_states_expires_at ON lti_login_states(expires_at);
+CREATE INDEX idx_lti_launches_user_id ON lti_launches(user_id);
+
+CREATE TRIGGER update_lti_platforms_updated_at BEFORE UPDATE ON lti_platforms FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_lti_resource_links_updated_at BEFORE UPDATE ON lti_resource_links FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,85 @@
+-- Migration: Courses, class sections, enrolments and assignments
+-- Date: 2026-10-19
+
+CREATE TABLE courses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  code VARCHAR(50),
+  description TEXT,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A class section is one group of students taking a course (e.g. "Year 9 - Set 2")
+CREATE TABLE class_sections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  term VARCHAR(100),
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE class_enrolments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  section_id UUID NOT NULL REFERENCES class_sections(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  enrolled_by UUID NOT NULL REFERENCES users(id),
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(section_id, user_id),
+  CONSTRAINT role_check CHECK (role IN ('teacher', 'student'))
+);
+
+-- Topic, video and quiz live in the learning app's database, so they are
+-- referenced by id only
+CREATE TABLE assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  section_id UUID NOT NULL REFERENCES class_sections(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  instructions TEXT,
+  topic_id UUID,
+  video_id VARCHAR(100),
+  video_url TEXT,
+  quiz_id UUID,
+  due_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One row per student once they start; no row means "assigned"
+CREATE TABLE assignment_submissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+  score DOUBLE PRECISION,
+  feedback TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  graded_at TIMESTAMP WITH TIME ZONE,
+  graded_by UUID REFERENCES users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(assignment_id, user_id),
+  CONSTRAINT status_check CHECK (status IN ('in_progress', 'submitted', 'graded'))
+);
+
+CREATE INDEX idx_courses_organisation_id ON courses(organisation_id);
+CREATE INDEX idx_class_sections_course_id ON class_sections(course_id);
+CREATE INDEX idx_class_enrolments_user_id ON class_enrolments(user_id);
+CREATE INDEX idx_assignments_section_id ON assignments(section_id);
+CREATE INDEX idx_assignment_submissions_user_id ON assignment_submissions(user_id);
+
+CREATE TRIGGER update_courses_updated_at BEFORE UPDATE ON courses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_class_sections_updated_at BEFORE UPDATE ON class_sections FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_assignments_updated_at BEFORE UPDATE ON assignments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_assignment_submissions_updated_at BEFORE UPDATE ON assignment_submissions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
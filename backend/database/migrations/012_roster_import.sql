@@ -0,0 +1,8 @@
+-- Migration: Roster import details on invites
+-- Date: 2026-10-19
+
+-- Names and class sections from a roster import, applied when the invite is accepted
+ALTER TABLE invites
+  ADD COLUMN first_name VARCHAR(100),
+  ADD COLUMN last_name VARCHAR(100),
+  ADD COLUMN section_enrolments JSONB NOT NULL DEFAULT '[]'; -- [{ "sectionId": "...", "role": "student" }]
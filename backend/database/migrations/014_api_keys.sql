@@ -0,0 +1,34 @@
+-- Migration: Organisation API keys and service accounts
+-- Date: 2026-10-19
+
+-- Service accounts act on behalf of an API key; they cannot log in
+ALTER TABLE users ADD COLUMN is_service_account BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Keys are shown once; only the SHA-256 hash and a display prefix are kept
+CREATE TABLE api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  service_account_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  prefix VARCHAR(20) NOT NULL UNIQUE,
+  key_hash VARCHAR(255) NOT NULL UNIQUE,
+  scopes JSONB NOT NULL DEFAULT '[]', -- 'resource.action' permission names
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  last_used_ip INET,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_api_keys_organisation_id ON api_keys(organisation_id);
+
+-- API key management permission
+INSERT INTO permissions (name, description, resource, action, is_system_permission) VALUES
+('api_key.manage', 'Create and revoke organisation API keys', 'api_key', 'manage', true);
+
+INSERT INTO role_permissions (role_id, permission_id, granted_by)
+SELECT r.id, p.id, (SELECT id FROM users LIMIT 1)
+FROM roles r, permissions p
+WHERE r.name = 'ADMIN' AND r.organisation_id IS NULL
+AND p.name = 'api_key.manage';
@@ -0,0 +1,18 @@
+-- Migration: Email verification and password reset tokens
+-- Date: 2026-10-19
+
+-- Single-use tokens emailed to users; only the SHA-256 hash is stored
+CREATE TABLE account_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL,
+  token_hash VARCHAR(255) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  requested_ip INET,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT purpose_check CHECK (purpose IN ('email_verification', 'password_reset'))
+);
+
+CREATE INDEX idx_account_tokens_user_id ON account_tokens(user_id, purpose);
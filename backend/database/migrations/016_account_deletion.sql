@@ -0,0 +1,10 @@
+-- Migration: User-requested account deletion
+-- Date: 2026-10-19
+
+-- A user who asks to delete their account can cancel until deletion_scheduled_for;
+-- the purge job then anonymises the user row and removes their memberships,
+-- sessions and enrolments. The row is kept so the audit trail stays intact.
+ALTER TABLE users ADD COLUMN deletion_requested_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN deletion_scheduled_for TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_users_deletion_scheduled_for ON users(deletion_scheduled_for) WHERE deletion_scheduled_for IS NOT NULL AND deleted_at IS NULL;
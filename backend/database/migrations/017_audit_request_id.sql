@@ -0,0 +1,8 @@
+-- Migration: Request ID on audit log entries
+-- Date: 2026-10-19
+
+-- The ID of the API request that caused the event (X-Request-Id / meta.requestId),
+-- so an audit entry can be matched with the request's log lines
+ALTER TABLE audit_logs ADD COLUMN request_id VARCHAR(128);
+
+CREATE INDEX idx_audit_logs_request_id ON audit_logs(request_id) WHERE request_id IS NOT NULL;
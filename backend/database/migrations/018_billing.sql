@@ -0,0 +1,71 @@
+-- Migration: Organisation billing, seat plans and usage statements
+-- Date: 2026-10-19
+
+-- Plans are priced per seat per month. A seat is a member or a pending invite;
+-- seat_limit NULL means the plan has no upper limit on purchased seats.
+CREATE TABLE billing_plans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  seat_limit INTEGER CHECK (seat_limit IS NULL OR seat_limit > 0),
+  price_per_seat_cents INTEGER NOT NULL DEFAULT 0 CHECK (price_per_seat_cents >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'GBP',
+  ai_credits_per_seat INTEGER NOT NULL DEFAULT 0 CHECK (ai_credits_per_seat >= 0), -- Monthly organisation credit pool
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO billing_plans (code, name, seat_limit, price_per_seat_cents, ai_credits_per_seat) VALUES
+('free', 'Free', 30, 0, 0),
+('school', 'School', 2000, 300, 400),
+('district', 'District', NULL, 250, 600);
+
+-- Organisations without a row are on the free plan
+CREATE TABLE organisation_subscriptions (
+  organisation_id UUID PRIMARY KEY REFERENCES organisations(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES billing_plans(id),
+  seats INTEGER NOT NULL CHECK (seats > 0), -- Purchased seats; the enforced limit
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'past_due', 'cancelled')),
+  current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  provider_customer_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_organisation_subscriptions_period_end ON organisation_subscriptions(current_period_end) WHERE status <> 'cancelled';
+
+-- AI usage of the organisation's members for one billing period
+CREATE TABLE usage_statements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]', -- Per operation: requests, successful, users, credits
+  total_requests INTEGER NOT NULL DEFAULT 0,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  credits_included INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organisation_id, period_start)
+);
+
+-- Issued through the payment provider; one per organisation and period
+CREATE TABLE invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  statement_id UUID REFERENCES usage_statements(id) ON DELETE SET NULL,
+  number VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  currency VARCHAR(3) NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]', -- description, quantity, unitAmountCents, amountCents
+  total_cents INTEGER NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  provider_invoice_id VARCHAR(255) NOT NULL,
+  hosted_url TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organisation_id, period_start)
+);
+
+CREATE INDEX idx_invoices_organisation_id ON invoices(organisation_id, issued_at DESC);
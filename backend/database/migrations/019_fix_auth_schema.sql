@@ -0,0 +1,17 @@
+-- Migration: Fix indexes and triggers from 001
+-- Date: 2026-10-19
+
+-- Partial indexes cannot use NOW() (it is not immutable), so these are
+-- rebuilt without the expiry condition. Queries check expiry themselves.
+DROP INDEX IF EXISTS idx_user_roles_user_id;
+CREATE INDEX idx_user_roles_user_id ON user_roles(user_id);
+
+DROP INDEX IF EXISTS idx_sessions_refresh_token_hash;
+CREATE INDEX idx_sessions_refresh_token_hash ON sessions(refresh_token_hash) WHERE NOT revoked;
+
+DROP INDEX IF EXISTS idx_invites_token_hash;
+CREATE INDEX idx_invites_token_hash ON invites(token_hash) WHERE status = 'pending';
+
+-- The trigger sets updated_at, which sessions does not have, so any update
+-- to a session failed. Rotation sets last_used_at itself.
+DROP TRIGGER IF EXISTS update_sessions_last_used_at ON sessions;
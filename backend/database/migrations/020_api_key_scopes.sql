@@ -0,0 +1,22 @@
+-- Migration: API key scopes as 'resource.action'
+-- Date: 2026-10-19
+
+-- Scopes were stored as permission names ('org.view'), but requests are
+-- authorised by 'resource.action' ('organisation.view'), so those never matched
+UPDATE api_keys k
+SET scopes = (
+  SELECT COALESCE(jsonb_agg(COALESCE(p.resource || '.' || p.action, scope.value)), '[]'::jsonb)
+  FROM jsonb_array_elements_text(k.scopes) AS scope(value)
+  LEFT JOIN permissions p ON p.name = scope.value
+);
+
+-- system.admin acts as every permission and can no longer be a scope
+WITH revoked AS (
+  UPDATE api_keys
+  SET revoked_at = NOW()
+  WHERE scopes ? 'system.admin' AND revoked_at IS NULL
+  RETURNING service_account_id
+)
+UPDATE users
+SET deleted_at = NOW(), updated_at = NOW()
+WHERE id IN (SELECT service_account_id FROM revoked);
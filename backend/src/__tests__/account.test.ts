@@ -0,0 +1,217 @@
+import { eq } from 'drizzle-orm';
+import { accountService } from '../services/account';
+import { authService } from '../services/auth';
+import { mailerService } from '../services/mailer';
+import { roleService } from '../services/role';
+import { accountTokens, auditLogs, organisations, sessions, userRoles, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Account service', () => {
+  let database: TestDatabaseHandle;
+
+  const createUser = async (email: string) => {
+    const [user] = await mockDb.insert(users)
+      .values({ email, passwordHash: await authService.hashPassword('password123') })
+      .returning();
+    return user;
+  };
+
+  const findUser = async (userId: string) => {
+    const [user] = await mockDb.select().from(users).where(eq(users.id, userId));
+    return user;
+  };
+
+  const tokenFrom = (link: string) => new URL(link).searchParams.get('token')!;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('email verification', () => {
+    let sendVerificationEmail: jest.SpyInstance;
+
+    beforeEach(() => {
+      sendVerificationEmail = jest.spyOn(mailerService, 'sendVerificationEmail').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      sendVerificationEmail.mockRestore();
+    });
+
+    it('should verify the address with the emailed token, once', async () => {
+      const user = await createUser('new.teacher@school.test');
+
+      await accountService.sendVerificationEmail(user.id);
+      expect(sendVerificationEmail).toHaveBeenCalledWith(user.email, expect.objectContaining({
+        verifyUrl: expect.stringContaining('/verify-email?token='),
+      }));
+      const token = tokenFrom(sendVerificationEmail.mock.calls[0][1].verifyUrl);
+
+      await accountService.verifyEmail(token);
+
+      expect(await findUser(user.id)).toMatchObject({ emailVerified: true, emailVerifiedAt: expect.any(Date) });
+      await expect(accountService.verifyEmail(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should not resend within a minute or once the address is verified', async () => {
+      const user = await createUser('resend@school.test');
+
+      await accountService.sendVerificationEmail(user.id);
+      await accountService.sendVerificationEmail(user.id);
+      expect(sendVerificationEmail).toHaveBeenCalledTimes(1);
+
+      await accountService.verifyEmail(tokenFrom(sendVerificationEmail.mock.calls[0][1].verifyUrl));
+      await mockDb.delete(accountTokens).where(eq(accountTokens.userId, user.id));
+
+      await accountService.sendVerificationEmail(user.id);
+      expect(sendVerificationEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not accept a password reset token', async () => {
+      const user = await createUser('purpose@school.test');
+      const sendPasswordResetEmail = jest.spyOn(mailerService, 'sendPasswordResetEmail').mockImplementation(() => undefined);
+
+      await accountService.requestPasswordReset(user.email);
+      const token = tokenFrom(sendPasswordResetEmail.mock.calls[0][1].resetUrl);
+      sendPasswordResetEmail.mockRestore();
+
+      await expect(accountService.verifyEmail(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      expect((await findUser(user.id)).emailVerified).toBe(false);
+    });
+  });
+
+  describe('password reset', () => {
+    let sendPasswordResetEmail: jest.SpyInstance;
+
+    beforeEach(() => {
+      sendPasswordResetEmail = jest.spyOn(mailerService, 'sendPasswordResetEmail').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      sendPasswordResetEmail.mockRestore();
+    });
+
+    it('should not email unknown addresses', async () => {
+      await accountService.requestPasswordReset('nobody@school.test');
+
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('should set the new password and sign out every session', async () => {
+      const user = await createUser('forgetful@school.test');
+      await authService.completeExternalLogin(user.id, 'sso');
+
+      await accountService.requestPasswordReset(user.email);
+      const token = tokenFrom(sendPasswordResetEmail.mock.calls[0][1].resetUrl);
+
+      await accountService.resetPassword(token, 'a-new-password');
+
+      const updated = await findUser(user.id);
+      expect(await authService.verifyPassword('a-new-password', updated.passwordHash)).toBe(true);
+      expect(updated.tokenVersion).toBe((user.tokenVersion ?? 0) + 1);
+      // Following the link also proves the address works
+      expect(updated.emailVerified).toBe(true);
+
+      const active = await mockDb.select().from(sessions).where(eq(sessions.userId, user.id));
+      expect(active.every(session => session.revoked)).toBe(true);
+
+      await expect(accountService.resetPassword(token, 'another-password'))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject an expired token', async () => {
+      const user = await createUser('late@school.test');
+
+      await accountService.requestPasswordReset(user.email);
+      const token = tokenFrom(sendPasswordResetEmail.mock.calls[0][1].resetUrl);
+      await mockDb.update(accountTokens)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(accountTokens.userId, user.id));
+
+      await expect(accountService.resetPassword(token, 'a-new-password'))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      expect(await authService.verifyPassword('password123', (await findUser(user.id)).passwordHash)).toBe(true);
+    });
+  });
+
+  describe('personal data and deletion', () => {
+    let organisationId: string;
+
+    beforeAll(async () => {
+      const owner = await createUser('head@school.test');
+      const [organisation] = await mockDb.insert(organisations)
+        .values({ name: 'School', slug: 'school', createdBy: owner.id })
+        .returning();
+      organisationId = organisation.id;
+    });
+
+    it('should export the profile, memberships and sessions without secrets', async () => {
+      const user = await createUser('pupil@school.test');
+      await roleService.grantSystemRole(user.id, organisationId, 'STUDENT', user.id);
+      await authService.completeExternalLogin(user.id, 'sso');
+
+      const exported = await accountService.exportPersonalData(user.id);
+
+      expect(exported.profile).toMatchObject({ id: user.id, email: user.email, twoFactorEnabled: false, deletion: null });
+      expect(exported.memberships).toEqual([expect.objectContaining({ organisationId, organisationName: 'School', role: 'STUDENT' })]);
+      expect(exported.sessions).toHaveLength(1);
+      expect(JSON.stringify(exported)).not.toContain(user.passwordHash);
+
+      const [logged] = await mockDb.select().from(auditLogs).where(eq(auditLogs.action, 'user.data_exported'));
+      expect(logged).toMatchObject({ actorId: user.id, resourceId: user.id });
+    });
+
+    it('should only schedule deletion with the password, and allow it to be cancelled', async () => {
+      const user = await createUser('unsure@school.test');
+
+      await expect(accountService.requestDeletion(user.id, 'wrong-password'))
+        .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+      const status = await accountService.requestDeletion(user.id, 'password123');
+      const days = (status.scheduledFor.getTime() - status.requestedAt.getTime()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(14);
+      // Asking again keeps the original schedule
+      const scheduled = await accountService.getDeletionStatus(user.id);
+      expect(await accountService.requestDeletion(user.id, 'password123')).toEqual(scheduled);
+
+      await accountService.cancelDeletion(user.id);
+
+      expect(await accountService.getDeletionStatus(user.id)).toBeNull();
+      await expect(accountService.cancelDeletion(user.id)).rejects.toMatchObject({ code: 'DELETION_NOT_PENDING' });
+    });
+
+    it('should anonymise the account once the cooling-off period ends', async () => {
+      const user = await createUser('leaving@school.test');
+      await roleService.grantSystemRole(user.id, organisationId, 'STUDENT', user.id);
+      await authService.completeExternalLogin(user.id, 'sso');
+      const { scheduledFor } = await accountService.requestDeletion(user.id, 'password123');
+      const { tokenVersion } = await findUser(user.id);
+
+      expect(await accountService.purgeDueDeletions(new Date(scheduledFor.getTime() - 1000))).toBe(0);
+      expect(await accountService.purgeDueDeletions(scheduledFor)).toBe(1);
+
+      const deleted = await findUser(user.id);
+      expect(deleted).toMatchObject({
+        email: `deleted-${user.id}@deleted.invalid`,
+        firstName: null,
+        deletedAt: expect.any(Date),
+        tokenVersion: (tokenVersion ?? 0) + 1,
+      });
+      expect(await mockDb.select().from(sessions).where(eq(sessions.userId, user.id))).toHaveLength(0);
+      expect(await mockDb.select().from(userRoles).where(eq(userRoles.userId, user.id))).toHaveLength(0);
+      await expect(accountService.exportPersonalData(user.id)).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+
+      // Their audit trail is kept
+      const history = await mockDb.select().from(auditLogs).where(eq(auditLogs.actorId, user.id));
+      expect(history.map(entry => entry.action)).toContain('user.deletion_requested');
+    });
+  });
+});
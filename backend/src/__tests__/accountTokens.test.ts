@@ -0,0 +1,48 @@
+import request from 'supertest';
+import app from '../index';
+
+describe('Email verification and password reset API', () => {
+  describe('POST /api/auth/forgot-password', () => {
+    it('should reject invalid email', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'invalid-email' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should reject malformed token', async () => {
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'short', password: 'password123' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject weak password', async () => {
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'a'.repeat(64), password: '123' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/auth/verify-email/resend', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post('/api/auth/verify-email/resend')
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import request from 'supertest';
+import app from '../index';
+import { analyticsService } from '../services/analytics';
+import { authService } from '../services/auth';
+import { courseService } from '../services/course';
+import { LearningDataSource } from '../services/learningData';
+import { roleService } from '../services/role';
+import { AnalyticsError, LearnerStats } from '../types/auth';
+import { organisations, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Analytics date range', () => {
+  it('should default to the last 30 days', () => {
+    const to = new Date('2026-10-19T12:00:00Z');
+    const range = analyticsService.resolveRange(undefined, to);
+
+    expect(range.to).toBe(to);
+    expect(range.from.toISOString()).toBe('2026-09-19T12:00:00.000Z');
+  });
+
+  it('should reject empty and overlong ranges', () => {
+    const from = new Date('2026-10-19T00:00:00Z');
+
+    expect(() => analyticsService.resolveRange(from, from)).toThrow(AnalyticsError);
+    expect(() => analyticsService.resolveRange(from, new Date('2028-01-01T00:00:00Z'))).toThrow('at most 366 days');
+  });
+});
+
+describe('Analytics API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminToken: string;
+  let teacherToken: string;
+  let taughtSectionId: string;
+  let otherSectionId: string;
+  const getLearnerStats = jest.fn<ReturnType<LearningDataSource['getLearnerStats']>, Parameters<LearningDataSource['getLearnerStats']>>();
+
+  const stats = (email: string, quizzes: number, averageScore: number): LearnerStats => ({
+    email,
+    quizzes,
+    averageScore,
+    lastActivityDate: '2026-10-18',
+    currentStreak: 2,
+    streakBroken: false,
+    weakTopics: 0,
+    risingWeaknessTopics: 0,
+  });
+
+  const createMember = async (email: string, roleName: string, adminId?: string) => {
+    const [user] = await mockDb.insert(users).values({ email, passwordHash: '' }).returning();
+    await roleService.grantSystemRole(user.id, organisationId, roleName, adminId ?? user.id);
+    return user.id;
+  };
+
+  const classes = (accessToken: string, query: Record<string, string> = {}) =>
+    request(app)
+      .get(`/api/org/${organisationId}/analytics/classes`)
+      .query(query)
+      .set('Authorization', `Bearer ${accessToken}`);
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+    analyticsService.setLearningDataSource({
+      name: 'fake',
+      getLearnerStats,
+      getActivity: async () => [],
+      getTopicMastery: async () => [],
+      getQuizResult: async () => null,
+    });
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: admin.id })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(admin.id, organisationId, 'ADMIN', admin.id);
+    ({ accessToken: adminToken } = (await authService.completeExternalLogin(admin.id, 'sso')).tokens);
+
+    const teacherId = await createMember('teacher@school.test', 'TEACHER', admin.id);
+    ({ accessToken: teacherToken } = (await authService.completeExternalLogin(teacherId, 'sso')).tokens);
+
+    const course = await courseService.createCourse(organisationId, { name: 'Biology' }, admin.id);
+    taughtSectionId = (await courseService.createSection(organisationId, course.id, { name: '7B' }, admin.id)).id;
+    otherSectionId = (await courseService.createSection(organisationId, course.id, { name: '8C' }, admin.id)).id;
+
+    const enrol = (sectionId: string, userId: string, role: 'teacher' | 'student') =>
+      courseService.enrol(organisationId, course.id, sectionId, { userId, role }, admin.id);
+    await enrol(taughtSectionId, teacherId, 'teacher');
+    await enrol(taughtSectionId, await createMember('ada@school.test', 'STUDENT', admin.id), 'student');
+    await enrol(taughtSectionId, await createMember('alan@school.test', 'STUDENT', admin.id), 'student');
+    await enrol(otherSectionId, await createMember('grace@school.test', 'STUDENT', admin.id), 'student');
+  });
+
+  beforeEach(() => {
+    getLearnerStats.mockReset();
+    getLearnerStats.mockImplementation(async (emails) => emails.map(email => stats(email, 2, email.startsWith('ada') ? 90 : 60)));
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('GET /api/org/:organisationId/analytics/classes', () => {
+    it('should show admins every class', async () => {
+      const response = await classes(adminToken).expect(200);
+
+      expect(response.body.data.classes).toEqual([
+        expect.objectContaining({ sectionId: taughtSectionId, students: 2, quizzes: 4, averageScore: 75 }),
+        expect.objectContaining({ sectionId: otherSectionId, students: 1, quizzes: 2, averageScore: 60 }),
+      ]);
+    });
+
+    it('should show teachers only the classes they teach', async () => {
+      const response = await classes(teacherToken).expect(200);
+
+      expect(response.body.data.classes.map((row: { sectionId: string }) => row.sectionId)).toEqual([taughtSectionId]);
+      // Other classes' learners are never looked up
+      expect(getLearnerStats.mock.calls.map(([emails]) => emails)).toEqual([['ada@school.test', 'alan@school.test']]);
+    });
+
+    it('should not let teachers ask for a class they do not teach', async () => {
+      const response = await classes(teacherToken, { sectionId: otherSectionId }).expect(404);
+
+      expect(response.body.error.code).toBe('CLASS_NOT_FOUND');
+      expect(getLearnerStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/org/:organisationId/analytics/export', () => {
+    it('should export every student for admins', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/analytics/export?report=students`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      for (const email of ['ada@school.test', 'alan@school.test', 'grace@school.test']) {
+        expect(response.text).toContain(email);
+      }
+    });
+
+    it('should need the analytics.export permission', async () => {
+      await request(app)
+        .get(`/api/org/${organisationId}/analytics/export?report=students`)
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .expect(403);
+    });
+  });
+});
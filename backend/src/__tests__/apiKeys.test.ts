@@ -0,0 +1,155 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { apiKeyService } from '../services/apiKey';
+import { authService } from '../services/auth';
+import { roleService } from '../services/role';
+import { apiKeys, organisations, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('API keys', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+  let accessToken: string;
+
+  const createKey = (scopes: string[]) =>
+    request(app)
+      .post(`/api/org/${organisationId}/api-keys`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'Reporting', scopes });
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    adminId = admin.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    ({ accessToken } = (await authService.completeExternalLogin(adminId, 'sso')).tokens);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('POST /api/org/:organisationId/api-keys', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post(`/api/org/${organisationId}/api-keys`)
+        .send({ name: 'Reporting', scopes: ['quiz.view'] })
+        .expect(401);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should not let an API key create more keys', async () => {
+      const response = await request(app)
+        .post(`/api/org/${organisationId}/api-keys`)
+        .set('Authorization', 'Bearer erk_0123abcd_secret')
+        .send({ name: 'Reporting', scopes: ['quiz.view'] })
+        .expect(401);
+
+      expect(response.body.error.message).toBe('API keys cannot be used for this endpoint');
+    });
+
+    it('should create a key for resource.action scopes and keep only its hash', async () => {
+      const response = await createKey(['organisation.billing']).expect(201);
+
+      const { apiKey, key } = response.body.data;
+      expect(key).toMatch(new RegExp(`^${apiKey.prefix}_`));
+      expect(apiKey.scopes).toEqual(['organisation.billing']);
+
+      const [stored] = await mockDb.select().from(apiKeys).where(eq(apiKeys.id, apiKey.id));
+      expect(stored.keyHash).not.toContain(key);
+      const [serviceAccount] = await mockDb.select().from(users).where(eq(users.id, apiKey.serviceAccountId));
+      expect(serviceAccount.isServiceAccount).toBe(true);
+    });
+
+    it('should reject permission names that are not resource.action', async () => {
+      const response = await createKey(['org.billing']).expect(400);
+
+      expect(response.body.error.code).toBe('UNKNOWN_SCOPE');
+    });
+
+    it('should never grant system.admin', async () => {
+      const response = await createKey(['system.admin']).expect(403);
+
+      expect(response.body.error.code).toBe('SCOPE_NOT_GRANTABLE');
+    });
+
+    it('should not grant permissions the creator does not hold', async () => {
+      const creator = { id: adminId, email: 'admin@school.test', organisationId, roles: [], permissions: ['api_key.manage'] };
+
+      await expect(apiKeyService.create(organisationId, { name: 'Reporting', scopes: ['audit.view'] }, creator))
+        .rejects.toMatchObject({ code: 'SCOPE_NOT_GRANTABLE', status: 403 });
+    });
+  });
+
+  describe('requests made with a key', () => {
+    let key: string;
+
+    beforeAll(async () => {
+      ({ key } = (await createKey(['organisation.billing']).expect(201)).body.data);
+    });
+
+    it('should allow what the scopes cover', async () => {
+      await request(app)
+        .get(`/api/org/${organisationId}/billing/plans`)
+        .set('Authorization', `Bearer ${key}`)
+        .expect(200);
+      await request(app)
+        .get(`/api/org/${organisationId}/billing/plans`)
+        .set('X-API-Key', key)
+        .expect(200);
+    });
+
+    it('should forbid anything else', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit`)
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+
+      expect(response.body.error.message).toBe('Insufficient permissions: audit.view');
+    });
+  });
+
+  describe('DELETE /api/org/:organisationId/api-keys/:apiKeyId', () => {
+    it('should stop the key working straight away', async () => {
+      const { apiKey, key } = (await createKey(['organisation.billing']).expect(201)).body.data;
+
+      await request(app)
+        .delete(`/api/org/${organisationId}/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/org/${organisationId}/billing/plans`)
+        .set('Authorization', `Bearer ${key}`)
+        .expect(401);
+      const again = await request(app)
+        .delete(`/api/org/${organisationId}/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+      expect(again.body.error.code).toBe('API_KEY_REVOKED');
+    });
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should reject API keys sent in X-API-Key', async () => {
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('X-API-Key', 'erk_0123abcd_secret')
+        .expect(401);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import app from '../index';
+import { authService } from '../services/auth';
+import { roleService } from '../services/role';
+import { parseCsv } from '../utils/csv';
+import { auditLogs, organisations, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Audit API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let accessToken: string;
+  // Newest first, as the API returns them
+  let expectedIds: string[];
+
+  // Keep the body of the NDJSON download as text too
+  const asText = (res: request.Response, callback: (error: Error | null, body: string) => void) => {
+    let body = '';
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => { body += chunk; });
+    res.on('end', () => callback(null, body));
+  };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: admin.id })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(admin.id, organisationId, 'ADMIN', admin.id);
+    ({ accessToken } = (await authService.completeExternalLogin(admin.id, 'sso')).tokens);
+
+    // Three entries share a timestamp, so pages must break ties by id
+    const tied = new Date('2026-10-01T09:00:00Z');
+    const entries = await mockDb.insert(auditLogs).values([
+      { action: 'lesson.created', resourceType: 'lesson', organisationId, actorId: admin.id, timestamp: new Date('2026-10-01T08:00:00Z') },
+      { action: 'lesson.updated', resourceType: 'lesson', organisationId, actorId: admin.id, timestamp: tied },
+      { action: 'lesson.updated', resourceType: 'lesson', organisationId, actorId: admin.id, timestamp: tied },
+      { action: 'lesson.updated', resourceType: 'lesson', organisationId, actorId: admin.id, timestamp: tied },
+      {
+        action: 'lesson.deleted',
+        resourceType: 'lesson',
+        organisationId,
+        actorId: admin.id,
+        metadata: { title: 'Fractions, part "2"' },
+        timestamp: new Date('2026-10-02T08:00:00Z'),
+      },
+    ]).returning();
+
+    expectedIds = [...entries]
+      .sort((a, b) => b.timestamp!.getTime() - a.timestamp!.getTime() || (a.id < b.id ? 1 : -1))
+      .map(entry => entry.id);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('GET /api/org/:organisationId/audit', () => {
+    it('should page through every entry once, newest first', async () => {
+      const seen: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const response = await request(app)
+          .get(`/api/org/${organisationId}/audit`)
+          .query({ action: 'lesson.*', limit: 2, ...(cursor ? { cursor } : {}) })
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(200);
+
+        expect(response.body.data.logs.length).toBeLessThanOrEqual(2);
+        seen.push(...response.body.data.logs.map((log: { id: string }) => log.id));
+        cursor = response.body.data.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual(expectedIds);
+    });
+
+    it('should filter by exact action', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit`)
+        .query({ action: 'lesson.updated' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.logs).toHaveLength(3);
+      expect(response.body.data.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit`)
+        .query({ cursor: Buffer.from('not-a-cursor').toString('base64url') })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_CURSOR');
+    });
+  });
+
+  describe('GET /api/org/:organisationId/audit/export', () => {
+    it('should download the filtered entries as CSV', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit/export`)
+        .query({ action: 'lesson.*', format: 'csv' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="audit-.+\.csv"$/);
+
+      const [header, ...rows] = parseCsv(response.text);
+      expect(header[0]).toBe('id');
+      expect(rows.map(row => row[0])).toEqual(expectedIds);
+
+      const metadata = header.indexOf('metadata');
+      expect(JSON.parse(rows[0][metadata])).toEqual({ title: 'Fractions, part "2"' });
+    });
+
+    it('should download the filtered entries as NDJSON', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit/export`)
+        .query({ action: 'lesson.*', format: 'ndjson' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .buffer(true)
+        .parse(asText)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+
+      const lines = (response.body as string).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.id)).toEqual(expectedIds);
+      expect(lines[0]).toMatchObject({ action: 'lesson.deleted', organisationId });
+    });
+
+    it('should record the export in the audit trail', async () => {
+      const response = await request(app)
+        .get(`/api/org/${organisationId}/audit`)
+        .query({ action: 'audit.exported' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      // Timestamps are stored to the second, so the two exports may tie
+      const exports = response.body.data.logs.map((log: { metadata: { format: string; rows: number } }) => log.metadata);
+      expect(exports).toHaveLength(2);
+      expect(exports).toEqual(expect.arrayContaining([
+        expect.objectContaining({ format: 'csv', rows: expectedIds.length }),
+        expect.objectContaining({ format: 'ndjson', rows: expectedIds.length }),
+      ]));
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { addMonths } from '../services/billing';
+import { domainJoinService } from '../services/domainJoin';
+import { FakePaymentProvider } from '../services/payments';
+import { roleService } from '../services/role';
+import {
+  billingPlans,
+  organisationJoinRequests,
+  organisations,
+  organisationSubscriptions,
+  userRoles,
+  users,
+} from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('FakePaymentProvider', () => {
+  it('should number invoices in sequence and leave them open', async () => {
+    const provider = new FakePaymentProvider();
+    const customerId = await provider.createCustomer({ organisationId: 'org-1', name: 'Test School' });
+    const lines = [{ description: 'School plan seats', quantity: 10, unitAmountCents: 300, amountCents: 3000 }];
+
+    const first = await provider.createInvoice({ customerId, currency: 'GBP', description: 'EduRank School', lines, metadata: {} });
+    const second = await provider.createInvoice({ customerId, currency: 'GBP', description: 'EduRank School', lines, metadata: {} });
+
+    expect(first.number).toBe('FAKE-000001');
+    expect(second.number).toBe('FAKE-000002');
+    expect(first.status).toBe('open');
+    expect(provider.invoices).toHaveLength(2);
+  });
+
+  it('should reject invoices for unknown customers', async () => {
+    const provider = new FakePaymentProvider();
+
+    await expect(provider.createInvoice({
+      customerId: 'cus_missing',
+      currency: 'GBP',
+      description: 'EduRank School',
+      lines: [],
+      metadata: {},
+    })).rejects.toThrow('Unknown customer');
+  });
+});
+
+describe('Billing periods', () => {
+  it('should keep the day of the month, clamped to shorter months', () => {
+    expect(addMonths(new Date('2026-10-19T00:00:00Z'), 1).toISOString()).toBe('2026-11-19T00:00:00.000Z');
+    expect(addMonths(new Date('2026-01-31T12:00:00Z'), 1).toISOString()).toBe('2026-02-28T12:00:00.000Z');
+    expect(addMonths(new Date('2026-12-15T00:00:00Z'), 1).toISOString()).toBe('2027-01-15T00:00:00.000Z');
+  });
+});
+
+describe('Billing API', () => {
+  const organisationId = '00000000-0000-4000-8000-000000000001';
+
+  describe('PUT /api/org/:organisationId/billing', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .put(`/api/org/${organisationId}/billing`)
+        .send({ planCode: 'school', seats: 100 })
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
+
+describe('Seat limits for verified-domain joins', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+
+  const setSeats = async (seats: number) => {
+    await mockDb.update(organisationSubscriptions)
+      .set({ seats })
+      .where(eq(organisationSubscriptions.organisationId, organisationId));
+  };
+
+  const signUp = async (email: string) => {
+    const [user] = await mockDb.insert(users).values({ email, passwordHash: '', emailVerified: true }).returning();
+    return user.id;
+  };
+
+  const isMember = async (userId: string) =>
+    (await mockDb.select().from(userRoles).where(eq(userRoles.userId, userId))).length > 0;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    adminId = await signUp('admin@school.test');
+    const [organisation] = await mockDb.insert(organisations)
+      .values({
+        name: 'School',
+        slug: 'school',
+        createdBy: adminId,
+        verifiedDomain: 'school.test',
+        domainVerifiedAt: new Date(),
+        autoJoinMode: 'automatic',
+      })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 2,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: addMonths(new Date(), 1),
+    });
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it('should join automatically while a seat is free', async () => {
+    const userId = await signUp('first@school.test');
+
+    await domainJoinService.applyEmailDomainPolicy(userId);
+
+    expect(await isMember(userId)).toBe(true);
+  });
+
+  it('should queue a join request instead when every seat is taken', async () => {
+    const userId = await signUp('second@school.test');
+
+    await domainJoinService.applyEmailDomainPolicy(userId);
+
+    expect(await isMember(userId)).toBe(false);
+    const [joinRequest] = await mockDb.select().from(organisationJoinRequests)
+      .where(eq(organisationJoinRequests.userId, userId));
+    expect(joinRequest.status).toBe('pending');
+
+    await expect(domainJoinService.reviewJoinRequest(organisationId, joinRequest.id, true, adminId))
+      .rejects.toMatchObject({ code: 'SEAT_LIMIT_REACHED', status: 402 });
+    const [stillPending] = await mockDb.select().from(organisationJoinRequests)
+      .where(eq(organisationJoinRequests.id, joinRequest.id));
+    expect(stillPending.status).toBe('pending');
+
+    await setSeats(3);
+    await domainJoinService.reviewJoinRequest(organisationId, joinRequest.id, true, adminId);
+    expect(await isMember(userId)).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { authService } from '../services/auth';
+import { courseService } from '../services/course';
+import { roleService } from '../services/role';
+import { assignmentSubmissions, organisations, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Courses API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+  let adminToken: string;
+  let pupilId: string;
+  let pupilToken: string;
+  let classmateToken: string;
+  let courseId: string;
+  let sectionId: string;
+  let assignmentId: string;
+
+  const createMember = async (email: string, roleName: string) => {
+    const [user] = await mockDb.insert(users).values({ email, passwordHash: '' }).returning();
+    await roleService.grantSystemRole(user.id, organisationId, roleName, adminId);
+    const { accessToken } = (await authService.completeExternalLogin(user.id, 'sso')).tokens;
+    return { id: user.id, accessToken };
+  };
+
+  const sectionUrl = () => `/api/org/${organisationId}/courses/${courseId}/sections/${sectionId}`;
+  const assignmentUrl = () => `${sectionUrl()}/assignments/${assignmentId}`;
+
+  const enrol = (userId: string, role: 'teacher' | 'student') =>
+    request(app)
+      .post(`${sectionUrl()}/enrolments`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ userId, role });
+
+  const submit = (accessToken: string) =>
+    request(app)
+      .put(`${assignmentUrl()}/submission`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ status: 'submitted' });
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    adminId = admin.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    ({ accessToken: adminToken } = (await authService.completeExternalLogin(adminId, 'sso')).tokens);
+
+    ({ id: pupilId, accessToken: pupilToken } = await createMember('pupil@school.test', 'STUDENT'));
+    ({ accessToken: classmateToken } = await createMember('classmate@school.test', 'STUDENT'));
+
+    const course = await courseService.createCourse(organisationId, { name: 'Biology', code: 'BIO' }, adminId);
+    courseId = course.id;
+    const section = await courseService.createSection(organisationId, courseId, { name: '7B' }, adminId);
+    sectionId = section.id;
+    const assignment = await courseService.createAssignment(
+      organisationId, courseId, sectionId, { title: 'Photosynthesis' }, adminId
+    );
+    assignmentId = assignment.id;
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('POST /api/org/:organisationId/courses/:courseId/sections/:sectionId/enrolments', () => {
+    it('should only enrol members of the organisation', async () => {
+      const [outsider] = await mockDb.insert(users).values({ email: 'parent@elsewhere.test', passwordHash: '' }).returning();
+
+      const response = await enrol(outsider.id, 'student').expect(404);
+
+      expect(response.body.error.code).toBe('NOT_A_MEMBER');
+    });
+
+    it('should show students only the courses they are enrolled in', async () => {
+      await enrol(pupilId, 'student').expect(200);
+
+      const enrolled = await request(app)
+        .get(`/api/org/${organisationId}/courses`)
+        .set('Authorization', `Bearer ${pupilToken}`)
+        .expect(200);
+      const notEnrolled = await request(app)
+        .get(`/api/org/${organisationId}/courses`)
+        .set('Authorization', `Bearer ${classmateToken}`)
+        .expect(200);
+
+      expect(enrolled.body.data.courses.map((course: { id: string }) => course.id)).toEqual([courseId]);
+      expect(notEnrolled.body.data.courses).toEqual([]);
+      await request(app)
+        .get(`/api/org/${organisationId}/courses/${courseId}`)
+        .set('Authorization', `Bearer ${classmateToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('PUT /api/org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId/submission', () => {
+    it('should only take work from students of the section', async () => {
+      const response = await submit(classmateToken).expect(403);
+
+      expect(response.body.error.code).toBe('NOT_ENROLLED');
+    });
+
+    it('should lock work once it is graded', async () => {
+      await submit(pupilToken).expect(200);
+      await request(app)
+        .put(`${assignmentUrl()}/submissions/${pupilId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ score: 8, feedback: 'Good diagrams' })
+        .expect(200);
+
+      const response = await submit(pupilToken).expect(409);
+
+      expect(response.body.error.code).toBe('SUBMISSION_GRADED');
+    });
+
+    it('should stop taking work from a student moved to teacher', async () => {
+      await enrol(pupilId, 'teacher').expect(200);
+
+      const response = await submit(pupilToken).expect(403);
+
+      expect(response.body.error.code).toBe('NOT_ENROLLED');
+      await enrol(pupilId, 'student').expect(200);
+    });
+  });
+
+  describe('DELETE /api/org/:organisationId/courses/:courseId/sections/:sectionId/enrolments/:userId', () => {
+    it('should remove the student from the section, keeping their work', async () => {
+      await request(app)
+        .delete(`${sectionUrl()}/enrolments/${pupilId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const again = await request(app)
+        .delete(`${sectionUrl()}/enrolments/${pupilId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(again.body.error.code).toBe('NOT_ENROLLED');
+      const kept = await mockDb.select().from(assignmentSubmissions).where(eq(assignmentSubmissions.userId, pupilId));
+      expect(kept).toEqual([expect.objectContaining({ assignmentId, status: 'graded' })]);
+    });
+  });
+});
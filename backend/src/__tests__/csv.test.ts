@@ -0,0 +1,29 @@
+import { parseCsv, toCsvRow } from '../utils/csv';
+
+describe('CSV utilities', () => {
+  it('should parse quoted fields, doubled quotes and embedded newlines', () => {
+    const records = parseCsv('email,name\r\n"a@school.test","Smith, ""Jo""\nJr"\n');
+
+    expect(records).toEqual([
+      ['email', 'name'],
+      ['a@school.test', 'Smith, "Jo"\nJr'],
+    ]);
+  });
+
+  it('should skip a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFemail\n\nb@school.test\n\n')).toEqual([['email'], ['b@school.test']]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('should round-trip rows written by toCsvRow', () => {
+    const row = ['x@school.test', 'O\'Brien, Pat', 'line\nbreak', ''];
+    expect(parseCsv(toCsvRow(row))).toEqual([row]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('"open,field\n')).toThrow('Unterminated quoted field');
+  });
+});
@@ -0,0 +1,270 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { addMonths, billingService } from '../services/billing';
+import { authService } from '../services/auth';
+import { domainJoinService } from '../services/domainJoin';
+import { roleService } from '../services/role';
+import {
+  billingPlans,
+  organisationJoinRequests,
+  organisations,
+  organisationSubscriptions,
+  permissions,
+  roles,
+  userRoles,
+  users,
+} from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Domain verification and auto-join API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminToken: string;
+  // Holds only user.invite, so may review join requests
+  let recruiterToken: string;
+  let adminRoleId: string;
+  const txtRecords = new Map<string, string[][]>();
+
+  const systemRoleId = async (name: string) => {
+    const [role] = await mockDb.select().from(roles).where(and(eq(roles.name, name), isNull(roles.organisationId)));
+    return role.id;
+  };
+
+  const signUp = async (email: string) => {
+    const [user] = await mockDb.insert(users).values({ email, passwordHash: '', emailVerified: true }).returning();
+    await domainJoinService.applyEmailDomainPolicy(user.id);
+    return user.id;
+  };
+
+  const pendingRequestFor = async (userId: string) => {
+    const [joinRequest] = await mockDb.select().from(organisationJoinRequests)
+      .where(and(eq(organisationJoinRequests.userId, userId), eq(organisationJoinRequests.status, 'pending')));
+    return joinRequest;
+  };
+
+  const roleNamesOf = async (userId: string) =>
+    (await mockDb.select({ name: roles.name }).from(userRoles)
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.organisationId, organisationId))))
+      .map(row => row.name);
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+    domainJoinService.setResolver({ resolveTxt: async (hostname) => txtRecords.get(hostname) || [] });
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: admin.id })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(admin.id, organisationId, 'ADMIN', admin.id);
+    ({ accessToken: adminToken } = (await authService.completeExternalLogin(admin.id, 'sso')).tokens);
+    adminRoleId = await systemRoleId('ADMIN');
+
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 50,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: addMonths(new Date(), 1),
+    });
+
+    const [invitePermission] = await mockDb.select().from(permissions).where(eq(permissions.name, 'user.invite'));
+    const recruiterRole = await roleService.createRole(
+      organisationId,
+      { name: 'Recruiter', permissionIds: [invitePermission.id] },
+      admin.id
+    );
+    const [recruiter] = await mockDb.insert(users).values({ email: 'office@school.test', passwordHash: '' }).returning();
+    await mockDb.insert(userRoles).values({ userId: recruiter.id, roleId: recruiterRole.id, organisationId, assignedBy: admin.id });
+    ({ accessToken: recruiterToken } = (await authService.completeExternalLogin(recruiter.id, 'sso')).tokens);
+
+    await domainJoinService.setDomain(organisationId, 'school.test', admin.id);
+    const [{ domainVerificationToken }] = await mockDb.select().from(organisations).where(eq(organisations.id, organisationId));
+    txtRecords.set('_edurank-verification.school.test', [[`edurank-verification=${domainVerificationToken}`]]);
+    await domainJoinService.verifyDomain(organisationId, admin.id);
+    await domainJoinService.updateAutoJoin(organisationId, { mode: 'approval' }, admin.id);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('POST /api/org/:organisationId/domain/verify', () => {
+    let academyId: string;
+    let academyToken: string;
+
+    const verify = () =>
+      request(app)
+        .post(`/api/org/${academyId}/domain/verify`)
+        .set('Authorization', `Bearer ${academyToken}`);
+
+    const setDomain = (domain: string) =>
+      request(app)
+        .put(`/api/org/${academyId}/domain`)
+        .set('Authorization', `Bearer ${academyToken}`)
+        .send({ domain })
+        .expect(200);
+
+    beforeAll(async () => {
+      const [head] = await mockDb.insert(users).values({ email: 'head@academy.test', passwordHash: '' }).returning();
+      const [academy] = await mockDb.insert(organisations)
+        .values({ name: 'Academy', slug: 'academy', createdBy: head.id })
+        .returning();
+      academyId = academy.id;
+      await roleService.grantSystemRole(head.id, academyId, 'ADMIN', head.id);
+      ({ accessToken: academyToken } = (await authService.completeExternalLogin(head.id, 'sso')).tokens);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post(`/api/org/${academyId}/domain/verify`)
+        .expect(401);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should verify the domain once its TXT record is published', async () => {
+      const { recordName, recordValue } = (await setDomain('Academy.test')).body.data.domain;
+      expect(recordName).toBe('_edurank-verification.academy.test');
+
+      const missing = await verify().expect(422);
+      expect(missing.body.error.code).toBe('DOMAIN_VERIFICATION_FAILED');
+
+      // Long TXT values can arrive in chunks
+      txtRecords.set(recordName, [['v=spf1 -all'], [recordValue.slice(0, 12), recordValue.slice(12)]]);
+      const response = await verify().expect(200);
+
+      expect(response.body.data.domain).toMatchObject({ domain: 'academy.test', verified: true });
+    });
+
+    it('should not verify a domain another organisation has verified', async () => {
+      await setDomain('school.test');
+
+      const response = await verify().expect(409);
+
+      expect(response.body.error.code).toBe('DOMAIN_TAKEN');
+    });
+  });
+
+  describe('PUT /api/org/:organisationId/auto-join', () => {
+    it('should not make everyone who joins an admin', async () => {
+      const response = await request(app)
+        .put(`/api/org/${organisationId}/auto-join`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ mode: 'automatic', roleId: adminRoleId })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('PERMISSION_NOT_GRANTABLE');
+      const [organisation] = await mockDb.select().from(organisations).where(eq(organisations.id, organisationId));
+      expect(organisation.autoJoinMode).toBe('approval');
+    });
+  });
+
+  describe('POST /api/org/:organisationId/join-requests/:requestId/approve', () => {
+    it('should not approve with a role the reviewer cannot grant', async () => {
+      const userId = await signUp('ambitious@school.test');
+      const joinRequest = await pendingRequestFor(userId);
+
+      const response = await request(app)
+        .post(`/api/org/${organisationId}/join-requests/${joinRequest.id}/approve`)
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .send({ roleId: adminRoleId })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('PERMISSION_NOT_GRANTABLE');
+      expect(await pendingRequestFor(userId)).toBeDefined();
+      expect(await roleNamesOf(userId)).toEqual([]);
+    });
+
+    it('should approve with the default role', async () => {
+      const userId = await signUp('pupil@school.test');
+      const joinRequest = await pendingRequestFor(userId);
+
+      await request(app)
+        .post(`/api/org/${organisationId}/join-requests/${joinRequest.id}/approve`)
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .expect(200);
+
+      expect(await roleNamesOf(userId)).toEqual(['STUDENT']);
+    });
+  });
+
+  describe('POST /api/org/:organisationId/join-requests/:requestId/reject', () => {
+    it('should reject the request without adding the user', async () => {
+      const userId = await signUp('stranger@school.test');
+      const joinRequest = await pendingRequestFor(userId);
+
+      await request(app)
+        .post(`/api/org/${organisationId}/join-requests/${joinRequest.id}/reject`)
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .expect(200);
+
+      const [reviewed] = await mockDb.select().from(organisationJoinRequests)
+        .where(eq(organisationJoinRequests.id, joinRequest.id));
+      expect(reviewed.status).toBe('rejected');
+      expect(await roleNamesOf(userId)).toEqual([]);
+    });
+  });
+
+  describe('automatic join', () => {
+    beforeAll(async () => {
+      await request(app)
+        .put(`/api/org/${organisationId}/auto-join`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ mode: 'automatic' })
+        .expect(200);
+    });
+
+    it('should add people who sign up with a verified email on the domain', async () => {
+      const userId = await signUp('new.pupil@school.test');
+
+      expect(await roleNamesOf(userId)).toEqual(['STUDENT']);
+      expect(await pendingRequestFor(userId)).toBeUndefined();
+    });
+
+    it('should wait until the email address is verified', async () => {
+      const [user] = await mockDb.insert(users)
+        .values({ email: 'unverified@school.test', passwordHash: '' })
+        .returning();
+      await domainJoinService.applyEmailDomainPolicy(user.id);
+
+      expect(await roleNamesOf(user.id)).toEqual([]);
+      expect(await pendingRequestFor(user.id)).toBeUndefined();
+
+      await mockDb.update(users).set({ emailVerified: true }).where(eq(users.id, user.id));
+      await domainJoinService.applyEmailDomainPolicy(user.id);
+
+      expect(await roleNamesOf(user.id)).toEqual(['STUDENT']);
+    });
+
+    it('should ask for approval instead when no seat is free', async () => {
+      const { used } = await billingService.getSeatUsage(organisationId);
+      await mockDb.update(organisationSubscriptions)
+        .set({ seats: used })
+        .where(eq(organisationSubscriptions.organisationId, organisationId));
+
+      const userId = await signUp('waiting@school.test');
+
+      expect(await roleNamesOf(userId)).toEqual([]);
+      expect(await pendingRequestFor(userId)).toBeDefined();
+      await mockDb.update(organisationSubscriptions)
+        .set({ seats: 50 })
+        .where(eq(organisationSubscriptions.organisationId, organisationId));
+    });
+
+    it('should leave people on other domains alone', async () => {
+      const userId = await signUp('parent@elsewhere.test');
+
+      const memberships = await mockDb.select().from(userRoles).where(eq(userRoles.userId, userId));
+      expect(memberships).toEqual([]);
+      expect(await pendingRequestFor(userId)).toBeUndefined();
+    });
+  });
+});
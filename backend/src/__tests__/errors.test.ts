@@ -0,0 +1,50 @@
+import { Response } from 'express';
+import { AuthenticationError, BillingError, RoleError } from '../types/auth';
+import { isServiceError, sendServiceError } from '../utils/errors';
+
+function mockResponse() {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('Service errors', () => {
+  it('should recognise the service error classes only', () => {
+    expect(isServiceError(new RoleError('Role not found', 'ROLE_NOT_FOUND', 404))).toBe(true);
+    expect(isServiceError(new AuthenticationError('Invalid token'))).toBe(true);
+    expect(isServiceError(Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED', status: 503 }))).toBe(false);
+    expect(isServiceError('failed')).toBe(false);
+  });
+
+  it('should send a service error with its own status and code', () => {
+    const res = mockResponse();
+
+    sendServiceError(res as unknown as Response, new BillingError('No seats left', 'SEAT_LIMIT_REACHED', 402), 'FAILED', 'Failed');
+
+    expect(res.status).toHaveBeenCalledWith(402);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: { code: 'SEAT_LIMIT_REACHED', message: 'No seats left' },
+    });
+  });
+
+  it('should send anything else as a 500 with the fallback code', () => {
+    const res = mockResponse();
+
+    sendServiceError(res as unknown as Response, new Error('Connection refused'), 'FETCH_FAILED', 'Failed to fetch');
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: { code: 'FETCH_FAILED', message: 'Connection refused' },
+    });
+
+    sendServiceError(res as unknown as Response, undefined, 'FETCH_FAILED', 'Failed to fetch');
+    expect(res.json).toHaveBeenLastCalledWith({
+      success: false,
+      error: { code: 'FETCH_FAILED', message: 'Failed to fetch' },
+    });
+  });
+});
@@ -0,0 +1,21 @@
+// Runs PGlite outside jest's module sandbox, which does not support the
+// dynamic import() PGlite loads Postgres with. See testDatabase.ts.
+const { parentPort } = require('worker_threads');
+const { PGlite } = require('@electric-sql/pglite');
+const { uuid_ossp } = require('@electric-sql/pglite/contrib/uuid_ossp');
+
+const pg = new PGlite({ extensions: { uuid_ossp } });
+
+parentPort.on('message', async ({ id, type, sql, params, rowMode }) => {
+  try {
+    if (type === 'exec') {
+      await pg.exec(sql);
+      parentPort.postMessage({ id });
+    } else {
+      const result = await pg.query(sql, params, { rowMode });
+      parentPort.postMessage({ id, rows: result.rows, rowCount: result.affectedRows ?? result.rows.length });
+    }
+  } catch (error) {
+    parentPort.postMessage({ id, error: { message: error.message, code: error.code } });
+  }
+});
@@ -0,0 +1,208 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { addMonths } from '../services/billing';
+import { authService } from '../services/auth';
+import { inviteService } from '../services/invite';
+import { mailerService } from '../services/mailer';
+import { roleService } from '../services/role';
+import { billingPlans, invites, organisations, organisationSubscriptions, roles, userRoles, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Invites API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let otherOrganisationId: string;
+  let adminId: string;
+  let accessToken: string;
+  let studentRoleId: string;
+
+  const invite = async (email: string, expiresAt = inviteService.getExpiryDate()) => {
+    const { token, tokenHash } = inviteService.generateToken();
+    const [row] = await mockDb.insert(invites)
+      .values({ organisationId, invitedBy: adminId, email, roleId: studentRoleId, tokenHash, expiresAt })
+      .returning();
+    return { id: row.id, token };
+  };
+
+  const statusOf = async (inviteId: string) =>
+    (await mockDb.select().from(invites).where(eq(invites.id, inviteId)))[0].status;
+
+  const organisationsOf = async (email: string) =>
+    (await mockDb.select({ organisationId: userRoles.organisationId }).from(userRoles)
+      .innerJoin(users, eq(users.id, userRoles.userId))
+      .where(eq(users.email, email)))
+      .map(row => row.organisationId);
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    adminId = admin.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+    const [otherOrganisation] = await mockDb.insert(organisations)
+      .values({ name: 'Other School', slug: 'other-school', createdBy: adminId })
+      .returning();
+    otherOrganisationId = otherOrganisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    ({ accessToken } = (await authService.completeExternalLogin(adminId, 'sso')).tokens);
+
+    const [studentRole] = await mockDb.select().from(roles).where(and(eq(roles.name, 'STUDENT'), isNull(roles.organisationId)));
+    studentRoleId = studentRole.id;
+
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 50,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: addMonths(new Date(), 1),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('GET /api/invites/:token', () => {
+    it('should show the organisation and role of a pending invite', async () => {
+      const { id, token } = await invite('pupil@school.test');
+
+      const response = await request(app).get(`/api/invites/${token}`).expect(200);
+
+      expect(response.body.data.invite).toMatchObject({
+        id,
+        email: 'pupil@school.test',
+        organisation: { id: organisationId, slug: 'school' },
+        role: { id: studentRoleId, name: 'STUDENT' },
+        existingAccount: false,
+      });
+    });
+
+    it('should not find an unknown token', async () => {
+      const { token } = inviteService.generateToken();
+
+      const response = await request(app).get(`/api/invites/${token}`).expect(404);
+
+      expect(response.body.error.code).toBe('INVITE_NOT_FOUND');
+    });
+
+    it('should mark an invite past its expiry as expired', async () => {
+      const { id, token } = await invite('late@school.test', new Date(Date.now() - 60_000));
+
+      const response = await request(app).get(`/api/invites/${token}`).expect(410);
+
+      expect(response.body.error.code).toBe('INVITE_EXPIRED');
+      expect(await statusOf(id)).toBe('expired');
+    });
+  });
+
+  describe('POST /api/invites/accept', () => {
+    it('should create the account and add it to the organisation', async () => {
+      const { id, token } = await invite('new.pupil@school.test');
+
+      await request(app)
+        .post('/api/invites/accept')
+        .send({ token, password: 'password123', firstName: 'New' })
+        .expect(200);
+
+      expect(await statusOf(id)).toBe('accepted');
+      expect(await organisationsOf('new.pupil@school.test')).toEqual([organisationId]);
+    });
+
+    it('should not add an account that belongs to another organisation', async () => {
+      const [user] = await mockDb.insert(users)
+        .values({ email: 'taken@school.test', passwordHash: await authService.hashPassword('password123') })
+        .returning();
+      await roleService.grantSystemRole(user.id, otherOrganisationId, 'STUDENT', adminId);
+      const { id, token } = await invite('taken@school.test');
+
+      const response = await request(app)
+        .post('/api/invites/accept')
+        .send({ token, password: 'password123' })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('INVITE_ORGANISATION_MISMATCH');
+      expect(await statusOf(id)).toBe('pending');
+      expect(await organisationsOf('taken@school.test')).toEqual([otherOrganisationId]);
+    });
+
+    it('should not accept an invite revoked while it was being accepted', async () => {
+      await mockDb.insert(users).values({ email: 'slow@school.test', passwordHash: '' });
+      const { id, token } = await invite('slow@school.test');
+      jest.spyOn(authService, 'verifyPassword').mockImplementation(async () => {
+        await inviteService.revoke(organisationId, id, adminId);
+        return true;
+      });
+
+      const response = await request(app)
+        .post('/api/invites/accept')
+        .send({ token, password: 'password123' })
+        .expect(410);
+
+      expect(response.body.error.code).toBe('INVITE_NOT_PENDING');
+      expect(await statusOf(id)).toBe('cancelled');
+      expect(await organisationsOf('slow@school.test')).toEqual([]);
+    });
+  });
+
+  describe('POST /api/invites/decline', () => {
+    it('should decline the invite so it can no longer be used', async () => {
+      const { id, token } = await invite('no.thanks@school.test');
+
+      await request(app).post('/api/invites/decline').send({ token }).expect(200);
+
+      expect(await statusOf(id)).toBe('declined');
+      const response = await request(app).get(`/api/invites/${token}`).expect(410);
+      expect(response.body.error.code).toBe('INVITE_NOT_PENDING');
+    });
+  });
+
+  describe('POST /api/org/:organisationId/invite/:inviteId/resend', () => {
+    it('should replace the token and expiry of an expired invite', async () => {
+      const { id, token } = await invite('resend@school.test', new Date(Date.now() - 60_000));
+      const sendInviteEmail = jest.spyOn(mailerService, 'sendInviteEmail').mockImplementation(() => undefined);
+
+      await request(app)
+        .post(`/api/org/${organisationId}/invite/${id}/resend`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const newToken = new URL(sendInviteEmail.mock.calls[0][1].acceptUrl).searchParams.get('token')!;
+      expect(newToken).not.toBe(token);
+      await request(app).get(`/api/invites/${token}`).expect(404);
+      const response = await request(app).get(`/api/invites/${newToken}`).expect(200);
+      expect(new Date(response.body.data.invite.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('DELETE /api/org/:organisationId/invite/:inviteId', () => {
+    it('should cancel a pending invite once', async () => {
+      const { id, token } = await invite('revoked@school.test');
+
+      await request(app)
+        .delete(`/api/org/${organisationId}/invite/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      const again = await request(app)
+        .delete(`/api/org/${organisationId}/invite/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      expect(again.body.error.code).toBe('INVITE_NOT_REVOCABLE');
+      expect(await statusOf(id)).toBe('cancelled');
+      await request(app).post('/api/invites/accept').send({ token, password: 'password123' }).expect(410);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../index';
+import { LearningDataSource } from '../services/learningData';
+import { ltiService } from '../services/lti';
+import { roleService } from '../services/role';
+import {
+  billingPlans,
+  ltiLaunches,
+  ltiLoginStates,
+  ltiPlatforms,
+  ltiResourceLinks,
+  organisations,
+  organisationSubscriptions,
+  userRoles,
+  users,
+} from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('LTI API', () => {
+  describe('GET /api/lti/jwks', () => {
+    it('should publish the tool signing key', async () => {
+      const response = await request(app)
+        .get('/api/lti/jwks')
+        .expect(200);
+
+      expect(response.body.keys).toHaveLength(1);
+      expect(response.body.keys[0]).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' });
+      expect(response.body.keys[0].d).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/lti/login', () => {
+    it('should reject login initiation without an issuer', async () => {
+      const response = await request(app)
+        .post('/api/lti/login')
+        .type('form')
+        .send({ login_hint: 'user-1', target_link_uri: 'http://localhost:3001/api/lti/launch' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/lti/launch', () => {
+    it('should send the browser back to the frontend when the platform returns an error', async () => {
+      const response = await request(app)
+        .post('/api/lti/launch')
+        .type('form')
+        .send({ error: 'login_required', state: 'abc' })
+        .expect(302);
+
+      expect(response.headers.location).toContain('/lti/launch?error=LTI_PLATFORM_DENIED');
+    });
+  });
+
+  describe('POST /api/lti/grades', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post('/api/lti/grades')
+        .send({ launchId: '00000000-0000-4000-8000-000000000001' })
+        .expect(401);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
+
+describe('LTI grade passback', () => {
+  const scoreScope = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+  let database: TestDatabaseHandle;
+  let studentId: string;
+  let launchId: string;
+  const getQuizResult = jest.fn<ReturnType<LearningDataSource['getQuizResult']>, Parameters<LearningDataSource['getQuizResult']>>();
+  const fetchMock = jest.fn<Promise<Response>, [string, RequestInit]>();
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [student] = await mockDb.insert(users)
+      .values({ email: 'student@school.test', passwordHash: '' })
+      .returning();
+    studentId = student.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: studentId })
+      .returning();
+    const [platform] = await mockDb.insert(ltiPlatforms)
+      .values({
+        organisationId: organisation.id,
+        name: 'Moodle',
+        issuer: 'https://lms.school.test',
+        clientId: 'client-1',
+        deploymentIds: ['1'],
+        authLoginUrl: 'https://lms.school.test/auth',
+        authTokenUrl: 'https://lms.school.test/token',
+        jwksUrl: 'https://lms.school.test/jwks',
+        createdBy: studentId,
+      })
+      .returning();
+    const [link] = await mockDb.insert(ltiResourceLinks)
+      .values({ platformId: platform.id, resourceLinkId: 'link-1', targetType: 'quiz', targetId: '00000000-0000-4000-8000-0000000000aa' })
+      .returning();
+    const [launch] = await mockDb.insert(ltiLaunches)
+      .values({
+        resourceLinkId: link.id,
+        userId: studentId,
+        ltiUserId: 'lms-user-1',
+        lineItemUrl: 'https://lms.school.test/lineitems/7?type_id=3',
+        agsScopes: [scoreScope],
+      })
+      .returning();
+    launchId = launch.id;
+
+    ltiService.setLearningDataSource({
+      name: 'fake',
+      getLearnerStats: async () => [],
+      getActivity: async () => [],
+      getTopicMastery: async () => [],
+      getQuizResult,
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(async () => {
+    global.fetch = originalFetch;
+    await database.close();
+  });
+
+  beforeEach(() => {
+    getQuizResult.mockReset();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async (url: string) =>
+      new Response(url.endsWith('/token') ? JSON.stringify({ access_token: 'token-1', expires_in: 3600 }) : '{}')
+    );
+  });
+
+  it('should send the stored result rather than a client score', async () => {
+    getQuizResult.mockResolvedValue({ score: 70, correctAnswers: 7, totalQuestions: 10, completedAt: '2026-10-19T10:00:00Z' });
+
+    await ltiService.submitScore(studentId, { launchId, comment: 'Well done' });
+
+    expect(getQuizResult).toHaveBeenCalledWith('student@school.test', {
+      type: 'quiz',
+      id: '00000000-0000-4000-8000-0000000000aa',
+    });
+    const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    expect(url).toBe('https://lms.school.test/lineitems/7/scores?type_id=3');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      userId: 'lms-user-1',
+      scoreGiven: 7,
+      scoreMaximum: 10,
+      comment: 'Well done',
+    });
+  });
+
+  it('should reject the request when the student has no result', async () => {
+    getQuizResult.mockResolvedValue(null);
+
+    await expect(ltiService.submitScore(studentId, { launchId })).rejects.toMatchObject({ code: 'LTI_NO_RESULT', status: 409 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should not send grades for another user\'s launch', async () => {
+    await expect(ltiService.submitScore('00000000-0000-4000-8000-000000000002', { launchId }))
+      .rejects.toMatchObject({ code: 'LTI_LAUNCH_NOT_FOUND' });
+    expect(getQuizResult).not.toHaveBeenCalled();
+  });
+});
+
+describe('LTI launch seat limits', () => {
+  const issuer = 'https://lms.district.test';
+  const clientId = 'client-2';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const originalFetch = global.fetch;
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let platformId: string;
+
+  const setSeats = async (seats: number) => {
+    await mockDb.update(organisationSubscriptions)
+      .set({ seats })
+      .where(eq(organisationSubscriptions.organisationId, organisationId));
+  };
+
+  const launch = async (subject: string, email: string) => {
+    const state = randomUUID();
+    const nonce = randomUUID();
+    await mockDb.insert(ltiLoginStates).values({ state, platformId, nonce, expiresAt: new Date(Date.now() + 60000) });
+
+    const idToken = jwt.sign({
+      nonce,
+      email,
+      'https://purl.imsglobal.org/spec/lti/claim/version': '1.3.0',
+      'https://purl.imsglobal.org/spec/lti/claim/deployment_id': '1',
+      'https://purl.imsglobal.org/spec/lti/claim/message_type': 'LtiResourceLinkRequest',
+      'https://purl.imsglobal.org/spec/lti/claim/roles': ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+      'https://purl.imsglobal.org/spec/lti/claim/resource_link': { id: 'link-1' },
+    }, privateKey, { algorithm: 'RS256', keyid: 'platform-key', issuer, audience: clientId, subject, expiresIn: 300 });
+
+    return ltiService.handleLaunch(idToken, state);
+  };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@district.test', passwordHash: '' }).returning();
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'District', slug: 'district', createdBy: admin.id })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(admin.id, organisationId, 'ADMIN', admin.id);
+
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 1,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    });
+
+    const [platform] = await mockDb.insert(ltiPlatforms)
+      .values({
+        organisationId,
+        name: 'Canvas',
+        issuer,
+        clientId,
+        deploymentIds: ['1'],
+        authLoginUrl: `${issuer}/auth`,
+        authTokenUrl: `${issuer}/token`,
+        jwksUrl: `${issuer}/jwks`,
+        createdBy: admin.id,
+      })
+      .returning();
+    platformId = platform.id;
+
+    const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'platform-key', use: 'sig', alg: 'RS256' }] };
+    global.fetch = (async () => new Response(JSON.stringify(jwks))) as unknown as typeof fetch;
+  });
+
+  afterAll(async () => {
+    global.fetch = originalFetch;
+    await database.close();
+  });
+
+  it('should not provision a new member when every seat is taken', async () => {
+    await expect(launch('lms-student-1', 'pupil@district.test'))
+      .rejects.toMatchObject({ code: 'SEAT_LIMIT_REACHED', status: 402 });
+
+    const created = await mockDb.select().from(users).where(eq(users.email, 'pupil@district.test'));
+    expect(created).toHaveLength(0);
+  });
+
+  it('should let existing members launch after the seats run out', async () => {
+    await setSeats(2);
+    const first = await launch('lms-student-1', 'pupil@district.test');
+    expect(first.user.email).toBe('pupil@district.test');
+
+    await setSeats(1);
+    const again = await launch('lms-student-1', 'pupil@district.test');
+    expect(again.user.id).toBe(first.user.id);
+
+    const memberships = await mockDb.select().from(userRoles).where(eq(userRoles.organisationId, organisationId));
+    expect(memberships).toHaveLength(2);
+  });
+});
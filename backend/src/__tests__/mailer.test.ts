@@ -0,0 +1,113 @@
+import { ConsoleTransport, createTransportFromEnv, MailerService, MailMessage, MailTransport } from '../services/mailer';
+import { inviteEmail } from '../services/emailTemplates';
+import { logger } from '../utils/logger';
+
+class FakeTransport implements MailTransport {
+  readonly name = 'fake';
+  sent: MailMessage[] = [];
+
+  constructor(private failures: number = 0) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('SMTP unavailable');
+    }
+    this.sent.push(message);
+  }
+}
+
+describe('MailerService', () => {
+  it('should deliver queued mail through the transport', async () => {
+    const transport = new FakeTransport();
+    const mailer = new MailerService(transport, { baseDelayMs: 1 });
+
+    mailer.queueMail({ to: 'student@example.com', subject: 'Hello', text: 'Hi', html: '<p>Hi</p>' });
+    await mailer.flush();
+
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('student@example.com');
+    expect(transport.sent[0].from).toBeDefined();
+  });
+
+  it('should retry failed sends', async () => {
+    const transport = new FakeTransport(2);
+    const mailer = new MailerService(transport, { maxAttempts: 3, baseDelayMs: 1 });
+
+    mailer.queueMail({ to: 'teacher@example.com', subject: 'Retry', text: 'Retry', html: 'Retry' });
+    await mailer.flush();
+
+    expect(transport.sent).toHaveLength(1);
+    expect(mailer.pending).toBe(0);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const transport = new FakeTransport(5);
+    const mailer = new MailerService(transport, { maxAttempts: 2, baseDelayMs: 1 });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    mailer.queueMail({ to: 'admin@example.com', subject: 'Fail', text: 'Fail', html: 'Fail' });
+    await mailer.flush();
+
+    expect(transport.sent).toHaveLength(0);
+    expect(mailer.pending).toBe(0);
+  });
+});
+
+describe('Mail transports', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('should require a transport in production', () => {
+    process.env.NODE_ENV = 'production';
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SMTP_HOST;
+
+    expect(() => createTransportFromEnv()).toThrow('SMTP_HOST or MAIL_TRANSPORT');
+    expect(() => new MailerService().ensureTransport()).toThrow('SMTP_HOST or MAIL_TRANSPORT');
+
+    process.env.MAIL_TRANSPORT = 'console';
+    expect(createTransportFromEnv().name).toBe('console');
+  });
+
+  it('should default to the console outside production', () => {
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SMTP_HOST;
+
+    expect(createTransportFromEnv().name).toBe('console');
+  });
+
+  it('should not log the message body from the console transport', async () => {
+    const info = jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await new ConsoleTransport().send({
+      to: 'student@example.com',
+      subject: 'Reset your password',
+      text: 'https://app.example.com/reset-password?token=secret',
+      html: '<a href="https://app.example.com/reset-password?token=secret">Reset</a>',
+    });
+
+    expect(info).toHaveBeenCalledWith(expect.any(String), { to: 'student@example.com', subject: 'Reset your password' });
+    expect(JSON.stringify(info.mock.calls)).not.toContain('secret');
+    expect(log).not.toHaveBeenCalled();
+  });
+});
+
+describe('Email templates', () => {
+  it('should escape user-supplied values in HTML', () => {
+    const email = inviteEmail({
+      organisationName: '<script>alert(1)</script>',
+      roleName: 'STUDENT',
+      acceptUrl: 'https://app.example.com/invite?token=abc',
+      expiresAt: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.text).toContain('https://app.example.com/invite?token=abc');
+  });
+});
@@ -0,0 +1,144 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createHash, generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  buildAuthorizationUrl,
+  clearOidcCache,
+  discover,
+  exchangeCode,
+  generatePkce,
+  verifyIdToken,
+} from '../services/oidc';
+
+// A minimal local identity provider: discovery, JWKS and a token endpoint
+// that checks the PKCE verifier before issuing an ID token.
+describe('OIDC client', () => {
+  const clientId = 'edurank-test';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pendingCodes = new Map<string, { codeChallenge: string; nonce: string }>();
+  let server: Server;
+  let issuer: string;
+
+  const signIdToken = (claims: Record<string, unknown>, options: jwt.SignOptions = {}) =>
+    jwt.sign(
+      { sub: 'user-123', email: 'teacher@school.test', email_verified: true, ...claims },
+      privateKey,
+      { algorithm: 'RS256', keyid: 'test-key', issuer, audience: clientId, expiresIn: 300, ...options }
+    );
+
+  beforeAll(async () => {
+    const idp = express();
+    idp.use(express.urlencoded({ extended: false }));
+
+    idp.get('/.well-known/openid-configuration', (req, res) => {
+      res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    });
+
+    idp.get('/jwks', (req, res) => {
+      res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' }] });
+    });
+
+    idp.post('/token', (req, res) => {
+      const pending = pendingCodes.get(req.body.code);
+      const challenge = createHash('sha256').update(req.body.code_verifier || '').digest('base64url');
+      if (!pending || pending.codeChallenge !== challenge || req.body.client_id !== clientId) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+      pendingCodes.delete(req.body.code);
+      res.json({ id_token: signIdToken({ nonce: pending.nonce }), token_type: 'Bearer' });
+    });
+
+    await new Promise<void>(resolve => {
+      server = idp.listen(0, '127.0.0.1', () => resolve());
+    });
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    clearOidcCache();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should build an authorization URL with an S256 PKCE challenge', async () => {
+    const metadata = await discover(issuer);
+    const { codeVerifier, codeChallenge } = generatePkce();
+    const url = new URL(buildAuthorizationUrl(metadata, {
+      clientId,
+      redirectUri: 'http://localhost:3001/api/sso/callback',
+      scopes: ['openid', 'email'],
+      state: 'state-1',
+      nonce: 'nonce-1',
+      codeChallenge,
+    }));
+
+    expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toBe(
+      createHash('sha256').update(codeVerifier).digest('base64url')
+    );
+    expect(url.searchParams.get('scope')).toBe('openid email');
+  });
+
+  it('should exchange a code and verify the ID token', async () => {
+    const metadata = await discover(issuer);
+    const { codeVerifier, codeChallenge } = generatePkce();
+    pendingCodes.set('code-1', { codeChallenge, nonce: 'nonce-1' });
+
+    const tokens = await exchangeCode(metadata, {
+      clientId,
+      code: 'code-1',
+      redirectUri: 'http://localhost:3001/api/sso/callback',
+      codeVerifier,
+    });
+    const claims = await verifyIdToken(tokens.id_token, { metadata, clientId, nonce: 'nonce-1' });
+
+    expect(claims.sub).toBe('user-123');
+    expect(claims.email).toBe('teacher@school.test');
+  });
+
+  it('should reject a code exchanged with the wrong verifier', async () => {
+    const metadata = await discover(issuer);
+    const { codeChallenge } = generatePkce();
+    pendingCodes.set('code-2', { codeChallenge, nonce: 'nonce-2' });
+
+    await expect(exchangeCode(metadata, {
+      clientId,
+      code: 'code-2',
+      redirectUri: 'http://localhost:3001/api/sso/callback',
+      codeVerifier: generatePkce().codeVerifier,
+    })).rejects.toMatchObject({ code: 'SSO_PROVIDER_ERROR' });
+  });
+
+  it('should reject ID tokens with the wrong nonce or audience', async () => {
+    const metadata = await discover(issuer);
+
+    await expect(verifyIdToken(signIdToken({ nonce: 'other' }), { metadata, clientId, nonce: 'expected' }))
+      .rejects.toMatchObject({ code: 'SSO_INVALID_ID_TOKEN' });
+
+    await expect(verifyIdToken(
+      signIdToken({ nonce: 'expected' }, { audience: 'someone-else' }),
+      { metadata, clientId, nonce: 'expected' }
+    )).rejects.toMatchObject({ code: 'SSO_INVALID_ID_TOKEN' });
+  });
+
+  it('should reject ID tokens signed by an unknown key', async () => {
+    const metadata = await discover(issuer);
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const forged = jwt.sign(
+      { sub: 'user-123', nonce: 'n' },
+      otherKey,
+      { algorithm: 'RS256', keyid: 'test-key', issuer, audience: clientId, expiresIn: 300 }
+    );
+
+    await expect(verifyIdToken(forged, { metadata, clientId, nonce: 'n' }))
+      .rejects.toMatchObject({ code: 'SSO_INVALID_ID_TOKEN' });
+  });
+});
@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import request from 'supertest';
+import app from '../index';
+import { generateApiDocument, OPENAPI_FILE, OpenApiDocument } from '../openapi/generator';
+
+describe('OpenAPI document', () => {
+  const document = generateApiDocument();
+
+  it('should match the committed openapi.json (run `npm run openapi`)', () => {
+    const committed: OpenApiDocument = JSON.parse(readFileSync(OPENAPI_FILE, 'utf8'));
+    expect(document).toEqual(committed);
+  });
+
+  it('should describe request bodies from the route validators', () => {
+    const schema = document.paths['/api/auth/login'].post?.requestBody?.content['application/json'].schema;
+
+    expect(schema?.properties?.email).toEqual({ type: 'string', format: 'email' });
+    expect(schema?.required).toEqual(['email', 'password']);
+  });
+
+  it('should describe path parameters, security and permissions', () => {
+    const operation = document.paths['/api/org/{organisationId}/api-keys'].post;
+
+    expect(operation?.parameters).toContainEqual(
+      expect.objectContaining({ name: 'organisationId', in: 'path', required: true })
+    );
+    // API keys cannot manage API keys
+    expect(operation?.security).toEqual([{ bearerAuth: [] }]);
+    expect(operation?.['x-permissions']).toEqual(['api_key.manage']);
+    expect(operation?.requestBody?.content['application/json'].schema.properties?.scopes.type).toBe('array');
+  });
+
+  it('should give every operation a unique operationId', () => {
+    const ids = Object.values(document.paths).flatMap(operations =>
+      Object.values(operations).map(operation => operation.operationId)
+    );
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  describe('GET /api/openapi.json', () => {
+    it('should serve the document', async () => {
+      const response = await request(app)
+        .get('/api/openapi.json')
+        .expect(200);
+
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(response.body.paths['/api/auth/login']).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { authService } from '../services/auth';
+import { inviteService } from '../services/invite';
+import { organisationService } from '../services/organisation';
+import { roleService } from '../services/role';
+import { invites, organisations, roles, sessions, userRoles, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Organisations API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+  let accessToken: string;
+
+  const systemRoleId = async (name: string) => {
+    const [role] = await mockDb.select().from(roles).where(and(eq(roles.name, name), isNull(roles.organisationId)));
+    return role.id;
+  };
+
+  const addMember = async (
+    values: { email: string; firstName?: string; lastName?: string; lastLoginAt?: Date; deletedAt?: Date },
+    roleName: string,
+    options: { organisationId?: string; expiresAt?: Date } = {}
+  ) => {
+    const [user] = await mockDb.insert(users).values({ passwordHash: '', ...values }).returning();
+    await mockDb.insert(userRoles).values({
+      userId: user.id,
+      roleId: await systemRoleId(roleName),
+      organisationId: options.organisationId ?? organisationId,
+      assignedBy: adminId,
+      expiresAt: options.expiresAt,
+    });
+    return user.id;
+  };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    adminId = admin.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    ({ accessToken } = (await authService.completeExternalLogin(adminId, 'sso')).tokens);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('GET /api/org/:organisationId/users', () => {
+    const listMembers = (query: Record<string, string | number> = {}) =>
+      request(app)
+        .get(`/api/org/${organisationId}/users`)
+        .query(query)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+    const emailsOf = (response: request.Response) =>
+      response.body.data.map((member: { email: string }) => member.email);
+
+    beforeAll(async () => {
+      await mockDb.update(users).set({ lastLoginAt: new Date('2026-01-05T09:00:00Z') }).where(eq(users.id, adminId));
+      await addMember({ email: 'ada@school.test', firstName: 'Ada', lastName: 'Lovelace', lastLoginAt: new Date('2026-01-03T09:00:00Z') }, 'TEACHER');
+      await addMember({ email: 'alan@school.test', firstName: 'Alan', lastName: 'Turing' }, 'TEACHER');
+      await addMember({ email: 'grace@school.test', firstName: 'Grace', lastName: 'Hopper', lastLoginAt: new Date('2026-01-04T09:00:00Z') }, 'STUDENT');
+
+      // Not members: deleted, lapsed or in another organisation
+      await addMember({ email: 'left@school.test', deletedAt: new Date() }, 'STUDENT');
+      await addMember({ email: 'supply@school.test' }, 'TEACHER', { expiresAt: new Date('2026-01-01T00:00:00Z') });
+      const [otherOrganisation] = await mockDb.insert(organisations)
+        .values({ name: 'Other School', slug: 'other-school', createdBy: adminId })
+        .returning();
+      await addMember({ email: 'pupil@other.test' }, 'STUDENT', { organisationId: otherOrganisation.id });
+    });
+
+    it('should list active members with their roles, most recent sign-in first', async () => {
+      const response = await listMembers().expect(200);
+
+      expect(emailsOf(response)).toEqual(['admin@school.test', 'grace@school.test', 'ada@school.test', 'alan@school.test']);
+      expect(response.body.data[0].roles).toEqual([expect.objectContaining({ name: 'ADMIN', organisationId })]);
+      expect(response.body.meta.pagination).toEqual({ page: 1, limit: 20, total: 4, totalPages: 1 });
+    });
+
+    it('should filter by role name', async () => {
+      const response = await listMembers({ role: 'TEACHER' }).expect(200);
+
+      expect(emailsOf(response)).toEqual(['ada@school.test', 'alan@school.test']);
+    });
+
+    it('should search email and names, treating wildcards literally', async () => {
+      const byName = await listMembers({ search: 'hopper' }).expect(200);
+      const byEmail = await listMembers({ search: 'ALAN@' }).expect(200);
+      const wildcard = await listMembers({ search: '%' }).expect(200);
+
+      expect(emailsOf(byName)).toEqual(['grace@school.test']);
+      expect(emailsOf(byEmail)).toEqual(['alan@school.test']);
+      expect(wildcard.body.data).toEqual([]);
+      expect(wildcard.body.meta.pagination.total).toBe(0);
+    });
+
+    it('should page through members sorted by last sign-in', async () => {
+      const response = await listMembers({ sortOrder: 'asc', limit: 2, page: 2 }).expect(200);
+
+      // Members who never signed in come first
+      expect(emailsOf(response)).toEqual(['grace@school.test', 'admin@school.test']);
+      expect(response.body.meta.pagination).toEqual({ page: 2, limit: 2, total: 4, totalPages: 2 });
+    });
+
+    it('should reject a page size over 100', async () => {
+      const response = await listMembers({ limit: 101 }).expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('deleting and restoring', () => {
+    let closingId: string;
+    let closingToken: string;
+
+    const listMembers = () =>
+      request(app)
+        .get(`/api/org/${closingId}/users`)
+        .set('Authorization', `Bearer ${closingToken}`);
+
+    beforeAll(async () => {
+      const [head] = await mockDb.insert(users).values({ email: 'head@closing.test', passwordHash: '' }).returning();
+      const [organisation] = await mockDb.insert(organisations)
+        .values({ name: 'Closing School', slug: 'closing-school', createdBy: head.id })
+        .returning();
+      closingId = organisation.id;
+      await roleService.grantSystemRole(head.id, closingId, 'ADMIN', head.id);
+      ({ accessToken: closingToken } = (await authService.completeExternalLogin(head.id, 'sso')).tokens);
+    });
+
+    it('should only delete when the slug is confirmed', async () => {
+      const response = await request(app)
+        .delete(`/api/org/${closingId}`)
+        .set('Authorization', `Bearer ${closingToken}`)
+        .send({ confirmSlug: 'school' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('CONFIRMATION_MISMATCH');
+      await listMembers().expect(200);
+    });
+
+    it('should close a deleted organisation until it is restored', async () => {
+      const deleted = await request(app)
+        .delete(`/api/org/${closingId}`)
+        .set('Authorization', `Bearer ${closingToken}`)
+        .send({ confirmSlug: 'closing-school', reason: 'Merged with another school' })
+        .expect(200);
+
+      const restoreUntil = new Date(deleted.body.data.restoreUntil).getTime();
+      expect(restoreUntil).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      expect((await listMembers().expect(410)).body.error.code).toBe('ORGANISATION_DELETED');
+
+      await request(app)
+        .post(`/api/org/${closingId}/restore`)
+        .set('Authorization', `Bearer ${closingToken}`)
+        .expect(200);
+
+      await listMembers().expect(200);
+      const [organisation] = await mockDb.select().from(organisations).where(eq(organisations.id, closingId));
+      expect(organisation).toMatchObject({ deletedAt: null, purgeAfter: null });
+    });
+
+    it('should not restore once the grace period has ended', async () => {
+      await mockDb.update(organisations)
+        .set({ deletedAt: new Date(), purgeAfter: new Date(Date.now() - 60_000) })
+        .where(eq(organisations.id, closingId));
+
+      const response = await request(app)
+        .post(`/api/org/${closingId}/restore`)
+        .set('Authorization', `Bearer ${closingToken}`)
+        .expect(410);
+
+      expect(response.body.error.code).toBe('RESTORE_EXPIRED');
+    });
+  });
+
+  describe('purging deleted organisations', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it('should remove everything but the tombstone once the grace period ends', async () => {
+      const [head] = await mockDb.insert(users).values({ email: 'head@old.test', passwordHash: '' }).returning();
+      const [organisation] = await mockDb.insert(organisations)
+        .values({ name: 'Old School', slug: 'old-school', createdBy: head.id })
+        .returning();
+      const oldId = organisation.id;
+      await roleService.grantSystemRole(head.id, oldId, 'ADMIN', head.id);
+      const pupilId = await addMember({ email: 'pupil@old.test', firstName: 'Pat' }, 'STUDENT', { organisationId: oldId });
+      await authService.completeExternalLogin(pupilId, 'sso');
+      // Also a member of the organisation that stays
+      const governorId = await addMember({ email: 'governor@old.test' }, 'TEACHER', { organisationId: oldId });
+      await roleService.grantSystemRole(governorId, organisationId, 'STUDENT', adminId);
+      await roleService.createRole(oldId, { name: 'Prefects' }, head.id);
+      const { tokenHash } = inviteService.generateToken();
+      await mockDb.insert(invites).values({
+        organisationId: oldId,
+        invitedBy: head.id,
+        email: 'new@old.test',
+        roleId: await systemRoleId('STUDENT'),
+        tokenHash,
+        expiresAt: inviteService.getExpiryDate(),
+      });
+      await mockDb.update(organisations)
+        .set({ deletedAt: new Date(Date.now() - 31 * DAY_MS), purgeAfter: new Date(Date.now() - 2 * DAY_MS) })
+        .where(eq(organisations.id, oldId));
+
+      // The organisation above whose restore window has only just ended is not due yet
+      expect(await organisationService.purgeExpired(new Date(Date.now() - DAY_MS))).toBe(1);
+
+      const [tombstone] = await mockDb.select().from(organisations).where(eq(organisations.id, oldId));
+      expect(tombstone).toMatchObject({ name: 'Deleted organisation', slug: `deleted-${oldId}` });
+      expect(tombstone.purgedAt).not.toBeNull();
+      expect(await mockDb.select().from(invites).where(eq(invites.organisationId, oldId))).toEqual([]);
+      expect(await mockDb.select().from(roles).where(eq(roles.organisationId, oldId))).toEqual([]);
+      expect(await mockDb.select().from(userRoles).where(eq(userRoles.organisationId, oldId))).toEqual([]);
+
+      const [pupil] = await mockDb.select().from(users).where(eq(users.id, pupilId));
+      expect(pupil).toMatchObject({ email: `deleted-${pupilId}@deleted.invalid`, firstName: null });
+      expect(pupil.deletedAt).not.toBeNull();
+      expect(await mockDb.select().from(sessions).where(eq(sessions.userId, pupilId))).toEqual([]);
+
+      const [governor] = await mockDb.select().from(users).where(eq(users.id, governorId));
+      expect(governor).toMatchObject({ email: 'governor@old.test', deletedAt: null });
+
+      await expect(organisationService.restore(oldId, head.id)).rejects.toMatchObject({ code: 'NOT_FOUND', status: 404 });
+    });
+  });
+});
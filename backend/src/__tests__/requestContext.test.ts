@@ -0,0 +1,44 @@
+import request from 'supertest';
+import app from '../index';
+
+describe('Request IDs', () => {
+  it('should assign a request ID and return it in the header and meta', async () => {
+    const response = await request(app)
+      .get('/health')
+      .expect(200);
+
+    const requestId = response.headers['x-request-id'];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body.meta.requestId).toBe(requestId);
+    expect(response.body.meta.timestamp).toBeDefined();
+  });
+
+  it('should propagate the caller\'s request ID', async () => {
+    const response = await request(app)
+      .get('/api/unknown')
+      .set('X-Request-Id', 'support-ticket-42')
+      .expect(404);
+
+    expect(response.headers['x-request-id']).toBe('support-ticket-42');
+    expect(response.body.meta.requestId).toBe('support-ticket-42');
+  });
+
+  it('should replace a malformed request ID', async () => {
+    const response = await request(app)
+      .get('/health')
+      .set('X-Request-Id', 'not valid <script>')
+      .expect(200);
+
+    expect(response.headers['x-request-id']).not.toBe('not valid <script>');
+    expect(response.body.meta.requestId).toBe(response.headers['x-request-id']);
+  });
+
+  it('should add meta to responses sent by middleware', async () => {
+    const response = await request(app)
+      .get('/api/org/00000000-0000-0000-0000-000000000000/audit?actorId=invalid')
+      .expect(401);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.meta.requestId).toBe(response.headers['x-request-id']);
+  });
+});
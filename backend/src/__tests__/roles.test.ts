@@ -0,0 +1,163 @@
+import { eq, inArray } from 'drizzle-orm';
+import { roleService } from '../services/role';
+import { organisations, permissions, roles, userRoles, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Role service', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+  let managerId: string;
+  let studentId: string;
+  const permissionIds = new Map<string, string>();
+
+  const ids = (...names: string[]) => names.map(name => permissionIds.get(name)!);
+
+  const createUser = async (email: string) => {
+    const [user] = await mockDb.insert(users).values({ email, passwordHash: '' }).returning();
+    return user.id;
+  };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    adminId = await createUser('admin@school.test');
+    managerId = await createUser('manager@school.test');
+    studentId = await createUser('student@school.test');
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    await roleService.grantSystemRole(managerId, organisationId, 'STUDENT', adminId);
+    await roleService.grantSystemRole(studentId, organisationId, 'STUDENT', adminId);
+
+    const rows = await mockDb.select({ id: permissions.id, name: permissions.name }).from(permissions);
+    rows.forEach(row => permissionIds.set(row.name, row.id));
+
+    // Besides STUDENT, the manager may only manage roles and view courses
+    const managers = await roleService.createRole(organisationId, {
+      name: 'Role managers',
+      permissionIds: ids('role.view', 'role.manage', 'course.view'),
+    }, adminId);
+    await roleService.assignRole(organisationId, managerId, managers.id, adminId);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it('should create, list, rename and delete a custom role', async () => {
+    const role = await roleService.createRole(organisationId, {
+      name: 'Assistants',
+      description: 'Teaching assistants',
+      permissionIds: ids('course.view', 'quiz.view'),
+    }, adminId);
+
+    expect(role).toMatchObject({ name: 'Assistants', isSystemRole: false, organisationId });
+    expect(role.permissions).toEqual(['course.view', 'quiz.view']);
+
+    const listed = await roleService.listRoles(organisationId);
+    expect(listed.map(r => r.name)).toEqual(expect.arrayContaining(['ADMIN', 'Assistants', 'Role managers']));
+
+    await expect(roleService.createRole(organisationId, { name: 'Assistants' }, adminId))
+      .rejects.toMatchObject({ code: 'ROLE_EXISTS' });
+
+    const renamed = await roleService.updateRole(organisationId, role.id, { name: 'Tutors' }, adminId);
+    expect(renamed).toMatchObject({ name: 'Tutors', description: 'Teaching assistants' });
+
+    await roleService.assignRole(organisationId, studentId, role.id, adminId);
+    const [before] = await mockDb.select({ tokenVersion: users.tokenVersion }).from(users).where(eq(users.id, studentId));
+
+    await roleService.deleteRole(organisationId, role.id, adminId);
+
+    await expect(roleService.getRole(organisationId, role.id)).rejects.toMatchObject({ code: 'ROLE_NOT_FOUND' });
+    const [after] = await mockDb.select({ tokenVersion: users.tokenVersion }).from(users).where(eq(users.id, studentId));
+    expect(after.tokenVersion).toBe(before.tokenVersion + 1);
+    const access = await roleService.getEffectivePermissions(studentId, organisationId);
+    expect(access.roles.map(r => r.name)).toEqual(['STUDENT']);
+  });
+
+  it('should not allow system roles to be edited', async () => {
+    const [admin] = await mockDb.select().from(roles).where(eq(roles.name, 'ADMIN'));
+
+    await expect(roleService.updateRole(organisationId, admin.id, { name: 'Owners' }, adminId))
+      .rejects.toMatchObject({ code: 'SYSTEM_ROLE', status: 403 });
+    await expect(roleService.attachPermissions(organisationId, admin.id, ids('course.view'), adminId))
+      .rejects.toMatchObject({ code: 'SYSTEM_ROLE' });
+  });
+
+  it('should never grant system.admin, even to an admin who holds it', async () => {
+    await expect(roleService.createRole(organisationId, {
+      name: 'Superusers',
+      permissionIds: ids('system.admin'),
+    }, adminId)).rejects.toMatchObject({ code: 'PERMISSION_NOT_GRANTABLE', status: 403 });
+
+    const role = await roleService.createRole(organisationId, { name: 'Empty' }, adminId);
+    await expect(roleService.attachPermissions(organisationId, role.id, ids('system.admin'), adminId))
+      .rejects.toMatchObject({ code: 'PERMISSION_NOT_GRANTABLE' });
+  });
+
+  it('should only let the caller grant permissions they hold', async () => {
+    await expect(roleService.createRole(organisationId, {
+      name: 'Inviters',
+      permissionIds: ids('user.invite'),
+    }, managerId)).rejects.toMatchObject({ code: 'PERMISSION_NOT_GRANTABLE' });
+
+    const role = await roleService.createRole(organisationId, {
+      name: 'Viewers',
+      permissionIds: ids('course.view'),
+    }, managerId);
+
+    await expect(roleService.attachPermissions(organisationId, role.id, ids('course.edit', 'role.manage'), managerId))
+      .rejects.toMatchObject({ message: expect.stringContaining('course.edit') });
+
+    const updated = await roleService.attachPermissions(organisationId, role.id, ids('role.view'), managerId);
+    expect(updated.permissions).toEqual(['course.view', 'role.view']);
+  });
+
+  it('should not let the caller assign a role with permissions they lack', async () => {
+    const inviters = await roleService.createRole(organisationId, {
+      name: 'Invite team',
+      permissionIds: ids('user.invite'),
+    }, adminId);
+
+    await expect(roleService.assignRole(organisationId, managerId, inviters.id, managerId))
+      .rejects.toMatchObject({ code: 'PERMISSION_NOT_GRANTABLE' });
+
+    const access = await roleService.assignRole(organisationId, studentId, inviters.id, adminId);
+    expect(access.permissions).toContain('user.invite');
+  });
+
+  it('should not let the caller remove a role with permissions they lack', async () => {
+    const markers = await roleService.createRole(organisationId, {
+      name: 'Markers',
+      permissionIds: ids('quiz.grade', 'course.view'),
+    }, adminId);
+    await roleService.assignRole(organisationId, studentId, markers.id, adminId);
+
+    await expect(roleService.unassignRole(organisationId, studentId, markers.id, managerId))
+      .rejects.toMatchObject({ code: 'PERMISSION_NOT_GRANTABLE', status: 403 });
+    expect((await roleService.getEffectivePermissions(studentId, organisationId)).roles.map(r => r.name))
+      .toContain('Markers');
+
+    const access = await roleService.unassignRole(organisationId, studentId, markers.id, adminId);
+    expect(access.roles.map(r => r.name)).not.toContain('Markers');
+  });
+
+  it('should only assign roles owned by the organisation', async () => {
+    const systemRoles = await mockDb.select().from(roles).where(inArray(roles.name, ['ADMIN', 'TEACHER']));
+
+    for (const role of systemRoles) {
+      await expect(roleService.assignRole(organisationId, studentId, role.id, adminId))
+        .rejects.toMatchObject({ code: 'SYSTEM_ROLE', status: 403 });
+    }
+    const assigned = await mockDb.select().from(userRoles).where(eq(userRoles.userId, studentId));
+    expect(assigned.some(a => systemRoles.some(role => role.id === a.roleId))).toBe(false);
+  });
+});
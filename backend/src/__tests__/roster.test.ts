@@ -0,0 +1,61 @@
+import { eq } from 'drizzle-orm';
+import request from 'supertest';
+import app from '../index';
+import { addMonths } from '../services/billing';
+import { authService } from '../services/auth';
+import { roleService } from '../services/role';
+import { billingPlans, invites, organisations, organisationSubscriptions, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Roster import API', () => {
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let accessToken: string;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users).values({ email: 'admin@school.test', passwordHash: '' }).returning();
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: admin.id })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(admin.id, organisationId, 'ADMIN', admin.id);
+    ({ accessToken } = (await authService.completeExternalLogin(admin.id, 'sso')).tokens);
+
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 50,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: addMonths(new Date(), 1),
+    });
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('POST /api/org/:organisationId/roster/import', () => {
+    it('should fail rows asking for a role the importer cannot grant', async () => {
+      const response = await request(app)
+        .post(`/api/org/${organisationId}/roster/import`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('Content-Type', 'text/csv')
+        .send('email,name,role\nhead@school.test,Head Teacher,ADMIN\npupil@school.test,Pupil One,STUDENT\n')
+        .expect(200);
+
+      expect(response.body.data.rows).toEqual([
+        { row: 2, email: 'head@school.test', action: 'error', errors: ['You cannot assign the role "ADMIN"'] },
+        { row: 3, email: 'pupil@school.test', action: 'invite' },
+      ]);
+      const sent = await mockDb.select({ email: invites.email }).from(invites).where(eq(invites.organisationId, organisationId));
+      expect(sent).toEqual([{ email: 'pupil@school.test' }]);
+    });
+  });
+});
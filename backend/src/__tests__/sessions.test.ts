@@ -0,0 +1,124 @@
+import { eq } from 'drizzle-orm';
+import { authService } from '../services/auth';
+import { auditLogs, sessions, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+describe('Sessions', () => {
+  let database: TestDatabaseHandle;
+  let userId: string;
+
+  const signIn = async () => (await authService.completeExternalLogin(userId, 'sso')).tokens;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [user] = await mockDb.insert(users).values({ email: 'teacher@school.test', passwordHash: '' }).returning();
+    userId = user.id;
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  describe('refresh token rotation', () => {
+    it('should issue a new refresh token and accept it next time', async () => {
+      const first = await signIn();
+
+      const second = await authService.refreshToken(first.refreshToken);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+
+      const third = await authService.refreshToken(second.refreshToken);
+      expect(third.accessToken).toBeTruthy();
+    });
+
+    it('should revoke the session when a rotated token is used again', async () => {
+      const first = await signIn();
+      const second = await authService.refreshToken(first.refreshToken);
+
+      await expect(authService.refreshToken(first.refreshToken))
+        .rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+      // The thief's replay also ends the legitimate holder's session
+      await expect(authService.refreshToken(second.refreshToken))
+        .rejects.toMatchObject({ message: 'Invalid refresh token' });
+
+      const reuse = await mockDb.select().from(auditLogs).where(eq(auditLogs.action, 'session.refresh_token_reused'));
+      expect(reuse).toHaveLength(1);
+    });
+
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      const first = await signIn();
+
+      const results = await Promise.allSettled([
+        authService.refreshToken(first.refreshToken),
+        authService.refreshToken(first.refreshToken),
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({
+        reason: { code: 'REFRESH_TOKEN_REUSED' },
+      });
+
+      // As with any replay, the session is ended
+      const { sessionId } = authService.verifyRefreshToken(first.refreshToken);
+      const [session] = await mockDb.select().from(sessions).where(eq(sessions.id, sessionId));
+      expect(session.revoked).toBe(true);
+    });
+
+    it('should reject tokens that were never issued', async () => {
+      await expect(authService.refreshToken('not-a-token')).rejects.toMatchObject({ message: 'Invalid refresh token' });
+    });
+  });
+
+  describe('session management', () => {
+    let ownerId: string;
+
+    const sessionOf = (refreshToken: string) => authService.verifyRefreshToken(refreshToken).sessionId;
+
+    beforeAll(async () => {
+      const [owner] = await mockDb.insert(users).values({ email: 'owner@school.test', passwordHash: '' }).returning();
+      ownerId = owner.id;
+    });
+
+    it('should list active sessions and flag the current one', async () => {
+      const laptop = sessionOf((await authService.completeExternalLogin(ownerId, 'sso')).tokens.refreshToken);
+      const phone = sessionOf((await authService.completeExternalLogin(ownerId, 'sso')).tokens.refreshToken);
+
+      const listed = await authService.listSessions(ownerId, phone);
+
+      expect(listed.map(session => session.id)).toEqual(expect.arrayContaining([laptop, phone]));
+      expect(listed.filter(session => session.current).map(session => session.id)).toEqual([phone]);
+    });
+
+    it('should revoke a session once and only for its owner', async () => {
+      const sessionId = sessionOf((await authService.completeExternalLogin(ownerId, 'sso')).tokens.refreshToken);
+
+      await expect(authService.revokeSession(userId, sessionId))
+        .rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+      expect(await authService.isSessionActive(sessionId)).toBe(true);
+
+      await authService.revokeSession(ownerId, sessionId);
+
+      expect(await authService.isSessionActive(sessionId)).toBe(false);
+      expect((await authService.listSessions(ownerId)).map(session => session.id)).not.toContain(sessionId);
+      await expect(authService.revokeSession(ownerId, sessionId))
+        .rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    });
+
+    it('should revoke every other session and keep the current one', async () => {
+      const current = sessionOf((await authService.completeExternalLogin(ownerId, 'sso')).tokens.refreshToken);
+      const others = (await authService.listSessions(ownerId, current)).filter(session => !session.current);
+      expect(others.length).toBeGreaterThan(0);
+
+      const revoked = await authService.revokeOtherSessions(ownerId, current);
+
+      expect(revoked).toBe(others.length);
+      expect((await authService.listSessions(ownerId, current)).map(session => session.id)).toEqual([current]);
+      expect(await authService.isSessionActive(current)).toBe(true);
+    });
+  });
+});
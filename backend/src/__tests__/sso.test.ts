@@ -0,0 +1,237 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { generateKeyPairSync } from 'crypto';
+import { eq } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../index';
+import { addMonths } from '../services/billing';
+import { clearOidcCache } from '../services/oidc';
+import { roleService } from '../services/role';
+import { ssoService } from '../services/sso';
+import { billingPlans, organisations, organisationSubscriptions, userIdentities, userRoles, users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+// A local identity provider that signs in whoever the test names for a code
+describe('Single sign-on', () => {
+  const clientId = 'edurank-test';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pendingCodes = new Map<string, { nonce: string; email: string }>();
+  let server: Server;
+  let issuer: string;
+  let database: TestDatabaseHandle;
+  let organisationId: string;
+  let adminId: string;
+  let nextCode = 0;
+
+  // The code the provider would hand back for this sign-in
+  const issueCode = (authorizationUrl: string, email: string) => {
+    const code = `code-${nextCode++}`;
+    pendingCodes.set(code, { nonce: new URL(authorizationUrl).searchParams.get('nonce')!, email });
+    return code;
+  };
+
+  const signInAs = async (email: string) => {
+    const { authorizationUrl, state } = await ssoService.startLogin('school');
+    return ssoService.handleCallback(state, issueCode(authorizationUrl, email));
+  };
+
+  const isLinked = async (email: string) =>
+    (await mockDb.select().from(userIdentities).where(eq(userIdentities.email, email))).length > 0;
+
+  const isMember = async (email: string) =>
+    (await mockDb.select().from(userRoles).innerJoin(users, eq(users.id, userRoles.userId))
+      .where(eq(users.email, email))).length > 0;
+
+  beforeAll(async () => {
+    const idp = express();
+    idp.use(express.urlencoded({ extended: false }));
+
+    idp.get('/.well-known/openid-configuration', (req, res) => {
+      res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    });
+
+    idp.get('/jwks', (req, res) => {
+      res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' }] });
+    });
+
+    idp.post('/token', (req, res) => {
+      const pending = pendingCodes.get(req.body.code);
+      if (!pending) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+      pendingCodes.delete(req.body.code);
+      const idToken = jwt.sign(
+        { sub: pending.email, email: pending.email, email_verified: true, nonce: pending.nonce },
+        privateKey,
+        { algorithm: 'RS256', keyid: 'test-key', issuer, audience: clientId, expiresIn: 300 }
+      );
+      res.json({ id_token: idToken, token_type: 'Bearer' });
+    });
+
+    await new Promise<void>(resolve => {
+      server = idp.listen(0, '127.0.0.1', () => resolve());
+    });
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [admin] = await mockDb.insert(users)
+      .values({ email: 'admin@school.test', passwordHash: '', emailVerified: true })
+      .returning();
+    adminId = admin.id;
+    const [organisation] = await mockDb.insert(organisations)
+      .values({ name: 'School', slug: 'school', createdBy: adminId })
+      .returning();
+    organisationId = organisation.id;
+    await roleService.grantSystemRole(adminId, organisationId, 'ADMIN', adminId);
+    await ssoService.saveConfig(organisationId, { issuer, clientId }, adminId);
+
+    // Only the admin's seat
+    const [plan] = await mockDb.select().from(billingPlans).where(eq(billingPlans.code, 'school'));
+    await mockDb.insert(organisationSubscriptions).values({
+      organisationId,
+      planId: plan.id,
+      seats: 1,
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: addMonths(new Date(), 1),
+    });
+  });
+
+  afterAll(async () => {
+    clearOidcCache();
+    await new Promise(resolve => server.close(resolve));
+    await database.close();
+  });
+
+  describe('seat limits', () => {
+    it('should not provision a new account when every seat is taken', async () => {
+      await expect(signInAs('new.teacher@school.test'))
+        .rejects.toMatchObject({ code: 'SEAT_LIMIT_REACHED', status: 402 });
+
+      const created = await mockDb.select().from(users).where(eq(users.email, 'new.teacher@school.test'));
+      expect(created).toHaveLength(0);
+    });
+
+    it('should still sign in existing members', async () => {
+      const result = await signInAs('admin@school.test');
+
+      expect(result.user.id).toBe(adminId);
+    });
+
+    it('should not add an existing account on the verified domain that is not yet a member', async () => {
+      await mockDb.update(organisations)
+        .set({ verifiedDomain: 'school.test', domainVerifiedAt: new Date() })
+        .where(eq(organisations.id, organisationId));
+      await mockDb.insert(users).values({ email: 'visitor@school.test', passwordHash: '', emailVerified: true });
+
+      await expect(signInAs('visitor@school.test')).rejects.toMatchObject({ code: 'SEAT_LIMIT_REACHED' });
+      expect(await isMember('visitor@school.test')).toBe(false);
+    });
+
+    it('should provision the account once a seat is free', async () => {
+      await mockDb.update(organisationSubscriptions)
+        .set({ seats: 2 })
+        .where(eq(organisationSubscriptions.organisationId, organisationId));
+
+      await signInAs('new.teacher@school.test');
+
+      expect(await isMember('new.teacher@school.test')).toBe(true);
+    });
+  });
+
+  describe('linking existing accounts', () => {
+    beforeAll(async () => {
+      await mockDb.update(organisationSubscriptions)
+        .set({ seats: 100 })
+        .where(eq(organisationSubscriptions.organisationId, organisationId));
+      await mockDb.update(organisations)
+        .set({ verifiedDomain: 'school.test', domainVerifiedAt: new Date() })
+        .where(eq(organisations.id, organisationId));
+    });
+
+    it('should not sign in to an account outside the organisation and its verified domain', async () => {
+      await mockDb.insert(users).values({ email: 'someone@elsewhere.test', passwordHash: 'h:secret', emailVerified: true });
+
+      await expect(signInAs('someone@elsewhere.test'))
+        .rejects.toMatchObject({ code: 'SSO_EMAIL_IN_USE', status: 409 });
+      expect(await isLinked('someone@elsewhere.test')).toBe(false);
+      expect(await isMember('someone@elsewhere.test')).toBe(false);
+    });
+
+    it('should link an existing member whatever their email domain', async () => {
+      const [member] = await mockDb.insert(users)
+        .values({ email: 'governor@elsewhere.test', passwordHash: 'h:secret', emailVerified: true })
+        .returning();
+      await roleService.grantSystemRole(member.id, organisationId, 'STUDENT', adminId);
+
+      const result = await signInAs('governor@elsewhere.test');
+
+      expect(result.user.id).toBe(member.id);
+      expect(await isLinked('governor@elsewhere.test')).toBe(true);
+    });
+
+    it('should link an account on the verified domain and add it to the organisation', async () => {
+      const [account] = await mockDb.insert(users)
+        .values({ email: 'teacher@school.test', passwordHash: 'h:secret', emailVerified: true })
+        .returning();
+
+      const result = await signInAs('teacher@school.test');
+
+      expect(result.user.id).toBe(account.id);
+      expect(await isMember('teacher@school.test')).toBe(true);
+    });
+  });
+
+  describe('GET /api/sso/callback', () => {
+    const startInBrowser = async () => {
+      const response = await request(app).get('/api/sso/school/login').expect(302);
+      const cookie = response.headers['set-cookie'][0];
+      expect(cookie).toMatch(/^sso_state=[^;]+;.*HttpOnly/);
+      return { authorizationUrl: response.headers.location as string, cookie: cookie.split(';')[0] };
+    };
+
+    const callbackPath = (authorizationUrl: string, email: string) => {
+      const state = new URL(authorizationUrl).searchParams.get('state')!;
+      return `/api/sso/callback?state=${state}&code=${issueCode(authorizationUrl, email)}`;
+    };
+
+    it('should sign in the browser that started the sign-in', async () => {
+      const { authorizationUrl, cookie } = await startInBrowser();
+
+      const response = await request(app)
+        .get(callbackPath(authorizationUrl, 'admin@school.test'))
+        .set('Cookie', cookie)
+        .expect(302);
+
+      expect(response.headers.location).toContain('/auth/sso/callback#accessToken=');
+    });
+
+    it('should not finish a sign-in started in another browser', async () => {
+      const { authorizationUrl } = await ssoService.startLogin('school');
+      const { cookie: otherBrowser } = await startInBrowser();
+
+      const withoutCookie = await request(app)
+        .get(callbackPath(authorizationUrl, 'admin@school.test'))
+        .expect(302);
+      const withOtherCookie = await request(app)
+        .get(callbackPath(authorizationUrl, 'admin@school.test'))
+        .set('Cookie', otherBrowser)
+        .expect(302);
+
+      expect(withoutCookie.headers.location).toContain('?error=SSO_INVALID_STATE');
+      expect(withOtherCookie.headers.location).toContain('?error=SSO_INVALID_STATE');
+    });
+  });
+});
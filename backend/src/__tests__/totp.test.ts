@@ -0,0 +1,91 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateCode,
+  generateSecret,
+  timeStep,
+  verifyCode,
+} from '../services/totp';
+import { twoFactorService } from '../services/twoFactor';
+import { users } from '../types/database';
+import { createTestDatabase, TestDatabase, TestDatabaseHandle } from './helpers/testDatabase';
+
+let mockDb: TestDatabase;
+jest.mock('../database', () => ({ getDatabase: () => mockDb }));
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('12345678901234567890');
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateCode(RFC_SECRET, timeStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateCode(RFC_SECRET, timeStep(1111111109 * 1000), 8)).toBe('07081804');
+    expect(generateCode(RFC_SECRET, timeStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('should accept codes within the drift window', () => {
+    const secret = generateSecret();
+    const now = Date.now();
+    const previous = generateCode(secret, timeStep(now) - 1);
+
+    expect(verifyCode(secret, previous, 1, now)).toBe(timeStep(now) - 1);
+    expect(verifyCode(secret, previous, 0, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyCode(generateSecret(), 'abcdef')).toBeNull();
+    expect(verifyCode(generateSecret(), '12345')).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'teacher@school.edu', 'EduRank');
+    expect(uri.startsWith('otpauth://totp/EduRank%3Ateacher%40school.edu?')).toBe(true);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('issuer=EduRank');
+  });
+});
+
+describe('Two-factor verification', () => {
+  let database: TestDatabaseHandle;
+  let userId: string;
+  let secret: string;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    mockDb = database.db;
+
+    const [user] = await mockDb.insert(users).values({ email: 'teacher@school.edu', passwordHash: '' }).returning();
+    userId = user.id;
+    ({ secret } = await twoFactorService.beginEnrollment(userId));
+    await twoFactorService.confirmEnrollment(userId, generateCode(secret, timeStep(Date.now()) - 1));
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it('should accept a code only once, even when it is sent twice at the same time', async () => {
+    const code = generateCode(secret, timeStep(Date.now()));
+
+    const results = await Promise.all([
+      twoFactorService.verify(userId, { code }),
+      twoFactorService.verify(userId, { code }),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    await expect(twoFactorService.verify(userId, { code })).resolves.toBe(false);
+  });
+
+  it('should reject codes older than the last one used', async () => {
+    const previous = generateCode(secret, timeStep(Date.now()) - 1);
+
+    await expect(twoFactorService.verify(userId, { code: previous })).resolves.toBe(false);
+  });
+});
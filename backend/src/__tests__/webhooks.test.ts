@@ -0,0 +1,86 @@
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import app from '../index';
+import { isPrivateAddress, matchesWebhookEvent, signWebhookPayload, WebhookService } from '../services/webhook';
+import { WebhookError } from '../types/auth';
+
+describe('Webhook signing', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ id: 'evt-1', event: 'user.invited' });
+    const header = signWebhookPayload('whsec_test', 1760000000, body);
+    const expected = createHmac('sha256', 'whsec_test').update(`1760000000.${body}`).digest('hex');
+
+    expect(header).toBe(`t=1760000000,v1=${expected}`);
+  });
+});
+
+describe('Webhook event matching', () => {
+  it('should match exact names, prefixes and the wildcard', () => {
+    expect(matchesWebhookEvent(['user.invited'], 'user.invited')).toBe(true);
+    expect(matchesWebhookEvent(['user.*'], 'user.joined')).toBe(true);
+    expect(matchesWebhookEvent(['*'], 'quiz.completed')).toBe(true);
+  });
+
+  it('should not match other events', () => {
+    expect(matchesWebhookEvent(['user.invited'], 'user.joined')).toBe(false);
+    expect(matchesWebhookEvent(['user.*'], 'users.created')).toBe(false);
+    expect(matchesWebhookEvent([], 'organisation.updated')).toBe(false);
+  });
+});
+
+describe('Webhook address checks', () => {
+  it('should treat loopback, private, link-local and metadata addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.0.0.5', '172.16.4.1', '192.168.1.10', '169.254.169.254', '0.0.0.0', '::1', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700:4700::1111', '::ffff:93.184.216.34']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should reject endpoints whose host resolves to a private address', async () => {
+    const service = new WebhookService();
+    const lookup = jest.fn().mockResolvedValue(['93.184.216.34', '169.254.169.254']);
+    service.setResolver({ lookup });
+
+    const created = service.create(
+      '00000000-0000-4000-8000-000000000001',
+      { url: 'https://hooks.example.com/edurank', events: ['user.*'] },
+      '00000000-0000-4000-8000-000000000002'
+    );
+
+    await expect(created).rejects.toBeInstanceOf(WebhookError);
+    await expect(created).rejects.toMatchObject({ code: 'WEBHOOK_URL_FORBIDDEN', status: 400 });
+    expect(lookup).toHaveBeenCalledWith('hooks.example.com');
+  });
+
+  it('should reject endpoints whose host does not resolve', async () => {
+    const service = new WebhookService();
+    service.setResolver({ lookup: jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND')) });
+
+    await expect(service.create(
+      '00000000-0000-4000-8000-000000000001',
+      { url: 'https://missing.example.com/edurank', events: ['user.*'] },
+      '00000000-0000-4000-8000-000000000002'
+    )).rejects.toMatchObject({ code: 'WEBHOOK_URL_UNRESOLVABLE' });
+  });
+});
+
+describe('Webhooks API', () => {
+  const organisationId = '00000000-0000-4000-8000-000000000001';
+
+  describe('POST /api/org/:organisationId/webhooks', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post(`/api/org/${organisationId}/webhooks`)
+        .send({ url: 'https://example.com/hooks', events: ['user.*'] })
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
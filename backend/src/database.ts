@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from './types/database';
+import { logger } from './utils/logger';
 
 // Database connection - lazy loaded
 let db: ReturnType<typeof drizzle> | null = null;
@@ -23,7 +24,7 @@ export function getDatabase() {
 
       db = drizzle(client, { schema });
     } catch (error) {
-      console.error('Failed to connect to database:', error);
+      logger.error('Failed to connect to database', { error });
       throw new Error('Database connection failed');
     }
   }
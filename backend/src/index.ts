@@ -3,8 +3,12 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import authRoutes from './routes/auth';
-import organisationRoutes from './routes/organisations';
+import swaggerUi from 'swagger-ui-express';
+import { apiRoutes } from './routes';
+import { OPENAPI_FILE } from './openapi/generator';
+import { requestContext } from './middleware/requestContext';
+import { mailerService } from './services/mailer';
+import { logger } from './utils/logger';
 
 // Load environment variables
 dotenv.config();
@@ -12,6 +16,9 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Request IDs, structured request logs and response meta
+app.use(requestContext);
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -64,13 +71,6 @@ const authLimiter = rateLimit({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Request logging middleware
-app.use((req, res, next) => {
-  const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] ${req.method} ${req.path} - ${req.ip}`);
-  next();
-});
-
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
@@ -83,9 +83,22 @@ app.get('/health', (req, res) => {
   });
 });
 
+// API documentation (regenerate openapi.json with `npm run openapi`)
+app.get('/api/openapi.json', (req, res) => {
+  res.sendFile(OPENAPI_FILE);
+});
+app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(undefined, {
+  swaggerOptions: { url: '/api/openapi.json' },
+}));
+
 // API routes
-app.use('/api/auth', authLimiter, authRoutes);
-app.use('/api/org', organisationRoutes);
+for (const { path: mountPath, router, authRateLimit } of apiRoutes) {
+  if (authRateLimit) {
+    app.use(mountPath, authLimiter, router);
+  } else {
+    app.use(mountPath, router);
+  }
+}
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -100,7 +113,7 @@ app.use('*', (req, res) => {
 
 // Global error handler
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Global error handler:', error);
+  logger.error('Unhandled error', { error });
 
   // Don't leak error details in production
   const isDevelopment = process.env.NODE_ENV === 'development';
@@ -112,29 +125,35 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
       message: isDevelopment ? error.message : 'An unexpected error occurred',
       ...(isDevelopment && { stack: error.stack }),
     },
-    meta: {
-      timestamp: new Date().toISOString(),
-      requestId: req.headers['x-request-id'] || 'unknown',
-    },
   });
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
+  logger.info('SIGTERM received, shutting down gracefully');
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
+  logger.info('SIGINT received, shutting down gracefully');
   process.exit(0);
 });
 
+// Refuse to start without a way to send mail
+try {
+  mailerService.ensureTransport();
+} catch (error) {
+  logger.error('Mail transport is not configured', { error });
+  process.exit(1);
+}
+
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔐 Environment: ${process.env.NODE_ENV || 'development'}`);
+  logger.info('Server started', {
+    port: PORT,
+    healthCheck: `http://localhost:${PORT}/health`,
+    environment: process.env.NODE_ENV || 'development',
+  });
 });
 
 export default app;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/auth';
-import { TokenPayload, UserContext, AuthorizationError, PermissionCheck } from '../types/auth';
+import { apiKeyService } from '../services/apiKey';
+import { organisationService } from '../services/organisation';
+import { ApiKeyContext, TokenPayload, UserContext, AuthorizationError, PermissionCheck } from '../types/auth';
 
 // Extend Express Request type
 declare global {
@@ -8,61 +10,99 @@ declare global {
     interface Request {
       user?: UserContext;
       token?: TokenPayload;
+      apiKey?: ApiKeyContext;
     }
   }
 }
 
 /**
- * Middleware to authenticate requests using JWT access token
+ * Build the authenticate middleware. Organisation API keys are accepted as
+ * `Authorization: Bearer erk_...` or `X-API-Key` when `allowApiKeys` is set.
  */
-export const authenticate = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new AuthorizationError('Missing or invalid authorization header');
-    }
+function authenticateWith(allowApiKeys: boolean) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authHeader = req.headers.authorization;
+      const bearer = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+      const apiKey = req.get('X-API-Key') || (bearer && apiKeyService.isApiKey(bearer) ? bearer : undefined);
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    const payload = authService.verifyAccessToken(token);
+      if (apiKey) {
+        if (!allowApiKeys) {
+          throw new AuthorizationError('API keys cannot be used for this endpoint');
+        }
 
-    // Get full user context
-    const userContext = await authService.getUserContext(payload.userId);
+        const { user, apiKey: keyContext } = await apiKeyService.authenticate(apiKey, req.ip);
+        req.user = user;
+        req.apiKey = keyContext;
 
-    // Attach to request
-    req.user = userContext;
-    req.token = payload;
+        next();
+        return;
+      }
 
-    next();
-  } catch (error) {
-    if (error instanceof AuthorizationError) {
-      res.status(401).json({
-        success: false,
-        error: {
-          code: 'UNAUTHORIZED',
-          message: error.message,
-        },
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Authentication failed',
-        },
-      });
+      if (!bearer) {
+        throw new AuthorizationError('Missing or invalid authorization header');
+      }
+
+      const payload = authService.verifyAccessToken(bearer);
+
+      // Get full user context
+      const userContext = await authService.getUserContext(payload.userId);
+
+      // Roles or credentials changed since this token was issued
+      if (payload.tokenVersion !== userContext.tokenVersion) {
+        throw new AuthorizationError('Access token has been revoked');
+      }
+
+      // The session this token belongs to was signed out
+      if (payload.sessionId && !(await authService.isSessionActive(payload.sessionId))) {
+        throw new AuthorizationError('Session has been revoked');
+      }
+
+      // Attach to request
+      req.user = userContext;
+      req.token = payload;
+
+      next();
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: error.message,
+          },
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Authentication failed',
+          },
+        });
+      }
     }
-  }
-};
+  };
+}
+
+/**
+ * Middleware to authenticate requests using a JWT access token or an
+ * organisation API key
+ */
+export const authenticate = authenticateWith(true);
+
+/**
+ * Middleware for endpoints that only a signed-in person may use (sessions,
+ * 2FA, managing API keys); API keys are rejected
+ */
+export const authenticateUser = authenticateWith(false);
 
 /**
- * Middleware to check if user has required permissions
+ * Middleware to check if user has required permissions. The checks are kept
+ * on the middleware as `requiredPermissions` for the OpenAPI generator.
  */
 export const authorize = (...requiredPermissions: PermissionCheck[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
     try {
       if (!req.user) {
         throw new AuthorizationError('Authentication required');
@@ -109,6 +149,8 @@ export const authorize = (...requiredPermissions: PermissionCheck[]) => {
       }
     }
   };
+
+  return Object.assign(middleware, { requiredPermissions });
 };
 
 /**
@@ -160,10 +202,14 @@ export const requireOwnershipOrAdmin = (resourceIdParam: string) => {
 };
 
 /**
- * Middleware to enforce organisation isolation
+ * Middleware to enforce organisation isolation. Deleted organisations are
+ * rejected unless `allowDeleted` is set (used by the restore endpoint).
  */
-export const enforceOrgIsolation = (orgIdParam: string = 'organisationId') => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+export const enforceOrgIsolation = (
+  orgIdParam: string = 'organisationId',
+  options: { allowDeleted?: boolean } = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
         throw new AuthorizationError('Authentication required');
@@ -182,6 +228,17 @@ export const enforceOrgIsolation = (orgIdParam: string = 'organisationId') => {
         throw new AuthorizationError('Access denied: organisation isolation violation');
       }
 
+      if (requestedOrgId && !options.allowDeleted && !(await organisationService.isActive(requestedOrgId))) {
+        res.status(410).json({
+          success: false,
+          error: {
+            code: 'ORGANISATION_DELETED',
+            message: 'Organisation has been deleted',
+          },
+        });
+        return;
+      }
+
       next();
     } catch (error) {
       if (error instanceof AuthorizationError) {
@@ -205,6 +262,15 @@ export const enforceOrgIsolation = (orgIdParam: string = 'organisationId') => {
   };
 };
 
+/**
+ * Whether the authenticated user holds a permission, for handlers whose
+ * behaviour (rather than access) depends on it
+ */
+export function hasPermission(req: Request, permission: PermissionCheck): boolean {
+  return Boolean(req.user) &&
+    checkPermission(permission, req.user!.permissions, req.user!.roles, req.user!.organisationId);
+}
+
 /**
  * Check if user has specific permission
  */
@@ -226,12 +292,8 @@ function checkPermission(
     return true;
   }
 
-  // Check role-based permissions
-  const hasAdminRole = userRoles.some(role =>
-    role.name === 'ADMIN' || role.name === 'SYSTEM_ADMIN'
-  );
-
-  if (hasAdminRole) {
+  // System administrators can do everything
+  if (userPermissions.includes('system.admin')) {
     return true;
   }
 
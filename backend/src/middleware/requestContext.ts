@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types/auth';
+import { logger, requestContext as context } from '../utils/logger';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    requestId: string;
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming IDs from proxies and clients are kept if they look like an ID
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+function isApiResponse(body: unknown): body is ApiResponse {
+  return typeof body === 'object' && body !== null && typeof (body as ApiResponse).success === 'boolean';
+}
+
+/**
+ * Assign each request an ID (the caller's X-Request-Id or a new UUID), echo
+ * it in the response header and `meta.requestId` of every API envelope, and
+ * log the request with its status and latency once the response is sent.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  req.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (isApiResponse(body)) {
+      body = {
+        ...body,
+        meta: { timestamp: new Date().toISOString(), ...body.meta, requestId },
+      };
+    }
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+    const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+
+    logger.log(level, 'request completed', {
+      requestId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      userId: req.user?.id,
+      organisationId: req.user?.organisationId || req.params.organisationId,
+      apiKeyId: req.apiKey?.id,
+    });
+  });
+
+  context.run({ requestId, request: req }, next);
+};
@@ -0,0 +1,626 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { IRoute, RequestHandler } from 'express';
+import { authenticate, authenticateUser, optionalAuthenticate } from '../middleware/auth';
+import { ApiRouteMount, apiRoutes } from '../routes';
+import { PermissionCheck } from '../types/auth';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// The parts of OpenAPI 3.1 (and its JSON Schema dialect) the generator writes
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: JsonSchema;
+  $ref?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+export type OpenApiContent = Record<string, { schema: JsonSchema }>;
+
+export interface OpenApiResponse {
+  description: string;
+  content?: OpenApiContent;
+}
+
+// Scheme name -> scopes; {} means anonymous access is allowed
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+export interface OpenApiOperation {
+  operationId?: string;
+  tags: string[];
+  summary?: string;
+  description?: string;
+  security?: OpenApiSecurityRequirement[];
+  'x-permissions'?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: OpenApiContent;
+  };
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  tags: { name: string }[];
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    securitySchemes: Record<string, Record<string, string>>;
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+// Express keeps the methods a route answers on the route object
+type ExpressRoute = IRoute & { methods: Partial<Record<HttpMethod, boolean>> };
+
+// The parts of express-validator's chain context the generator reads
+interface ValidationContext {
+  fields: string[];
+  locations: string[];
+  // false when the field is required, otherwise the optional() mode
+  optional: false | 'undefined' | 'null' | 'falsy' | undefined;
+  stack: {
+    validator?: (...args: never[]) => unknown;
+    sanitizer?: (...args: never[]) => unknown;
+    negated?: boolean;
+    options?: unknown[];
+  }[];
+}
+
+// Options of the validators whose bounds are documented
+interface RangeOptions {
+  min?: number;
+  max?: number;
+  gt?: number;
+  lt?: number;
+}
+
+// Middleware the generator learns from: validation chains and authorize()
+type DescribedHandler = RequestHandler & {
+  builder?: { build(): ValidationContext };
+  requiredPermissions?: PermissionCheck[];
+};
+
+interface ValidatedField {
+  location: 'body' | 'query' | 'params';
+  field: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface RouteDoc {
+  summary?: string;
+  description?: string;
+  source: string;
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  // Directory holding the route sources, for doc comments and status codes
+  routesDir?: string;
+}
+
+// Committed at the package root and served at /api/openapi.json
+export const OPENAPI_FILE = path.join(__dirname, '../../openapi.json');
+
+/**
+ * The document for this API, as written by `npm run openapi`
+ */
+export function generateApiDocument(): OpenApiDocument {
+  const packageJson = JSON.parse(readFileSync(path.join(__dirname, '../../package.json'), 'utf8'));
+
+  return generateOpenApiDocument(apiRoutes, {
+    title: 'EduRank API',
+    version: packageJson.version,
+    description: packageJson.description,
+  });
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the mounted routers: paths and methods
+ * from Express, parameters and request bodies from the express-validator
+ * chains, security from the auth middleware, and summaries and response
+ * codes from each route's doc comment and handler source.
+ */
+export function generateOpenApiDocument(mounts: ApiRouteMount[], options: OpenApiOptions): OpenApiDocument {
+  const routesDir = options.routesDir || path.join(__dirname, '../routes');
+  const paths: OpenApiDocument['paths'] = {};
+  const operationIds = new Set<string>();
+
+  for (const mount of mounts) {
+    const docs = readRouteDocs(path.join(routesDir, `${mount.source}.ts`));
+
+    for (const layer of mount.router.stack) {
+      const route = layer.route as ExpressRoute | undefined;
+      if (!route || typeof route.path !== 'string') continue;
+
+      const expressPath = joinPaths(mount.path, route.path);
+      const openApiPath = expressPath.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+      const handlers: DescribedHandler[] = route.stack.map(routeLayer => routeLayer.handle);
+
+      for (const method of HTTP_METHODS) {
+        if (!route.methods[method]) continue;
+
+        const doc = docs.get(`${method} ${expressPath.replace(/^\/api/, '')}`);
+        const operation = buildOperation(method, openApiPath, handlers, doc, mount.source);
+        operation.operationId = uniqueOperationId(method, openApiPath, operationIds);
+
+        paths[openApiPath] = paths[openApiPath] || {};
+        paths[openApiPath][method] = orderOperation(operation);
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    tags: mounts
+      .map(mount => mount.source)
+      .filter((tag, index, tags) => tags.indexOf(tag) === index)
+      .map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: {
+        ApiError: {
+          type: 'object',
+          properties: {
+            code: { type: 'string' },
+            message: { type: 'string' },
+            details: {},
+          },
+          required: ['code', 'message'],
+        },
+        ApiResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {},
+            error: { $ref: '#/components/schemas/ApiError' },
+            meta: {
+              type: 'object',
+              properties: {
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+          required: ['success'],
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(
+  method: HttpMethod,
+  openApiPath: string,
+  handlers: DescribedHandler[],
+  doc: RouteDoc | undefined,
+  tag: string
+): OpenApiOperation {
+  const fields = handlers.flatMap(handler => validatedFields(handler, method));
+  const permissions = handlers.flatMap(handler =>
+    (handler.requiredPermissions || []).map(permission => `${permission.resource}.${permission.action}`)
+  );
+
+  const operation: OpenApiOperation = { tags: [tag] };
+  if (doc?.summary) operation.summary = doc.summary;
+
+  const description = [
+    doc?.description,
+    permissions.length > 0 && `Requires permission: ${permissions.map(p => `\`${p}\``).join(', ')}.`,
+  ].filter(Boolean).join('\n\n');
+  if (description) operation.description = description;
+  if (permissions.length > 0) operation['x-permissions'] = permissions;
+
+  const security = securityFor(handlers);
+  if (security) operation.security = security;
+
+  const parameters: OpenApiParameter[] = [
+    ...pathParameters(openApiPath, fields),
+    ...fields
+      .filter(field => field.location === 'query' && !field.field.includes('.'))
+      .map(field => ({ name: field.field, in: 'query' as const, required: field.required, schema: field.schema })),
+  ];
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  const bodyFields = fields.filter(field => field.location === 'body');
+  const acceptsText = handlers.some(handler => handler.name === 'textParser');
+  if (bodyFields.length > 0 || acceptsText) {
+    const content: OpenApiContent = {};
+    if (bodyFields.length > 0) {
+      content['application/json'] = { schema: objectSchema(bodyFields) };
+    }
+    if (acceptsText) {
+      content['text/csv'] = { schema: { type: 'string' } };
+    }
+    operation.requestBody = {
+      required: acceptsText || bodyFields.some(field => field.required),
+      content,
+    };
+  }
+
+  operation.responses = responsesFor(doc?.source || '', {
+    validated: fields.length > 0,
+    authenticated: Boolean(security && !security.some(requirement => Object.keys(requirement).length === 0)),
+    authorized: permissions.length > 0,
+  });
+
+  return operation;
+}
+
+/**
+ * Fields declared by an express-validator chain, or none for other middleware
+ */
+function validatedFields(handler: DescribedHandler, method: HttpMethod): ValidatedField[] {
+  const builder = handler.builder;
+  if (!builder || typeof builder.build !== 'function') return [];
+
+  const context = builder.build();
+  const location = chainLocation(context.locations, method);
+  if (!location) return [];
+
+  const schema = schemaFromStack(context.stack);
+  if (context.optional === 'null' || context.optional === 'falsy') {
+    schema.type = schema.type ? [schema.type as string, 'null'] : undefined;
+  }
+
+  return context.fields.map(field => ({
+    location,
+    field,
+    required: context.optional === false,
+    schema: { ...schema },
+  }));
+}
+
+// check() validates every location; document it where the method sends data
+function chainLocation(locations: string[], method: HttpMethod): ValidatedField['location'] | null {
+  if (locations.length === 1) {
+    const [location] = locations;
+    return location === 'body' || location === 'query' || location === 'params' ? location : null;
+  }
+  if (locations.includes('body') && locations.includes('query')) {
+    return method === 'get' || method === 'delete' ? 'query' : 'body';
+  }
+  return null;
+}
+
+/**
+ * JSON Schema for a field from its validators and sanitizers
+ */
+function schemaFromStack(stack: ValidationContext['stack']): JsonSchema {
+  const schema: JsonSchema = {};
+  const setType = (type: string) => {
+    if (!schema.type) schema.type = type;
+  };
+
+  for (const item of stack) {
+    if (item.sanitizer) {
+      const name = item.sanitizer.name;
+      if (name === 'toInt') schema.type = 'integer';
+      if (name === 'toFloat') schema.type = 'number';
+      if (name === 'toBoolean') schema.type = 'boolean';
+      if (name === 'toDate') Object.assign(schema, { type: 'string', format: 'date-time' });
+      continue;
+    }
+    if (!item.validator) continue;
+
+    const name = item.validator.name;
+    const [option, extra] = item.options || [];
+    const range = (option || {}) as RangeOptions;
+
+    if (!name || name === 'validator') {
+      // isString(), isArray() and isObject() are custom validators
+      const source = item.validator.toString();
+      if (source.includes("typeof value === 'string'")) setType('string');
+      else if (source.includes('Array.isArray(value) &&')) setType('array');
+      else if (source.includes("typeof value === 'object'")) setType('object');
+      continue;
+    }
+
+    switch (name) {
+      case 'isEmail':
+        Object.assign(schema, { type: 'string', format: 'email' });
+        break;
+      case 'isUUID':
+        Object.assign(schema, { type: 'string', format: 'uuid' });
+        break;
+      case 'isISO8601':
+        Object.assign(schema, { type: 'string', format: 'date-time' });
+        break;
+      case 'isURL':
+        Object.assign(schema, { type: 'string', format: 'uri' });
+        break;
+      case 'isFQDN':
+        Object.assign(schema, { type: 'string', format: 'hostname' });
+        break;
+      case 'isHexadecimal':
+        Object.assign(schema, { type: 'string', pattern: '^[0-9a-fA-F]+$' });
+        break;
+      case 'isJWT':
+      case 'isBase64':
+        setType('string');
+        break;
+      case 'matches':
+        setType('string');
+        // JSON Schema patterns have no flags
+        if (!extra) schema.pattern = option instanceof RegExp ? option.source : String(option);
+        break;
+      case 'isLength':
+        setType('string');
+        if (range.min !== undefined) schema.minLength = range.min;
+        if (range.max !== undefined) schema.maxLength = range.max;
+        break;
+      case 'isEmpty':
+        if (item.negated) {
+          setType('string');
+          schema.minLength = Math.max(schema.minLength || 0, 1);
+        }
+        break;
+      case 'isInt':
+      case 'isFloat':
+        schema.type = name === 'isInt' ? 'integer' : 'number';
+        if (range.min !== undefined) schema.minimum = range.min;
+        if (range.max !== undefined) schema.maximum = range.max;
+        if (range.gt !== undefined) schema.exclusiveMinimum = range.gt;
+        if (range.lt !== undefined) schema.exclusiveMaximum = range.lt;
+        break;
+      case 'isBoolean':
+        schema.type = 'boolean';
+        break;
+      case 'isIn':
+        if (Array.isArray(option)) {
+          schema.enum = option;
+          if (option.every(value => typeof value === 'string')) setType('string');
+        }
+        break;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Nest dotted and wildcard fields ("items.*.title") into one object schema
+ */
+function objectSchema(fields: ValidatedField[]): JsonSchema {
+  const root: JsonSchema = { type: 'object', properties: {} };
+
+  for (const { field, required, schema } of fields) {
+    const segments = field.split('.');
+    let parent = root;
+
+    segments.forEach((segment, index) => {
+      const last = index === segments.length - 1;
+
+      if (segment === '*') {
+        // Wildcards are array items unless the field was declared an object
+        if (parent.type === 'object') {
+          parent.additionalProperties = last
+            ? mergeSchema(parent.additionalProperties, schema)
+            : mergeSchema(parent.additionalProperties, { type: 'object', properties: {} });
+          parent = parent.additionalProperties;
+        } else {
+          parent.type = 'array';
+          parent.items = last
+            ? mergeSchema(parent.items, schema)
+            : mergeSchema(parent.items, { type: 'object', properties: {} });
+          parent = parent.items;
+        }
+        return;
+      }
+
+      parent.properties = parent.properties || {};
+      parent.properties[segment] = last
+        ? mergeSchema(parent.properties[segment], schema)
+        : mergeSchema(parent.properties[segment], {});
+      if (last && required) {
+        parent.required = [...new Set([...(parent.required || []), segment])];
+      }
+      parent = parent.properties[segment];
+    });
+  }
+
+  return root;
+}
+
+function mergeSchema(existing: JsonSchema | undefined, schema: JsonSchema): JsonSchema {
+  const merged = { ...(existing || {}), ...schema };
+  // Keep a type learnt from an earlier chain when this one does not declare it
+  if (existing?.type && !schema.type) merged.type = existing.type;
+  return merged;
+}
+
+function pathParameters(openApiPath: string, fields: ValidatedField[]): OpenApiParameter[] {
+  const names = [...openApiPath.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+
+  return names.map(name => {
+    const declared = fields.find(field => field.location === 'params' && field.field === name);
+    return {
+      name,
+      in: 'path' as const,
+      required: true,
+      schema: declared?.schema.type ? declared.schema : { type: 'string' },
+    };
+  });
+}
+
+function securityFor(handlers: RequestHandler[]): OpenApiSecurityRequirement[] | undefined {
+  if (handlers.includes(authenticateUser)) return [{ bearerAuth: [] }];
+  if (handlers.includes(authenticate)) return [{ bearerAuth: [] }, { apiKey: [] }];
+  if (handlers.includes(optionalAuthenticate as RequestHandler)) return [{}, { bearerAuth: [] }];
+  return undefined;
+}
+
+/**
+ * Responses from the status codes the handler sends, plus the 400/401/403
+ * its middleware can answer with
+ */
+function responsesFor(
+  source: string,
+  middleware: { validated: boolean; authenticated: boolean; authorized: boolean }
+): Record<string, OpenApiResponse> {
+  const statuses = new Set([...source.matchAll(/\.status\((\d{3})\)/g)].map(match => Number(match[1])));
+  const redirects = /\.redirect\(/.test(source);
+  const success = [...statuses].filter(status => status < 300).sort()[0]
+    || (redirects && !/res\.json\(/.test(source) ? 302 : 200);
+
+  const responses: Record<string, OpenApiResponse> = {};
+  if (success === 302) {
+    responses['302'] = { description: 'Redirect' };
+  } else if (success === 204) {
+    responses['204'] = { description: 'No content' };
+  } else {
+    const content: OpenApiContent = /text\/csv/.test(source)
+      ? { 'text/csv': { schema: { type: 'string' } } }
+      : /text\/html/.test(source)
+        ? { 'text/html': { schema: { type: 'string' } } }
+        : { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } };
+    responses[String(success)] = { description: 'Success', content };
+  }
+
+  if (middleware.validated) statuses.add(400);
+  if (middleware.authenticated) statuses.add(401);
+  if (middleware.authorized) statuses.add(403);
+
+  for (const status of [...statuses].filter(status => status >= 400).sort()) {
+    responses[String(status)] = {
+      description: ERROR_DESCRIPTIONS[status] || 'Error',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } },
+    };
+  }
+  responses.default = {
+    description: 'Unexpected error',
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } },
+  };
+
+  return responses;
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Not authenticated',
+  403: 'Forbidden',
+  404: 'Not found',
+  409: 'Conflict',
+  410: 'Gone',
+  422: 'Unprocessable',
+  429: 'Too many requests',
+};
+
+/**
+ * Doc comments and handler source of each route in a route file, keyed by
+ * "<method> <path>". Comments open with "METHOD /path" (or "GET|POST /path")
+ * followed by a description; the source runs to the next such comment.
+ */
+function readRouteDocs(file: string): Map<string, RouteDoc> {
+  const docs = new Map<string, RouteDoc>();
+  let source: string;
+  try {
+    source = readFileSync(file, 'utf8');
+  } catch {
+    return docs;
+  }
+
+  const commentPattern = /\/\*\*\s*\n\s*\* ((?:GET|POST|PUT|PATCH|DELETE)(?:\|[A-Z]+)*) (\/[^\s?]*)[^\n]*\n((?:(?!\*\/)[\s\S])*)\*\//g;
+  const matches = [...source.matchAll(commentPattern)];
+
+  matches.forEach((match, index) => {
+    const [comment, methods, routePath, body] = match;
+    const start = match.index! + comment.length;
+    const end = index + 1 < matches.length ? matches[index + 1].index! : source.length;
+
+    const text = body
+      .split('\n')
+      .map(line => line.replace(/^\s*\* ?/, '').trim())
+      .filter(Boolean)
+      .join(' ');
+    // The first sentence is the summary; longer comments are also the description
+    const summary = text.match(/^.*?\.(?=\s|$)/)?.[0].replace(/\.$/, '') || text;
+
+    for (const method of methods.toLowerCase().split('|')) {
+      docs.set(`${method} ${routePath}`, {
+        summary: summary || undefined,
+        description: text.length > summary.length + 1 ? text : undefined,
+        source: source.slice(start, end),
+      });
+    }
+  });
+
+  return docs;
+}
+
+function joinPaths(mountPath: string, routePath: string): string {
+  if (routePath === '/') return mountPath;
+  return `${mountPath.replace(/\/$/, '')}${routePath}`;
+}
+
+/**
+ * e.g. DELETE /api/auth/sessions/{sessionId} -> deleteAuthSessionsBySessionId
+ */
+function uniqueOperationId(method: HttpMethod, openApiPath: string, used: Set<string>): string {
+  const words = openApiPath
+    .replace(/^\/api\//, '')
+    .split('/')
+    .filter(Boolean)
+    .flatMap(segment => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? ['by', ...param[1].split(/[-_]/)] : segment.split(/[-_.]/);
+    });
+
+  const base = method + words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  let id = base;
+  for (let n = 2; used.has(id); n++) {
+    id = `${base}${n}`;
+  }
+  used.add(id);
+  return id;
+}
+
+// Stable key order for readable diffs of the generated file
+function orderOperation(operation: OpenApiOperation): OpenApiOperation {
+  const order: (keyof OpenApiOperation)[] = [
+    'operationId', 'tags', 'summary', 'description', 'security', 'x-permissions',
+    'parameters', 'requestBody', 'responses',
+  ];
+  const ordered: Partial<Record<keyof OpenApiOperation, unknown>> = {};
+  for (const key of order.filter(key => key in operation)) {
+    ordered[key] = operation[key];
+  }
+  return ordered as OpenApiOperation;
+}
@@ -0,0 +1,201 @@
+import { Router, Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation, hasPermission } from '../middleware/auth';
+import { analyticsService } from '../services/analytics';
+import { AnalyticsQuery, AnalyticsReport, AnalyticsViewer, ApiResponse } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/analytics
+const router = Router({ mergeParams: true });
+
+const REPORTS: AnalyticsReport[] = ['classes', 'students', 'at-risk', 'mastery'];
+
+const queryValidators = [
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('sectionId').optional().isUUID(),
+];
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid query parameters',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+// Holders of user.manage see every class; teachers see the classes they teach
+function getViewer(req: Request): AnalyticsViewer {
+  return {
+    userId: req.user!.id,
+    canViewAll: hasPermission(req, { resource: 'user', action: 'manage' }),
+  };
+}
+
+/**
+ * Build the service query from validated query parameters
+ */
+function parseQuery(req: Request): AnalyticsQuery {
+  const { from, to, sectionId } = req.query as Record<string, string | undefined>;
+  const range = analyticsService.resolveRange(from ? new Date(from) : undefined, to ? new Date(to) : undefined);
+
+  return { ...range, sectionId };
+}
+
+/**
+ * GET /org/:organisationId/analytics/classes
+ * Students, quizzes taken and average quiz score per class
+ */
+router.get(
+  '/classes',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'analytics', action: 'view' }),
+  queryValidators,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const analyticsQuery = parseQuery(req);
+      const classes = await analyticsService.getClassAnalytics(req.params.organisationId, getViewer(req), analyticsQuery);
+
+      res.json({
+        success: true,
+        data: { from: analyticsQuery.from, to: analyticsQuery.to, classes },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch class analytics');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/analytics/mastery
+ * Students per strength status (strong, moderate, weak) for each topic
+ */
+router.get(
+  '/mastery',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'analytics', action: 'view' }),
+  [
+    query('sectionId').optional().isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const topics = await analyticsService.getTopicMastery(
+        req.params.organisationId,
+        getViewer(req),
+        req.query.sectionId as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: { topics },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch topic mastery');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/analytics/activity
+ * Active students per day (a quiz or an AI request)
+ */
+router.get(
+  '/activity',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'analytics', action: 'view' }),
+  queryValidators,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const analyticsQuery = parseQuery(req);
+      const days = await analyticsService.getActivity(req.params.organisationId, getViewer(req), analyticsQuery);
+
+      res.json({
+        success: true,
+        data: { from: analyticsQuery.from, to: analyticsQuery.to, days },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch activity');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/analytics/at-risk
+ * Students with a rising weakness score on a topic or a broken streak
+ */
+router.get(
+  '/at-risk',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'analytics', action: 'view' }),
+  queryValidators,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const analyticsQuery = parseQuery(req);
+      const students = await analyticsService.getAtRiskStudents(req.params.organisationId, getViewer(req), analyticsQuery);
+
+      res.json({
+        success: true,
+        data: { from: analyticsQuery.from, to: analyticsQuery.to, students },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch at-risk students');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/analytics/export?report=classes|students|at-risk|mastery
+ * Download a report as CSV
+ */
+router.get(
+  '/export',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'analytics', action: 'export' }),
+  [
+    ...queryValidators,
+    query('report').isIn(REPORTS),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { organisationId } = req.params;
+      const report = req.query.report as AnalyticsReport;
+      const csv = await analyticsService.exportReport(organisationId, getViewer(req), report, parseQuery(req));
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      const fileName = `analytics-${report}-${organisationId}-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(csv);
+    } catch (error) {
+      sendServiceError(res, error, 'EXPORT_FAILED', 'Failed to export analytics');
+    }
+  }
+);
+
+export default router;
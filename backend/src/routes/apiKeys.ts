@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, param, validationResult } from 'express-validator';
+import { authenticateUser, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { apiKeyService } from '../services/apiKey';
+import { ApiResponse, CreateApiKeyRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/api-keys
+const router = Router({ mergeParams: true });
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * GET /org/:organisationId/api-keys
+ * API keys of the organisation with their scopes and last use
+ */
+router.get(
+  '/',
+  authenticateUser,
+  enforceOrgIsolation(),
+  authorize({ resource: 'api_key', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const apiKeys = await apiKeyService.list(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { apiKeys },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch API keys');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/api-keys
+ * Create an API key with permission scopes. The key is only shown once.
+ */
+router.post(
+  '/',
+  authenticateUser,
+  enforceOrgIsolation(),
+  authorize({ resource: 'api_key', action: 'manage' }),
+  [
+    body('name').isString().trim().isLength({ min: 1, max: 255 }),
+    body('scopes').isArray({ min: 1, max: 100 }),
+    body('scopes.*').isString().matches(/^[a-z_]+\.[a-z_]+$/),
+    body('expiresAt').optional().isISO8601().toDate(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as CreateApiKeyRequest;
+      const { apiKey, key } = await apiKeyService.create(req.params.organisationId, data, req.user!);
+
+      res.status(201).json({
+        success: true,
+        data: { apiKey, key },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to create API key');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/api-keys/:apiKeyId
+ * Revoke an API key
+ */
+router.delete(
+  '/:apiKeyId',
+  authenticateUser,
+  enforceOrgIsolation(),
+  authorize({ resource: 'api_key', action: 'manage' }),
+  [
+    param('apiKeyId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await apiKeyService.revoke(req.params.organisationId, req.params.apiKeyId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'API key revoked' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REVOKE_FAILED', 'Failed to revoke API key');
+    }
+  }
+);
+
+export default router;
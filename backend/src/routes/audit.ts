@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { REQUEST_ID_PATTERN } from '../middleware/requestContext';
+import { auditService } from '../services/audit';
+import { toCsvRow } from '../utils/csv';
+import { errorMessage } from '../utils/errors';
+import { ApiResponse, AuditLogEntry, AuditLogFilters, ValidationError } from '../types/auth';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/org/:organisationId/audit
+const router = Router({ mergeParams: true });
+
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_MAX_ROWS = 100000;
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'id',
+  'timestamp',
+  'actorId',
+  'actorEmail',
+  'action',
+  'resourceType',
+  'resourceId',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'oldValues',
+  'newValues',
+  'metadata',
+];
+
+const filterValidators = [
+  query('actorId').optional().isUUID(),
+  query('action').optional().matches(/^[a-z0-9_.]+(\.\*)?$/i).isLength({ max: 100 }),
+  query('resourceType').optional().isLength({ min: 1, max: 100 }),
+  query('resourceId').optional().isUUID(),
+  query('requestId').optional().matches(REQUEST_ID_PATTERN),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+];
+
+/**
+ * Build service filters from validated query parameters
+ */
+function parseFilters(req: Request): AuditLogFilters {
+  const { actorId, action, resourceType, resourceId, requestId, from, to } = req.query as Record<string, string | undefined>;
+
+  return {
+    organisationId: req.params.organisationId,
+    actorId,
+    action,
+    resourceType,
+    resourceId,
+    requestId,
+    startDate: from ? new Date(from) : undefined,
+    endDate: to ? new Date(to) : undefined,
+  };
+}
+
+/**
+ * GET /org/:organisationId/audit
+ * Query the organisation's audit trail, newest first
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'audit', action: 'view' }),
+  [
+    ...filterValidators,
+    query('cursor').optional().isBase64({ urlSafe: true }),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const page = await auditService.getAuditLogs({
+        ...parseFilters(req),
+        cursor: req.query.cursor as string | undefined,
+        limit: Number(req.query.limit) || 50,
+      });
+
+      res.json({
+        success: true,
+        data: page,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CURSOR',
+            message: 'Invalid pagination cursor',
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_FAILED',
+          message: errorMessage(error, 'Failed to fetch audit logs'),
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/audit/export?format=csv|ndjson
+ * Stream the filtered audit trail as a file download
+ */
+router.get(
+  '/export',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'audit', action: 'view' }),
+  [
+    ...filterValidators,
+    query('format').optional().isIn(['csv', 'ndjson']),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    const { organisationId } = req.params;
+    const format = (req.query.format as string) || 'csv';
+    const filters = parseFilters(req);
+    const fileName = `audit-${organisationId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'csv') {
+      res.write(toCsvRow(CSV_COLUMNS));
+    }
+
+    let exported = 0;
+    try {
+      let cursor: string | undefined;
+      do {
+        const page = await auditService.getAuditLogs({
+          ...filters,
+          cursor,
+          limit: Math.min(EXPORT_BATCH_SIZE, EXPORT_MAX_ROWS - exported),
+        });
+
+        for (const log of page.logs) {
+          res.write(format === 'csv'
+            ? toCsvRow(CSV_COLUMNS.map(column => log[column]))
+            : JSON.stringify(log) + '\n');
+        }
+
+        exported += page.logs.length;
+        cursor = page.nextCursor || undefined;
+      } while (cursor && exported < EXPORT_MAX_ROWS);
+    } catch (error) {
+      // Headers are already sent; end the download early
+      logger.error('Audit export failed', { error });
+    }
+
+    // Recorded before the download completes, so it is visible right after
+    await auditService.logOrganisationAction(
+      req.user!.id,
+      organisationId,
+      'audit.exported',
+      'audit',
+      undefined,
+      { format, rows: exported, filters: req.query }
+    );
+
+    res.end();
+  }
+);
+
+export default router;
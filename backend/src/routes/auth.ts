@@ -1,8 +1,19 @@
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import { accountService } from '../services/account';
 import { authService } from '../services/auth';
-import { authenticate } from '../middleware/auth';
-import { ApiResponse, LoginRequest, RegisterRequest } from '../types/auth';
+import { twoFactorService } from '../services/twoFactor';
+import { authenticate, authenticateUser, optionalAuthenticate } from '../middleware/auth';
+import {
+  ApiResponse,
+  AuthenticationError,
+  LoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  TwoFactorLoginRequest,
+} from '../types/auth';
+import { errorMessage, sendServiceError } from '../utils/errors';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -39,6 +50,12 @@ router.post(
       const data: RegisterRequest = req.body;
       const userContext = await authService.register(data);
 
+      try {
+        await accountService.sendVerificationEmail(userContext.id, req.ip);
+      } catch (error) {
+        logger.error('Failed to send verification email', { error });
+      }
+
       res.status(201).json({
         success: true,
         data: {
@@ -46,12 +63,12 @@ router.post(
           message: 'User registered successfully. Please check your email for verification.',
         },
       });
-    } catch (error: any) {
+    } catch (error) {
       res.status(400).json({
         success: false,
         error: {
           code: 'REGISTRATION_FAILED',
-          message: error.message || 'Registration failed',
+          message: errorMessage(error, 'Registration failed'),
         },
       });
     }
@@ -90,6 +107,17 @@ router.post(
 
       const result = await authService.login(data, ipAddress, userAgent);
 
+      if ('twoFactor' in result) {
+        res.json({
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            challenge: result.twoFactor,
+          },
+        });
+        return;
+      }
+
       res.json({
         success: true,
         data: {
@@ -97,12 +125,60 @@ router.post(
           tokens: result.tokens,
         },
       });
-    } catch (error: any) {
+    } catch (error) {
       res.status(401).json({
         success: false,
         error: {
           code: 'LOGIN_FAILED',
-          message: error.message || 'Login failed',
+          message: errorMessage(error, 'Login failed'),
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /auth/login/2fa
+ * Second login step: verify a TOTP or recovery code against the login challenge
+ */
+router.post(
+  '/login/2fa',
+  [
+    body('challengeToken').isJWT(),
+    body('code').optional().matches(/^\d{6}$/),
+    body('recoveryCode').optional().isLength({ min: 10, max: 20 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty() || (!req.body.code && !req.body.recoveryCode)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A challenge token and a code or recovery code are required',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const data: TwoFactorLoginRequest = req.body;
+      const result = await authService.loginWithTwoFactor(data, req.ip, req.get('User-Agent'));
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          tokens: result.tokens,
+        },
+      });
+    } catch (error) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: error instanceof AuthenticationError && error.code !== 'AUTH_ERROR' ? error.code : 'LOGIN_FAILED',
+          message: errorMessage(error, 'Login failed'),
         },
       });
     }
@@ -133,18 +209,18 @@ router.post(
       }
 
       const { refreshToken } = req.body;
-      const tokens = await authService.refreshToken(refreshToken);
+      const tokens = await authService.refreshToken(refreshToken, req.ip, req.get('User-Agent'));
 
       res.json({
         success: true,
         data: { tokens },
       });
-    } catch (error: any) {
+    } catch (error) {
       res.status(401).json({
         success: false,
         error: {
           code: 'REFRESH_FAILED',
-          message: error.message || 'Token refresh failed',
+          message: errorMessage(error, 'Token refresh failed'),
         },
       });
     }
@@ -157,7 +233,7 @@ router.post(
  */
 router.post(
   '/logout',
-  authenticate,
+  authenticateUser,
   [
     body('refreshToken').exists(),
   ],
@@ -184,12 +260,12 @@ router.post(
         success: true,
         data: { message: 'Logged out successfully' },
       });
-    } catch (error: any) {
+    } catch (error) {
       res.status(500).json({
         success: false,
         error: {
           code: 'LOGOUT_FAILED',
-          message: error.message || 'Logout failed',
+          message: errorMessage(error, 'Logout failed'),
         },
       });
     }
@@ -211,6 +287,347 @@ router.get(
   }
 );
 
+/**
+ * GET /auth/sessions
+ * List the current user's active sessions (devices)
+ */
+router.get(
+  '/sessions',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const sessions = await authService.listSessions(req.user!.id, req.token!.sessionId);
+
+      res.json({
+        success: true,
+        data: { sessions },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_FAILED',
+          message: errorMessage(error, 'Failed to fetch sessions'),
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /auth/sessions/revoke-others
+ * Log out everywhere except the current session
+ */
+router.post(
+  '/sessions/revoke-others',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const currentSessionId = req.token!.sessionId;
+      if (!currentSessionId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'SESSION_UNKNOWN',
+            message: 'Current session could not be determined. Please log in again.',
+          },
+        });
+        return;
+      }
+
+      const revokedCount = await authService.revokeOtherSessions(req.user!.id, currentSessionId, req.ip);
+
+      res.json({
+        success: true,
+        data: {
+          revokedCount,
+          message: 'Logged out of all other sessions',
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REVOKE_FAILED',
+          message: errorMessage(error, 'Failed to revoke sessions'),
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /auth/sessions/:sessionId
+ * Revoke a single session
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticateUser,
+  [
+    param('sessionId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid session id',
+          },
+        });
+        return;
+      }
+
+      await authService.revokeSession(req.user!.id, req.params.sessionId, req.ip);
+
+      res.json({
+        success: true,
+        data: { message: 'Session revoked' },
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationError && error.code === 'SESSION_NOT_FOUND') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: error.message,
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REVOKE_FAILED',
+          message: errorMessage(error, 'Failed to revoke session'),
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /auth/2fa
+ * Two-factor status for the current user
+ */
+router.get(
+  '/2fa',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const status = await twoFactorService.getStatus(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { twoFactor: status },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Two-factor request failed');
+    }
+  }
+);
+
+/**
+ * POST /auth/2fa/setup
+ * Start enrollment. Signed-in users use their access token; users whose
+ * organisation requires 2FA pass the `enroll` challenge token from login.
+ */
+router.post(
+  '/2fa/setup',
+  optionalAuthenticate,
+  [
+    body('challengeToken').optional().isJWT(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty() || (!req.user && !req.body.challengeToken)) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication or a login challenge token is required',
+          },
+        });
+        return;
+      }
+
+      const setup = req.user
+        ? await twoFactorService.beginEnrollment(req.user.id)
+        : await authService.beginRequiredEnrollment(req.body.challengeToken);
+
+      res.json({
+        success: true,
+        data: { setup },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'SETUP_FAILED', 'Two-factor request failed');
+    }
+  }
+);
+
+/**
+ * POST /auth/2fa/enable
+ * Confirm enrollment with a code. Returns recovery codes (shown only once),
+ * plus tokens when completing a required enrollment during login.
+ */
+router.post(
+  '/2fa/enable',
+  optionalAuthenticate,
+  [
+    body('code').matches(/^\d{6}$/),
+    body('challengeToken').optional().isJWT(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A 6-digit code is required',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      if (req.user) {
+        const recoveryCodes = await twoFactorService.confirmEnrollment(req.user.id, req.body.code);
+        res.json({
+          success: true,
+          data: { recoveryCodes },
+        });
+        return;
+      }
+
+      if (!req.body.challengeToken) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication or a login challenge token is required',
+          },
+        });
+        return;
+      }
+
+      const result = await authService.completeRequiredEnrollment(
+        req.body.challengeToken,
+        req.body.code,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ENABLE_FAILED', 'Two-factor request failed');
+    }
+  }
+);
+
+/**
+ * POST /auth/2fa/disable
+ * Turn off two-factor authentication
+ */
+router.post(
+  '/2fa/disable',
+  authenticateUser,
+  [
+    body('password').exists(),
+    body('code').matches(/^\d{6}$/),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Password and a 6-digit code are required',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      await authService.disableTwoFactor(req.user!.id, req.body.password, req.body.code);
+
+      res.json({
+        success: true,
+        data: { message: 'Two-factor authentication disabled' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DISABLE_FAILED', 'Two-factor request failed');
+    }
+  }
+);
+
+/**
+ * POST /auth/2fa/recovery-codes
+ * Replace all recovery codes
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticateUser,
+  [
+    body('code').matches(/^\d{6}$/),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A 6-digit code is required',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+      res.json({
+        success: true,
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REGENERATE_FAILED', 'Two-factor request failed');
+    }
+  }
+);
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
 /**
  * POST /auth/verify-email
  * Verify user email address
@@ -218,23 +635,49 @@ router.get(
 router.post(
   '/verify-email',
   [
-    body('token').exists(),
+    body('token').isString().isLength({ min: 64, max: 64 }),
   ],
   async (req: Request, res: Response<ApiResponse>): Promise<void> => {
-    // TODO: Implement email verification
-    res.status(501).json({
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Email verification not yet implemented',
-      },
-    });
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await accountService.verifyEmail(req.body.token);
+
+      res.json({
+        success: true,
+        data: { message: 'Email address verified' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'VERIFICATION_FAILED', 'Email verification failed');
+    }
+  }
+);
+
+/**
+ * POST /auth/verify-email/resend
+ * Send a new verification link to the current user
+ */
+router.post(
+  '/verify-email/resend',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      await accountService.sendVerificationEmail(req.user!.id, req.ip);
+
+      res.status(202).json({
+        success: true,
+        data: { message: 'If your email address is not yet verified, a new link is on its way' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'VERIFICATION_FAILED', 'Failed to send verification email');
+    }
   }
 );
 
 /**
  * POST /auth/forgot-password
- * Initiate password reset
+ * Initiate password reset. The response is the same whether or not the
+ * email address has an account.
  */
 router.post(
   '/forgot-password',
@@ -242,36 +685,162 @@ router.post(
     body('email').isEmail().normalizeEmail(),
   ],
   async (req: Request, res: Response<ApiResponse>): Promise<void> => {
-    // TODO: Implement password reset
-    res.status(501).json({
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Password reset not yet implemented',
-      },
-    });
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await accountService.requestPasswordReset(req.body.email, req.ip);
+
+      res.status(202).json({
+        success: true,
+        data: { message: 'If an account exists for this email address, a reset link has been sent' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'RESET_FAILED', 'Password reset failed');
+    }
   }
 );
 
 /**
  * POST /auth/reset-password
- * Reset password using token
+ * Reset password using token; signs out every session
  */
 router.post(
   '/reset-password',
   [
-    body('token').exists(),
+    body('token').isString().isLength({ min: 64, max: 64 }),
     body('password').isLength({ min: 8 }),
   ],
   async (req: Request, res: Response<ApiResponse>): Promise<void> => {
-    // TODO: Implement password reset
-    res.status(501).json({
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Password reset not yet implemented',
-      },
-    });
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { token, password }: ResetPasswordRequest = req.body;
+      await accountService.resetPassword(token, password, req.ip);
+
+      res.json({
+        success: true,
+        data: { message: 'Password has been reset. Please log in with your new password.' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'RESET_FAILED', 'Password reset failed');
+    }
+  }
+);
+
+/**
+ * GET /auth/me/export
+ * Download everything stored about the current user as JSON
+ */
+router.get(
+  '/me/export',
+  authenticateUser,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = await accountService.exportPersonalData(req.user!.id);
+
+      const fileName = `edurank-account-${req.user!.id}-${new Date().toISOString().slice(0, 10)}.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'EXPORT_FAILED', 'Failed to export account data');
+    }
+  }
+);
+
+/**
+ * GET /auth/me/deletion
+ * Pending deletion of the current user's account (null when none)
+ */
+router.get(
+  '/me/deletion',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const deletion = await accountService.getDeletionStatus(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { deletion },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch account deletion');
+    }
+  }
+);
+
+/**
+ * POST /auth/me/deletion
+ * Schedule deletion of the current user's account after the cooling-off
+ * period. Requires the password; repeating the request returns the schedule.
+ */
+router.post(
+  '/me/deletion',
+  authenticateUser,
+  [
+    body('password').isString().notEmpty(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const deletion = await accountService.requestDeletion(req.user!.id, req.body.password, req.ip);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          deletion,
+          message: 'Your account will be deleted at the end of the cooling-off period',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationError && error.code === 'INVALID_CREDENTIALS') {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+
+      sendServiceError(res, error, 'DELETION_REQUEST_FAILED', 'Failed to schedule account deletion');
+    }
+  }
+);
+
+/**
+ * DELETE /auth/me/deletion
+ * Cancel a pending account deletion
+ */
+router.delete(
+  '/me/deletion',
+  authenticateUser,
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      await accountService.cancelDeletion(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Account deletion cancelled' },
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationError && error.code === 'DELETION_NOT_PENDING') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+
+      sendServiceError(res, error, 'DELETION_CANCEL_FAILED', 'Failed to cancel account deletion');
+    }
   }
 );
 
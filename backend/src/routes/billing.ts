@@ -0,0 +1,177 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, validationResult } from 'express-validator';
+import { authenticate, authenticateUser, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { billingService } from '../services/billing';
+import { ApiResponse, ChangePlanRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/billing
+const router = Router({ mergeParams: true });
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * GET /org/:organisationId/billing/plans
+ * Plans the organisation can subscribe to
+ */
+router.get(
+  '/plans',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const plans = await billingService.listPlans();
+
+      res.json({
+        success: true,
+        data: { plans },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch plans');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/billing
+ * Current plan, seat usage, monthly cost and AI credit pool
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const billing = await billingService.getOverview(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { billing },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch billing');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/billing
+ * Change plan or purchased seats. Seats cannot go below those in use
+ * (members and pending invites).
+ */
+router.put(
+  '/',
+  authenticateUser,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  [
+    body('planCode').isString().trim().isLength({ min: 1, max: 50 }),
+    body('seats').isInt({ min: 1, max: 1000000 }).toInt(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as ChangePlanRequest;
+      const billing = await billingService.changePlan(req.params.organisationId, data, req.user!);
+
+      res.json({
+        success: true,
+        data: { billing },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to change plan');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/billing/usage
+ * AI usage by members so far in the current billing period
+ */
+router.get(
+  '/usage',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const usage = await billingService.getCurrentUsage(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { usage },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch usage');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/billing/statements
+ * Monthly usage statements of closed billing periods
+ */
+router.get(
+  '/statements',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const statements = await billingService.listStatements(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { statements },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch usage statements');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/billing/invoices
+ * Invoices issued through the payment provider
+ */
+router.get(
+  '/invoices',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'billing' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const invoices = await billingService.listInvoices(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { invoices },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch invoices');
+    }
+  }
+);
+
+export default router;
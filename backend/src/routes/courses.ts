@@ -0,0 +1,678 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, param, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation, hasPermission } from '../middleware/auth';
+import { courseService } from '../services/course';
+import {
+  ApiResponse,
+  CourseViewer,
+  CreateAssignmentRequest,
+  CreateCourseRequest,
+  CreateSectionRequest,
+  EnrolRequest,
+  GradeSubmissionRequest,
+  UpdateAssignmentRequest,
+  UpdateCourseRequest,
+  UpdateSectionRequest,
+  UpdateSubmissionRequest,
+} from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/courses
+const router = Router({ mergeParams: true });
+
+const sectionPath = '/:courseId/sections/:sectionId';
+const assignmentPath = `${sectionPath}/assignments/:assignmentId`;
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+function getViewer(req: Request): CourseViewer {
+  return {
+    userId: req.user!.id,
+    canManage: hasPermission(req, { resource: 'course', action: 'edit' }),
+  };
+}
+
+/**
+ * Validators for assignment content; everything is optional when updating
+ */
+function assignmentValidators(optional: boolean) {
+  const nullable = { values: optional ? 'null' as const : 'undefined' as const };
+  return [
+    (optional ? body('title').optional() : body('title')).isString().trim().isLength({ min: 1, max: 255 }),
+    body('instructions').optional(nullable).isString().isLength({ max: 10000 }),
+    body('topicId').optional(nullable).isUUID(),
+    body('videoId').optional(nullable).isString().isLength({ min: 1, max: 100 }),
+    body('videoUrl').optional(nullable).isURL({ require_protocol: true, protocols: ['https', 'http'] }),
+    body('quizId').optional(nullable).isUUID(),
+    body('dueAt').optional(nullable).isISO8601().toDate(),
+  ];
+}
+
+const idParams = {
+  course: param('courseId').isUUID(),
+  section: param('sectionId').isUUID(),
+  assignment: param('assignmentId').isUUID(),
+};
+
+/**
+ * GET /org/:organisationId/courses
+ * Courses in the organisation (enrolled courses only, without course.edit)
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'view' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const courses = await courseService.listCourses(req.params.organisationId, getViewer(req));
+
+      res.json({
+        success: true,
+        data: { courses },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch courses');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/courses
+ * Create a course
+ */
+router.post(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'create' }),
+  [
+    body('name').isString().trim().isLength({ min: 1, max: 255 }),
+    body('code').optional().isString().trim().isLength({ min: 1, max: 50 }),
+    body('description').optional().isString().isLength({ max: 10000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as CreateCourseRequest;
+      const course = await courseService.createCourse(req.params.organisationId, data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: { course },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to create course');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/courses/:courseId
+ * Course details with its sections
+ */
+router.get(
+  '/:courseId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'view' }),
+  [idParams.course],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const course = await courseService.getCourse(req.params.organisationId, req.params.courseId, getViewer(req));
+
+      res.json({
+        success: true,
+        data: { course },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch course');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/courses/:courseId
+ * Update course name, code or description
+ */
+router.patch(
+  '/:courseId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+    body('code').optional({ values: 'null' }).isString().trim().isLength({ min: 1, max: 50 }),
+    body('description').optional({ values: 'null' }).isString().isLength({ max: 10000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      // Optional fields sent as null clear the value
+      const data = matchedData(req, { locations: ['body'], includeOptionals: true }) as UpdateCourseRequest;
+      const course = await courseService.updateCourse(
+        req.params.organisationId,
+        req.params.courseId,
+        data,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { course },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update course');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/courses/:courseId
+ * Delete a course with its sections and assignments
+ */
+router.delete(
+  '/:courseId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'delete' }),
+  [idParams.course],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await courseService.deleteCourse(req.params.organisationId, req.params.courseId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Course deleted' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to delete course');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/courses/:courseId/sections
+ * Add a class section
+ */
+router.post(
+  '/:courseId/sections',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    body('name').isString().trim().isLength({ min: 1, max: 255 }),
+    body('term').optional().isString().trim().isLength({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as CreateSectionRequest;
+      const section = await courseService.createSection(
+        req.params.organisationId,
+        req.params.courseId,
+        data,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { section },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to create section');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/courses/:courseId/sections/:sectionId
+ * Rename a section or change its term
+ */
+router.patch(
+  sectionPath,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    idParams.section,
+    body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+    body('term').optional({ values: 'null' }).isString().trim().isLength({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      // Optional fields sent as null clear the value
+      const data = matchedData(req, { locations: ['body'], includeOptionals: true }) as UpdateSectionRequest;
+      const section = await courseService.updateSection(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        data,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { section },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update section');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/courses/:courseId/sections/:sectionId
+ * Delete a section
+ */
+router.delete(
+  sectionPath,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [idParams.course, idParams.section],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await courseService.deleteSection(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'Section deleted' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to delete section');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/courses/:courseId/sections/:sectionId/enrolments
+ * Teachers and students in the section
+ */
+router.get(
+  `${sectionPath}/enrolments`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [idParams.course, idParams.section],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const enrolments = await courseService.listEnrolments(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId
+      );
+
+      res.json({
+        success: true,
+        data: { enrolments },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch enrolments');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/courses/:courseId/sections/:sectionId/enrolments
+ * Enrol an organisation member as teacher or student
+ */
+router.post(
+  `${sectionPath}/enrolments`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    idParams.section,
+    body('userId').isUUID(),
+    body('role').isIn(['teacher', 'student']),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { userId, role }: EnrolRequest = req.body;
+      await courseService.enrol(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        { userId, role },
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'User enrolled' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ENROL_FAILED', 'Failed to enrol user');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/courses/:courseId/sections/:sectionId/enrolments/:userId
+ * Remove a user from the section
+ */
+router.delete(
+  `${sectionPath}/enrolments/:userId`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [idParams.course, idParams.section, param('userId').isUUID()],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await courseService.unenrol(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.userId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'User removed from section' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UNENROL_FAILED', 'Failed to remove user from section');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/courses/:courseId/sections/:sectionId/assignments
+ * Assignments in the section; students also get their own status
+ */
+router.get(
+  `${sectionPath}/assignments`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'view' }),
+  [idParams.course, idParams.section],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const assignments = await courseService.listAssignments(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        getViewer(req)
+      );
+
+      res.json({
+        success: true,
+        data: { assignments },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch assignments');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/courses/:courseId/sections/:sectionId/assignments
+ * Set a topic, video and/or quiz with an optional due date
+ */
+router.post(
+  `${sectionPath}/assignments`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    idParams.section,
+    ...assignmentValidators(false),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as CreateAssignmentRequest;
+      const assignment = await courseService.createAssignment(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        data,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { assignment },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to create assignment');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId
+ * Update an assignment
+ */
+router.patch(
+  assignmentPath,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [
+    idParams.course,
+    idParams.section,
+    idParams.assignment,
+    ...assignmentValidators(true),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      // Optional fields sent as null clear the value
+      const data = matchedData(req, { locations: ['body'], includeOptionals: true }) as UpdateAssignmentRequest;
+      const assignment = await courseService.updateAssignment(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.assignmentId,
+        data,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { assignment },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update assignment');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId
+ * Delete an assignment
+ */
+router.delete(
+  assignmentPath,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'edit' }),
+  [idParams.course, idParams.section, idParams.assignment],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await courseService.deleteAssignment(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.assignmentId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'Assignment deleted' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to delete assignment');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId/submissions
+ * Submission status of every student in the section
+ */
+router.get(
+  `${assignmentPath}/submissions`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'quiz', action: 'grade' }),
+  [idParams.course, idParams.section, idParams.assignment],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const submissions = await courseService.listSubmissions(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.assignmentId
+      );
+
+      res.json({
+        success: true,
+        data: { submissions },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch submissions');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId/submission
+ * Start or hand in the current student's work
+ */
+router.put(
+  `${assignmentPath}/submission`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'course', action: 'view' }),
+  [
+    idParams.course,
+    idParams.section,
+    idParams.assignment,
+    body('status').isIn(['in_progress', 'submitted']),
+    body('score').optional().isFloat({ min: 0 }).toFloat(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { status, score }: UpdateSubmissionRequest = req.body;
+      const submission = await courseService.updateOwnSubmission(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.assignmentId,
+        req.user!.id,
+        { status, score }
+      );
+
+      res.json({
+        success: true,
+        data: { submission },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'SUBMIT_FAILED', 'Failed to update submission');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/courses/:courseId/sections/:sectionId/assignments/:assignmentId/submissions/:userId
+ * Grade a student's work
+ */
+router.put(
+  `${assignmentPath}/submissions/:userId`,
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'quiz', action: 'grade' }),
+  [
+    idParams.course,
+    idParams.section,
+    idParams.assignment,
+    param('userId').isUUID(),
+    body('score').optional().isFloat({ min: 0 }).toFloat(),
+    body('feedback').optional().isString().isLength({ max: 10000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { score, feedback }: GradeSubmissionRequest = req.body;
+      const submission = await courseService.gradeSubmission(
+        req.params.organisationId,
+        req.params.courseId,
+        req.params.sectionId,
+        req.params.assignmentId,
+        req.params.userId,
+        { score, feedback },
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { submission },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'GRADE_FAILED', 'Failed to grade submission');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,238 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { domainJoinService } from '../services/domainJoin';
+import { ApiResponse, UpdateAutoJoinRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId
+const router = Router({ mergeParams: true });
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * GET /org/:organisationId/domain
+ * Domain verification status, TXT record to publish and auto-join settings
+ */
+router.get(
+  '/domain',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const domain = await domainJoinService.getStatus(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { domain },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch domain status');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/domain
+ * Set the email domain to verify and get a new verification token
+ */
+router.put(
+  '/domain',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    body('domain').isFQDN().toLowerCase(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const domain = await domainJoinService.setDomain(req.params.organisationId, req.body.domain, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { domain },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to set domain');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/domain/verify
+ * Look up the TXT record and mark the domain verified
+ */
+router.post(
+  '/domain/verify',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const domain = await domainJoinService.verifyDomain(req.params.organisationId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { domain },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'VERIFICATION_FAILED', 'Failed to verify domain');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/auto-join
+ * Configure what happens when users register with the verified domain
+ */
+router.put(
+  '/auto-join',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    body('mode').isIn(['disabled', 'automatic', 'approval']),
+    body('roleId').optional().isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { mode, roleId }: UpdateAutoJoinRequest = req.body;
+      const domain = await domainJoinService.updateAutoJoin(
+        req.params.organisationId,
+        { mode, roleId },
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { domain },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update auto-join settings');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/join-requests
+ * List domain join requests (pending by default)
+ */
+router.get(
+  '/join-requests',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  [
+    query('status').optional().isIn(['pending', 'approved', 'rejected']),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const requests = await domainJoinService.listJoinRequests(
+        req.params.organisationId,
+        req.query.status as 'pending' | 'approved' | 'rejected' | undefined
+      );
+
+      res.json({
+        success: true,
+        data: { requests },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch join requests');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/join-requests/:requestId/approve
+ * Add the user with the given role (or the auto-join default)
+ */
+router.post(
+  '/join-requests/:requestId/approve',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  [
+    param('requestId').isUUID(),
+    body('roleId').optional().isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await domainJoinService.reviewJoinRequest(
+        req.params.organisationId,
+        req.params.requestId,
+        true,
+        req.user!.id,
+        req.body.roleId
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'Join request approved' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REVIEW_FAILED', 'Failed to approve join request');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/join-requests/:requestId/reject
+ * Reject a join request
+ */
+router.post(
+  '/join-requests/:requestId/reject',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  [
+    param('requestId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await domainJoinService.reviewJoinRequest(
+        req.params.organisationId,
+        req.params.requestId,
+        false,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { message: 'Join request rejected' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REVIEW_FAILED', 'Failed to reject join request');
+    }
+  }
+);
+
+export default router;
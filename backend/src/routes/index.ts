@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import authRoutes from './auth';
+import organisationRoutes from './organisations';
+import inviteRoutes from './invites';
+import roleRoutes from './roles';
+import auditRoutes from './audit';
+import domainRoutes from './domains';
+import ssoRoutes from './sso';
+import ssoConfigRoutes from './ssoConfig';
+import ltiRoutes from './lti';
+import ltiPlatformRoutes from './ltiPlatforms';
+import courseRoutes from './courses';
+import rosterRoutes from './roster';
+import webhookRoutes from './webhooks';
+import apiKeyRoutes from './apiKeys';
+import billingRoutes from './billing';
+import analyticsRoutes from './analytics';
+
+export interface ApiRouteMount {
+  path: string;
+  router: Router;
+  // Route file in this directory; also the OpenAPI tag
+  source: string;
+  // Apply the stricter authentication rate limit
+  authRateLimit?: boolean;
+}
+
+/**
+ * API routers in mount order. The server mounts these and the OpenAPI
+ * document is generated from them.
+ */
+export const apiRoutes: ApiRouteMount[] = [
+  { path: '/api/auth', router: authRoutes, source: 'auth', authRateLimit: true },
+  { path: '/api/org', router: organisationRoutes, source: 'organisations' },
+  { path: '/api/org/:organisationId/audit', router: auditRoutes, source: 'audit' },
+  { path: '/api/org/:organisationId/sso', router: ssoConfigRoutes, source: 'ssoConfig' },
+  { path: '/api/org/:organisationId/lti/platforms', router: ltiPlatformRoutes, source: 'ltiPlatforms' },
+  { path: '/api/org/:organisationId/courses', router: courseRoutes, source: 'courses' },
+  { path: '/api/org/:organisationId/roster', router: rosterRoutes, source: 'roster' },
+  { path: '/api/org/:organisationId/webhooks', router: webhookRoutes, source: 'webhooks' },
+  { path: '/api/org/:organisationId/api-keys', router: apiKeyRoutes, source: 'apiKeys' },
+  { path: '/api/org/:organisationId/billing', router: billingRoutes, source: 'billing' },
+  { path: '/api/org/:organisationId/analytics', router: analyticsRoutes, source: 'analytics' },
+  { path: '/api/org/:organisationId', router: roleRoutes, source: 'roles' },
+  { path: '/api/org/:organisationId', router: domainRoutes, source: 'domains' },
+  { path: '/api/invites', router: inviteRoutes, source: 'invites' },
+  { path: '/api/sso', router: ssoRoutes, source: 'sso', authRateLimit: true },
+  // LMS launches arrive from whole classrooms behind one address, so only the
+  // general limit applies
+  { path: '/api/lti', router: ltiRoutes, source: 'lti' },
+];
@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { inviteService } from '../services/invite';
+import { AcceptInviteRequest, ApiResponse, DeclineInviteRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+const router = Router();
+
+/**
+ * GET /invites/:token
+ * Look up a pending invite so the invitee can see who invited them
+ */
+router.get(
+  '/:token',
+  [
+    param('token').isHexadecimal().isLength({ min: 32, max: 64 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid invite token',
+          },
+        });
+        return;
+      }
+
+      const invite = await inviteService.lookup(req.params.token);
+
+      res.json({
+        success: true,
+        data: { invite },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch invite');
+    }
+  }
+);
+
+/**
+ * POST /invites/accept
+ * Accept an invite, creating the account if needed
+ */
+router.post(
+  '/accept',
+  [
+    body('token').isHexadecimal().isLength({ min: 32, max: 64 }),
+    body('password').isLength({ min: 8 }),
+    body('firstName').optional().isLength({ min: 1, max: 100 }),
+    body('lastName').optional().isLength({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const data: AcceptInviteRequest = req.body;
+      const userContext = await inviteService.accept(data);
+
+      res.json({
+        success: true,
+        data: {
+          user: userContext,
+          message: 'Invitation accepted. You can now log in.',
+        },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ACCEPT_FAILED', 'Failed to accept invitation');
+    }
+  }
+);
+
+/**
+ * POST /invites/decline
+ * Decline an invite
+ */
+router.post(
+  '/decline',
+  [
+    body('token').isHexadecimal().isLength({ min: 32, max: 64 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid invite token',
+          },
+        });
+        return;
+      }
+
+      const { token }: DeclineInviteRequest = req.body;
+      await inviteService.decline(token);
+
+      res.json({
+        success: true,
+        data: { message: 'Invitation declined' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DECLINE_FAILED', 'Failed to decline invitation');
+    }
+  }
+);
+
+export default router;
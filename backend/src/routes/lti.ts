@@ -0,0 +1,198 @@
+import { Router, Request, Response } from 'express';
+import { body, check, matchedData, validationResult } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import { ltiService } from '../services/lti';
+import { ApiResponse, LtiDeepLinkItem, LtiError, LtiScoreRequest } from '../types/auth';
+import { isServiceError, sendServiceError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/lti
+const router = Router();
+
+/**
+ * Frontend page that receives the outcome of a launch
+ */
+function frontendLaunchUrl(page: 'launch' | 'deep-link'): string {
+  return `${(process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '')}/lti/${page}`;
+}
+
+/**
+ * Send the browser to the frontend launch page with an error code
+ */
+function redirectWithError(res: Response, error: unknown): void {
+  if (!isServiceError(error)) {
+    logger.error('LTI launch failed', { error });
+  }
+
+  const code = isServiceError(error) ? error.code : 'LTI_FAILED';
+  res.redirect(`${frontendLaunchUrl('launch')}?error=${encodeURIComponent(code)}`);
+}
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * GET /lti/jwks
+ * Tool public keys
+ */
+router.get('/jwks', (req: Request, res: Response): void => {
+  res.json(ltiService.getJwks());
+});
+
+/**
+ * GET|POST /lti/login
+ * OIDC login initiation from the platform; redirects to its auth endpoint
+ */
+const loginValidators = [
+  check('iss').isString().isLength({ min: 1, max: 500 }),
+  check('login_hint').isString().isLength({ min: 1, max: 2000 }),
+  check('target_link_uri').isURL({ require_protocol: true, require_tld: false }),
+  check('lti_message_hint').optional().isString().isLength({ max: 4000 }),
+  check('client_id').optional().isString().isLength({ max: 255 }),
+  check('lti_deployment_id').optional().isString().isLength({ max: 255 }),
+];
+
+async function initiateLogin(req: Request, res: Response): Promise<void> {
+  if (rejectInvalid(req, res)) return;
+
+  try {
+    const input = matchedData(req);
+    const authorizationUrl = await ltiService.startLogin({
+      issuer: input.iss,
+      loginHint: input.login_hint,
+      ltiMessageHint: input.lti_message_hint,
+      clientId: input.client_id,
+      deploymentId: input.lti_deployment_id,
+    });
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    redirectWithError(res, error);
+  }
+}
+
+router.get('/login', loginValidators, initiateLogin);
+router.post('/login', loginValidators, initiateLogin);
+
+/**
+ * POST /lti/launch
+ * Redirect URI for resource link and deep linking launches (form_post).
+ * Tokens are passed to the frontend in the URL fragment.
+ */
+router.post(
+  '/launch',
+  async (req: Request, res: Response): Promise<void> => {
+    const { id_token: idToken, state, error } = req.body;
+
+    if (error || typeof idToken !== 'string' || typeof state !== 'string') {
+      redirectWithError(res, new LtiError('The platform did not complete the launch', 'LTI_PLATFORM_DENIED'));
+      return;
+    }
+
+    try {
+      const launch = await ltiService.handleLaunch(idToken, state, req.ip, req.get('User-Agent'));
+
+      const fragment = new URLSearchParams({
+        accessToken: launch.tokens.accessToken,
+        refreshToken: launch.tokens.refreshToken,
+        expiresIn: String(launch.tokens.expiresIn),
+      });
+
+      if (launch.messageType === 'LtiDeepLinkingRequest') {
+        fragment.set('deepLinkToken', launch.deepLinkToken!);
+        res.redirect(`${frontendLaunchUrl('deep-link')}#${fragment.toString()}`);
+        return;
+      }
+
+      fragment.set('launchId', launch.launchId!);
+      if (launch.target) {
+        fragment.set('targetType', launch.target.type);
+        fragment.set('targetId', launch.target.id);
+      }
+      res.redirect(`${frontendLaunchUrl('launch')}#${fragment.toString()}`);
+    } catch (error) {
+      redirectWithError(res, error);
+    }
+  }
+);
+
+/**
+ * POST /lti/deep-link/response
+ * Sign the teacher's quiz/todo selection for the platform. The frontend
+ * form-posts `jwt` as the JWT parameter to `returnUrl`.
+ */
+router.post(
+  '/deep-link/response',
+  authenticate,
+  authorize({ resource: 'quiz', action: 'create' }),
+  [
+    body('deepLinkToken').isString().notEmpty(),
+    body('items').isArray({ min: 1, max: 50 }),
+    body('items.*.type').isIn(['quiz', 'todo']),
+    body('items.*.id').isUUID(),
+    body('items.*.title').isString().trim().isLength({ min: 1, max: 255 }),
+    body('items.*.scoreMaximum').optional().isFloat({ gt: 0 }).toFloat(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const items: LtiDeepLinkItem[] = req.body.items;
+      const response = await ltiService.createDeepLinkResponse(req.body.deepLinkToken, req.user!.id, items);
+
+      res.json({
+        success: true,
+        data: response,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DEEP_LINK_FAILED', 'Failed to create deep linking response');
+    }
+  }
+);
+
+/**
+ * POST /lti/grades
+ * Send the launching user's latest result for the placement to the LMS
+ * gradebook
+ */
+router.post(
+  '/grades',
+  authenticate,
+  [
+    body('launchId').isUUID(),
+    body('comment').optional().isString().isLength({ max: 1000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { launchId, comment }: LtiScoreRequest = req.body;
+      await ltiService.submitScore(req.user!.id, { launchId, comment });
+
+      res.json({
+        success: true,
+        data: { message: 'Score sent to the gradebook' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'GRADE_PASSBACK_FAILED', 'Failed to send score');
+    }
+  }
+);
+
+export default router;
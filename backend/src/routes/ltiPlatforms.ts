@@ -0,0 +1,165 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, param, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { ltiService } from '../services/lti';
+import { ApiResponse, LtiPlatformRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/lti/platforms
+const router = Router({ mergeParams: true });
+
+const urlOptions = { require_protocol: true, protocols: ['https', 'http'], require_tld: false };
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * Validators for platform fields; everything is optional when updating
+ */
+function platformValidators(optional: boolean) {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 255 }),
+    field('issuer').isURL(urlOptions),
+    field('clientId').isString().isLength({ min: 1, max: 255 }),
+    body('deploymentIds').optional().isArray({ max: 100 }),
+    body('deploymentIds.*').isString().isLength({ min: 1, max: 255 }),
+    field('authLoginUrl').isURL(urlOptions),
+    field('authTokenUrl').isURL(urlOptions),
+    body('authTokenAudience').optional({ values: 'null' }).isString().isLength({ min: 1, max: 1000 }),
+    field('jwksUrl').isURL(urlOptions),
+    body('enabled').optional().isBoolean().toBoolean(),
+  ];
+}
+
+/**
+ * GET /org/:organisationId/lti/platforms
+ * Registered LMS platforms and the tool URLs to configure in them
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const platforms = await ltiService.listPlatforms(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { platforms, tool: ltiService.getToolConfiguration() },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch LTI platforms');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/lti/platforms
+ * Register an LMS platform (issuer, client ID and its endpoints)
+ */
+router.post(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  platformValidators(false),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as LtiPlatformRequest;
+      const platform = await ltiService.createPlatform(req.params.organisationId, data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: { platform },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to register LTI platform');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/lti/platforms/:platformId
+ * Update a registered platform
+ */
+router.patch(
+  '/:platformId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('platformId').isUUID(),
+    ...platformValidators(true),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as Partial<LtiPlatformRequest>;
+      const platform = await ltiService.updatePlatform(
+        req.params.organisationId,
+        req.params.platformId,
+        data,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { platform },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update LTI platform');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/lti/platforms/:platformId
+ * Remove a platform; its placements stop launching
+ */
+router.delete(
+  '/:platformId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('platformId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await ltiService.deletePlatform(req.params.organisationId, req.params.platformId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'LTI platform removed' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to remove LTI platform');
+    }
+  }
+);
+
+export default router;
@@ -1,11 +1,24 @@
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, matchedData, param, query, validationResult } from 'express-validator';
 import { getDatabase } from '../database';
-import { organisations, invites } from '../types/database';
-import { eq, and } from 'drizzle-orm';
-import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { organisations, invites, users, userRoles, roles } from '../types/database';
+import { eq, and, or, gt, ilike, inArray, isNull, sql } from 'drizzle-orm';
+import { authenticate, authenticateUser, authorize, enforceOrgIsolation } from '../middleware/auth';
 import { auditService } from '../services/audit';
-import { ApiResponse, CreateOrganisationRequest, InviteUserRequest } from '../types/auth';
+import { billingService } from '../services/billing';
+import { inviteService } from '../services/invite';
+import { organisationService } from '../services/organisation';
+import { roleService } from '../services/role';
+import {
+  ApiResponse,
+  PaginatedResponse,
+  CreateOrganisationRequest,
+  DeleteOrganisationRequest,
+  InviteUserRequest,
+  ListOrganisationUsersQuery,
+  OrganisationMember,
+} from '../types/auth';
+import { sendServiceError } from '../utils/errors';
 
 const router = Router();
 
@@ -15,11 +28,11 @@ const router = Router();
  */
 router.post(
   '/',
-  authenticate,
+  authenticateUser,
   [
     body('name').isLength({ min: 1, max: 255 }),
     body('slug').matches(/^[a-z0-9-]+$/).isLength({ min: 3, max: 100 }),
-    body('verifiedDomain').optional().isFQDN(),
+    body('verifiedDomain').optional().isFQDN().toLowerCase(),
   ],
   async (req: Request, res: Response<ApiResponse>): Promise<void> => {
     try {
@@ -70,7 +83,7 @@ router.post(
         .returning();
 
       // Assign user as ADMIN of the organisation
-      // TODO: Implement role assignment
+      await roleService.grantSystemRole(userId, org.id, 'ADMIN', userId);
 
       // Audit log
       await auditService.logOrganisationAction(
@@ -156,8 +169,9 @@ router.patch(
   authorize({ resource: 'organisation', action: 'manage' }),
   [
     body('name').optional().isLength({ min: 1, max: 255 }),
-    body('verifiedDomain').optional().isFQDN(),
+    body('verifiedDomain').optional().isFQDN().toLowerCase(),
     body('status').optional().isIn(['active', 'suspended']),
+    body('requireStaffTwoFactor').optional().isBoolean().toBoolean(),
   ],
   async (req: Request, res: Response<ApiResponse>): Promise<void> => {
     try {
@@ -175,7 +189,7 @@ router.patch(
       }
 
       const { organisationId } = req.params;
-      const updates = req.body;
+      const updates = matchedData(req, { locations: ['body'] });
       const userId = req.user!.id;
       const db = getDatabase();
 
@@ -186,6 +200,15 @@ router.patch(
         .where(eq(organisations.id, organisationId))
         .limit(1);
 
+      // A new domain has to be verified again before auto-join applies
+      if (updates.verifiedDomain !== undefined && updates.verifiedDomain !== currentOrg?.verifiedDomain) {
+        Object.assign(updates, {
+          domainVerificationToken: null,
+          domainVerifiedAt: null,
+          autoJoinMode: 'disabled',
+        });
+      }
+
       // Update organisation
       const [org] = await db
         .update(organisations)
@@ -219,6 +242,78 @@ router.patch(
   }
 );
 
+/**
+ * DELETE /org/:organisationId
+ * Soft-delete the organisation; it can be restored during the grace period
+ */
+router.delete(
+  '/:organisationId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'delete' }),
+  [
+    body('confirmSlug').isString().notEmpty(),
+    body('reason').optional().isLength({ max: 1000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const { confirmSlug, reason }: DeleteOrganisationRequest = req.body;
+      const org = await organisationService.softDelete(
+        req.params.organisationId,
+        confirmSlug,
+        req.user!.id,
+        reason
+      );
+
+      res.json({
+        success: true,
+        data: {
+          organisation: org,
+          restoreUntil: org.purgeAfter,
+        },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to delete organisation');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/restore
+ * Restore a soft-deleted organisation before it is purged
+ */
+router.post(
+  '/:organisationId/restore',
+  authenticate,
+  enforceOrgIsolation('organisationId', { allowDeleted: true }),
+  authorize({ resource: 'organisation', action: 'delete' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const org = await organisationService.restore(req.params.organisationId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { organisation: org },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'RESTORE_FAILED', 'Failed to restore organisation');
+    }
+  }
+);
+
 /**
  * POST /org/:organisationId/invite
  * Invite user to organisation
@@ -276,12 +371,12 @@ router.post(
         return;
       }
 
-      // Generate secure token
-      const token = require('crypto').randomBytes(32).toString('hex');
-      const tokenHash = require('crypto').createHash('sha256').update(token).digest('hex');
+      // The invite takes a seat until it is accepted, revoked or expires
+      await billingService.assertSeatsAvailable(organisationId);
 
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+      // Generate secure token
+      const { token, tokenHash } = inviteService.generateToken();
+      const expiresAt = inviteService.getExpiryDate();
 
       // Create invite
       const [invite] = await db
@@ -296,7 +391,8 @@ router.post(
         })
         .returning();
 
-      // TODO: Send email invitation
+      const inviterName = [req.user!.firstName, req.user!.lastName].filter(Boolean).join(' ') || undefined;
+      await inviteService.sendInviteEmail(invite, token, inviterName);
 
       // Audit log
       await auditService.logOrganisationAction(
@@ -315,37 +411,229 @@ router.post(
           message: 'Invitation sent successfully',
         },
       });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INVITE_FAILED',
-          message: error.message || 'Failed to send invitation',
+    } catch (error) {
+      sendServiceError(res, error, 'INVITE_FAILED', 'Failed to send invitation');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/invite/:inviteId/resend
+ * Re-issue a pending or expired invite with a fresh token
+ */
+router.post(
+  '/:organisationId/invite/:inviteId/resend',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  [
+    param('inviteId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const { organisationId, inviteId } = req.params;
+      const inviterName = [req.user!.firstName, req.user!.lastName].filter(Boolean).join(' ') || undefined;
+      const invite = await inviteService.resend(organisationId, inviteId, req.user!.id, inviterName);
+
+      res.json({
+        success: true,
+        data: {
+          invite,
+          message: 'Invitation resent successfully',
         },
       });
+    } catch (error) {
+      sendServiceError(res, error, 'RESEND_FAILED', 'Failed to resend invitation');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/invite/:inviteId
+ * Revoke a pending invite
+ */
+router.delete(
+  '/:organisationId/invite/:inviteId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  [
+    param('inviteId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const { organisationId, inviteId } = req.params;
+      await inviteService.revoke(organisationId, inviteId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Invitation revoked' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REVOKE_FAILED', 'Failed to revoke invitation');
     }
   }
 );
 
 /**
  * GET /org/:organisationId/users
- * Get organisation users
+ * Get organisation users with their roles (paginated)
  */
 router.get(
   '/:organisationId/users',
   authenticate,
   enforceOrgIsolation(),
   authorize({ resource: 'user', action: 'view' }),
-  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('role').optional().isLength({ min: 1, max: 100 }),
+    query('search').optional().trim().isLength({ min: 1, max: 255 }),
+    query('sortOrder').optional().isIn(['asc', 'desc']),
+  ],
+  async (req: Request, res: Response<PaginatedResponse<OrganisationMember> | ApiResponse>): Promise<void> => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
       const { organisationId } = req.params;
+      const { role, search, sortOrder = 'desc' } = req.query as ListOrganisationUsersQuery;
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const db = getDatabase();
 
-      // TODO: Implement user fetching with roles
-      // This is a placeholder - need to join users with user_roles
+      // Active memberships of this organisation, optionally narrowed to one role
+      const activeMembership = and(
+        eq(userRoles.organisationId, organisationId),
+        or(isNull(userRoles.expiresAt), gt(userRoles.expiresAt, new Date()))
+      );
+
+      const memberIds = db
+        .select({ userId: userRoles.userId })
+        .from(userRoles)
+        .innerJoin(roles, eq(roles.id, userRoles.roleId))
+        .where(and(activeMembership, role ? eq(roles.name, role) : undefined));
+
+      const searchPattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : undefined;
+      const conditions = and(
+        isNull(users.deletedAt),
+        inArray(users.id, memberIds),
+        searchPattern
+          ? or(
+              ilike(users.email, searchPattern),
+              ilike(users.firstName, searchPattern),
+              ilike(users.lastName, searchPattern)
+            )
+          : undefined
+      );
+
+      const [{ total }] = await db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(users)
+        .where(conditions);
+
+      const pageUsers = await db
+        .select({
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          emailVerified: users.emailVerified,
+          lastLoginAt: users.lastLoginAt,
+        })
+        .from(users)
+        .where(conditions)
+        .orderBy(
+          sortOrder === 'asc'
+            ? sql`${users.lastLoginAt} ASC NULLS FIRST`
+            : sql`${users.lastLoginAt} DESC NULLS LAST`,
+          users.id
+        )
+        .limit(limit)
+        .offset((page - 1) * limit);
+
+      // Fetch roles for the users on this page in a single query
+      const memberRoles = pageUsers.length > 0
+        ? await db
+            .select({
+              userId: userRoles.userId,
+              id: roles.id,
+              name: roles.name,
+              assignedAt: userRoles.assignedAt,
+              expiresAt: userRoles.expiresAt,
+            })
+            .from(userRoles)
+            .innerJoin(roles, eq(roles.id, userRoles.roleId))
+            .where(and(activeMembership, inArray(userRoles.userId, pageUsers.map(u => u.id))))
+        : [];
+
+      const members: OrganisationMember[] = pageUsers.map(user => ({
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName || undefined,
+        lastName: user.lastName || undefined,
+        emailVerified: user.emailVerified ?? false,
+        lastLoginAt: user.lastLoginAt || undefined,
+        roles: memberRoles
+          .filter(r => r.userId === user.id)
+          .map(r => ({
+            id: r.id,
+            name: r.name,
+            organisationId,
+            assignedAt: r.assignedAt || undefined,
+            expiresAt: r.expiresAt || undefined,
+          })),
+      }));
 
       res.json({
         success: true,
-        data: { users: [] }, // Placeholder
+        data: members,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
       });
     } catch (error: any) {
       res.status(500).json({
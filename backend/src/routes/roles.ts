@@ -0,0 +1,346 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { roleService } from '../services/role';
+import {
+  ApiResponse,
+  AssignRoleRequest,
+  CreateRoleRequest,
+  UpdateRoleRequest,
+} from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId
+const router = Router({ mergeParams: true });
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * GET /org/:organisationId/permissions
+ * List all permissions that can be attached to roles
+ */
+router.get(
+  '/permissions',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'view' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const permissions = await roleService.listPermissions();
+
+      res.json({
+        success: true,
+        data: { permissions },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch permissions');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/roles
+ * List system roles and the organisation's custom roles
+ */
+router.get(
+  '/roles',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'view' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const roles = await roleService.listRoles(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { roles },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch roles');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/roles
+ * Create a custom organisation role
+ */
+router.post(
+  '/roles',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    body('name').trim().matches(/^[A-Za-z0-9_ -]+$/).isLength({ min: 1, max: 100 }),
+    body('description').optional().isLength({ max: 1000 }),
+    body('permissionIds').optional().isArray({ max: 200 }),
+    body('permissionIds.*').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data: CreateRoleRequest = req.body;
+      const role = await roleService.createRole(req.params.organisationId, data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: { role },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATION_FAILED', 'Failed to create role');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/roles/:roleId
+ * Rename or describe a custom role
+ */
+router.patch(
+  '/roles/:roleId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('roleId').isUUID(),
+    body('name').optional().trim().matches(/^[A-Za-z0-9_ -]+$/).isLength({ min: 1, max: 100 }),
+    body('description').optional().isLength({ max: 1000 }),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const { name, description }: UpdateRoleRequest = req.body;
+      const role = await roleService.updateRole(
+        req.params.organisationId,
+        req.params.roleId,
+        { name, description },
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { role },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update role');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/roles/:roleId
+ * Delete a custom role and remove it from all members
+ */
+router.delete(
+  '/roles/:roleId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('roleId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await roleService.deleteRole(req.params.organisationId, req.params.roleId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Role deleted' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to delete role');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/roles/:roleId/permissions
+ * Attach permissions to a custom role
+ */
+router.post(
+  '/roles/:roleId/permissions',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('roleId').isUUID(),
+    body('permissionIds').isArray({ min: 1, max: 200 }),
+    body('permissionIds.*').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const role = await roleService.attachPermissions(
+        req.params.organisationId,
+        req.params.roleId,
+        req.body.permissionIds,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { role },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to attach permissions');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/roles/:roleId/permissions/:permissionId
+ * Detach a permission from a custom role
+ */
+router.delete(
+  '/roles/:roleId/permissions/:permissionId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('roleId').isUUID(),
+    param('permissionId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const role = await roleService.detachPermission(
+        req.params.organisationId,
+        req.params.roleId,
+        req.params.permissionId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { role },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to detach permission');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/users/:userId/roles
+ * Assign a custom role to a member, optionally with an expiry
+ */
+router.post(
+  '/users/:userId/roles',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('userId').isUUID(),
+    body('roleId').isUUID(),
+    body('expiresAt').optional().isISO8601(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data: AssignRoleRequest = req.body;
+      const access = await roleService.assignRole(
+        req.params.organisationId,
+        req.params.userId,
+        data.roleId,
+        req.user!.id,
+        data.expiresAt ? new Date(data.expiresAt) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: { access },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ASSIGN_FAILED', 'Failed to assign role');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/users/:userId/roles/:roleId
+ * Remove a role from a member
+ */
+router.delete(
+  '/users/:userId/roles/:roleId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'manage' }),
+  [
+    param('userId').isUUID(),
+    param('roleId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const access = await roleService.unassignRole(
+        req.params.organisationId,
+        req.params.userId,
+        req.params.roleId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { access },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UNASSIGN_FAILED', 'Failed to remove role');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/users/:userId/permissions
+ * List a member's effective roles and permissions in the organisation
+ */
+router.get(
+  '/users/:userId/permissions',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'role', action: 'view' }),
+  [
+    param('userId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const access = await roleService.getEffectivePermissions(req.params.userId, req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { access },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch permissions');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,105 @@
+import express, { Router, Request, Response } from 'express';
+import { matchedData, query, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { rosterService } from '../services/roster';
+import { ApiResponse } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/roster
+const router = Router({ mergeParams: true });
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * POST /org/:organisationId/roster/import
+ * Import a roster CSV (columns: email, name or first_name/last_name, role,
+ * class). Send the file as text/csv, or JSON `{ csv }`. With `?dryRun=true`
+ * rows are validated and their outcome reported without changing anything.
+ */
+router.post(
+  '/import',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'invite' }),
+  authorize({ resource: 'user', action: 'manage' }),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  [
+    query('dryRun').optional().isBoolean().toBoolean(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+      if (typeof csv !== 'string' || csv.trim() === '') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Send the roster as a text/csv body or as JSON { csv }',
+          },
+        });
+        return;
+      }
+
+      const { dryRun = false } = matchedData(req, { locations: ['query'] });
+      const actorName = [req.user!.firstName, req.user!.lastName].filter(Boolean).join(' ') || undefined;
+      const result = await rosterService.importRoster(
+        req.params.organisationId,
+        csv,
+        { dryRun },
+        { id: req.user!.id, name: actorName }
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ROSTER_IMPORT_FAILED', 'Failed to import roster');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/roster/export
+ * Current members and pending invites as CSV, in the import format
+ */
+router.get(
+  '/export',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'user', action: 'view' }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const csv = await rosterService.exportRoster(req.params.organisationId);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      const fileName = `roster-${req.params.organisationId}-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(csv);
+    } catch (error) {
+      sendServiceError(res, error, 'ROSTER_EXPORT_FAILED', 'Failed to export roster');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,137 @@
+import { Router, CookieOptions, Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { ssoService } from '../services/sso';
+import { SsoError } from '../types/auth';
+import { isServiceError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/sso
+const router = Router();
+
+/**
+ * Frontend page that receives the outcome of a sign-in
+ */
+function frontendCallbackUrl(): string {
+  return `${(process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '')}/auth/sso/callback`;
+}
+
+const STATE_COOKIE = 'sso_state';
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000; // As long as the sign-in state lasts
+
+/**
+ * The state cookie ties the callback to the browser that started the sign-in,
+ * so nobody can finish their own sign-in in someone else's browser
+ */
+function stateCookieOptions(req: Request): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax still sends it on the provider's top-level redirect back
+    sameSite: 'lax',
+    path: req.baseUrl,
+  };
+}
+
+/**
+ * Value of a cookie from the request header
+ */
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Send the browser back to the frontend with an error code
+ */
+function redirectWithError(res: Response, error: unknown): void {
+  if (!isServiceError(error)) {
+    logger.error('SSO sign-in failed', { error });
+  }
+
+  const code = isServiceError(error) ? error.code : 'SSO_FAILED';
+  res.redirect(`${frontendCallbackUrl()}?error=${encodeURIComponent(code)}`);
+}
+
+/**
+ * GET /sso/:organisationSlug/login
+ * Redirect to the organisation's identity provider
+ */
+router.get(
+  '/:organisationSlug/login',
+  [
+    param('organisationSlug').matches(/^[a-z0-9-]+$/),
+    // Only same-site paths, so the flow cannot be used as an open redirect
+    query('returnTo').optional().matches(/^\/(?!\/)[^\s\\]*$/),
+    query('loginHint').optional().isEmail(),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: errors.array(),
+        },
+      });
+      return;
+    }
+
+    try {
+      const { authorizationUrl, state } = await ssoService.startLogin(
+        req.params.organisationSlug,
+        req.query.returnTo as string | undefined,
+        req.query.loginHint as string | undefined
+      );
+      res.cookie(STATE_COOKIE, state, { ...stateCookieOptions(req), maxAge: STATE_COOKIE_MAX_AGE_MS });
+      res.redirect(authorizationUrl);
+    } catch (error) {
+      redirectWithError(res, error);
+    }
+  }
+);
+
+/**
+ * GET /sso/callback
+ * Redirect URI registered with identity providers. Tokens are passed to the
+ * frontend in the URL fragment, which browsers never send to servers.
+ */
+router.get(
+  '/callback',
+  async (req: Request, res: Response): Promise<void> => {
+    const { code, state, error } = req.query;
+    const browserState = readCookie(req, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, stateCookieOptions(req));
+
+    if (error || typeof code !== 'string' || typeof state !== 'string') {
+      redirectWithError(res, new SsoError('Sign-in was cancelled or failed', 'SSO_PROVIDER_DENIED'));
+      return;
+    }
+    if (state !== browserState) {
+      redirectWithError(res, new SsoError('Sign-in was started in another browser, please try again', 'SSO_INVALID_STATE'));
+      return;
+    }
+
+    try {
+      const { tokens, returnTo } = await ssoService.handleCallback(state, code, req.ip, req.get('User-Agent'));
+
+      const fragment = new URLSearchParams({
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: String(tokens.expiresIn),
+        ...(returnTo ? { returnTo } : {}),
+      });
+      res.redirect(`${frontendCallbackUrl()}#${fragment.toString()}`);
+    } catch (error) {
+      redirectWithError(res, error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { ssoService } from '../services/sso';
+import { ApiResponse, SsoConfigRequest } from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/sso
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /org/:organisationId/sso
+ * Current identity provider settings
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const config = await ssoService.getConfig(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { config },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch SSO settings');
+    }
+  }
+);
+
+/**
+ * PUT /org/:organisationId/sso
+ * Configure the organisation's OpenID Connect identity provider
+ */
+router.put(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    body('issuer').isURL({ require_protocol: true, protocols: ['https', 'http'], require_tld: false }),
+    body('clientId').isString().isLength({ min: 1, max: 255 }),
+    body('clientSecret').optional({ values: 'null' }).isString().isLength({ max: 1000 }),
+    body('scopes').optional().isArray({ max: 20 }),
+    body('scopes.*').matches(/^[\x21\x23-\x5B\x5D-\x7E]+$/),
+    body('claimMapping').optional().isObject(),
+    body('claimMapping.*').optional().isString().isLength({ min: 1, max: 100 }),
+    body('roleMappings').optional().isArray({ max: 100 }),
+    body('roleMappings.*.claimValue').isString().isLength({ min: 1, max: 255 }),
+    body('roleMappings.*.roleId').isUUID(),
+    body('defaultRoleId').optional().isUUID(),
+    body('trustEmailVerified').optional().isBoolean().toBoolean(),
+    body('enabled').optional().isBoolean().toBoolean(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      // Plain http issuers are only for local mock identity providers
+      if (process.env.NODE_ENV === 'production' && !req.body.issuer.startsWith('https://')) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Issuer must use https',
+          },
+        });
+        return;
+      }
+
+      const data: SsoConfigRequest = req.body;
+      const config = await ssoService.saveConfig(req.params.organisationId, data, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { config },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to save SSO settings');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/sso
+ * Turn off single sign-on for the organisation
+ */
+router.delete(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      await ssoService.deleteConfig(req.params.organisationId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Single sign-on removed' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to remove SSO settings');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,269 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, param, query, validationResult } from 'express-validator';
+import { authenticate, authorize, enforceOrgIsolation } from '../middleware/auth';
+import { webhookService } from '../services/webhook';
+import {
+  ApiResponse,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookDeliveryStatus,
+} from '../types/auth';
+import { sendServiceError } from '../utils/errors';
+
+// Mounted at /api/org/:organisationId/webhooks
+const router = Router({ mergeParams: true });
+
+const urlOptions = { require_protocol: true, protocols: ['https', 'http'], require_tld: false };
+
+// 'user.invited', 'user.*' or '*'
+const EVENT_PATTERN = /^(\*|[a-z][a-z0-9_]*(\.[a-z0-9_]+)*(\.\*)?)$/;
+
+/**
+ * Send a validation error response if the request failed validation
+ */
+function rejectInvalid(req: Request, res: Response<ApiResponse>): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array(),
+    },
+  });
+  return true;
+}
+
+/**
+ * Validators for webhook fields; everything is optional when updating
+ */
+function webhookValidators(optional: boolean) {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('url').isURL(urlOptions).isLength({ max: 2000 }),
+    body('description').optional({ values: 'null' }).isString().trim().isLength({ max: 255 }),
+    field('events').isArray({ min: 1, max: 100 }),
+    body('events.*').isString().matches(EVENT_PATTERN),
+    body('enabled').optional().isBoolean().toBoolean(),
+  ];
+}
+
+/**
+ * GET /org/:organisationId/webhooks
+ * Webhook endpoints of the organisation
+ */
+router.get(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      const webhooks = await webhookService.list(req.params.organisationId);
+
+      res.json({
+        success: true,
+        data: { webhooks },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch webhooks');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/webhooks
+ * Subscribe an endpoint to events. The signing secret is only shown once.
+ */
+router.post(
+  '/',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  webhookValidators(false),
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'] }) as CreateWebhookRequest;
+      const { webhook, secret } = await webhookService.create(req.params.organisationId, data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: { webhook, secret },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'CREATE_FAILED', 'Failed to create webhook');
+    }
+  }
+);
+
+/**
+ * PATCH /org/:organisationId/webhooks/:webhookId
+ * Update a webhook's URL, description, events or enabled flag
+ */
+router.patch(
+  '/:webhookId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('webhookId').isUUID(),
+    ...webhookValidators(true),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const data = matchedData(req, { locations: ['body'], includeOptionals: true }) as UpdateWebhookRequest;
+      const webhook = await webhookService.update(
+        req.params.organisationId,
+        req.params.webhookId,
+        data,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { webhook },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'UPDATE_FAILED', 'Failed to update webhook');
+    }
+  }
+);
+
+/**
+ * DELETE /org/:organisationId/webhooks/:webhookId
+ * Remove a webhook and its delivery log
+ */
+router.delete(
+  '/:webhookId',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('webhookId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      await webhookService.delete(req.params.organisationId, req.params.webhookId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { message: 'Webhook removed' },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'DELETE_FAILED', 'Failed to remove webhook');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/webhooks/:webhookId/rotate-secret
+ * Issue a new signing secret (shown once)
+ */
+router.post(
+  '/:webhookId/rotate-secret',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('webhookId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const secret = await webhookService.rotateSecret(
+        req.params.organisationId,
+        req.params.webhookId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: { secret },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'ROTATE_FAILED', 'Failed to rotate webhook secret');
+    }
+  }
+);
+
+/**
+ * GET /org/:organisationId/webhooks/:webhookId/deliveries
+ * Delivery log, newest first, with the endpoint's last response
+ */
+router.get(
+  '/:webhookId/deliveries',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('webhookId').isUUID(),
+    query('status').optional().isIn(['pending', 'succeeded', 'failed']),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const filters = matchedData(req, { locations: ['query'] }) as { status?: WebhookDeliveryStatus; limit?: number };
+      const deliveries = await webhookService.listDeliveries(
+        req.params.organisationId,
+        req.params.webhookId,
+        filters
+      );
+
+      res.json({
+        success: true,
+        data: { deliveries },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'FETCH_FAILED', 'Failed to fetch webhook deliveries');
+    }
+  }
+);
+
+/**
+ * POST /org/:organisationId/webhooks/:webhookId/deliveries/:deliveryId/replay
+ * Send a delivery's payload again (same event id, new delivery id)
+ */
+router.post(
+  '/:webhookId/deliveries/:deliveryId/replay',
+  authenticate,
+  enforceOrgIsolation(),
+  authorize({ resource: 'organisation', action: 'manage' }),
+  [
+    param('webhookId').isUUID(),
+    param('deliveryId').isUUID(),
+  ],
+  async (req: Request, res: Response<ApiResponse>): Promise<void> => {
+    try {
+      if (rejectInvalid(req, res)) return;
+
+      const delivery = await webhookService.replay(
+        req.params.organisationId,
+        req.params.webhookId,
+        req.params.deliveryId,
+        req.user!.id
+      );
+
+      res.status(202).json({
+        success: true,
+        data: { delivery },
+      });
+    } catch (error) {
+      sendServiceError(res, error, 'REPLAY_FAILED', 'Failed to replay webhook delivery');
+    }
+  }
+);
+
+export default router;
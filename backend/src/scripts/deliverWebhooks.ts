@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+import { client } from '../database';
+import { webhookService } from '../services/webhook';
+
+// Load environment variables
+dotenv.config();
+
+async function deliverWebhooks() {
+  try {
+    const attempted = await webhookService.processDue();
+    console.log(`📨 Attempted ${attempted} webhook deliver${attempted === 1 ? 'y' : 'ies'}`);
+  } catch (error) {
+    console.error('❌ Webhook delivery failed:', error);
+    process.exitCode = 1;
+  } finally {
+    webhookService.stop();
+    await client?.end();
+  }
+}
+
+deliverWebhooks();
@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { client } from '../database';
+import { generateApiDocument, OPENAPI_FILE } from '../openapi/generator';
+
+// Load environment variables
+dotenv.config();
+
+async function generateOpenApi() {
+  try {
+    const document = generateApiDocument();
+    writeFileSync(OPENAPI_FILE, `${JSON.stringify(document, null, 2)}\n`);
+    console.log(`📘 Wrote ${Object.keys(document.paths).length} paths to ${path.relative(process.cwd(), OPENAPI_FILE)}`);
+  } catch (error) {
+    console.error('❌ OpenAPI generation failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client?.end();
+  }
+}
+
+generateOpenApi();
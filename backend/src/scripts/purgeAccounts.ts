@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+import { client } from '../database';
+import { accountService } from '../services/account';
+
+// Load environment variables
+dotenv.config();
+
+async function purgeAccounts() {
+  try {
+    const purged = await accountService.purgeDueDeletions();
+    console.log(`🗑️  Deleted ${purged} account(s) past their cooling-off period`);
+  } catch (error) {
+    console.error('❌ Account purge failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client?.end();
+  }
+}
+
+purgeAccounts();
@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+import { client } from '../database';
+import { organisationService } from '../services/organisation';
+
+// Load environment variables
+dotenv.config();
+
+async function purgeOrganisations() {
+  try {
+    const purged = await organisationService.purgeExpired();
+    console.log(`🗑️  Purged ${purged} organisation(s) past their restore window`);
+  } catch (error) {
+    console.error('❌ Organisation purge failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client?.end();
+  }
+}
+
+purgeOrganisations();
@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+import { client } from '../database';
+import { billingService } from '../services/billing';
+
+// Load environment variables
+dotenv.config();
+
+async function runBilling() {
+  try {
+    const closed = await billingService.closeDuePeriods();
+    console.log(`🧾 Closed ${closed} billing period(s)`);
+  } catch (error) {
+    console.error('❌ Billing run failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client?.end();
+  }
+}
+
+runBilling();
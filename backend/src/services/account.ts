@@ -0,0 +1,550 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDatabase } from '../database';
+import {
+  accountTokens,
+  assignments,
+  assignmentSubmissions,
+  auditLogs,
+  classEnrolments,
+  classSections,
+  organisations,
+  roles,
+  sessions,
+  twoFactorRecoveryCodes,
+  userIdentities,
+  userRoles,
+  users,
+  userTwoFactor,
+  User,
+} from '../types/database';
+import { eq, and, asc, gt, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import {
+  AccountDeletionStatus,
+  AccountTokenPurpose,
+  AuthenticationError,
+  PersonalDataExport,
+} from '../types/auth';
+import { auditService } from './audit';
+import { authService } from './auth';
+import { domainJoinService } from './domainJoin';
+import { mailerService } from './mailer';
+import { logger } from '../utils/logger';
+
+const TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  email_verification: parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES || '1440'),
+  password_reset: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+};
+
+// A new email is not sent while an earlier one is this recent
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+export class AccountService {
+  private readonly deletionCoolingOffDays: number;
+
+  constructor() {
+    this.deletionCoolingOffDays = parseInt(process.env.ACCOUNT_DELETION_COOLING_OFF_DAYS || '14', 10);
+  }
+
+  /**
+   * Email a verification link, unless the address is already verified or a
+   * link was sent within the last minute
+   */
+  async sendVerificationEmail(userId: string, ipAddress?: string): Promise<void> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+
+    if (!user || user.emailVerified || user.isServiceAccount) return;
+
+    const issued = await this.issueToken(user.id, 'email_verification', ipAddress);
+    if (!issued) return;
+
+    mailerService.sendVerificationEmail(user.email, {
+      firstName: user.firstName || undefined,
+      verifyUrl: mailerService.appUrl('/verify-email', { token: issued.token }),
+      expiresAt: issued.expiresAt,
+    });
+  }
+
+  /**
+   * Mark the email address verified, then apply its domain's auto-join policy
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const record = await this.consumeToken(token, 'email_verification');
+    const db = getDatabase();
+
+    const [user] = await db
+      .update(users)
+      .set({ emailVerified: true, emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, record.userId), isNull(users.deletedAt)))
+      .returning();
+
+    if (!user) {
+      throw new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN');
+    }
+
+    await this.afterEmailVerified(user.id);
+
+    await auditService.log({
+      actorId: user.id,
+      action: 'user.email_verified',
+      resourceType: 'user',
+      resourceId: user.id,
+      metadata: { email: user.email },
+    });
+  }
+
+  /**
+   * Email a reset link if the address belongs to an account. Callers always
+   * report success so the response does not reveal whether it does.
+   */
+  async requestPasswordReset(email: string, ipAddress?: string): Promise<void> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), isNull(users.deletedAt)))
+      .limit(1);
+
+    if (!user || user.isServiceAccount) return;
+
+    const issued = await this.issueToken(user.id, 'password_reset', ipAddress);
+    if (!issued) return;
+
+    mailerService.sendPasswordResetEmail(user.email, {
+      firstName: user.firstName || undefined,
+      resetUrl: mailerService.appUrl('/reset-password', { token: issued.token }),
+      expiresAt: issued.expiresAt,
+    });
+
+    await auditService.log({
+      actorId: user.id,
+      action: 'user.password_reset_requested',
+      resourceType: 'user',
+      resourceId: user.id,
+      metadata: { ipAddress },
+    });
+  }
+
+  /**
+   * Set a new password from a reset link. Every session is revoked and the
+   * token version bumped, so existing access tokens stop working.
+   */
+  async resetPassword(token: string, password: string, ipAddress?: string): Promise<void> {
+    const record = await this.consumeToken(token, 'password_reset');
+    const passwordHash = await authService.hashPassword(password);
+    const db = getDatabase();
+
+    const { user, wasVerified } = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ emailVerified: users.emailVerified })
+        .from(users)
+        .where(eq(users.id, record.userId))
+        .limit(1);
+
+      const [updated] = await tx
+        .update(users)
+        .set({
+          passwordHash,
+          passwordChangedAt: new Date(),
+          tokenVersion: sql`${users.tokenVersion} + 1`,
+          failedLoginAttempts: 0,
+          accountLocked: false,
+          accountLockedUntil: null,
+          // Following the emailed link proves the address works
+          emailVerified: true,
+          emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(users.id, record.userId), isNull(users.deletedAt)))
+        .returning();
+
+      if (!updated) {
+        throw new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN');
+      }
+
+      await tx
+        .update(sessions)
+        .set({ revoked: true, revokedAt: new Date(), revokedBy: updated.id })
+        .where(and(eq(sessions.userId, updated.id), eq(sessions.revoked, false)));
+
+      // Other outstanding reset links stop working too
+      await tx
+        .update(accountTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(accountTokens.userId, updated.id),
+          eq(accountTokens.purpose, 'password_reset'),
+          isNull(accountTokens.usedAt)
+        ));
+
+      return { user: updated, wasVerified: Boolean(existing?.emailVerified) };
+    });
+
+    if (!wasVerified) {
+      await this.afterEmailVerified(user.id);
+    }
+
+    await auditService.log({
+      actorId: user.id,
+      action: 'user.password_reset',
+      resourceType: 'user',
+      resourceId: user.id,
+      metadata: { ipAddress },
+    });
+  }
+
+  /**
+   * Everything stored about the user: profile, memberships, linked
+   * identities, sessions, class enrolments, submissions and their own
+   * audited activity. Secrets and hashes are left out.
+   */
+  async exportPersonalData(userId: string): Promise<PersonalDataExport> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+
+    if (!user) {
+      throw new AuthenticationError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const [twoFactor] = await db
+      .select({ enabled: userTwoFactor.enabled })
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    const memberships = await db
+      .select({
+        organisationId: userRoles.organisationId,
+        organisationName: organisations.name,
+        role: roles.name,
+        assignedAt: userRoles.assignedAt,
+      })
+      .from(userRoles)
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .leftJoin(organisations, eq(organisations.id, userRoles.organisationId))
+      .where(eq(userRoles.userId, userId))
+      .orderBy(asc(userRoles.assignedAt));
+
+    const identities = await db
+      .select({
+        organisationId: userIdentities.organisationId,
+        issuer: userIdentities.issuer,
+        subject: userIdentities.subject,
+        email: userIdentities.email,
+        createdAt: userIdentities.createdAt,
+      })
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId));
+
+    const userSessions = await db
+      .select({
+        id: sessions.id,
+        ipAddress: sessions.ipAddress,
+        userAgent: sessions.userAgent,
+        createdAt: sessions.createdAt,
+        lastUsedAt: sessions.lastUsedAt,
+        revoked: sessions.revoked,
+      })
+      .from(sessions)
+      .where(eq(sessions.userId, userId))
+      .orderBy(asc(sessions.createdAt));
+
+    const enrolments = await db
+      .select({
+        sectionId: classEnrolments.sectionId,
+        sectionName: classSections.name,
+        role: classEnrolments.role,
+        enrolledAt: classEnrolments.enrolledAt,
+      })
+      .from(classEnrolments)
+      .innerJoin(classSections, eq(classSections.id, classEnrolments.sectionId))
+      .where(eq(classEnrolments.userId, userId));
+
+    const submissions = await db
+      .select({
+        assignmentId: assignmentSubmissions.assignmentId,
+        assignmentTitle: assignments.title,
+        status: assignmentSubmissions.status,
+        score: assignmentSubmissions.score,
+        feedback: assignmentSubmissions.feedback,
+        submittedAt: assignmentSubmissions.submittedAt,
+      })
+      .from(assignmentSubmissions)
+      .innerJoin(assignments, eq(assignments.id, assignmentSubmissions.assignmentId))
+      .where(eq(assignmentSubmissions.userId, userId));
+
+    const activity = await db
+      .select({
+        action: auditLogs.action,
+        resourceType: auditLogs.resourceType,
+        resourceId: auditLogs.resourceId,
+        organisationId: auditLogs.organisationId,
+        ipAddress: auditLogs.ipAddress,
+        timestamp: auditLogs.timestamp,
+      })
+      .from(auditLogs)
+      .where(eq(auditLogs.actorId, userId))
+      .orderBy(asc(auditLogs.timestamp));
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.data_exported',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+
+    return {
+      generatedAt: new Date(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        avatarUrl: user.avatarUrl,
+        emailVerified: Boolean(user.emailVerified),
+        twoFactorEnabled: Boolean(twoFactor?.enabled),
+        lastLoginAt: user.lastLoginAt,
+        createdAt: user.createdAt,
+        deletion: this.toDeletionStatus(user),
+      },
+      memberships,
+      identities,
+      sessions: userSessions.map(session => ({ ...session, revoked: Boolean(session.revoked) })),
+      enrolments,
+      submissions,
+      activity,
+    };
+  }
+
+  /**
+   * Pending deletion of the user's account, if any
+   */
+  async getDeletionStatus(userId: string): Promise<AccountDeletionStatus | null> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+
+    return user ? this.toDeletionStatus(user) : null;
+  }
+
+  /**
+   * Schedule deletion of the account after the cooling-off period. The
+   * password is re-checked; the user can keep signing in to cancel.
+   */
+  async requestDeletion(userId: string, password: string, ipAddress?: string): Promise<AccountDeletionStatus> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+
+    if (!user || !(await authService.verifyPassword(password, user.passwordHash))) {
+      throw new AuthenticationError('Invalid credentials', 'INVALID_CREDENTIALS');
+    }
+
+    const existing = this.toDeletionStatus(user);
+    if (existing) return existing;
+
+    const requestedAt = new Date();
+    const scheduledFor = new Date(requestedAt);
+    scheduledFor.setDate(scheduledFor.getDate() + this.deletionCoolingOffDays);
+
+    await db
+      .update(users)
+      .set({ deletionRequestedAt: requestedAt, deletionScheduledFor: scheduledFor, updatedAt: requestedAt })
+      .where(eq(users.id, userId));
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.deletion_requested',
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { scheduledFor: scheduledFor.toISOString(), ipAddress },
+    });
+
+    return { requestedAt, scheduledFor };
+  }
+
+  /**
+   * Cancel a pending deletion
+   */
+  async cancelDeletion(userId: string): Promise<void> {
+    const db = getDatabase();
+    const [user] = await db
+      .update(users)
+      .set({ deletionRequestedAt: null, deletionScheduledFor: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.deletedAt), isNotNull(users.deletionScheduledFor)))
+      .returning({ id: users.id });
+
+    if (!user) {
+      throw new AuthenticationError('No account deletion is pending', 'DELETION_NOT_PENDING');
+    }
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.deletion_cancelled',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+  }
+
+  /**
+   * Delete every account whose cooling-off period has ended. Run by the
+   * purge:accounts script (e.g. nightly cron).
+   */
+  async purgeDueDeletions(now: Date = new Date()): Promise<number> {
+    const db = getDatabase();
+    const due = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(isNull(users.deletedAt), lte(users.deletionScheduledFor, now)));
+
+    let purged = 0;
+    for (const { id } of due) {
+      try {
+        await this.purgeAccount(id);
+        purged++;
+      } catch (error) {
+        logger.error('Failed to delete account', { userId: id, error });
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Anonymise the user row and remove memberships, sessions, identities,
+   * enrolments and submissions. The row is kept so audit entries resolve.
+   */
+  private async purgeAccount(userId: string): Promise<void> {
+    const db = getDatabase();
+
+    await db.transaction(async (tx) => {
+      await tx.delete(sessions).where(eq(sessions.userId, userId));
+      await tx.delete(accountTokens).where(eq(accountTokens.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(userIdentities).where(eq(userIdentities.userId, userId));
+      await tx.delete(assignmentSubmissions).where(eq(assignmentSubmissions.userId, userId));
+      await tx.delete(classEnrolments).where(eq(classEnrolments.userId, userId));
+      await tx.delete(userRoles).where(eq(userRoles.userId, userId));
+
+      await tx
+        .update(users)
+        .set({
+          email: sql`'deleted-' || ${users.id} || '@deleted.invalid'`,
+          passwordHash: '!',
+          firstName: null,
+          lastName: null,
+          avatarUrl: null,
+          tokenVersion: sql`${users.tokenVersion} + 1`,
+          deletionScheduledFor: null,
+          deletedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+    });
+
+    await auditService.log({
+      action: 'user.deleted',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+  }
+
+  /**
+   * Store the hash of a new token and return the raw token for the email.
+   * Returns null when the previous token was issued too recently.
+   */
+  private async issueToken(
+    userId: string,
+    purpose: AccountTokenPurpose,
+    ipAddress?: string
+  ): Promise<{ token: string; expiresAt: Date } | null> {
+    const db = getDatabase();
+    const [recent] = await db
+      .select({ id: accountTokens.id })
+      .from(accountTokens)
+      .where(and(
+        eq(accountTokens.userId, userId),
+        eq(accountTokens.purpose, purpose),
+        gt(accountTokens.createdAt, new Date(Date.now() - RESEND_INTERVAL_MS))
+      ))
+      .limit(1);
+
+    if (recent) return null;
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+
+    await db.insert(accountTokens).values({
+      userId,
+      purpose,
+      tokenHash: this.hashToken(token),
+      expiresAt,
+      requestedIp: ipAddress,
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Mark a token used, failing if it is unknown, expired or already used
+   */
+  private async consumeToken(token: string, purpose: AccountTokenPurpose) {
+    const db = getDatabase();
+    const [record] = await db
+      .update(accountTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(accountTokens.tokenHash, this.hashToken(token)),
+        eq(accountTokens.purpose, purpose),
+        isNull(accountTokens.usedAt),
+        gt(accountTokens.expiresAt, new Date())
+      ))
+      .returning();
+
+    if (!record) {
+      throw new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN');
+    }
+
+    return record;
+  }
+
+  /**
+   * Verified addresses may now auto-join their domain's organisation
+   */
+  private async afterEmailVerified(userId: string): Promise<void> {
+    try {
+      await domainJoinService.applyEmailDomainPolicy(userId);
+    } catch (error) {
+      logger.error('Failed to apply email domain policy', { userId, error });
+    }
+  }
+
+  private toDeletionStatus(user: User): AccountDeletionStatus | null {
+    if (!user.deletionRequestedAt || !user.deletionScheduledFor) return null;
+    return { requestedAt: user.deletionRequestedAt, scheduledFor: user.deletionScheduledFor };
+  }
+
+  /**
+   * Hash token for storage
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const accountService = new AccountService();
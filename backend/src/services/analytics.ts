@@ -0,0 +1,359 @@
+import { getDatabase } from '../database';
+import { classEnrolments, classSections, courses, userRoles, users } from '../types/database';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import {
+  AnalyticsError,
+  AnalyticsQuery,
+  AnalyticsReport,
+  AnalyticsViewer,
+  AtRiskReason,
+  AtRiskStudent,
+  ClassAnalytics,
+  DailyActiveLearners,
+  LearnerStats,
+  TopicMastery,
+} from '../types/auth';
+import { toCsvRow } from '../utils/csv';
+import { auditService } from './audit';
+import { createLearningDataSourceFromEnv, LearningDataSource } from './learningData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+interface ScopedSection {
+  id: string;
+  name: string;
+  courseId: string;
+  courseName: string;
+}
+
+interface Learner {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  sectionIds: string[];
+}
+
+// The classes a viewer may see and the students enrolled in them
+interface AnalyticsScope {
+  sections: ScopedSection[];
+  learners: Learner[];
+}
+
+export class AnalyticsService {
+  private learningData?: LearningDataSource;
+
+  /**
+   * Replace where learning data is read from (e.g. with a fake in tests)
+   */
+  setLearningDataSource(source: LearningDataSource): void {
+    this.learningData = source;
+  }
+
+  /**
+   * Default the range to the last 30 days and reject ranges that are empty
+   * or longer than a year
+   */
+  resolveRange(from?: Date, to?: Date): { from: Date; to: Date } {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (start >= end) {
+      throw new AnalyticsError('from must be before to', 'INVALID_RANGE');
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new AnalyticsError(`The range can be at most ${MAX_RANGE_DAYS} days`, 'INVALID_RANGE');
+    }
+    return { from: start, to: end };
+  }
+
+  /**
+   * Quizzes and average score per class
+   */
+  async getClassAnalytics(organisationId: string, viewer: AnalyticsViewer, query: AnalyticsQuery): Promise<ClassAnalytics[]> {
+    const scope = await this.getScope(organisationId, viewer, query.sectionId);
+    const stats = await this.getStatsByUser(scope.learners, query);
+
+    return scope.sections.map(section => {
+      const students = scope.learners.filter(learner => learner.sectionIds.includes(section.id));
+      const assessed = students
+        .map(student => stats.get(student.userId))
+        .filter((row): row is LearnerStats => Boolean(row && row.quizzes > 0));
+
+      const quizzes = assessed.reduce((sum, row) => sum + row.quizzes, 0);
+      const scoreTotal = assessed.reduce((sum, row) => sum + (row.averageScore ?? 0) * row.quizzes, 0);
+
+      return {
+        sectionId: section.id,
+        sectionName: section.name,
+        courseId: section.courseId,
+        courseName: section.courseName,
+        students: students.length,
+        studentsWithQuizzes: assessed.length,
+        quizzes,
+        averageScore: quizzes > 0 ? Math.round((scoreTotal / quizzes) * 10) / 10 : null,
+      };
+    });
+  }
+
+  /**
+   * How many students are strong, moderate or weak in each topic
+   */
+  async getTopicMastery(organisationId: string, viewer: AnalyticsViewer, sectionId?: string): Promise<TopicMastery[]> {
+    const { learners } = await this.getScope(organisationId, viewer, sectionId);
+    if (learners.length === 0) {
+      return [];
+    }
+
+    return this.getLearningData().getTopicMastery(learners.map(learner => learner.email));
+  }
+
+  /**
+   * Students active (a quiz or an AI request) on each day of the range,
+   * including days without activity
+   */
+  async getActivity(organisationId: string, viewer: AnalyticsViewer, query: AnalyticsQuery): Promise<DailyActiveLearners[]> {
+    const { learners } = await this.getScope(organisationId, viewer, query.sectionId);
+    const activity = learners.length === 0
+      ? []
+      : await this.getLearningData().getActivity(learners.map(learner => learner.email), query.from, query.to);
+    const byDate = new Map(activity.map(day => [day.date, day.learners]));
+
+    const days: DailyActiveLearners[] = [];
+    const start = Date.UTC(query.from.getUTCFullYear(), query.from.getUTCMonth(), query.from.getUTCDate());
+    for (let time = start; time < query.to.getTime(); time += DAY_MS) {
+      const date = new Date(time).toISOString().slice(0, 10);
+      days.push({ date, learners: byDate.get(date) ?? 0 });
+    }
+    return days;
+  }
+
+  /**
+   * Students whose weakness score is rising on a topic or who broke a streak,
+   * most reasons first
+   */
+  async getAtRiskStudents(organisationId: string, viewer: AnalyticsViewer, query: AnalyticsQuery): Promise<AtRiskStudent[]> {
+    const scope = await this.getScope(organisationId, viewer, query.sectionId);
+    const stats = await this.getStatsByUser(scope.learners, query);
+    const atRisk: AtRiskStudent[] = [];
+
+    for (const learner of scope.learners) {
+      const row = stats.get(learner.userId);
+      if (!row) continue;
+
+      const reasons: AtRiskReason[] = [];
+      if (row.risingWeaknessTopics > 0) reasons.push('weakness_rising');
+      if (row.streakBroken) reasons.push('streak_broken');
+      if (reasons.length === 0) continue;
+
+      atRisk.push({
+        ...learner,
+        reasons,
+        averageScore: row.averageScore,
+        lastActivityDate: row.lastActivityDate,
+        currentStreak: row.currentStreak,
+        risingWeaknessTopics: row.risingWeaknessTopics,
+      });
+    }
+
+    return atRisk.sort((a, b) =>
+      b.reasons.length - a.reasons.length
+      || b.risingWeaknessTopics - a.risingWeaknessTopics
+      || a.email.localeCompare(b.email)
+    );
+  }
+
+  /**
+   * One report as CSV. Exports contain student data, so each is audited.
+   */
+  async exportReport(
+    organisationId: string,
+    viewer: AnalyticsViewer,
+    report: AnalyticsReport,
+    query: AnalyticsQuery
+  ): Promise<string> {
+    let rows: unknown[][];
+
+    switch (report) {
+      case 'classes': {
+        const classes = await this.getClassAnalytics(organisationId, viewer, query);
+        rows = [
+          ['course', 'section', 'students', 'students_with_quizzes', 'quizzes', 'average_score'],
+          ...classes.map(c => [c.courseName, c.sectionName, c.students, c.studentsWithQuizzes, c.quizzes, c.averageScore]),
+        ];
+        break;
+      }
+      case 'students': {
+        const scope = await this.getScope(organisationId, viewer, query.sectionId);
+        const stats = await this.getStatsByUser(scope.learners, query);
+        const sectionNames = new Map(scope.sections.map(s => [s.id, `${s.courseName} / ${s.name}`]));
+        rows = [
+          ['email', 'first_name', 'last_name', 'classes', 'quizzes', 'average_score', 'last_activity', 'current_streak', 'weak_topics', 'rising_weakness_topics'],
+          ...scope.learners.map(learner => {
+            const row = stats.get(learner.userId);
+            return [
+              learner.email,
+              learner.firstName,
+              learner.lastName,
+              learner.sectionIds.map(id => sectionNames.get(id)).join('; '),
+              row?.quizzes ?? 0,
+              row?.averageScore,
+              row?.lastActivityDate,
+              row?.currentStreak ?? 0,
+              row?.weakTopics ?? 0,
+              row?.risingWeaknessTopics ?? 0,
+            ];
+          }),
+        ];
+        break;
+      }
+      case 'at-risk': {
+        const students = await this.getAtRiskStudents(organisationId, viewer, query);
+        rows = [
+          ['email', 'first_name', 'last_name', 'reasons', 'average_score', 'last_activity', 'current_streak', 'rising_weakness_topics'],
+          ...students.map(s => [
+            s.email, s.firstName, s.lastName, s.reasons.join('; '),
+            s.averageScore, s.lastActivityDate, s.currentStreak, s.risingWeaknessTopics,
+          ]),
+        ];
+        break;
+      }
+      case 'mastery': {
+        const topics = await this.getTopicMastery(organisationId, viewer, query.sectionId);
+        rows = [
+          ['topic', 'strong', 'moderate', 'weak', 'insufficient_data'],
+          ...topics.map(t => [t.topicName, t.strong, t.moderate, t.weak, t.insufficientData]),
+        ];
+        break;
+      }
+    }
+
+    await auditService.logOrganisationAction(
+      viewer.userId,
+      organisationId,
+      'analytics.exported',
+      'organisation',
+      organisationId,
+      { report, from: query.from, to: query.to, sectionId: query.sectionId, rows: rows.length - 1 }
+    );
+
+    return rows.map(toCsvRow).join('');
+  }
+
+  /**
+   * Sections of the organisation the viewer may see (all, or those they
+   * teach) and their students who are still members of the organisation
+   */
+  private async getScope(organisationId: string, viewer: AnalyticsViewer, sectionId?: string): Promise<AnalyticsScope> {
+    const db = getDatabase();
+    const conditions = [
+      eq(courses.organisationId, organisationId),
+      isNull(courses.deletedAt),
+      isNull(classSections.deletedAt),
+    ];
+
+    if (sectionId) {
+      conditions.push(eq(classSections.id, sectionId));
+    }
+
+    if (!viewer.canViewAll) {
+      const taught = await db
+        .select({ sectionId: classEnrolments.sectionId })
+        .from(classEnrolments)
+        .where(and(eq(classEnrolments.userId, viewer.userId), eq(classEnrolments.role, 'teacher')));
+
+      if (taught.length === 0) {
+        if (sectionId) {
+          throw new AnalyticsError('Class not found', 'CLASS_NOT_FOUND', 404);
+        }
+        return { sections: [], learners: [] };
+      }
+      conditions.push(inArray(classSections.id, taught.map(row => row.sectionId)));
+    }
+
+    const sections = await db
+      .select({
+        id: classSections.id,
+        name: classSections.name,
+        courseId: courses.id,
+        courseName: courses.name,
+      })
+      .from(classSections)
+      .innerJoin(courses, eq(courses.id, classSections.courseId))
+      .where(and(...conditions))
+      .orderBy(courses.name, classSections.name);
+
+    if (sectionId && sections.length === 0) {
+      throw new AnalyticsError('Class not found', 'CLASS_NOT_FOUND', 404);
+    }
+    if (sections.length === 0) {
+      return { sections, learners: [] };
+    }
+
+    const enrolments = await db
+      .selectDistinct({
+        sectionId: classEnrolments.sectionId,
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(classEnrolments)
+      .innerJoin(users, eq(users.id, classEnrolments.userId))
+      .innerJoin(userRoles, and(eq(userRoles.userId, users.id), eq(userRoles.organisationId, organisationId)))
+      .where(and(
+        inArray(classEnrolments.sectionId, sections.map(section => section.id)),
+        eq(classEnrolments.role, 'student'),
+        isNull(users.deletedAt)
+      ));
+
+    const learners = new Map<string, Learner>();
+    for (const { sectionId: enrolledIn, ...user } of enrolments) {
+      const learner = learners.get(user.userId);
+      if (learner) {
+        learner.sectionIds.push(enrolledIn);
+      } else {
+        learners.set(user.userId, { ...user, email: user.email.toLowerCase(), sectionIds: [enrolledIn] });
+      }
+    }
+
+    return {
+      sections,
+      learners: [...learners.values()].sort((a, b) => a.email.localeCompare(b.email)),
+    };
+  }
+
+  /**
+   * Learning app stats of the given learners, by user id
+   */
+  private async getStatsByUser(learners: Learner[], query: AnalyticsQuery): Promise<Map<string, LearnerStats>> {
+    if (learners.length === 0) {
+      return new Map();
+    }
+
+    const stats = await this.getLearningData().getLearnerStats(
+      learners.map(learner => learner.email),
+      query.from,
+      query.to
+    );
+    const byEmail = new Map(stats.map(row => [row.email.toLowerCase(), row]));
+
+    const byUser = new Map<string, LearnerStats>();
+    for (const learner of learners) {
+      const row = byEmail.get(learner.email);
+      if (row) byUser.set(learner.userId, row);
+    }
+    return byUser;
+  }
+
+  private getLearningData(): LearningDataSource {
+    if (!this.learningData) {
+      this.learningData = createLearningDataSourceFromEnv();
+    }
+    return this.learningData;
+  }
+}
+
+export const analyticsService = new AnalyticsService();
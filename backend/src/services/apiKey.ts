@@ -0,0 +1,251 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDatabase } from '../database';
+import { apiKeys, permissions, users, ApiKey } from '../types/database';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import {
+  ApiKeyContext,
+  ApiKeyError,
+  ApiKeySummary,
+  AuthorizationError,
+  CreateApiKeyRequest,
+  UserContext,
+} from '../types/auth';
+import { auditService } from './audit';
+import { holdsPermission, UNGRANTABLE_PERMISSIONS } from '../utils/permissions';
+
+// Keys look like "erk_<8 hex prefix>_<secret>"; the prefix identifies the key
+export const API_KEY_PREFIX = 'erk_';
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiKeyService {
+  /**
+   * API keys of an organisation, newest first (hashes are never returned)
+   */
+  async list(organisationId: string): Promise<ApiKeySummary[]> {
+    const db = getDatabase();
+    const keys = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.organisationId, organisationId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return keys.map(key => this.toSummary(key));
+  }
+
+  /**
+   * Create a key and the service account it acts as. Scopes must be existing
+   * 'resource.action' permissions that the creator holds. The key is only
+   * returned here.
+   */
+  async create(
+    organisationId: string,
+    data: CreateApiKeyRequest,
+    creator: UserContext
+  ): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const scopes = [...new Set(data.scopes)];
+    await this.assertScopesExist(scopes);
+
+    const forbidden = scopes.filter(scope => UNGRANTABLE_PERMISSIONS.includes(scope));
+    if (forbidden.length > 0) {
+      throw new ApiKeyError(`These permissions cannot be granted: ${forbidden.join(', ')}`, 'SCOPE_NOT_GRANTABLE', 403);
+    }
+
+    const notHeld = scopes.filter(scope => !holdsPermission(creator.permissions, scope));
+    if (notHeld.length > 0) {
+      throw new ApiKeyError(
+        `You cannot grant permissions you do not hold: ${notHeld.join(', ')}`,
+        'SCOPE_NOT_GRANTABLE',
+        403
+      );
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new ApiKeyError('Expiry must be in the future', 'INVALID_EXPIRY');
+    }
+
+    const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+    const db = getDatabase();
+
+    const apiKey = await db.transaction(async (tx) => {
+      const [serviceAccount] = await tx
+        .insert(users)
+        .values({
+          email: `${prefix}-${randomUUID()}@service.invalid`,
+          passwordHash: '!',
+          firstName: data.name,
+          lastName: 'API key',
+          isServiceAccount: true,
+        })
+        .returning();
+
+      const [created] = await tx
+        .insert(apiKeys)
+        .values({
+          organisationId,
+          serviceAccountId: serviceAccount.id,
+          name: data.name,
+          prefix,
+          keyHash: this.hashKey(key),
+          scopes,
+          expiresAt: data.expiresAt,
+          createdBy: creator.id,
+        })
+        .returning();
+
+      return created;
+    });
+
+    await auditService.logOrganisationAction(
+      creator.id,
+      organisationId,
+      'api_key.created',
+      'api_key',
+      apiKey.id,
+      { name: apiKey.name, prefix, scopes, expiresAt: apiKey.expiresAt }
+    );
+
+    return { apiKey: this.toSummary(apiKey), key };
+  }
+
+  /**
+   * Revoke a key; requests using it are rejected immediately
+   */
+  async revoke(organisationId: string, apiKeyId: string, actorId: string): Promise<void> {
+    const db = getDatabase();
+    const [apiKey] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.organisationId, organisationId)))
+      .limit(1);
+
+    if (!apiKey) {
+      throw new ApiKeyError('API key not found', 'API_KEY_NOT_FOUND', 404);
+    }
+    if (apiKey.revokedAt) {
+      throw new ApiKeyError('API key has already been revoked', 'API_KEY_REVOKED', 409);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(eq(apiKeys.id, apiKey.id));
+
+      // The service account is kept so audit entries still resolve
+      await tx
+        .update(users)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, apiKey.serviceAccountId));
+    });
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'api_key.revoked',
+      'api_key',
+      apiKey.id,
+      { name: apiKey.name, prefix: apiKey.prefix }
+    );
+  }
+
+  /**
+   * Resolve a presented key to its service account. The account's
+   * permissions are exactly the key's scopes.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<{ user: UserContext; apiKey: ApiKeyContext }> {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ apiKey: apiKeys, serviceAccount: users })
+      .from(apiKeys)
+      .innerJoin(users, eq(users.id, apiKeys.serviceAccountId))
+      .where(eq(apiKeys.keyHash, this.hashKey(key)))
+      .limit(1);
+
+    if (!row || row.apiKey.revokedAt || row.serviceAccount.deletedAt) {
+      throw new AuthorizationError('Invalid API key');
+    }
+
+    const { apiKey, serviceAccount } = row;
+    const now = new Date();
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      throw new AuthorizationError('API key has expired');
+    }
+
+    // Record use at most once a minute to keep busy keys from writing on every request
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await db
+        .update(apiKeys)
+        .set({ lastUsedAt: now, lastUsedIp: ipAddress })
+        .where(eq(apiKeys.id, apiKey.id));
+    }
+
+    return {
+      user: {
+        id: serviceAccount.id,
+        email: serviceAccount.email,
+        firstName: serviceAccount.firstName || undefined,
+        lastName: serviceAccount.lastName || undefined,
+        organisationId: apiKey.organisationId,
+        roles: [],
+        permissions: apiKey.scopes,
+        tokenVersion: serviceAccount.tokenVersion,
+      },
+      apiKey: {
+        id: apiKey.id,
+        prefix: apiKey.prefix,
+        organisationId: apiKey.organisationId,
+      },
+    };
+  }
+
+  /**
+   * Whether a bearer credential is an API key rather than a JWT
+   */
+  isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Hash key for storage; keys are random, so a fast hash is enough
+   */
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Scopes are checked the way requests are authorised, by 'resource.action'
+   * rather than the permission's display name
+   */
+  private async assertScopesExist(scopes: string[]): Promise<void> {
+    const db = getDatabase();
+    const scopeOf = sql<string>`${permissions.resource} || '.' || ${permissions.action}`;
+    const found = await db
+      .select({ name: scopeOf })
+      .from(permissions)
+      .where(inArray(scopeOf, scopes));
+
+    const known = new Set(found.map(p => p.name));
+    const unknown = scopes.filter(scope => !known.has(scope));
+    if (unknown.length > 0) {
+      throw new ApiKeyError(`Unknown permissions: ${unknown.join(', ')}`, 'UNKNOWN_SCOPE');
+    }
+  }
+
+  private toSummary(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      serviceAccountId: apiKey.serviceAccountId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdBy: apiKey.createdBy,
+      createdAt: apiKey.createdAt,
+      revokedAt: apiKey.revokedAt,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -1,6 +1,9 @@
 import { getDatabase } from '../database';
-import { auditLogs } from '../types/database';
-import { AuditEvent } from '../types/auth';
+import { auditLogs, users } from '../types/database';
+import { eq, and, or, gte, lte, lt, like, desc, sql, SQL } from 'drizzle-orm';
+import { AuditEvent, AuditLogFilters, AuditLogPage, ValidationError } from '../types/auth';
+import { webhookService } from './webhook';
+import { currentRequestId, logger } from '../utils/logger';
 
 export class AuditService {
   /**
@@ -9,7 +12,7 @@ export class AuditService {
   async log(event: AuditEvent): Promise<void> {
     try {
       const db = getDatabase();
-      await db.insert(auditLogs).values({
+      const [entry] = await db.insert(auditLogs).values({
         actorId: event.actorId,
         action: event.action,
         resourceType: event.resourceType,
@@ -18,30 +21,99 @@ export class AuditService {
         newValues: event.newValues,
         metadata: event.metadata,
         organisationId: event.organisationId,
+        requestId: event.requestId || currentRequestId(),
         timestamp: new Date(),
-      });
+      }).returning({ id: auditLogs.id, timestamp: auditLogs.timestamp });
+
+      // Organisation events also go to subscribed webhooks
+      await webhookService.dispatch(entry.id, entry.timestamp || new Date(), event);
     } catch (error) {
-      // Log audit failure to console (don't throw to avoid breaking main flow)
-      console.error('Failed to log audit event:', error);
+      // Log the failure but don't throw, to avoid breaking the main flow
+      logger.error('Failed to log audit event', { action: event.action, error });
     }
   }
 
   /**
-   * Get audit logs with filtering
+   * Get audit logs with filtering and cursor pagination (newest first)
    */
-  async getAuditLogs(filters: {
-    actorId?: string;
-    action?: string;
-    resourceType?: string;
-    resourceId?: string;
-    organisationId?: string;
-    startDate?: Date;
-    endDate?: Date;
-    limit?: number;
-    offset?: number;
-  }) {
-    // TODO: Implement with proper filtering and pagination
-    return db.select().from(auditLogs).limit(filters.limit || 50);
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLogPage> {
+    const db = getDatabase();
+    const limit = Math.min(filters.limit || 50, 1000);
+    const conditions: SQL[] = [];
+
+    if (filters.organisationId) conditions.push(eq(auditLogs.organisationId, filters.organisationId));
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+    if (filters.requestId) conditions.push(eq(auditLogs.requestId, filters.requestId));
+    if (filters.resourceType) conditions.push(eq(auditLogs.resourceType, filters.resourceType));
+    if (filters.resourceId) conditions.push(eq(auditLogs.resourceId, filters.resourceId));
+    if (filters.startDate) conditions.push(gte(auditLogs.timestamp, filters.startDate));
+    if (filters.endDate) conditions.push(lte(auditLogs.timestamp, filters.endDate));
+
+    if (filters.action) {
+      // 'role.*' matches every role action
+      conditions.push(
+        filters.action.endsWith('.*')
+          ? like(auditLogs.action, `${filters.action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`)
+          : eq(auditLogs.action, filters.action)
+      );
+    }
+
+    if (filters.cursor) {
+      const cursor = this.decodeCursor(filters.cursor);
+      conditions.push(
+        or(
+          lt(auditLogs.timestamp, cursor.timestamp),
+          and(eq(auditLogs.timestamp, cursor.timestamp), lt(auditLogs.id, cursor.id))
+        )!
+      );
+    }
+
+    const rows = await db
+      .select({
+        id: auditLogs.id,
+        timestamp: auditLogs.timestamp,
+        actorId: auditLogs.actorId,
+        actorEmail: sql<string | null>`coalesce(${auditLogs.actorEmail}, ${users.email})`,
+        action: auditLogs.action,
+        resourceType: auditLogs.resourceType,
+        resourceId: auditLogs.resourceId,
+        oldValues: auditLogs.oldValues,
+        newValues: auditLogs.newValues,
+        metadata: auditLogs.metadata,
+        ipAddress: auditLogs.ipAddress,
+        userAgent: auditLogs.userAgent,
+        requestId: auditLogs.requestId,
+        organisationId: auditLogs.organisationId,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(users.id, auditLogs.actorId))
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const logs = hasMore ? rows.slice(0, limit) : rows;
+    const last = logs[logs.length - 1];
+
+    return {
+      logs,
+      nextCursor: hasMore && last?.timestamp ? this.encodeCursor(last.timestamp, last.id) : null,
+    };
+  }
+
+  private encodeCursor(timestamp: Date, id: string): string {
+    return Buffer.from(`${timestamp.toISOString()}|${id}`).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { timestamp: Date; id: string } {
+    const [iso, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const timestamp = new Date(iso);
+
+    if (!id || Number.isNaN(timestamp.getTime())) {
+      throw new ValidationError('Invalid cursor', { cursor: ['Invalid cursor'] });
+    }
+
+    return { timestamp, id };
   }
 
   /**
@@ -1,10 +1,10 @@
 import bcrypt from 'bcrypt';
 import argon2 from 'argon2';
 import jwt from 'jsonwebtoken';
-import { randomBytes } from 'crypto';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
 import { getDatabase } from '../database';
-import { users, sessions, auditLogs } from '../types/database';
-import { eq, and, gt } from 'drizzle-orm';
+import { users, sessions, sessionRefreshTokens, auditLogs } from '../types/database';
+import { eq, and, gt, ne, desc } from 'drizzle-orm';
 import {
   LoginRequest,
   RegisterRequest,
@@ -12,10 +12,20 @@ import {
   RefreshTokenPayload,
   AuthTokens,
   UserContext,
+  SessionInfo,
+  LoginResult,
+  TwoFactorChallenge,
+  TwoFactorChallengePayload,
+  TwoFactorLoginRequest,
+  TwoFactorSetup,
   AuthenticationError,
   AuditEvent
 } from '../types/auth';
 import { auditService } from './audit';
+import { roleService } from './role';
+import { twoFactorService } from './twoFactor';
+import { domainJoinService } from './domainJoin';
+import { logger } from '../utils/logger';
 
 export class AuthService {
   private readonly jwtAccessSecret: string;
@@ -54,9 +64,9 @@ export class AuthService {
   async verifyPassword(password: string, hash: string): Promise<boolean> {
     try {
       if (this.useArgon2) {
-        return argon2.verify(hash, password);
+        return await argon2.verify(hash, password);
       }
-      return bcrypt.compare(password, hash);
+      return await bcrypt.compare(password, hash);
     } catch {
       return false;
     }
@@ -142,6 +152,13 @@ export class AuthService {
       })
       .returning();
 
+    // Join (or ask to join) the organisation that owns the email domain
+    try {
+      await domainJoinService.applyEmailDomainPolicy(newUser.id);
+    } catch (error) {
+      logger.error('Failed to apply email domain policy', { userId: newUser.id, error });
+    }
+
     // Get user context (will assign default role)
     const userContext = await this.getUserContext(newUser.id);
 
@@ -158,13 +175,14 @@ export class AuthService {
   }
 
   /**
-   * Login user
+   * Login user. When a second factor is needed, a short-lived challenge is
+   * returned instead of tokens.
    */
   async login(
     data: LoginRequest,
     ipAddress?: string,
     userAgent?: string
-  ): Promise<{ user: UserContext; tokens: AuthTokens }> {
+  ): Promise<LoginResult> {
     const { email, password, deviceFingerprint } = data;
     const db = getDatabase();
 
@@ -175,7 +193,8 @@ export class AuthService {
       .where(and(eq(users.email, email), eq(users.deletedAt, null)))
       .limit(1);
 
-    if (!user) {
+    // Service accounts only authenticate with their API key
+    if (!user || user.isServiceAccount) {
       throw new AuthenticationError('Invalid credentials');
     }
 
@@ -192,69 +211,187 @@ export class AuthService {
       throw new AuthenticationError('Invalid credentials');
     }
 
-    // Reset failed attempts and update last login
-    await db
-      .update(users)
-      .set({
-        failedLoginAttempts: 0,
-        accountLocked: false,
-        accountLockedUntil: null,
-        lastLoginAt: new Date(),
-      })
-      .where(eq(users.id, user.id));
+    // Second factor before any tokens are issued
+    if (await twoFactorService.isEnabled(user.id)) {
+      return { twoFactor: this.createTwoFactorChallenge(user.id, 'verify', deviceFingerprint) };
+    }
 
-    // Get user context
-    const userContext = await this.getUserContext(user.id);
+    if (await twoFactorService.isRequired(user.id)) {
+      return { twoFactor: this.createTwoFactorChallenge(user.id, 'enroll', deviceFingerprint) };
+    }
 
-    // Create session and tokens
-    const tokens = await this.createSession(user.id, deviceFingerprint, ipAddress, userAgent);
+    return this.completeLogin(user.id, 'password', deviceFingerprint, ipAddress, userAgent);
+  }
 
-    // Audit log
-    await auditService.log({
-      actorId: user.id,
-      action: 'user.login',
-      resourceType: 'user',
-      resourceId: user.id,
-      metadata: { ipAddress, userAgent, deviceFingerprint },
+  /**
+   * Second login step: exchange a challenge token and TOTP/recovery code for tokens
+   */
+  async loginWithTwoFactor(
+    data: TwoFactorLoginRequest,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ user: UserContext; tokens: AuthTokens }> {
+    const challenge = this.verifyTwoFactorChallenge(data.challengeToken, 'verify');
+    const db = getDatabase();
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, challenge.userId))
+      .limit(1);
+
+    if (!user || user.deletedAt) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    if (user.accountLocked && user.accountLockedUntil && user.accountLockedUntil > new Date()) {
+      throw new AuthenticationError('Account is temporarily locked');
+    }
+
+    const isValidCode = await twoFactorService.verify(user.id, {
+      code: data.code,
+      recoveryCode: data.recoveryCode,
     });
 
-    return { user: userContext, tokens };
+    if (!isValidCode) {
+      await this.handleFailedLogin(user.id);
+      throw new AuthenticationError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const method = data.code ? 'totp' : 'recovery_code';
+    return this.completeLogin(user.id, method, challenge.deviceFingerprint, ipAddress, userAgent);
+  }
+
+  /**
+   * Start 2FA enrollment for a user whose organisation requires it, using
+   * the challenge token returned by login
+   */
+  async beginRequiredEnrollment(challengeToken: string): Promise<TwoFactorSetup> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken, 'enroll');
+    return twoFactorService.beginEnrollment(challenge.userId);
+  }
+
+  /**
+   * Finish required 2FA enrollment and log the user in
+   */
+  async completeRequiredEnrollment(
+    challengeToken: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ user: UserContext; tokens: AuthTokens; recoveryCodes: string[] }> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken, 'enroll');
+    const recoveryCodes = await twoFactorService.confirmEnrollment(challenge.userId, code);
+    const result = await this.completeLogin(
+      challenge.userId,
+      'totp',
+      challenge.deviceFingerprint,
+      ipAddress,
+      userAgent
+    );
+
+    return { ...result, recoveryCodes };
+  }
+
+  /**
+   * Issue tokens for a user an external system has authenticated: the
+   * organisation's identity provider or an LMS launch (second factors are
+   * that system's responsibility)
+   */
+  async completeExternalLogin(
+    userId: string,
+    method: 'sso' | 'lti',
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ user: UserContext; tokens: AuthTokens }> {
+    return this.completeLogin(userId, method, undefined, ipAddress, userAgent);
   }
 
   /**
-   * Refresh access token
+   * Disable 2FA after re-checking the password and a current code
    */
-  async refreshToken(refreshToken: string): Promise<AuthTokens> {
+  async disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user || !(await this.verifyPassword(password, user.passwordHash))) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    await twoFactorService.disable(userId, code);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Each refresh token can be
+   * used once; presenting one that was already rotated revokes the session.
+   */
+  async refreshToken(refreshToken: string, ipAddress?: string, userAgent?: string): Promise<AuthTokens> {
     const payload = this.verifyRefreshToken(refreshToken);
     const db = getDatabase();
+    const tokenHash = this.hashToken(refreshToken);
 
-    // Find and validate session
     const [session] = await db
       .select()
       .from(sessions)
-      .where(
-        and(
-          eq(sessions.refreshTokenHash, this.hashToken(refreshToken)),
-          eq(sessions.revoked, false),
-          gt(sessions.expiresAt, new Date())
-        )
-      )
+      .where(eq(sessions.refreshTokenHash, tokenHash))
       .limit(1);
 
-    if (!session || session.userId !== payload.userId) {
+    if (!session) {
+      const [rotated] = await db
+        .select({ sessionId: sessions.id, userId: sessions.userId })
+        .from(sessionRefreshTokens)
+        .innerJoin(sessions, eq(sessionRefreshTokens.sessionId, sessions.id))
+        .where(eq(sessionRefreshTokens.tokenHash, tokenHash))
+        .limit(1);
+
+      if (rotated) {
+        await this.revokeForTokenReuse(rotated.sessionId, rotated.userId, ipAddress, userAgent);
+        throw new AuthenticationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+      }
+
       throw new AuthenticationError('Invalid refresh token');
     }
 
-    // Update session last used
-    await db
-      .update(sessions)
-      .set({ lastUsedAt: new Date() })
-      .where(eq(sessions.id, session.id));
+    if (session.revoked || session.expiresAt <= new Date() || session.userId !== payload.userId) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
 
-    // Generate new tokens
     const userContext = await this.getUserContext(session.userId);
     const tokens = this.generateTokens(userContext, session.id);
 
+    // Only swap the hash if this token is still the current one, so two
+    // concurrent refreshes with the same token cannot both succeed
+    const rotated = await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(sessions)
+        .set({
+          refreshTokenHash: this.hashToken(tokens.refreshToken),
+          lastUsedAt: new Date(),
+        })
+        .where(and(
+          eq(sessions.id, session.id),
+          eq(sessions.refreshTokenHash, tokenHash),
+          eq(sessions.revoked, false)
+        ))
+        .returning({ id: sessions.id });
+
+      if (updated.length === 0) {
+        return false;
+      }
+
+      await tx.insert(sessionRefreshTokens).values({ tokenHash, sessionId: session.id });
+      return true;
+    });
+
+    if (!rotated) {
+      await this.revokeForTokenReuse(session.id, session.userId, ipAddress, userAgent);
+      throw new AuthenticationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
     return tokens;
   }
 
@@ -270,6 +407,7 @@ export class AuthService {
       .set({
         revoked: true,
         revokedAt: new Date(),
+        revokedBy: userId,
       })
       .where(and(eq(sessions.refreshTokenHash, hash), eq(sessions.userId, userId)));
 
@@ -281,12 +419,126 @@ export class AuthService {
     });
   }
 
+  /**
+   * List a user's active sessions, flagging the one making the request
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const db = getDatabase();
+    const activeSessions = await db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.userId, userId),
+          eq(sessions.revoked, false),
+          gt(sessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(sessions.lastUsedAt));
+
+    return activeSessions.map(session => ({
+      id: session.id,
+      deviceFingerprint: session.deviceFingerprint || undefined,
+      ipAddress: session.ipAddress || undefined,
+      userAgent: session.userAgent || undefined,
+      createdAt: session.createdAt || undefined,
+      lastUsedAt: session.lastUsedAt || undefined,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string, ipAddress?: string): Promise<void> {
+    const db = getDatabase();
+    const revoked = await db
+      .update(sessions)
+      .set({
+        revoked: true,
+        revokedAt: new Date(),
+        revokedBy: userId,
+      })
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.userId, userId),
+          eq(sessions.revoked, false)
+        )
+      )
+      .returning({ id: sessions.id });
+
+    if (revoked.length === 0) {
+      throw new AuthenticationError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    await auditService.log({
+      actorId: userId,
+      action: 'session.revoked',
+      resourceType: 'session',
+      resourceId: sessionId,
+      metadata: { ipAddress },
+    });
+  }
+
+  /**
+   * Revoke every session of the user except the current one
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string, ipAddress?: string): Promise<number> {
+    const db = getDatabase();
+    const revoked = await db
+      .update(sessions)
+      .set({
+        revoked: true,
+        revokedAt: new Date(),
+        revokedBy: userId,
+      })
+      .where(
+        and(
+          eq(sessions.userId, userId),
+          eq(sessions.revoked, false),
+          ne(sessions.id, currentSessionId)
+        )
+      )
+      .returning({ id: sessions.id });
+
+    await auditService.log({
+      actorId: userId,
+      action: 'session.revoked_others',
+      resourceType: 'session',
+      resourceId: currentSessionId,
+      metadata: { ipAddress, revokedSessionIds: revoked.map(r => r.id) },
+    });
+
+    return revoked.length;
+  }
+
+  /**
+   * Check that a session has not been revoked or expired
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const db = getDatabase();
+    const [session] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.revoked, false),
+          gt(sessions.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    return Boolean(session);
+  }
+
   /**
    * Get user context with roles and permissions
    */
   async getUserContext(userId: string): Promise<UserContext> {
     const db = getDatabase();
-    // This is a simplified version - in production you'd join with user_roles, roles, and permissions
     const [user] = await db
       .select()
       .from(users)
@@ -297,19 +549,98 @@ export class AuthService {
       throw new AuthenticationError('User not found');
     }
 
-    // TODO: Implement proper role and permission fetching
-    // For now, return basic context
+    const access = await roleService.getEffectivePermissions(user.id);
+
     return {
       id: user.id,
       email: user.email,
       firstName: user.firstName || undefined,
       lastName: user.lastName || undefined,
-      roles: [], // TODO: Fetch actual roles
-      permissions: [], // TODO: Fetch actual permissions
-      tokenVersion: 1, // TODO: Implement token versioning
+      organisationId: access.organisationId,
+      roles: access.roles,
+      permissions: access.permissions,
+      tokenVersion: user.tokenVersion,
     };
   }
 
+  /**
+   * Reset lockout counters, open a session and record the login
+   */
+  private async completeLogin(
+    userId: string,
+    method: 'password' | 'totp' | 'recovery_code' | 'sso' | 'lti',
+    deviceFingerprint?: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ user: UserContext; tokens: AuthTokens }> {
+    const db = getDatabase();
+
+    // Reset failed attempts and update last login
+    await db
+      .update(users)
+      .set({
+        failedLoginAttempts: 0,
+        accountLocked: false,
+        accountLockedUntil: null,
+        lastLoginAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    // Get user context
+    const userContext = await this.getUserContext(userId);
+
+    // Create session and tokens
+    const tokens = await this.createSession(userId, deviceFingerprint, ipAddress, userAgent);
+
+    // Audit log
+    await auditService.log({
+      actorId: userId,
+      action: 'user.login',
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { ipAddress, userAgent, deviceFingerprint, method },
+    });
+
+    return { user: userContext, tokens };
+  }
+
+  /**
+   * Issue a short-lived token proving the password step succeeded
+   */
+  private createTwoFactorChallenge(
+    userId: string,
+    purpose: 'verify' | 'enroll',
+    deviceFingerprint?: string
+  ): TwoFactorChallenge {
+    const expiresIn = 5 * 60; // 5 minutes
+    const challengeToken = jwt.sign(
+      { userId, purpose, deviceFingerprint },
+      this.getTwoFactorChallengeSecret(),
+      { expiresIn }
+    );
+
+    return { challengeToken, purpose, expiresIn };
+  }
+
+  private verifyTwoFactorChallenge(token: string, purpose: 'verify' | 'enroll'): TwoFactorChallengePayload {
+    try {
+      const payload = jwt.verify(token, this.getTwoFactorChallengeSecret()) as TwoFactorChallengePayload;
+      if (payload.purpose !== purpose) {
+        throw new Error('Wrong challenge purpose');
+      }
+      return payload;
+    } catch (error) {
+      throw new AuthenticationError('Invalid or expired two-factor challenge', 'INVALID_TWO_FACTOR_CHALLENGE');
+    }
+  }
+
+  /**
+   * Separate key so challenge tokens can never be used as access tokens
+   */
+  private getTwoFactorChallengeSecret(): string {
+    return createHmac('sha256', this.jwtAccessSecret).update('two-factor-challenge').digest('hex');
+  }
+
   /**
    * Create session and generate tokens
    */
@@ -320,28 +651,53 @@ export class AuthService {
     userAgent?: string
   ): Promise<AuthTokens> {
     const db = getDatabase();
-    const sessionId = randomBytes(16).toString('hex');
-    const refreshToken = this.generateRefreshToken({
-      userId,
-      tokenVersion: 1, // TODO: Get from user
-      sessionId,
-    });
+    const userContext = await this.getUserContext(userId);
+
+    // The session id is embedded in the tokens, so it is generated up front
+    const sessionId = randomUUID();
+    const tokens = this.generateTokens(userContext, sessionId);
 
-    const refreshTokenHash = this.hashToken(refreshToken);
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
 
     await db.insert(sessions).values({
+      id: sessionId,
       userId,
-      refreshTokenHash,
+      refreshTokenHash: this.hashToken(tokens.refreshToken),
       deviceFingerprint,
       ipAddress,
       userAgent,
       expiresAt,
     });
 
-    const userContext = await this.getUserContext(userId);
-    return this.generateTokens(userContext, sessionId);
+    return tokens;
+  }
+
+  /**
+   * A rotated refresh token was replayed: assume it was stolen and end the session
+   */
+  private async revokeForTokenReuse(
+    sessionId: string,
+    userId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    const db = getDatabase();
+    await db
+      .update(sessions)
+      .set({
+        revoked: true,
+        revokedAt: new Date(),
+      })
+      .where(and(eq(sessions.id, sessionId), eq(sessions.revoked, false)));
+
+    await auditService.log({
+      actorId: userId,
+      action: 'session.refresh_token_reused',
+      resourceType: 'session',
+      resourceId: sessionId,
+      metadata: { ipAddress, userAgent },
+    });
   }
 
   /**
@@ -355,12 +711,14 @@ export class AuthService {
       roles: userContext.roles.map(r => r.name),
       permissions: userContext.permissions,
       tokenVersion: userContext.tokenVersion,
+      sessionId,
     });
 
     const refreshToken = this.generateRefreshToken({
       userId: userContext.id,
       tokenVersion: userContext.tokenVersion,
       sessionId,
+      jti: randomUUID(),
     });
 
     return {
@@ -0,0 +1,491 @@
+import { getDatabase } from '../database';
+import {
+  billingPlans,
+  invites,
+  invoices,
+  organisations,
+  organisationSubscriptions,
+  usageStatements,
+  userRoles,
+  users,
+  BillingPlan,
+  Invoice,
+  OrganisationSubscription,
+  UsageStatement,
+} from '../types/database';
+import { eq, and, asc, desc, gt, isNull, lte, ne, countDistinct } from 'drizzle-orm';
+import {
+  BillingError,
+  BillingOverview,
+  BillingPlanSummary,
+  ChangePlanRequest,
+  InvoiceLine,
+  SeatUsage,
+  UsageLine,
+  UserContext,
+} from '../types/auth';
+import { auditService } from './audit';
+import { createPaymentProviderFromEnv, PaymentProvider } from './payments';
+import { createUsageSourceFromEnv, UsageSource } from './usage';
+import { logger } from '../utils/logger';
+
+// Organisations without a subscription are on this plan
+const DEFAULT_PLAN_CODE = 'free';
+
+export class BillingService {
+  private paymentProvider?: PaymentProvider;
+  private usageSource?: UsageSource;
+
+  /**
+   * Replace the payment provider (e.g. with a fake in tests)
+   */
+  setPaymentProvider(provider: PaymentProvider): void {
+    this.paymentProvider = provider;
+  }
+
+  /**
+   * Replace where usage is read from (e.g. with a fake in tests)
+   */
+  setUsageSource(source: UsageSource): void {
+    this.usageSource = source;
+  }
+
+  /**
+   * Plans an organisation can choose, cheapest first
+   */
+  async listPlans(): Promise<BillingPlanSummary[]> {
+    const db = getDatabase();
+    const plans = await db
+      .select()
+      .from(billingPlans)
+      .where(eq(billingPlans.isActive, true))
+      .orderBy(asc(billingPlans.pricePerSeatCents), asc(billingPlans.code));
+
+    return plans.map(plan => this.toPlanSummary(plan));
+  }
+
+  /**
+   * Current plan, seat usage, monthly cost and credit pool of an organisation
+   */
+  async getOverview(organisationId: string): Promise<BillingOverview> {
+    const { plan, subscription } = await this.getPlan(organisationId);
+    const seats = await this.getSeatUsage(organisationId);
+    const purchased = subscription?.seats ?? seats.limit;
+
+    return {
+      plan: this.toPlanSummary(plan),
+      status: subscription?.status ?? 'active',
+      seats,
+      monthlyCostCents: purchased * plan.pricePerSeatCents,
+      monthlyCredits: purchased * plan.aiCreditsPerSeat,
+      currentPeriodStart: subscription?.currentPeriodStart ?? null,
+      currentPeriodEnd: subscription?.currentPeriodEnd ?? null,
+    };
+  }
+
+  /**
+   * Seats taken by members and unexpired pending invites, against the
+   * purchased seats (or the free plan's limit)
+   */
+  async getSeatUsage(organisationId: string): Promise<SeatUsage> {
+    const db = getDatabase();
+    const { plan, subscription } = await this.getPlan(organisationId);
+    const limit = subscription?.seats ?? plan.seatLimit ?? 0;
+
+    const [{ members }] = await db
+      .select({ members: countDistinct(userRoles.userId) })
+      .from(userRoles)
+      .innerJoin(users, eq(users.id, userRoles.userId))
+      .where(and(
+        eq(userRoles.organisationId, organisationId),
+        isNull(users.deletedAt),
+        eq(users.isServiceAccount, false)
+      ));
+
+    const [{ pendingInvites }] = await db
+      .select({ pendingInvites: countDistinct(invites.email) })
+      .from(invites)
+      .where(and(
+        eq(invites.organisationId, organisationId),
+        eq(invites.status, 'pending'),
+        gt(invites.expiresAt, new Date())
+      ));
+
+    const used = Number(members) + Number(pendingInvites);
+    return {
+      limit,
+      members: Number(members),
+      pendingInvites: Number(pendingInvites),
+      used,
+      available: Math.max(limit - used, 0),
+    };
+  }
+
+  /**
+   * Throw unless the organisation has `count` free seats. Called before
+   * issuing invites.
+   */
+  async assertSeatsAvailable(organisationId: string, count: number = 1): Promise<void> {
+    const seats = await this.getSeatUsage(organisationId);
+
+    if (seats.available < count) {
+      throw new BillingError(
+        `Not enough seats: ${seats.used} of ${seats.limit} in use. Add seats or change plan to invite more people.`,
+        'SEAT_LIMIT_REACHED',
+        402
+      );
+    }
+  }
+
+  /**
+   * Move the organisation to a plan with a number of seats. Seats cannot go
+   * below those in use or above the plan's limit. The credit pool follows.
+   */
+  async changePlan(organisationId: string, data: ChangePlanRequest, actor: UserContext): Promise<BillingOverview> {
+    const db = getDatabase();
+    const [plan] = await db
+      .select()
+      .from(billingPlans)
+      .where(and(eq(billingPlans.code, data.planCode), eq(billingPlans.isActive, true)))
+      .limit(1);
+
+    if (!plan) {
+      throw new BillingError('Plan not found', 'PLAN_NOT_FOUND', 404);
+    }
+    if (plan.seatLimit !== null && data.seats > plan.seatLimit) {
+      throw new BillingError(`The ${plan.name} plan allows at most ${plan.seatLimit} seats`, 'SEATS_EXCEED_PLAN');
+    }
+
+    const seats = await this.getSeatUsage(organisationId);
+    if (data.seats < seats.used) {
+      throw new BillingError(
+        `${seats.used} seats are in use; remove members or revoke invites before reducing seats`,
+        'SEATS_BELOW_USAGE',
+        409
+      );
+    }
+
+    const { plan: oldPlan, subscription } = await this.getPlan(organisationId);
+    let providerCustomerId = subscription?.providerCustomerId ?? null;
+    if (!providerCustomerId && plan.pricePerSeatCents > 0) {
+      const [organisation] = await db
+        .select({ name: organisations.name })
+        .from(organisations)
+        .where(eq(organisations.id, organisationId))
+        .limit(1);
+
+      providerCustomerId = await this.getPaymentProvider().createCustomer({
+        organisationId,
+        name: organisation?.name || organisationId,
+        email: actor.email,
+      });
+    }
+
+    const now = new Date();
+    if (subscription) {
+      await db
+        .update(organisationSubscriptions)
+        .set({ planId: plan.id, seats: data.seats, status: 'active', providerCustomerId, updatedAt: now })
+        .where(eq(organisationSubscriptions.organisationId, organisationId));
+    } else {
+      await db.insert(organisationSubscriptions).values({
+        organisationId,
+        planId: plan.id,
+        seats: data.seats,
+        currentPeriodStart: now,
+        currentPeriodEnd: addMonths(now, 1),
+        providerCustomerId,
+      });
+    }
+
+    await auditService.logOrganisationAction(
+      actor.id,
+      organisationId,
+      'billing.plan_changed',
+      'organisation',
+      organisationId,
+      {
+        from: { plan: oldPlan.code, seats: subscription?.seats ?? oldPlan.seatLimit },
+        to: { plan: plan.code, seats: data.seats },
+      }
+    );
+
+    await this.syncCreditPool(organisationId);
+    return this.getOverview(organisationId);
+  }
+
+  /**
+   * Usage so far in the current billing period (not stored)
+   */
+  async getCurrentUsage(organisationId: string): Promise<{ periodStart: Date; periodEnd: Date; lines: UsageLine[] }> {
+    const { subscription } = await this.getPlan(organisationId);
+    const now = new Date();
+    const periodStart = subscription?.currentPeriodStart ?? startOfMonth(now);
+    const periodEnd = subscription?.currentPeriodEnd ?? addMonths(periodStart, 1);
+
+    const lines = await this.getUsageSource().getUsage(organisationId, periodStart, now);
+    return { periodStart, periodEnd, lines };
+  }
+
+  /**
+   * Usage statements, newest first
+   */
+  async listStatements(organisationId: string): Promise<UsageStatement[]> {
+    const db = getDatabase();
+    return db
+      .select()
+      .from(usageStatements)
+      .where(eq(usageStatements.organisationId, organisationId))
+      .orderBy(desc(usageStatements.periodStart));
+  }
+
+  /**
+   * Invoices, newest first
+   */
+  async listInvoices(organisationId: string): Promise<Invoice[]> {
+    const db = getDatabase();
+    return db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.organisationId, organisationId))
+      .orderBy(desc(invoices.issuedAt));
+  }
+
+  /**
+   * Close every billing period that has ended: write its usage statement,
+   * invoice the seats and start the next period with a refilled credit pool.
+   * Run from the billing:run script (e.g. hourly cron).
+   */
+  async closeDuePeriods(now: Date = new Date()): Promise<number> {
+    const db = getDatabase();
+    const due = await db
+      .select()
+      .from(organisationSubscriptions)
+      .where(and(
+        ne(organisationSubscriptions.status, 'cancelled'),
+        lte(organisationSubscriptions.currentPeriodEnd, now)
+      ));
+
+    let closed = 0;
+    for (const subscription of due) {
+      try {
+        await this.closePeriod(subscription);
+        closed++;
+      } catch (error) {
+        // Keep going; the period is retried on the next run
+        logger.error('Failed to close billing period', { organisationId: subscription.organisationId, error });
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Give the learning app the organisation's monthly credits and member
+   * emails. Failures are logged; the next period close retries.
+   */
+  async syncCreditPool(organisationId: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const { plan, subscription } = await this.getPlan(organisationId);
+      const monthlyCredits = (subscription?.seats ?? 0) * plan.aiCreditsPerSeat;
+      const periodStart = subscription?.currentPeriodStart ?? startOfMonth(new Date());
+
+      const members = await db
+        .selectDistinct({ email: users.email })
+        .from(userRoles)
+        .innerJoin(users, eq(users.id, userRoles.userId))
+        .where(and(
+          eq(userRoles.organisationId, organisationId),
+          isNull(users.deletedAt),
+          eq(users.isServiceAccount, false)
+        ));
+
+      await this.getUsageSource().syncCreditPool(
+        organisationId,
+        monthlyCredits,
+        periodStart,
+        members.map(member => member.email)
+      );
+    } catch (error) {
+      logger.error('Failed to sync credit pool', { organisationId, error });
+    }
+  }
+
+  private async closePeriod(subscription: OrganisationSubscription): Promise<void> {
+    const db = getDatabase();
+    const [plan] = await db
+      .select()
+      .from(billingPlans)
+      .where(eq(billingPlans.id, subscription.planId))
+      .limit(1);
+
+    const periodStart = subscription.currentPeriodStart;
+    const periodEnd = subscription.currentPeriodEnd;
+    const lines = await this.getUsageSource().getUsage(subscription.organisationId, periodStart, periodEnd);
+
+    const [statement] = await db
+      .insert(usageStatements)
+      .values({
+        organisationId: subscription.organisationId,
+        periodStart,
+        periodEnd,
+        lines,
+        totalRequests: lines.reduce((sum, line) => sum + line.requests, 0),
+        creditsUsed: lines.reduce((sum, line) => sum + line.credits, 0),
+        creditsIncluded: subscription.seats * plan.aiCreditsPerSeat,
+      })
+      .onConflictDoUpdate({
+        target: [usageStatements.organisationId, usageStatements.periodStart],
+        set: { periodEnd, lines, createdAt: new Date() },
+      })
+      .returning();
+
+    if (plan.pricePerSeatCents > 0) {
+      await this.issueInvoice(subscription, plan, statement);
+    }
+
+    await db
+      .update(organisationSubscriptions)
+      .set({ currentPeriodStart: periodEnd, currentPeriodEnd: addMonths(periodEnd, 1), updatedAt: new Date() })
+      .where(eq(organisationSubscriptions.organisationId, subscription.organisationId));
+
+    await auditService.log({
+      action: 'billing.period_closed',
+      resourceType: 'usage_statement',
+      resourceId: statement.id,
+      organisationId: subscription.organisationId,
+      metadata: { periodStart, periodEnd, creditsUsed: statement.creditsUsed, creditsIncluded: statement.creditsIncluded },
+    });
+
+    await this.syncCreditPool(subscription.organisationId);
+  }
+
+  /**
+   * Invoice the period's seats, once per period
+   */
+  private async issueInvoice(
+    subscription: OrganisationSubscription,
+    plan: BillingPlan,
+    statement: UsageStatement
+  ): Promise<void> {
+    const db = getDatabase();
+    const [existing] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(and(
+        eq(invoices.organisationId, subscription.organisationId),
+        eq(invoices.periodStart, statement.periodStart)
+      ))
+      .limit(1);
+
+    if (existing) return;
+    if (!subscription.providerCustomerId) {
+      throw new BillingError('Subscription has no payment provider customer', 'NO_PROVIDER_CUSTOMER', 409);
+    }
+
+    const lines: InvoiceLine[] = [{
+      description: `${plan.name} plan seats, ${formatPeriod(statement.periodStart, statement.periodEnd)}`,
+      quantity: subscription.seats,
+      unitAmountCents: plan.pricePerSeatCents,
+      amountCents: subscription.seats * plan.pricePerSeatCents,
+    }];
+    const provider = this.getPaymentProvider();
+
+    const issued = await provider.createInvoice({
+      customerId: subscription.providerCustomerId,
+      currency: plan.currency,
+      description: `EduRank ${plan.name}`,
+      lines,
+      metadata: { organisationId: subscription.organisationId, statementId: statement.id },
+    });
+
+    await db.insert(invoices).values({
+      organisationId: subscription.organisationId,
+      statementId: statement.id,
+      number: issued.number,
+      status: issued.status,
+      currency: plan.currency,
+      lines,
+      totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+      periodStart: statement.periodStart,
+      periodEnd: statement.periodEnd,
+      provider: provider.name,
+      providerInvoiceId: issued.id,
+      hostedUrl: issued.hostedUrl,
+    });
+  }
+
+  private async getPlan(organisationId: string): Promise<{ plan: BillingPlan; subscription?: OrganisationSubscription }> {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ subscription: organisationSubscriptions, plan: billingPlans })
+      .from(organisationSubscriptions)
+      .innerJoin(billingPlans, eq(billingPlans.id, organisationSubscriptions.planId))
+      .where(eq(organisationSubscriptions.organisationId, organisationId))
+      .limit(1);
+
+    if (row) {
+      return row;
+    }
+
+    const [plan] = await db
+      .select()
+      .from(billingPlans)
+      .where(eq(billingPlans.code, DEFAULT_PLAN_CODE))
+      .limit(1);
+
+    if (!plan) {
+      throw new BillingError('The default billing plan is missing', 'PLAN_NOT_FOUND', 500);
+    }
+    return { plan };
+  }
+
+  private getPaymentProvider(): PaymentProvider {
+    if (!this.paymentProvider) {
+      this.paymentProvider = createPaymentProviderFromEnv();
+    }
+    return this.paymentProvider;
+  }
+
+  private getUsageSource(): UsageSource {
+    if (!this.usageSource) {
+      this.usageSource = createUsageSourceFromEnv();
+    }
+    return this.usageSource;
+  }
+
+  private toPlanSummary(plan: BillingPlan): BillingPlanSummary {
+    return {
+      code: plan.code,
+      name: plan.name,
+      seatLimit: plan.seatLimit,
+      pricePerSeatCents: plan.pricePerSeatCents,
+      currency: plan.currency,
+      aiCreditsPerSeat: plan.aiCreditsPerSeat,
+    };
+  }
+}
+
+/**
+ * Same day of the month, clamped to the month's last day
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function formatPeriod(start: Date, end: Date): string {
+  return `${start.toISOString().slice(0, 10)} to ${end.toISOString().slice(0, 10)}`;
+}
+
+export const billingService = new BillingService();
@@ -0,0 +1,770 @@
+import { getDatabase } from '../database';
+import {
+  assignmentSubmissions,
+  assignments,
+  classEnrolments,
+  classSections,
+  courses,
+  userRoles,
+  users,
+  Assignment,
+  AssignmentSubmission,
+  ClassSection,
+  Course,
+} from '../types/database';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import {
+  CourseError,
+  CourseViewer,
+  CreateAssignmentRequest,
+  CreateCourseRequest,
+  CreateSectionRequest,
+  EnrolRequest,
+  EnrolmentRole,
+  GradeSubmissionRequest,
+  SubmissionStatus,
+  SubmissionSummary,
+  UpdateAssignmentRequest,
+  UpdateCourseRequest,
+  UpdateSectionRequest,
+  UpdateSubmissionRequest,
+} from '../types/auth';
+import { auditService } from './audit';
+
+export class CourseService {
+  /**
+   * Courses in the organisation; members without course.edit only see
+   * courses they are enrolled in
+   */
+  async listCourses(organisationId: string, viewer: CourseViewer): Promise<Course[]> {
+    const db = getDatabase();
+    const conditions = [eq(courses.organisationId, organisationId), isNull(courses.deletedAt)];
+
+    if (!viewer.canManage) {
+      const enrolled = await this.getEnrolledCourseIds(viewer.userId);
+      if (enrolled.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(courses.id, enrolled));
+    }
+
+    return db
+      .select()
+      .from(courses)
+      .where(and(...conditions))
+      .orderBy(courses.name);
+  }
+
+  /**
+   * Create a course
+   */
+  async createCourse(organisationId: string, data: CreateCourseRequest, actorId: string): Promise<Course> {
+    const db = getDatabase();
+    const [course] = await db
+      .insert(courses)
+      .values({
+        organisationId,
+        name: data.name,
+        code: data.code,
+        description: data.description,
+        createdBy: actorId,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'course.created',
+      'course',
+      course.id,
+      { name: course.name, code: course.code }
+    );
+
+    return course;
+  }
+
+  /**
+   * A course with the sections visible to the viewer
+   */
+  async getCourse(
+    organisationId: string,
+    courseId: string,
+    viewer: CourseViewer
+  ): Promise<Course & { sections: ClassSection[] }> {
+    const course = await this.findCourse(organisationId, courseId);
+    const db = getDatabase();
+
+    const sections = viewer.canManage
+      ? await db
+        .select()
+        .from(classSections)
+        .where(and(eq(classSections.courseId, courseId), isNull(classSections.deletedAt)))
+        .orderBy(classSections.name)
+      : await db
+        .select({ section: classSections })
+        .from(classSections)
+        .innerJoin(classEnrolments, eq(classEnrolments.sectionId, classSections.id))
+        .where(and(
+          eq(classSections.courseId, courseId),
+          isNull(classSections.deletedAt),
+          eq(classEnrolments.userId, viewer.userId)
+        ))
+        .orderBy(classSections.name)
+        .then(rows => rows.map(r => r.section));
+
+    if (!viewer.canManage && sections.length === 0) {
+      throw new CourseError('Course not found', 'COURSE_NOT_FOUND', 404);
+    }
+
+    return { ...course, sections };
+  }
+
+  /**
+   * Rename or describe a course
+   */
+  async updateCourse(
+    organisationId: string,
+    courseId: string,
+    data: UpdateCourseRequest,
+    actorId: string
+  ): Promise<Course> {
+    const existing = await this.findCourse(organisationId, courseId);
+    const db = getDatabase();
+
+    const [course] = await db
+      .update(courses)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(courses.id, courseId))
+      .returning();
+
+    await auditService.log({
+      actorId,
+      action: 'course.updated',
+      resourceType: 'course',
+      resourceId: courseId,
+      organisationId,
+      oldValues: { name: existing.name, code: existing.code, description: existing.description },
+      newValues: { name: course.name, code: course.code, description: course.description },
+    });
+
+    return course;
+  }
+
+  /**
+   * Soft-delete a course; its sections and assignments disappear with it
+   */
+  async deleteCourse(organisationId: string, courseId: string, actorId: string): Promise<void> {
+    const course = await this.findCourse(organisationId, courseId);
+    const db = getDatabase();
+
+    await db
+      .update(courses)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(courses.id, courseId));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'course.deleted',
+      'course',
+      courseId,
+      { name: course.name }
+    );
+  }
+
+  /**
+   * Add a class section to a course
+   */
+  async createSection(
+    organisationId: string,
+    courseId: string,
+    data: CreateSectionRequest,
+    actorId: string
+  ): Promise<ClassSection> {
+    await this.findCourse(organisationId, courseId);
+    const db = getDatabase();
+
+    const [section] = await db
+      .insert(classSections)
+      .values({ courseId, name: data.name, term: data.term, createdBy: actorId })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'section.created',
+      'class_section',
+      section.id,
+      { courseId, name: section.name, term: section.term }
+    );
+
+    return section;
+  }
+
+  /**
+   * Rename a section or change its term
+   */
+  async updateSection(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    data: UpdateSectionRequest,
+    actorId: string
+  ): Promise<ClassSection> {
+    await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+
+    const [section] = await db
+      .update(classSections)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(classSections.id, sectionId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'section.updated',
+      'class_section',
+      sectionId,
+      { courseId, name: section.name, term: section.term }
+    );
+
+    return section;
+  }
+
+  /**
+   * Soft-delete a section
+   */
+  async deleteSection(organisationId: string, courseId: string, sectionId: string, actorId: string): Promise<void> {
+    const section = await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+
+    await db
+      .update(classSections)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(classSections.id, sectionId));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'section.deleted',
+      'class_section',
+      sectionId,
+      { courseId, name: section.name }
+    );
+  }
+
+  /**
+   * Teachers and students of a section
+   */
+  async listEnrolments(organisationId: string, courseId: string, sectionId: string) {
+    await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+
+    return db
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: classEnrolments.role,
+        enrolledAt: classEnrolments.enrolledAt,
+      })
+      .from(classEnrolments)
+      .innerJoin(users, eq(users.id, classEnrolments.userId))
+      .where(and(eq(classEnrolments.sectionId, sectionId), isNull(users.deletedAt)))
+      .orderBy(classEnrolments.role, users.lastName, users.firstName);
+  }
+
+  /**
+   * Enrol an organisation member, or change their role in the section
+   */
+  async enrol(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    data: EnrolRequest,
+    actorId: string
+  ): Promise<void> {
+    await this.findSection(organisationId, courseId, sectionId);
+    await this.assertMember(organisationId, data.userId);
+    const db = getDatabase();
+
+    await db
+      .insert(classEnrolments)
+      .values({ sectionId, userId: data.userId, role: data.role, enrolledBy: actorId })
+      .onConflictDoUpdate({
+        target: [classEnrolments.sectionId, classEnrolments.userId],
+        set: { role: data.role },
+      });
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'section.member_enrolled',
+      'class_section',
+      sectionId,
+      { courseId, userId: data.userId, role: data.role }
+    );
+  }
+
+  /**
+   * Remove a user from a section; their submissions are kept
+   */
+  async unenrol(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    userId: string,
+    actorId: string
+  ): Promise<void> {
+    await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+
+    const removed = await db
+      .delete(classEnrolments)
+      .where(and(eq(classEnrolments.sectionId, sectionId), eq(classEnrolments.userId, userId)))
+      .returning({ role: classEnrolments.role });
+
+    if (removed.length === 0) {
+      throw new CourseError('User is not enrolled in this section', 'NOT_ENROLLED', 404);
+    }
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'section.member_removed',
+      'class_section',
+      sectionId,
+      { courseId, userId, role: removed[0].role }
+    );
+  }
+
+  /**
+   * Assignments of a section. Students also get their own submission status.
+   */
+  async listAssignments(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    viewer: CourseViewer
+  ): Promise<Array<Assignment & { submission?: { status: SubmissionStatus; score?: number } }>> {
+    await this.findSection(organisationId, courseId, sectionId);
+    const role = await this.getEnrolmentRole(sectionId, viewer.userId);
+    if (!viewer.canManage && !role) {
+      throw new CourseError('Section not found', 'SECTION_NOT_FOUND', 404);
+    }
+
+    const db = getDatabase();
+    const rows = await db
+      .select()
+      .from(assignments)
+      .where(and(eq(assignments.sectionId, sectionId), isNull(assignments.deletedAt)))
+      .orderBy(assignments.dueAt, assignments.createdAt);
+
+    if (role !== 'student' || rows.length === 0) {
+      return rows;
+    }
+
+    const submissions = await db
+      .select()
+      .from(assignmentSubmissions)
+      .where(and(
+        eq(assignmentSubmissions.userId, viewer.userId),
+        inArray(assignmentSubmissions.assignmentId, rows.map(a => a.id))
+      ));
+    const byAssignment = new Map(submissions.map(s => [s.assignmentId, s]));
+
+    return rows.map(assignment => {
+      const submission = byAssignment.get(assignment.id);
+      return {
+        ...assignment,
+        submission: {
+          status: this.getStatus(assignment, submission),
+          score: submission?.score ?? undefined,
+        },
+      };
+    });
+  }
+
+  /**
+   * Set work for a section: any of a topic, a video and a quiz, with an
+   * optional due date
+   */
+  async createAssignment(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    data: CreateAssignmentRequest,
+    actorId: string
+  ): Promise<Assignment> {
+    await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+
+    const [assignment] = await db
+      .insert(assignments)
+      .values({
+        sectionId,
+        title: data.title,
+        instructions: data.instructions,
+        topicId: data.topicId,
+        videoId: data.videoId,
+        videoUrl: data.videoUrl,
+        quizId: data.quizId,
+        dueAt: data.dueAt,
+        createdBy: actorId,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'assignment.created',
+      'assignment',
+      assignment.id,
+      { courseId, sectionId, title: assignment.title, dueAt: assignment.dueAt }
+    );
+
+    return assignment;
+  }
+
+  /**
+   * Change an assignment's content or due date
+   */
+  async updateAssignment(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string,
+    data: UpdateAssignmentRequest,
+    actorId: string
+  ): Promise<Assignment> {
+    const existing = await this.findAssignment(organisationId, courseId, sectionId, assignmentId);
+    const db = getDatabase();
+
+    const [assignment] = await db
+      .update(assignments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(assignments.id, assignmentId))
+      .returning();
+
+    await auditService.log({
+      actorId,
+      action: 'assignment.updated',
+      resourceType: 'assignment',
+      resourceId: assignmentId,
+      organisationId,
+      oldValues: { title: existing.title, dueAt: existing.dueAt },
+      newValues: { title: assignment.title, dueAt: assignment.dueAt },
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Soft-delete an assignment
+   */
+  async deleteAssignment(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string,
+    actorId: string
+  ): Promise<void> {
+    const assignment = await this.findAssignment(organisationId, courseId, sectionId, assignmentId);
+    const db = getDatabase();
+
+    await db
+      .update(assignments)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(assignments.id, assignmentId));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'assignment.deleted',
+      'assignment',
+      assignmentId,
+      { courseId, sectionId, title: assignment.title }
+    );
+  }
+
+  /**
+   * Status of every student enrolled in the section
+   */
+  async listSubmissions(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string
+  ): Promise<SubmissionSummary[]> {
+    const assignment = await this.findAssignment(organisationId, courseId, sectionId, assignmentId);
+    const db = getDatabase();
+
+    const rows = await db
+      .select({ user: users, submission: assignmentSubmissions })
+      .from(classEnrolments)
+      .innerJoin(users, eq(users.id, classEnrolments.userId))
+      .leftJoin(assignmentSubmissions, and(
+        eq(assignmentSubmissions.assignmentId, assignmentId),
+        eq(assignmentSubmissions.userId, classEnrolments.userId)
+      ))
+      .where(and(
+        eq(classEnrolments.sectionId, sectionId),
+        eq(classEnrolments.role, 'student'),
+        isNull(users.deletedAt)
+      ))
+      .orderBy(users.lastName, users.firstName);
+
+    return rows.map(({ user, submission }) => ({
+      userId: user.id,
+      email: user.email,
+      firstName: user.firstName || undefined,
+      lastName: user.lastName || undefined,
+      status: this.getStatus(assignment, submission || undefined),
+      score: submission?.score ?? undefined,
+      feedback: submission?.feedback || undefined,
+      submittedAt: submission?.submittedAt || undefined,
+      gradedAt: submission?.gradedAt || undefined,
+      late: this.isLate(assignment, submission || undefined),
+    }));
+  }
+
+  /**
+   * A student starts or hands in their own work. Graded work is locked.
+   */
+  async updateOwnSubmission(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string,
+    userId: string,
+    data: UpdateSubmissionRequest
+  ): Promise<AssignmentSubmission> {
+    const assignment = await this.findAssignment(organisationId, courseId, sectionId, assignmentId);
+    if (await this.getEnrolmentRole(sectionId, userId) !== 'student') {
+      throw new CourseError('Only students enrolled in this section can submit work', 'NOT_ENROLLED', 403);
+    }
+
+    const db = getDatabase();
+    const [existing] = await db
+      .select()
+      .from(assignmentSubmissions)
+      .where(and(eq(assignmentSubmissions.assignmentId, assignmentId), eq(assignmentSubmissions.userId, userId)))
+      .limit(1);
+
+    if (existing?.status === 'graded') {
+      throw new CourseError('This assignment has already been graded', 'SUBMISSION_GRADED', 409);
+    }
+
+    const values = {
+      status: data.status,
+      ...(data.score !== undefined ? { score: data.score } : {}),
+      submittedAt: data.status === 'submitted' ? existing?.submittedAt || new Date() : null,
+      updatedAt: new Date(),
+    };
+
+    const [submission] = await db
+      .insert(assignmentSubmissions)
+      .values({ assignmentId, userId, ...values })
+      .onConflictDoUpdate({
+        target: [assignmentSubmissions.assignmentId, assignmentSubmissions.userId],
+        set: values,
+      })
+      .returning();
+
+    if (data.status === 'submitted' && existing?.status !== 'submitted') {
+      await auditService.log({
+        actorId: userId,
+        action: 'assignment.submitted',
+        resourceType: 'assignment',
+        resourceId: assignmentId,
+        organisationId,
+        metadata: { sectionId, score: submission.score },
+      });
+
+      if (assignment.quizId) {
+        await auditService.log({
+          actorId: userId,
+          action: 'quiz.completed',
+          resourceType: 'quiz',
+          resourceId: assignment.quizId,
+          organisationId,
+          metadata: { assignmentId, sectionId, score: submission.score },
+        });
+      }
+    }
+
+    return submission;
+  }
+
+  /**
+   * Record a teacher's score and feedback for a student
+   */
+  async gradeSubmission(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string,
+    studentId: string,
+    data: GradeSubmissionRequest,
+    actorId: string
+  ): Promise<AssignmentSubmission> {
+    await this.findAssignment(organisationId, courseId, sectionId, assignmentId);
+    if (await this.getEnrolmentRole(sectionId, studentId) !== 'student') {
+      throw new CourseError('User is not a student in this section', 'NOT_ENROLLED', 404);
+    }
+
+    const db = getDatabase();
+    const values = {
+      status: 'graded' as const,
+      ...(data.score !== undefined ? { score: data.score } : {}),
+      ...(data.feedback !== undefined ? { feedback: data.feedback } : {}),
+      gradedAt: new Date(),
+      gradedBy: actorId,
+      updatedAt: new Date(),
+    };
+
+    const [submission] = await db
+      .insert(assignmentSubmissions)
+      .values({ assignmentId, userId: studentId, ...values })
+      .onConflictDoUpdate({
+        target: [assignmentSubmissions.assignmentId, assignmentSubmissions.userId],
+        set: values,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'assignment.graded',
+      'assignment',
+      assignmentId,
+      { sectionId, userId: studentId, score: submission.score }
+    );
+
+    return submission;
+  }
+
+  private getStatus(assignment: Assignment, submission?: AssignmentSubmission): SubmissionStatus {
+    if (submission?.status === 'submitted' || submission?.status === 'graded') {
+      return submission.status;
+    }
+    if (assignment.dueAt && assignment.dueAt < new Date()) {
+      return 'missing';
+    }
+    return submission?.status || 'assigned';
+  }
+
+  private isLate(assignment: Assignment, submission?: AssignmentSubmission): boolean {
+    if (!assignment.dueAt) {
+      return false;
+    }
+    const handedIn = submission?.submittedAt || (submission?.status === 'graded' ? submission.gradedAt : null);
+    return handedIn ? handedIn > assignment.dueAt : assignment.dueAt < new Date();
+  }
+
+  private async getEnrolmentRole(sectionId: string, userId: string): Promise<EnrolmentRole | undefined> {
+    const db = getDatabase();
+    const [enrolment] = await db
+      .select({ role: classEnrolments.role })
+      .from(classEnrolments)
+      .where(and(eq(classEnrolments.sectionId, sectionId), eq(classEnrolments.userId, userId)))
+      .limit(1);
+    return enrolment?.role;
+  }
+
+  private async getEnrolledCourseIds(userId: string): Promise<string[]> {
+    const db = getDatabase();
+    const rows = await db
+      .selectDistinct({ courseId: classSections.courseId })
+      .from(classEnrolments)
+      .innerJoin(classSections, eq(classSections.id, classEnrolments.sectionId))
+      .where(and(eq(classEnrolments.userId, userId), isNull(classSections.deletedAt)));
+    return rows.map(r => r.courseId);
+  }
+
+  private async findCourse(organisationId: string, courseId: string): Promise<Course> {
+    const db = getDatabase();
+    const [course] = await db
+      .select()
+      .from(courses)
+      .where(and(
+        eq(courses.id, courseId),
+        eq(courses.organisationId, organisationId),
+        isNull(courses.deletedAt)
+      ))
+      .limit(1);
+
+    if (!course) {
+      throw new CourseError('Course not found', 'COURSE_NOT_FOUND', 404);
+    }
+    return course;
+  }
+
+  private async findSection(organisationId: string, courseId: string, sectionId: string): Promise<ClassSection> {
+    await this.findCourse(organisationId, courseId);
+    const db = getDatabase();
+    const [section] = await db
+      .select()
+      .from(classSections)
+      .where(and(
+        eq(classSections.id, sectionId),
+        eq(classSections.courseId, courseId),
+        isNull(classSections.deletedAt)
+      ))
+      .limit(1);
+
+    if (!section) {
+      throw new CourseError('Section not found', 'SECTION_NOT_FOUND', 404);
+    }
+    return section;
+  }
+
+  private async findAssignment(
+    organisationId: string,
+    courseId: string,
+    sectionId: string,
+    assignmentId: string
+  ): Promise<Assignment> {
+    await this.findSection(organisationId, courseId, sectionId);
+    const db = getDatabase();
+    const [assignment] = await db
+      .select()
+      .from(assignments)
+      .where(and(
+        eq(assignments.id, assignmentId),
+        eq(assignments.sectionId, sectionId),
+        isNull(assignments.deletedAt)
+      ))
+      .limit(1);
+
+    if (!assignment) {
+      throw new CourseError('Assignment not found', 'ASSIGNMENT_NOT_FOUND', 404);
+    }
+    return assignment;
+  }
+
+  /**
+   * Only members of the organisation can be enrolled
+   */
+  private async assertMember(organisationId: string, userId: string): Promise<void> {
+    const db = getDatabase();
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .innerJoin(users, eq(users.id, userRoles.userId))
+      .where(and(
+        eq(userRoles.userId, userId),
+        eq(userRoles.organisationId, organisationId),
+        isNull(users.deletedAt)
+      ))
+      .limit(1);
+
+    if (!membership) {
+      throw new CourseError('User is not a member of this organisation', 'NOT_A_MEMBER', 404);
+    }
+  }
+}
+
+export const courseService = new CourseService();
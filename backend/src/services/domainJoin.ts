@@ -0,0 +1,418 @@
+import { promises as dns } from 'dns';
+import { randomBytes } from 'crypto';
+import { getDatabase } from '../database';
+import { organisationJoinRequests, organisations, roles, userRoles, users, Organisation } from '../types/database';
+import { eq, and, ne, desc, isNull, isNotNull } from 'drizzle-orm';
+import {
+  DomainVerificationStatus,
+  JoinRequestInfo,
+  OrganisationError,
+  UpdateAutoJoinRequest,
+} from '../types/auth';
+import { auditService } from './audit';
+import { billingService } from './billing';
+import { roleService } from './role';
+
+const RECORD_PREFIX = '_edurank-verification';
+const RECORD_VALUE_PREFIX = 'edurank-verification=';
+const DEFAULT_JOIN_ROLE = 'STUDENT';
+
+/**
+ * Looks up DNS TXT records. Swap in a fake with setResolver() for tests.
+ */
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+/**
+ * Resolves through the system's DNS servers
+ */
+export class SystemDnsResolver implements DnsResolver {
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    try {
+      return await dns.resolveTxt(hostname);
+    } catch (error) {
+      // A missing record is a normal "not verified yet" answer
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOTFOUND' || code === 'ENODATA') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+export class DomainJoinService {
+  private resolver: DnsResolver = new SystemDnsResolver();
+
+  setResolver(resolver: DnsResolver): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Current domain, the TXT record to publish and the auto-join settings
+   */
+  async getStatus(organisationId: string): Promise<DomainVerificationStatus> {
+    return this.toStatus(await this.getOrganisation(organisationId));
+  }
+
+  /**
+   * Set the domain to verify and issue a fresh verification token
+   */
+  async setDomain(organisationId: string, domain: string, actorId: string): Promise<DomainVerificationStatus> {
+    const db = getDatabase();
+    const [org] = await db
+      .update(organisations)
+      .set({
+        verifiedDomain: domain.toLowerCase(),
+        domainVerificationToken: randomBytes(16).toString('hex'),
+        domainVerifiedAt: null,
+        autoJoinMode: 'disabled',
+        updatedAt: new Date(),
+      })
+      .where(eq(organisations.id, organisationId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'organisation.domain_set',
+      'organisation',
+      organisationId,
+      { domain: org.verifiedDomain }
+    );
+
+    return this.toStatus(org);
+  }
+
+  /**
+   * Check DNS for the verification record and mark the domain verified
+   */
+  async verifyDomain(organisationId: string, actorId: string): Promise<DomainVerificationStatus> {
+    const org = await this.getOrganisation(organisationId);
+
+    if (!org.verifiedDomain || !org.domainVerificationToken) {
+      throw new OrganisationError('Set a domain before verifying it', 'DOMAIN_NOT_SET');
+    }
+
+    if (org.domainVerifiedAt) {
+      return this.toStatus(org);
+    }
+
+    const db = getDatabase();
+    const [claimed] = await db
+      .select({ id: organisations.id })
+      .from(organisations)
+      .where(and(
+        eq(organisations.verifiedDomain, org.verifiedDomain),
+        isNotNull(organisations.domainVerifiedAt),
+        isNull(organisations.deletedAt),
+        ne(organisations.id, organisationId)
+      ))
+      .limit(1);
+
+    if (claimed) {
+      throw new OrganisationError('Domain is already verified by another organisation', 'DOMAIN_TAKEN', 409);
+    }
+
+    // Long TXT values arrive split into chunks
+    const records = await this.resolver.resolveTxt(`${RECORD_PREFIX}.${org.verifiedDomain}`);
+    const expected = RECORD_VALUE_PREFIX + org.domainVerificationToken;
+    if (!records.some(chunks => chunks.join('').trim() === expected)) {
+      throw new OrganisationError(
+        'Verification TXT record not found. DNS changes can take a while to propagate.',
+        'DOMAIN_VERIFICATION_FAILED',
+        422
+      );
+    }
+
+    const [verified] = await db
+      .update(organisations)
+      .set({ domainVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(organisations.id, organisationId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'organisation.domain_verified',
+      'organisation',
+      organisationId,
+      { domain: org.verifiedDomain }
+    );
+
+    return this.toStatus(verified);
+  }
+
+  /**
+   * Choose what happens when someone registers with the verified domain
+   */
+  async updateAutoJoin(
+    organisationId: string,
+    data: UpdateAutoJoinRequest,
+    actorId: string
+  ): Promise<DomainVerificationStatus> {
+    const org = await this.getOrganisation(organisationId);
+
+    if (data.mode !== 'disabled' && !org.domainVerifiedAt) {
+      throw new OrganisationError('Verify the domain before enabling auto-join', 'DOMAIN_NOT_VERIFIED');
+    }
+
+    // Whoever sets the policy vouches for the role everyone joining gets
+    if (data.roleId) {
+      await roleService.assertRoleGrantable(organisationId, data.roleId, actorId);
+    }
+
+    const db = getDatabase();
+    const [updated] = await db
+      .update(organisations)
+      .set({ autoJoinMode: data.mode, autoJoinRoleId: data.roleId ?? null, updatedAt: new Date() })
+      .where(eq(organisations.id, organisationId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'organisation.auto_join_updated',
+      'organisation',
+      organisationId,
+      {
+        oldValues: { mode: org.autoJoinMode, roleId: org.autoJoinRoleId },
+        newValues: { mode: data.mode, roleId: data.roleId },
+      }
+    );
+
+    return this.toStatus(updated);
+  }
+
+  /**
+   * Apply the auto-join policy of the organisation owning the user's email
+   * domain. Automatic joins wait until the email address is verified, since
+   * until then anyone could claim it; approval requests are queued at once.
+   * Without a free seat, an automatic join is queued for approval instead.
+   */
+  async applyEmailDomainPolicy(userId: string): Promise<void> {
+    const db = getDatabase();
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+
+    const domain = user?.email.split('@')[1]?.toLowerCase();
+    if (!domain) return;
+
+    const [org] = await db
+      .select()
+      .from(organisations)
+      .where(and(
+        eq(organisations.verifiedDomain, domain),
+        isNotNull(organisations.domainVerifiedAt),
+        isNull(organisations.deletedAt),
+        ne(organisations.autoJoinMode, 'disabled')
+      ))
+      .limit(1);
+
+    if (!org) return;
+
+    // Users belong to a single organisation
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), isNotNull(userRoles.organisationId)))
+      .limit(1);
+
+    if (membership) return;
+
+    if (org.autoJoinMode === 'automatic') {
+      if (!user.emailVerified) return;
+
+      const seats = await billingService.getSeatUsage(org.id);
+      if (seats.available > 0) {
+        await this.addMember(org, userId, await this.resolveJoinRoleId(org), userId);
+        return;
+      }
+    }
+
+    const [request] = await db
+      .insert(organisationJoinRequests)
+      .values({ organisationId: org.id, userId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (request) {
+      await auditService.log({
+        actorId: userId,
+        action: 'organisation.join_requested',
+        resourceType: 'join_request',
+        resourceId: request.id,
+        organisationId: org.id,
+        metadata: { domain },
+      });
+    }
+  }
+
+  /**
+   * List join requests, pending ones by default
+   */
+  async listJoinRequests(
+    organisationId: string,
+    status: JoinRequestInfo['status'] = 'pending'
+  ): Promise<JoinRequestInfo[]> {
+    const db = getDatabase();
+    const rows = await db
+      .select({
+        request: organisationJoinRequests,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          emailVerified: users.emailVerified,
+        },
+      })
+      .from(organisationJoinRequests)
+      .innerJoin(users, eq(users.id, organisationJoinRequests.userId))
+      .where(and(
+        eq(organisationJoinRequests.organisationId, organisationId),
+        eq(organisationJoinRequests.status, status),
+        isNull(users.deletedAt)
+      ))
+      .orderBy(desc(organisationJoinRequests.createdAt));
+
+    return rows.map(({ request, user }) => ({
+      id: request.id,
+      status: request.status,
+      createdAt: request.createdAt,
+      reviewedAt: request.reviewedAt || undefined,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName || undefined,
+        lastName: user.lastName || undefined,
+        emailVerified: Boolean(user.emailVerified),
+      },
+    }));
+  }
+
+  /**
+   * Approve (adding the user with the given or default role) or reject a request
+   */
+  async reviewJoinRequest(
+    organisationId: string,
+    requestId: string,
+    approve: boolean,
+    actorId: string,
+    roleId?: string
+  ): Promise<void> {
+    const org = await this.getOrganisation(organisationId);
+    if (roleId) {
+      await roleService.assertRoleGrantable(organisationId, roleId, actorId);
+    }
+    // The request stays pending until a seat is free
+    if (approve) {
+      await billingService.assertSeatsAvailable(organisationId);
+    }
+
+    const db = getDatabase();
+    const [request] = await db
+      .update(organisationJoinRequests)
+      .set({
+        status: approve ? 'approved' : 'rejected',
+        reviewedBy: actorId,
+        reviewedAt: new Date(),
+      })
+      .where(and(
+        eq(organisationJoinRequests.id, requestId),
+        eq(organisationJoinRequests.organisationId, organisationId),
+        eq(organisationJoinRequests.status, 'pending')
+      ))
+      .returning();
+
+    if (!request) {
+      throw new OrganisationError('Join request not found', 'JOIN_REQUEST_NOT_FOUND', 404);
+    }
+
+    if (approve) {
+      await this.addMember(org, request.userId, roleId ?? await this.resolveJoinRoleId(org), actorId);
+    }
+
+    await auditService.log({
+      actorId,
+      action: approve ? 'organisation.join_approved' : 'organisation.join_rejected',
+      resourceType: 'join_request',
+      resourceId: request.id,
+      organisationId,
+      metadata: { userId: request.userId },
+    });
+  }
+
+  private async addMember(org: Organisation, userId: string, roleId: string, assignedBy: string): Promise<void> {
+    const db = getDatabase();
+    await db
+      .insert(userRoles)
+      .values({ userId, roleId, organisationId: org.id, assignedBy })
+      .onConflictDoNothing();
+
+    await roleService.invalidateTokens([userId]);
+
+    await auditService.log({
+      actorId: assignedBy,
+      action: 'user.joined',
+      resourceType: 'user',
+      resourceId: userId,
+      organisationId: org.id,
+      metadata: { via: 'verified_domain', domain: org.verifiedDomain, roleId },
+    });
+  }
+
+  private async resolveJoinRoleId(org: Organisation): Promise<string> {
+    if (org.autoJoinRoleId) {
+      return org.autoJoinRoleId;
+    }
+
+    const db = getDatabase();
+    const [role] = await db
+      .select({ id: roles.id })
+      .from(roles)
+      .where(and(eq(roles.name, DEFAULT_JOIN_ROLE), isNull(roles.organisationId), isNull(roles.deletedAt)))
+      .limit(1);
+
+    if (!role) {
+      throw new OrganisationError(`System role ${DEFAULT_JOIN_ROLE} not found`, 'ROLE_NOT_FOUND', 500);
+    }
+
+    return role.id;
+  }
+
+  private async getOrganisation(organisationId: string): Promise<Organisation> {
+    const db = getDatabase();
+    const [org] = await db
+      .select()
+      .from(organisations)
+      .where(and(eq(organisations.id, organisationId), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    if (!org) {
+      throw new OrganisationError('Organisation not found', 'NOT_FOUND', 404);
+    }
+
+    return org;
+  }
+
+  private toStatus(org: Organisation): DomainVerificationStatus {
+    const pending = Boolean(org.verifiedDomain && org.domainVerificationToken && !org.domainVerifiedAt);
+
+    return {
+      domain: org.verifiedDomain,
+      verified: Boolean(org.domainVerifiedAt),
+      verifiedAt: org.domainVerifiedAt || undefined,
+      recordName: pending ? `${RECORD_PREFIX}.${org.verifiedDomain}` : undefined,
+      recordValue: pending ? RECORD_VALUE_PREFIX + org.domainVerificationToken : undefined,
+      autoJoinMode: org.autoJoinMode,
+      autoJoinRoleId: org.autoJoinRoleId || undefined,
+    };
+  }
+}
+
+export const domainJoinService = new DomainJoinService();
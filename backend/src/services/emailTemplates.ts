@@ -0,0 +1,107 @@
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface InviteEmailParams {
+  organisationName: string;
+  roleName: string;
+  inviterName?: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+export interface VerificationEmailParams {
+  firstName?: string;
+  verifyUrl: string;
+  expiresAt: Date;
+}
+
+export interface PasswordResetEmailParams {
+  firstName?: string;
+  resetUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * Escape user-supplied values before placing them in HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap body paragraphs and a call-to-action link in the shared HTML layout
+ */
+function layout(paragraphs: string[], action: { label: string; url: string }): string {
+  const body = paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n');
+  return `<!DOCTYPE html>
+<html>
+  <body style="font-family: sans-serif; color: #1f2937;">
+    ${body}
+    <p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: #4f46e5; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(action.label)}</a></p>
+    <p style="color: #6b7280; font-size: 12px;">If the button does not work, copy this link into your browser: ${escapeHtml(action.url)}</p>
+  </body>
+</html>`;
+}
+
+function formatDate(date: Date): string {
+  return date.toUTCString();
+}
+
+/**
+ * Organisation invitation
+ */
+export function inviteEmail(params: InviteEmailParams): EmailContent {
+  const inviter = params.inviterName || 'Someone';
+  const paragraphs = [
+    `${inviter} has invited you to join ${params.organisationName} on EduRank as ${params.roleName}.`,
+    `This invitation expires on ${formatDate(params.expiresAt)}.`,
+  ];
+
+  return {
+    subject: `You're invited to join ${params.organisationName} on EduRank`,
+    text: [...paragraphs, `Accept the invitation: ${params.acceptUrl}`].join('\n\n'),
+    html: layout(paragraphs, { label: 'Accept invitation', url: params.acceptUrl }),
+  };
+}
+
+/**
+ * Email address verification
+ */
+export function verificationEmail(params: VerificationEmailParams): EmailContent {
+  const paragraphs = [
+    `Hi ${params.firstName || 'there'},`,
+    'Please confirm your email address to finish setting up your EduRank account.',
+    `This link expires on ${formatDate(params.expiresAt)}.`,
+  ];
+
+  return {
+    subject: 'Verify your EduRank email address',
+    text: [...paragraphs, `Verify your email: ${params.verifyUrl}`].join('\n\n'),
+    html: layout(paragraphs, { label: 'Verify email', url: params.verifyUrl }),
+  };
+}
+
+/**
+ * Password reset
+ */
+export function passwordResetEmail(params: PasswordResetEmailParams): EmailContent {
+  const paragraphs = [
+    `Hi ${params.firstName || 'there'},`,
+    'We received a request to reset your EduRank password. If you did not make this request, you can ignore this email.',
+    `This link expires on ${formatDate(params.expiresAt)} and can only be used once.`,
+  ];
+
+  return {
+    subject: 'Reset your EduRank password',
+    text: [...paragraphs, `Reset your password: ${params.resetUrl}`].join('\n\n'),
+    html: layout(paragraphs, { label: 'Reset password', url: params.resetUrl }),
+  };
+}
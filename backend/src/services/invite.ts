@@ -0,0 +1,380 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDatabase } from '../database';
+import { classEnrolments, classSections, courses, invites, organisations, roles, users, userRoles, Invite } from '../types/database';
+import { eq, and, inArray, isNotNull, isNull, ne } from 'drizzle-orm';
+import { AcceptInviteRequest, InviteDetails, InviteError, UserContext } from '../types/auth';
+import { authService } from './auth';
+import { auditService } from './audit';
+import { billingService } from './billing';
+import { mailerService } from './mailer';
+
+const INVITE_TTL_DAYS = 7;
+
+export class InviteService {
+  /**
+   * Generate an invite token and the hash stored in `invites.token_hash`
+   */
+  generateToken(): { token: string; tokenHash: string } {
+    const token = randomBytes(32).toString('hex');
+    return { token, tokenHash: this.hashToken(token) };
+  }
+
+  /**
+   * Expiry date for a newly issued invite token
+   */
+  getExpiryDate(): Date {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + INVITE_TTL_DAYS);
+    return expiresAt;
+  }
+
+  /**
+   * Queue the invitation email containing the raw token
+   */
+  async sendInviteEmail(invite: Invite, token: string, inviterName?: string): Promise<void> {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ organisationName: organisations.name, roleName: roles.name })
+      .from(organisations)
+      .innerJoin(roles, eq(roles.id, invite.roleId))
+      .where(eq(organisations.id, invite.organisationId))
+      .limit(1);
+
+    if (!row) {
+      throw new InviteError('Invite organisation or role not found', 'INVITE_NOT_FOUND', 404);
+    }
+
+    mailerService.sendInviteEmail(invite.email, {
+      organisationName: row.organisationName,
+      roleName: row.roleName,
+      inviterName,
+      acceptUrl: mailerService.appUrl('/invite', { token }),
+      expiresAt: invite.expiresAt,
+    });
+  }
+
+  /**
+   * Look up a pending invite by its token (public, token holders only)
+   */
+  async lookup(token: string): Promise<InviteDetails> {
+    const { invite, organisation, role } = await this.findPendingByToken(token);
+    const db = getDatabase();
+
+    const [existingUser] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.email, invite.email), isNull(users.deletedAt)))
+      .limit(1);
+
+    return {
+      id: invite.id,
+      email: invite.email,
+      organisation: {
+        id: organisation.id,
+        name: organisation.name,
+        slug: organisation.slug,
+      },
+      role: {
+        id: role.id,
+        name: role.name,
+      },
+      expiresAt: invite.expiresAt,
+      existingAccount: Boolean(existingUser),
+    };
+  }
+
+  /**
+   * Accept an invite: create or link the user and assign the invited role
+   */
+  async accept(data: AcceptInviteRequest): Promise<UserContext> {
+    const { invite } = await this.findPendingByToken(data.token);
+    const db = getDatabase();
+
+    const [existingUser] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, invite.email))
+      .limit(1);
+
+    if (existingUser?.deletedAt) {
+      throw new InviteError('This account has been deleted', 'ACCOUNT_DELETED', 409);
+    }
+
+    // Existing accounts must prove ownership with their current password
+    if (existingUser) {
+      const isValidPassword = await authService.verifyPassword(data.password, existingUser.passwordHash);
+      if (!isValidPassword) {
+        throw new InviteError('Invalid credentials', 'INVALID_CREDENTIALS', 401);
+      }
+      await this.assertNotInOtherOrganisation(existingUser.id, invite.organisationId);
+    }
+
+    const passwordHash = existingUser ? undefined : await authService.hashPassword(data.password);
+
+    const userId = await db.transaction(async (tx) => {
+      let id = existingUser?.id;
+
+      if (!id) {
+        // The invite token proves ownership of the email address
+        const [newUser] = await tx
+          .insert(users)
+          .values({
+            email: invite.email,
+            passwordHash: passwordHash!,
+            firstName: data.firstName ?? invite.firstName,
+            lastName: data.lastName ?? invite.lastName,
+            emailVerified: true,
+            emailVerifiedAt: new Date(),
+          })
+          .returning();
+        id = newUser.id;
+      }
+
+      await tx
+        .insert(userRoles)
+        .values({
+          userId: id,
+          roleId: invite.roleId,
+          organisationId: invite.organisationId,
+          assignedBy: invite.invitedBy,
+        })
+        .onConflictDoNothing();
+
+      // Class sections from a roster import, skipping any removed since
+      const sectionIds = invite.sectionEnrolments.map(e => e.sectionId);
+      if (sectionIds.length > 0) {
+        const liveSections = await tx
+          .select({ id: classSections.id })
+          .from(classSections)
+          .innerJoin(courses, eq(courses.id, classSections.courseId))
+          .where(and(
+            inArray(classSections.id, sectionIds),
+            eq(courses.organisationId, invite.organisationId),
+            isNull(classSections.deletedAt),
+            isNull(courses.deletedAt)
+          ));
+        const liveIds = new Set(liveSections.map(section => section.id));
+        const enrolments = invite.sectionEnrolments.filter(e => liveIds.has(e.sectionId));
+
+        if (enrolments.length > 0) {
+          await tx
+            .insert(classEnrolments)
+            .values(enrolments.map(e => ({
+              sectionId: e.sectionId,
+              userId: id!,
+              role: e.role,
+              enrolledBy: invite.invitedBy,
+            })))
+            .onConflictDoNothing();
+        }
+      }
+
+      // A concurrent accept, decline or revoke may have got there first
+      const [accepted] = await tx
+        .update(invites)
+        .set({
+          status: 'accepted',
+          acceptedAt: new Date(),
+          acceptedBy: id,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(invites.id, invite.id), eq(invites.status, 'pending')))
+        .returning({ id: invites.id });
+
+      if (!accepted) {
+        throw new InviteError('Invite is no longer pending', 'INVITE_NOT_PENDING', 410);
+      }
+
+      return id;
+    });
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.joined',
+      resourceType: 'user',
+      resourceId: userId,
+      organisationId: invite.organisationId,
+      metadata: {
+        inviteId: invite.id,
+        roleId: invite.roleId,
+        newAccount: !existingUser,
+      },
+    });
+
+    return authService.getUserContext(userId);
+  }
+
+  /**
+   * Decline an invite (public, token holders only)
+   */
+  async decline(token: string): Promise<void> {
+    const { invite } = await this.findPendingByToken(token);
+    const db = getDatabase();
+
+    await db
+      .update(invites)
+      .set({ status: 'declined', updatedAt: new Date() })
+      .where(eq(invites.id, invite.id));
+
+    await auditService.log({
+      action: 'invite.declined',
+      resourceType: 'invite',
+      resourceId: invite.id,
+      organisationId: invite.organisationId,
+      metadata: { email: invite.email },
+    });
+  }
+
+  /**
+   * Issue a fresh token and expiry for a pending or expired invite, and email it
+   */
+  async resend(
+    organisationId: string,
+    inviteId: string,
+    actorId: string,
+    inviterName?: string
+  ): Promise<Invite> {
+    const invite = await this.findForOrganisation(organisationId, inviteId);
+
+    if (invite.status !== 'pending' && invite.status !== 'expired') {
+      throw new InviteError(`Cannot resend an invite that is ${invite.status}`, 'INVITE_NOT_RESENDABLE', 409);
+    }
+
+    // Expired invites gave up their seat and need it back
+    if (invite.status === 'expired' || invite.expiresAt <= new Date()) {
+      await billingService.assertSeatsAvailable(organisationId);
+    }
+
+    const { token, tokenHash } = this.generateToken();
+    const db = getDatabase();
+
+    const [updated] = await db
+      .update(invites)
+      .set({
+        tokenHash,
+        status: 'pending',
+        expiresAt: this.getExpiryDate(),
+        updatedAt: new Date(),
+      })
+      .where(eq(invites.id, invite.id))
+      .returning();
+
+    await this.sendInviteEmail(updated, token, inviterName);
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'invite.resent',
+      'invite',
+      invite.id,
+      { email: invite.email }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Revoke a pending invite
+   */
+  async revoke(organisationId: string, inviteId: string, actorId: string): Promise<void> {
+    const invite = await this.findForOrganisation(organisationId, inviteId);
+
+    if (invite.status !== 'pending') {
+      throw new InviteError(`Cannot revoke an invite that is ${invite.status}`, 'INVITE_NOT_REVOCABLE', 409);
+    }
+
+    const db = getDatabase();
+    await db
+      .update(invites)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(invites.id, invite.id));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'invite.revoked',
+      'invite',
+      invite.id,
+      { email: invite.email }
+    );
+  }
+
+  /**
+   * Hash token for storage
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Find a usable invite by token, marking it expired if its time is up
+   */
+  private async findPendingByToken(token: string) {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ invite: invites, organisation: organisations, role: roles })
+      .from(invites)
+      .innerJoin(organisations, eq(organisations.id, invites.organisationId))
+      .innerJoin(roles, eq(roles.id, invites.roleId))
+      .where(and(eq(invites.tokenHash, this.hashToken(token)), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    if (!row) {
+      throw new InviteError('Invite not found', 'INVITE_NOT_FOUND', 404);
+    }
+
+    if (row.invite.status !== 'pending') {
+      throw new InviteError(`Invite has already been ${row.invite.status}`, 'INVITE_NOT_PENDING', 410);
+    }
+
+    if (row.invite.expiresAt <= new Date()) {
+      await db
+        .update(invites)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(eq(invites.id, row.invite.id));
+      throw new InviteError('Invite has expired', 'INVITE_EXPIRED', 410);
+    }
+
+    return row;
+  }
+
+  /**
+   * Users belong to a single organisation, so an invite cannot add them to a second
+   */
+  private async assertNotInOtherOrganisation(userId: string, organisationId: string): Promise<void> {
+    const db = getDatabase();
+    const [other] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(
+        eq(userRoles.userId, userId),
+        isNotNull(userRoles.organisationId),
+        ne(userRoles.organisationId, organisationId)
+      ))
+      .limit(1);
+
+    if (other) {
+      throw new InviteError('This account belongs to another organisation', 'INVITE_ORGANISATION_MISMATCH', 403);
+    }
+  }
+
+  /**
+   * Find an invite that belongs to the given organisation
+   */
+  private async findForOrganisation(organisationId: string, inviteId: string): Promise<Invite> {
+    const db = getDatabase();
+    const [invite] = await db
+      .select()
+      .from(invites)
+      .where(and(eq(invites.id, inviteId), eq(invites.organisationId, organisationId)))
+      .limit(1);
+
+    if (!invite) {
+      throw new InviteError('Invite not found', 'INVITE_NOT_FOUND', 404);
+    }
+
+    return invite;
+  }
+}
+
+export const inviteService = new InviteService();
@@ -0,0 +1,72 @@
+import { DailyActiveLearners, LearnerStats, LtiTargetType, QuizResult, TopicMastery } from '../types/auth';
+import { callLearningAppFunction, LearningAppConfig, learningAppConfigFromEnv } from '../utils/learningApp';
+
+/**
+ * Quiz results, topic performance and streaks live in the learning app
+ * (Supabase). Callers choose the learners (by email); only their data is
+ * returned.
+ */
+export interface LearningDataSource {
+  readonly name: string;
+  getLearnerStats(emails: string[], from: Date, to: Date): Promise<LearnerStats[]>;
+  // Days without activity are left out
+  getActivity(emails: string[], from: Date, to: Date): Promise<DailyActiveLearners[]>;
+  getTopicMastery(emails: string[]): Promise<TopicMastery[]>;
+  // Null when the learner has not finished the quiz or todo
+  getQuizResult(email: string, target: { type: LtiTargetType; id: string }): Promise<QuizResult | null>;
+}
+
+/**
+ * Calls the learning app's organisation-analytics edge function
+ */
+export class SupabaseLearningDataSource implements LearningDataSource {
+  readonly name = 'supabase';
+
+  constructor(private readonly config: LearningAppConfig) {}
+
+  async getLearnerStats(emails: string[], from: Date, to: Date): Promise<LearnerStats[]> {
+    const result = await callLearningAppFunction<{ learners: LearnerStats[] }>(this.config, 'organisation-analytics', {
+      action: 'learners',
+      emails,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    return result.learners;
+  }
+
+  async getActivity(emails: string[], from: Date, to: Date): Promise<DailyActiveLearners[]> {
+    const result = await callLearningAppFunction<{ days: DailyActiveLearners[] }>(this.config, 'organisation-analytics', {
+      action: 'activity',
+      emails,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    return result.days;
+  }
+
+  async getTopicMastery(emails: string[]): Promise<TopicMastery[]> {
+    const result = await callLearningAppFunction<{ topics: TopicMastery[] }>(this.config, 'organisation-analytics', {
+      action: 'mastery',
+      emails,
+    });
+    return result.topics;
+  }
+
+  async getQuizResult(email: string, target: { type: LtiTargetType; id: string }): Promise<QuizResult | null> {
+    const result = await callLearningAppFunction<{ result: QuizResult | null }>(this.config, 'organisation-analytics', {
+      action: 'quiz-result',
+      emails: [email],
+      targetType: target.type,
+      targetId: target.id,
+    });
+    return result.result;
+  }
+}
+
+/**
+ * The learning app configured by SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY;
+ * `feature` names what needs them in the error message
+ */
+export function createLearningDataSourceFromEnv(feature = 'analytics'): LearningDataSource {
+  return new SupabaseLearningDataSource(learningAppConfigFromEnv(feature));
+}
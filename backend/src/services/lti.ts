@@ -0,0 +1,893 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getDatabase } from '../database';
+import {
+  ltiLaunches,
+  ltiLoginStates,
+  ltiPlatforms,
+  ltiResourceLinks,
+  organisations,
+  userIdentities,
+  userRoles,
+  users,
+  LtiPlatform,
+  User,
+} from '../types/database';
+import { eq, and, gt, lt, ne, isNull, isNotNull } from 'drizzle-orm';
+import {
+  LtiDeepLinkItem,
+  LtiError,
+  LtiLaunchResult,
+  LtiPlatformRequest,
+  LtiScoreRequest,
+  LtiTargetType,
+  LtiToolConfiguration,
+  SsoError,
+} from '../types/auth';
+import { IdTokenClaims, randomToken, verifyIdToken } from './oidc';
+import { authService } from './auth';
+import { auditService } from './audit';
+import { billingService } from './billing';
+import { roleService } from './role';
+import { createLearningDataSourceFromEnv, LearningDataSource } from './learningData';
+import { errorMessage } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// LTI 1.3 tool: OIDC third-party login initiation, launch validation against
+// the platform JWKS, Deep Linking 2.0 and Assignment and Grade Services.
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEEP_LINK_TOKEN_TTL_SECONDS = 30 * 60; // 30 minutes
+const HTTP_TIMEOUT_MS = 10000;
+const LTI_VERSION = '1.3.0';
+
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim/';
+const DEEP_LINKING_CLAIM = 'https://purl.imsglobal.org/spec/lti-dl/claim/';
+const AGS_ENDPOINT_CLAIM = 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint';
+const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+const DEEP_LINK_TOKEN_AUDIENCE = 'edurank:lti-deep-link';
+
+// Platform roles that make a launching user a teacher. LMS administrators are
+// teachers too; organisation admin rights are only granted inside EduRank.
+const INSTRUCTOR_ROLES = [
+  'http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor',
+  'http://purl.imsglobal.org/vocab/lis/v2/membership#ContentDeveloper',
+  'http://purl.imsglobal.org/vocab/lis/v2/membership#Administrator',
+  'http://purl.imsglobal.org/vocab/lis/v2/membership/Instructor#TeachingAssistant',
+  'http://purl.imsglobal.org/vocab/lis/v2/institution/person#Instructor',
+  'http://purl.imsglobal.org/vocab/lis/v2/institution/person#Faculty',
+  'http://purl.imsglobal.org/vocab/lis/v2/institution/person#Administrator',
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface AgsEndpointClaim {
+  scope?: string[];
+  lineitems?: string;
+  lineitem?: string;
+}
+
+interface DeepLinkingSettingsClaim {
+  deep_link_return_url?: string;
+  accept_types?: string[];
+  data?: string;
+}
+
+interface DeepLinkContext {
+  userId: string;
+  platformId: string;
+  deploymentId: string;
+  returnUrl: string;
+  data?: string;
+}
+
+export class LtiService {
+  private toolKey?: { privateKey: KeyObject; kid: string };
+  private readonly accessTokens = new Map<string, { token: string; expiresAt: number }>();
+  private learningData?: LearningDataSource;
+
+  /**
+   * Replace where quiz results are read from (e.g. with a fake in tests)
+   */
+  setLearningDataSource(source: LearningDataSource): void {
+    this.learningData = source;
+  }
+
+  /**
+   * URLs to register with the LMS
+   */
+  getToolConfiguration(): LtiToolConfiguration {
+    const toolUrl = this.getToolUrl();
+    return {
+      loginUrl: `${toolUrl}/login`,
+      launchUrl: `${toolUrl}/launch`,
+      deepLinkUrl: `${toolUrl}/launch`,
+      jwksUrl: `${toolUrl}/jwks`,
+    };
+  }
+
+  /**
+   * Public key set platforms use to verify deep linking responses and
+   * client assertions
+   */
+  getJwks(): { keys: Array<Record<string, unknown>> } {
+    const { privateKey, kid } = this.getToolKey();
+    const jwk = createPublicKey(privateKey).export({ format: 'jwk' });
+    return { keys: [{ ...jwk, kid, alg: 'RS256', use: 'sig' }] };
+  }
+
+  /**
+   * LMS platforms registered by the organisation
+   */
+  async listPlatforms(organisationId: string): Promise<LtiPlatform[]> {
+    const db = getDatabase();
+    return db
+      .select()
+      .from(ltiPlatforms)
+      .where(eq(ltiPlatforms.organisationId, organisationId))
+      .orderBy(ltiPlatforms.createdAt);
+  }
+
+  /**
+   * Register an LMS platform
+   */
+  async createPlatform(organisationId: string, data: LtiPlatformRequest, actorId: string): Promise<LtiPlatform> {
+    const db = getDatabase();
+    const issuer = data.issuer.replace(/\/+$/, '');
+
+    const [existing] = await db
+      .select({ id: ltiPlatforms.id })
+      .from(ltiPlatforms)
+      .where(and(eq(ltiPlatforms.issuer, issuer), eq(ltiPlatforms.clientId, data.clientId)))
+      .limit(1);
+
+    if (existing) {
+      throw new LtiError('This platform and client ID are already registered', 'LTI_PLATFORM_EXISTS', 409);
+    }
+
+    const [platform] = await db
+      .insert(ltiPlatforms)
+      .values({
+        organisationId,
+        name: data.name,
+        issuer,
+        clientId: data.clientId,
+        deploymentIds: data.deploymentIds || [],
+        authLoginUrl: data.authLoginUrl,
+        authTokenUrl: data.authTokenUrl,
+        authTokenAudience: data.authTokenAudience,
+        jwksUrl: data.jwksUrl,
+        enabled: data.enabled ?? true,
+        createdBy: actorId,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'lti.platform_created',
+      'lti_platform',
+      platform.id,
+      { name: platform.name, issuer, clientId: platform.clientId }
+    );
+
+    return platform;
+  }
+
+  /**
+   * Update a registered platform
+   */
+  async updatePlatform(
+    organisationId: string,
+    platformId: string,
+    data: Partial<LtiPlatformRequest>,
+    actorId: string
+  ): Promise<LtiPlatform> {
+    const db = getDatabase();
+    const [platform] = await db
+      .update(ltiPlatforms)
+      .set({
+        ...data,
+        ...(data.issuer !== undefined ? { issuer: data.issuer.replace(/\/+$/, '') } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(ltiPlatforms.id, platformId), eq(ltiPlatforms.organisationId, organisationId)))
+      .returning();
+
+    if (!platform) {
+      throw new LtiError('Platform not found', 'LTI_PLATFORM_NOT_FOUND', 404);
+    }
+
+    // Credentials may have changed
+    this.clearAccessTokens(platform.id);
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'lti.platform_updated',
+      'lti_platform',
+      platform.id,
+      { fields: Object.keys(data) }
+    );
+
+    return platform;
+  }
+
+  /**
+   * Remove a platform together with its resource links and launches
+   */
+  async deletePlatform(organisationId: string, platformId: string, actorId: string): Promise<void> {
+    const db = getDatabase();
+    const removed = await db
+      .delete(ltiPlatforms)
+      .where(and(eq(ltiPlatforms.id, platformId), eq(ltiPlatforms.organisationId, organisationId)))
+      .returning({ name: ltiPlatforms.name, issuer: ltiPlatforms.issuer });
+
+    if (removed.length === 0) {
+      throw new LtiError('Platform not found', 'LTI_PLATFORM_NOT_FOUND', 404);
+    }
+
+    this.clearAccessTokens(platformId);
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'lti.platform_deleted',
+      'lti_platform',
+      platformId,
+      { name: removed[0].name, issuer: removed[0].issuer }
+    );
+  }
+
+  /**
+   * Third-party initiated login: returns the platform authorization URL
+   * the browser should be sent to
+   */
+  async startLogin(params: {
+    issuer: string;
+    loginHint: string;
+    ltiMessageHint?: string;
+    clientId?: string;
+    deploymentId?: string;
+  }): Promise<string> {
+    const db = getDatabase();
+    const conditions = [
+      eq(ltiPlatforms.issuer, params.issuer.replace(/\/+$/, '')),
+      eq(ltiPlatforms.enabled, true),
+      isNull(organisations.deletedAt),
+    ];
+    if (params.clientId) {
+      conditions.push(eq(ltiPlatforms.clientId, params.clientId));
+    }
+
+    const candidates = await db
+      .select({ platform: ltiPlatforms })
+      .from(ltiPlatforms)
+      .innerJoin(organisations, eq(organisations.id, ltiPlatforms.organisationId))
+      .where(and(...conditions))
+      .limit(2);
+
+    if (candidates.length === 0) {
+      throw new LtiError('This platform is not registered', 'LTI_UNKNOWN_PLATFORM', 404);
+    }
+    if (candidates.length > 1) {
+      throw new LtiError('The platform must send client_id with login requests', 'LTI_AMBIGUOUS_PLATFORM');
+    }
+
+    const { platform } = candidates[0];
+    if (params.deploymentId && !this.isKnownDeployment(platform, params.deploymentId)) {
+      throw new LtiError('This deployment is not registered', 'LTI_UNKNOWN_DEPLOYMENT', 403);
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+
+    // Opportunistically clear abandoned attempts
+    await db.delete(ltiLoginStates).where(lt(ltiLoginStates.expiresAt, new Date()));
+
+    await db.insert(ltiLoginStates).values({
+      state,
+      platformId: platform.id,
+      nonce,
+      expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+    });
+
+    const url = new URL(platform.authLoginUrl);
+    url.searchParams.set('scope', 'openid');
+    url.searchParams.set('response_type', 'id_token');
+    url.searchParams.set('response_mode', 'form_post');
+    url.searchParams.set('prompt', 'none');
+    url.searchParams.set('client_id', platform.clientId);
+    url.searchParams.set('redirect_uri', this.getToolConfiguration().launchUrl);
+    url.searchParams.set('login_hint', params.loginHint);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    if (params.ltiMessageHint) {
+      url.searchParams.set('lti_message_hint', params.ltiMessageHint);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Validate the launch JWT, map the LMS user to an organisation member and
+   * open a session
+   */
+  async handleLaunch(idToken: string, state: string, ipAddress?: string, userAgent?: string): Promise<LtiLaunchResult> {
+    const db = getDatabase();
+
+    // Each state value can be used once
+    const [login] = await db
+      .delete(ltiLoginStates)
+      .where(and(eq(ltiLoginStates.state, state), gt(ltiLoginStates.expiresAt, new Date())))
+      .returning();
+
+    if (!login) {
+      throw new LtiError('Launch request has expired, please try again', 'LTI_INVALID_STATE');
+    }
+
+    const [row] = await db
+      .select({ platform: ltiPlatforms })
+      .from(ltiPlatforms)
+      .innerJoin(organisations, eq(organisations.id, ltiPlatforms.organisationId))
+      .where(and(eq(ltiPlatforms.id, login.platformId), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    if (!row || !row.platform.enabled) {
+      throw new LtiError('This platform is not registered', 'LTI_UNKNOWN_PLATFORM', 404);
+    }
+
+    const { platform } = row;
+    const claims = await this.verifyLaunchToken(platform, idToken, login.nonce);
+
+    const messageType = claims[`${LTI_CLAIM}message_type`];
+    if (messageType !== 'LtiResourceLinkRequest' && messageType !== 'LtiDeepLinkingRequest') {
+      throw new LtiError('Unsupported LTI message type', 'LTI_UNSUPPORTED_MESSAGE');
+    }
+
+    const roles = Array.isArray(claims[`${LTI_CLAIM}roles`]) ? (claims[`${LTI_CLAIM}roles`] as unknown[]).map(String) : [];
+    const isInstructor = roles.some(role => INSTRUCTOR_ROLES.includes(role));
+
+    const user = await this.resolveUser(platform, claims);
+    await this.ensureMembership(platform.organisationId, user.id, isInstructor);
+
+    if (messageType === 'LtiDeepLinkingRequest') {
+      if (!isInstructor) {
+        throw new LtiError('Only instructors can add EduRank content', 'LTI_NOT_INSTRUCTOR', 403);
+      }
+
+      const settings = claims[`${DEEP_LINKING_CLAIM}deep_linking_settings`] as DeepLinkingSettingsClaim | undefined;
+      if (!settings?.deep_link_return_url) {
+        throw new LtiError('Deep linking request has no return URL', 'LTI_INVALID_LAUNCH', 401);
+      }
+
+      const deepLinkToken = this.signDeepLinkContext({
+        userId: user.id,
+        platformId: platform.id,
+        deploymentId: String(claims[`${LTI_CLAIM}deployment_id`]),
+        returnUrl: settings.deep_link_return_url,
+        data: settings.data,
+      });
+
+      const session = await authService.completeExternalLogin(user.id, 'lti', ipAddress, userAgent);
+      return { ...session, messageType, deepLinkToken };
+    }
+
+    const resourceLink = claims[`${LTI_CLAIM}resource_link`] as { id?: string; title?: string } | undefined;
+    if (!resourceLink?.id) {
+      throw new LtiError('Launch has no resource link', 'LTI_INVALID_LAUNCH', 401);
+    }
+
+    const context = claims[`${LTI_CLAIM}context`] as { id?: string; title?: string } | undefined;
+    const custom = (claims[`${LTI_CLAIM}custom`] || {}) as Record<string, unknown>;
+    const target = this.parseTarget(custom.target_type, custom.target_id);
+
+    // Deep linked placements carry their target in custom parameters
+    const linkValues = {
+      contextId: context?.id,
+      contextTitle: context?.title,
+      title: resourceLink.title,
+      ...(target ? { targetType: target.type, targetId: target.id } : {}),
+      updatedAt: new Date(),
+    };
+    const [link] = await db
+      .insert(ltiResourceLinks)
+      .values({ platformId: platform.id, resourceLinkId: resourceLink.id, ...linkValues })
+      .onConflictDoUpdate({
+        target: [ltiResourceLinks.platformId, ltiResourceLinks.resourceLinkId],
+        set: linkValues,
+      })
+      .returning();
+
+    const ags = claims[AGS_ENDPOINT_CLAIM] as AgsEndpointClaim | undefined;
+    const launchValues = {
+      ltiUserId: claims.sub,
+      lineItemUrl: ags?.lineitem ?? null,
+      agsScopes: ags?.scope || [],
+      lastLaunchedAt: new Date(),
+    };
+    const [launch] = await db
+      .insert(ltiLaunches)
+      .values({ resourceLinkId: link.id, userId: user.id, ...launchValues })
+      .onConflictDoUpdate({
+        target: [ltiLaunches.resourceLinkId, ltiLaunches.userId],
+        set: launchValues,
+      })
+      .returning({ id: ltiLaunches.id });
+
+    const session = await authService.completeExternalLogin(user.id, 'lti', ipAddress, userAgent);
+    return {
+      ...session,
+      messageType,
+      launchId: launch.id,
+      target: link.targetType && link.targetId ? { type: link.targetType, id: link.targetId } : undefined,
+    };
+  }
+
+  /**
+   * Build the signed deep linking response for the quizzes and todos the
+   * teacher picked. The frontend form-posts the JWT to the return URL.
+   */
+  async createDeepLinkResponse(
+    deepLinkToken: string,
+    userId: string,
+    items: LtiDeepLinkItem[]
+  ): Promise<{ returnUrl: string; jwt: string }> {
+    const context = this.verifyDeepLinkContext(deepLinkToken);
+    if (context.userId !== userId) {
+      throw new LtiError('Deep linking session belongs to another user', 'LTI_INVALID_DEEP_LINK', 403);
+    }
+
+    const db = getDatabase();
+    const [platform] = await db
+      .select()
+      .from(ltiPlatforms)
+      .where(and(eq(ltiPlatforms.id, context.platformId), eq(ltiPlatforms.enabled, true)))
+      .limit(1);
+
+    if (!platform) {
+      throw new LtiError('This platform is not registered', 'LTI_UNKNOWN_PLATFORM', 404);
+    }
+
+    const launchUrl = this.getToolConfiguration().launchUrl;
+    const contentItems = items.map(item => ({
+      type: 'ltiResourceLink',
+      title: item.title,
+      url: launchUrl,
+      custom: { target_type: item.type, target_id: item.id },
+      ...(item.scoreMaximum !== undefined
+        ? { lineItem: { label: item.title, scoreMaximum: item.scoreMaximum, resourceId: item.id } }
+        : {}),
+    }));
+
+    const { privateKey, kid } = this.getToolKey();
+    const responseJwt = jwt.sign(
+      {
+        nonce: randomToken(),
+        [`${LTI_CLAIM}message_type`]: 'LtiDeepLinkingResponse',
+        [`${LTI_CLAIM}version`]: LTI_VERSION,
+        [`${LTI_CLAIM}deployment_id`]: context.deploymentId,
+        [`${DEEP_LINKING_CLAIM}content_items`]: contentItems,
+        ...(context.data ? { [`${DEEP_LINKING_CLAIM}data`]: context.data } : {}),
+      },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer: platform.clientId,
+        audience: platform.issuer,
+        expiresIn: 5 * 60,
+      }
+    );
+
+    await auditService.log({
+      actorId: userId,
+      action: 'lti.deep_link_created',
+      resourceType: 'lti_platform',
+      resourceId: platform.id,
+      organisationId: platform.organisationId,
+      metadata: { items: items.map(item => ({ type: item.type, id: item.id })) },
+    });
+
+    return { returnUrl: context.returnUrl, jwt: responseJwt };
+  }
+
+  /**
+   * Post the launching user's latest result for the placement's quiz or todo
+   * to the LMS gradebook. The score comes from the learning app, not the
+   * client.
+   */
+  async submitScore(userId: string, data: LtiScoreRequest): Promise<void> {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ launch: ltiLaunches, link: ltiResourceLinks, platform: ltiPlatforms, email: users.email })
+      .from(ltiLaunches)
+      .innerJoin(ltiResourceLinks, eq(ltiResourceLinks.id, ltiLaunches.resourceLinkId))
+      .innerJoin(ltiPlatforms, eq(ltiPlatforms.id, ltiResourceLinks.platformId))
+      .innerJoin(users, eq(users.id, ltiLaunches.userId))
+      .where(and(eq(ltiLaunches.id, data.launchId), eq(ltiLaunches.userId, userId)))
+      .limit(1);
+
+    if (!row) {
+      throw new LtiError('Launch not found', 'LTI_LAUNCH_NOT_FOUND', 404);
+    }
+
+    const { launch, link, platform, email } = row;
+    if (!platform.enabled) {
+      throw new LtiError('This platform is not registered', 'LTI_UNKNOWN_PLATFORM', 404);
+    }
+    if (!launch.lineItemUrl || !launch.agsScopes.includes(AGS_SCORE_SCOPE)) {
+      throw new LtiError('The LMS does not accept grades for this placement', 'LTI_GRADES_UNAVAILABLE', 409);
+    }
+    if (!link.targetType || !link.targetId) {
+      throw new LtiError('This placement has no quiz or todo to grade', 'LTI_NO_RESULT', 409);
+    }
+
+    const result = await this.getLearningData().getQuizResult(email, { type: link.targetType, id: link.targetId });
+    if (!result || result.totalQuestions <= 0) {
+      throw new LtiError('There is no quiz result to send yet', 'LTI_NO_RESULT', 409);
+    }
+
+    const accessToken = await this.getAccessToken(platform, AGS_SCORE_SCOPE);
+
+    // Line item URLs may carry a query string (e.g. Moodle's type_id)
+    const scoresUrl = new URL(launch.lineItemUrl);
+    scoresUrl.pathname = `${scoresUrl.pathname.replace(/\/+$/, '')}/scores`;
+
+    await this.platformRequest(scoresUrl.toString(), {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+      },
+      body: JSON.stringify({
+        userId: launch.ltiUserId,
+        scoreGiven: result.correctAnswers,
+        scoreMaximum: result.totalQuestions,
+        comment: data.comment,
+        activityProgress: 'Completed',
+        gradingProgress: 'FullyGraded',
+        timestamp: new Date().toISOString(),
+      }),
+    });
+
+    await auditService.log({
+      actorId: userId,
+      action: 'lti.score_submitted',
+      resourceType: 'lti_resource_link',
+      resourceId: link.id,
+      organisationId: platform.organisationId,
+      metadata: {
+        targetType: link.targetType,
+        targetId: link.targetId,
+        scoreGiven: result.correctAnswers,
+        scoreMaximum: result.totalQuestions,
+      },
+    });
+  }
+
+  /**
+   * Check signature, issuer, audience, nonce and the required LTI claims
+   */
+  private async verifyLaunchToken(platform: LtiPlatform, idToken: string, nonce: string): Promise<IdTokenClaims> {
+    let claims: IdTokenClaims;
+    try {
+      claims = await verifyIdToken(idToken, {
+        metadata: {
+          issuer: platform.issuer,
+          authorization_endpoint: platform.authLoginUrl,
+          token_endpoint: platform.authTokenUrl,
+          jwks_uri: platform.jwksUrl,
+        },
+        clientId: platform.clientId,
+        nonce,
+      });
+    } catch (error) {
+      if (error instanceof SsoError) {
+        throw error.code === 'SSO_INVALID_ID_TOKEN'
+          ? new LtiError(error.message, 'LTI_INVALID_LAUNCH', 401)
+          : new LtiError('Could not fetch the platform signing keys', 'LTI_PLATFORM_UNAVAILABLE', 502);
+      }
+      throw error;
+    }
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== platform.clientId) {
+      throw new LtiError('Launch token azp does not match the client ID', 'LTI_INVALID_LAUNCH', 401);
+    }
+
+    if (claims[`${LTI_CLAIM}version`] !== LTI_VERSION) {
+      throw new LtiError('Unsupported LTI version', 'LTI_INVALID_LAUNCH', 401);
+    }
+
+    const deploymentId = claims[`${LTI_CLAIM}deployment_id`];
+    if (typeof deploymentId !== 'string' || !this.isKnownDeployment(platform, deploymentId)) {
+      throw new LtiError('This deployment is not registered', 'LTI_UNKNOWN_DEPLOYMENT', 403);
+    }
+
+    if (!claims.sub) {
+      throw new LtiError('Anonymous launches are not supported', 'LTI_ANONYMOUS_LAUNCH', 403);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Find the account linked to the LMS user, or link/provision one. Existing
+   * accounts are only linked by email when they already belong to the
+   * organisation, since platforms do not assert that addresses are verified.
+   */
+  private async resolveUser(platform: LtiPlatform, claims: IdTokenClaims): Promise<User> {
+    const db = getDatabase();
+    const organisationId = platform.organisationId;
+
+    const [linked] = await db
+      .select({ user: users, identityId: userIdentities.id })
+      .from(userIdentities)
+      .innerJoin(users, eq(users.id, userIdentities.userId))
+      .where(and(eq(userIdentities.issuer, platform.issuer), eq(userIdentities.subject, claims.sub)))
+      .limit(1);
+
+    if (linked) {
+      if (linked.user.deletedAt) {
+        throw new LtiError('This account has been deleted', 'LTI_ACCOUNT_DELETED', 403);
+      }
+      await this.assertNotInOtherOrganisation(linked.user.id, organisationId);
+
+      await db
+        .update(userIdentities)
+        .set({ lastLoginAt: new Date() })
+        .where(eq(userIdentities.id, linked.identityId));
+      return linked.user;
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : undefined;
+    const [existing] = email
+      ? await db.select().from(users).where(and(eq(users.email, email), isNull(users.deletedAt))).limit(1)
+      : [];
+
+    let user: User;
+    if (existing) {
+      const [membership] = await db
+        .select({ id: userRoles.id })
+        .from(userRoles)
+        .where(and(eq(userRoles.userId, existing.id), eq(userRoles.organisationId, organisationId)))
+        .limit(1);
+
+      if (!membership) {
+        throw new LtiError(
+          'An EduRank account with this email address already exists outside this organisation',
+          'LTI_EMAIL_IN_USE',
+          409
+        );
+      }
+      user = existing;
+    } else {
+      // New accounts join the organisation next, which takes a seat
+      await billingService.assertSeatsAvailable(organisationId);
+
+      // Platforms that withhold email get a placeholder address
+      const subjectHash = createHash('sha256').update(`${platform.issuer} ${claims.sub}`).digest('hex').slice(0, 32);
+
+      [user] = await db
+        .insert(users)
+        .values({
+          email: email || `lti-${subjectHash}@lti.invalid`,
+          passwordHash: '!',
+          firstName: typeof claims.given_name === 'string' ? claims.given_name : undefined,
+          lastName: typeof claims.family_name === 'string' ? claims.family_name : undefined,
+        })
+        .returning();
+
+      await auditService.log({
+        actorId: user.id,
+        action: 'user.provisioned',
+        resourceType: 'user',
+        resourceId: user.id,
+        organisationId,
+        metadata: { via: 'lti', issuer: platform.issuer, platformId: platform.id },
+      });
+    }
+
+    await db.insert(userIdentities).values({
+      userId: user.id,
+      organisationId,
+      issuer: platform.issuer,
+      subject: claims.sub,
+      email,
+      lastLoginAt: new Date(),
+    });
+
+    await auditService.log({
+      actorId: user.id,
+      action: 'user.identity_linked',
+      resourceType: 'user',
+      resourceId: user.id,
+      organisationId,
+      metadata: { issuer: platform.issuer, subject: claims.sub, provisioned: !existing, via: 'lti' },
+    });
+
+    return user;
+  }
+
+  /**
+   * New members get TEACHER or STUDENT from their LMS role; existing
+   * members keep the roles assigned in EduRank
+   */
+  private async ensureMembership(organisationId: string, userId: string, isInstructor: boolean): Promise<void> {
+    const db = getDatabase();
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.organisationId, organisationId)))
+      .limit(1);
+
+    if (!membership) {
+      await billingService.assertSeatsAvailable(organisationId);
+      await roleService.grantSystemRole(userId, organisationId, isInstructor ? 'TEACHER' : 'STUDENT', userId);
+    }
+  }
+
+  /**
+   * Users belong to a single organisation
+   */
+  private async assertNotInOtherOrganisation(userId: string, organisationId: string): Promise<void> {
+    const db = getDatabase();
+    const [other] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(
+        eq(userRoles.userId, userId),
+        isNotNull(userRoles.organisationId),
+        ne(userRoles.organisationId, organisationId)
+      ))
+      .limit(1);
+
+    if (other) {
+      throw new LtiError('This account belongs to another organisation', 'LTI_ORGANISATION_MISMATCH', 403);
+    }
+  }
+
+  /**
+   * OAuth 2 client credentials grant with a signed JWT client assertion,
+   * cached until shortly before expiry
+   */
+  private async getAccessToken(platform: LtiPlatform, scope: string): Promise<string> {
+    const cacheKey = `${platform.id} ${scope}`;
+    const cached = this.accessTokens.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const { privateKey, kid } = this.getToolKey();
+    const assertion = jwt.sign({ jti: randomToken() }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer: platform.clientId,
+      subject: platform.clientId,
+      audience: platform.authTokenAudience || platform.authTokenUrl,
+      expiresIn: 5 * 60,
+    });
+
+    const response = await this.platformRequest(platform.authTokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion,
+        scope,
+      }).toString(),
+    });
+
+    const { access_token: token, expires_in: expiresIn } = await response.json() as {
+      access_token?: string;
+      expires_in?: number;
+    };
+    if (!token) {
+      throw new LtiError('Platform did not return an access token', 'LTI_PLATFORM_ERROR', 502);
+    }
+
+    this.accessTokens.set(cacheKey, {
+      token,
+      expiresAt: Date.now() + Math.max((expiresIn || 3600) - 60, 0) * 1000,
+    });
+    return token;
+  }
+
+  private clearAccessTokens(platformId: string): void {
+    for (const key of this.accessTokens.keys()) {
+      if (key.startsWith(`${platformId} `)) {
+        this.accessTokens.delete(key);
+      }
+    }
+  }
+
+  private async platformRequest(url: string, init: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    } catch (error) {
+      throw new LtiError(`Could not reach the platform: ${errorMessage(error, 'unknown error')}`, 'LTI_PLATFORM_UNAVAILABLE', 502);
+    }
+
+    if (!response.ok) {
+      throw new LtiError(`Platform returned HTTP ${response.status}`, 'LTI_PLATFORM_ERROR', 502);
+    }
+    return response;
+  }
+
+  /**
+   * The deep linking settings travel to the frontend in a token signed with
+   * the tool key, so the response can only target the launching platform
+   */
+  private signDeepLinkContext(context: DeepLinkContext): string {
+    const { privateKey, kid } = this.getToolKey();
+    return jwt.sign({ ...context }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      audience: DEEP_LINK_TOKEN_AUDIENCE,
+      expiresIn: DEEP_LINK_TOKEN_TTL_SECONDS,
+    });
+  }
+
+  private verifyDeepLinkContext(token: string): DeepLinkContext {
+    const { privateKey } = this.getToolKey();
+    try {
+      return jwt.verify(token, createPublicKey(privateKey), {
+        algorithms: ['RS256'],
+        audience: DEEP_LINK_TOKEN_AUDIENCE,
+      }) as DeepLinkContext;
+    } catch (error) {
+      throw new LtiError('Deep linking session has expired, please relaunch', 'LTI_INVALID_DEEP_LINK', 401);
+    }
+  }
+
+  private parseTarget(type: unknown, id: unknown): { type: LtiTargetType; id: string } | undefined {
+    if ((type === 'quiz' || type === 'todo') && typeof id === 'string' && UUID_PATTERN.test(id)) {
+      return { type, id };
+    }
+    return undefined;
+  }
+
+  private isKnownDeployment(platform: LtiPlatform, deploymentId: string): boolean {
+    return platform.deploymentIds.length === 0 || platform.deploymentIds.includes(deploymentId);
+  }
+
+  /**
+   * Public base URL of the LTI routes
+   */
+  private getLearningData(): LearningDataSource {
+    if (!this.learningData) {
+      this.learningData = createLearningDataSourceFromEnv('LTI grades');
+    }
+    return this.learningData;
+  }
+
+  private getToolUrl(): string {
+    return (process.env.LTI_TOOL_URL || 'http://localhost:3001/api/lti').replace(/\/+$/, '');
+  }
+
+  /**
+   * Tool signing key from LTI_PRIVATE_KEY. Outside production a temporary
+   * key is generated, which platforms will stop trusting after a restart.
+   */
+  private getToolKey(): { privateKey: KeyObject; kid: string } {
+    if (!this.toolKey) {
+      const pem = process.env.LTI_PRIVATE_KEY;
+      let privateKey: KeyObject;
+
+      if (pem) {
+        privateKey = createPrivateKey(pem.replace(/\\n/g, '\n'));
+      } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('LTI_PRIVATE_KEY environment variable is required');
+      } else {
+        logger.warn('LTI_PRIVATE_KEY is not set; using a temporary key');
+        privateKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+      }
+
+      this.toolKey = { privateKey, kid: process.env.LTI_KEY_ID || 'edurank-lti-1' };
+    }
+    return this.toolKey;
+  }
+}
+
+export const ltiService = new LtiService();
@@ -0,0 +1,239 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import {
+  EmailContent,
+  InviteEmailParams,
+  PasswordResetEmailParams,
+  VerificationEmailParams,
+  inviteEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from './emailTemplates';
+import { logger } from '../utils/logger';
+
+export interface MailMessage extends EmailContent {
+  to: string;
+  from?: string;
+}
+
+/**
+ * A transport delivers a single message or throws
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Delivers mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes each message as a JSON file, for local development and tests
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+/**
+ * Logs that a message would have been sent, without its body, which may
+ * hold reset or verification links
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Mail not sent (console transport)', { to: message.to, subject: message.subject });
+  }
+}
+
+interface QueuedMail {
+  message: MailMessage;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT (smtp, file or console).
+ * Production must choose one, so mail is never silently dropped.
+ */
+export function createTransportFromEnv(): MailTransport {
+  if (!process.env.MAIL_TRANSPORT && !process.env.SMTP_HOST && process.env.NODE_ENV === 'production') {
+    throw new Error('SMTP_HOST or MAIL_TRANSPORT environment variable is required in production');
+  }
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (transport) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is required for the smtp mail transport');
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case 'file':
+      return new FileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+export class MailerService {
+  private readonly queue: QueuedMail[] = [];
+  private readonly from: string;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private processing = false;
+  private transport?: MailTransport;
+
+  constructor(transport?: MailTransport, options: { maxAttempts?: number; baseDelayMs?: number } = {}) {
+    this.transport = transport;
+    this.from = process.env.FROM_EMAIL || 'noreply@edurank.com';
+    this.maxAttempts = options.maxAttempts ?? parseInt(process.env.MAIL_MAX_ATTEMPTS || '5');
+    this.baseDelayMs = options.baseDelayMs ?? parseInt(process.env.MAIL_RETRY_BASE_DELAY_MS || '1000');
+  }
+
+  /**
+   * Replace the transport (e.g. with a fake in tests)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Build the transport from the environment if none was given, so a
+   * misconfiguration fails at startup rather than on the first email
+   */
+  ensureTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransportFromEnv();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Queue a message for delivery. Failed sends are retried with exponential
+   * backoff; callers never wait on the mail server.
+   */
+  queueMail(message: MailMessage): void {
+    this.queue.push({ message: { from: this.from, ...message }, attempts: 0, nextAttemptAt: Date.now() });
+    void this.processQueue();
+  }
+
+  /**
+   * Number of messages waiting to be delivered
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait until the queue is drained (used by tests and graceful shutdown)
+   */
+  async flush(): Promise<void> {
+    while (this.processing) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await this.processQueue();
+  }
+
+  sendInviteEmail(to: string, params: InviteEmailParams): void {
+    this.queueMail({ to, ...inviteEmail(params) });
+  }
+
+  sendVerificationEmail(to: string, params: VerificationEmailParams): void {
+    this.queueMail({ to, ...verificationEmail(params) });
+  }
+
+  sendPasswordResetEmail(to: string, params: PasswordResetEmailParams): void {
+    this.queueMail({ to, ...passwordResetEmail(params) });
+  }
+
+  /**
+   * Build an absolute link into the frontend app
+   */
+  appUrl(pathname: string, params: Record<string, string> = {}): string {
+    const url = new URL(pathname, process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3000');
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const transport = this.ensureTransport();
+
+      while (this.queue.length > 0) {
+        const now = Date.now();
+        const index = this.queue.findIndex(job => job.nextAttemptAt <= now);
+
+        if (index === -1) {
+          // Nothing due yet - sleep until the earliest retry
+          const wakeAt = Math.min(...this.queue.map(job => job.nextAttemptAt));
+          await new Promise(resolve => setTimeout(resolve, wakeAt - now));
+          continue;
+        }
+
+        const [job] = this.queue.splice(index, 1);
+        job.attempts++;
+
+        try {
+          await transport.send(job.message);
+        } catch (error) {
+          if (job.attempts >= this.maxAttempts) {
+            logger.error('Failed to send mail', { to: job.message.to, attempts: job.attempts, error });
+            continue;
+          }
+
+          // Exponential backoff with jitter
+          const delay = this.baseDelayMs * 2 ** (job.attempts - 1) * (0.5 + Math.random() / 2);
+          job.nextAttemptAt = Date.now() + delay;
+          this.queue.push(job);
+        }
+      }
+    } catch (error) {
+      // Transport misconfiguration - keep messages queued for the next attempt
+      logger.error('Mail transport unavailable', { error });
+    } finally {
+      this.processing = false;
+    }
+  }
+}
+
+export const mailerService = new MailerService();
@@ -0,0 +1,232 @@
+import { createHash, createPublicKey, randomBytes, KeyObject, JsonWebKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SsoError } from '../types/auth';
+import { errorMessage } from '../utils/errors';
+
+// OpenID Connect relying-party helpers: discovery, authorization-code flow
+// with PKCE (RFC 7636) and ID token validation against the provider's JWKS.
+
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const HTTP_TIMEOUT_MS = 10000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }>();
+
+/**
+ * Random URL-safe value for state, nonce and PKCE verifiers
+ */
+export function randomToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * PKCE verifier and its S256 challenge
+ */
+export function generatePkce(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomToken(32);
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ */
+export async function discover(issuer: string): Promise<OidcProviderMetadata> {
+  const normalized = issuer.replace(/\/+$/, '');
+  const cached = metadataCache.get(normalized);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson<OidcProviderMetadata>(`${normalized}/.well-known/openid-configuration`);
+
+  if (metadata.issuer?.replace(/\/+$/, '') !== normalized) {
+    throw new SsoError('Discovery document issuer does not match the configured issuer', 'SSO_DISCOVERY_FAILED', 502);
+  }
+
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new SsoError('Discovery document is missing required endpoints', 'SSO_DISCOVERY_FAILED', 502);
+  }
+
+  metadataCache.set(normalized, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * URL to send the browser to for the authorization-code flow
+ */
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    scopes: string[];
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+    loginHint?: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', params.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) {
+    url.searchParams.set('login_hint', params.loginHint);
+  }
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code (plus PKCE verifier) for tokens
+ */
+export async function exchangeCode(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    clientSecret?: string;
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+  }
+): Promise<OidcTokenResponse> {
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: params.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (params.clientSecret) {
+    form.set('client_secret', params.clientSecret);
+  }
+
+  const tokens = await fetchJson<OidcTokenResponse>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new SsoError('Identity provider did not return an ID token', 'SSO_TOKEN_EXCHANGE_FAILED', 502);
+  }
+
+  return tokens;
+}
+
+/**
+ * Verify an ID token's signature, issuer, audience, expiry and nonce
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: { metadata: OidcProviderMetadata; clientId: string; nonce: string }
+): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new SsoError('Malformed ID token', 'SSO_INVALID_ID_TOKEN', 401);
+  }
+
+  const key = await getSigningKey(options.metadata.jwks_uri, decoded.header.kid);
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: options.metadata.issuer,
+      audience: options.clientId,
+      clockTolerance: 60,
+    }) as IdTokenClaims;
+  } catch (error) {
+    throw new SsoError(`Invalid ID token: ${errorMessage(error, 'unknown error')}`, 'SSO_INVALID_ID_TOKEN', 401);
+  }
+
+  if (claims.nonce !== options.nonce) {
+    throw new SsoError('ID token nonce does not match', 'SSO_INVALID_ID_TOKEN', 401);
+  }
+
+  return claims;
+}
+
+/**
+ * Forget cached discovery documents and keys
+ */
+export function clearOidcCache(): void {
+  metadataCache.clear();
+  jwksCache.clear();
+}
+
+/**
+ * Find the JWKS key for a kid, refetching once in case the provider rotated keys
+ */
+async function getSigningKey(jwksUri: string, kid?: string): Promise<KeyObject> {
+  let cached = jwksCache.get(jwksUri);
+  const stale = !cached || Date.now() - cached.fetchedAt >= CACHE_TTL_MS;
+  const missing = cached && kid && !cached.keys.has(kid);
+
+  if (stale || missing) {
+    const { keys } = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string; use?: string }> }>(jwksUri);
+    const parsed = new Map<string, KeyObject>();
+    for (const jwk of keys || []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        parsed.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Skip key types Node cannot import
+      }
+    }
+    cached = { keys: parsed, fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+  }
+
+  const key = kid ? cached!.keys.get(kid) : cached!.keys.values().next().value;
+  if (!key) {
+    throw new SsoError('No matching signing key for ID token', 'SSO_INVALID_ID_TOKEN', 401);
+  }
+  return key;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  } catch (error) {
+    throw new SsoError(`Could not reach identity provider: ${errorMessage(error, 'unknown error')}`, 'SSO_PROVIDER_UNAVAILABLE', 502);
+  }
+
+  if (!response.ok) {
+    throw new SsoError(`Identity provider returned HTTP ${response.status}`, 'SSO_PROVIDER_ERROR', 502);
+  }
+
+  return response.json() as Promise<T>;
+}
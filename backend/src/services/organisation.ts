@@ -0,0 +1,278 @@
+import { getDatabase } from '../database';
+import {
+  apiKeys,
+  courses,
+  invites,
+  ltiPlatforms,
+  organisationJoinRequests,
+  organisationSsoConfigs,
+  organisations,
+  roles,
+  sessions,
+  twoFactorRecoveryCodes,
+  userIdentities,
+  userRoles,
+  userTwoFactor,
+  users,
+  webhookEndpoints,
+  Organisation,
+} from '../types/database';
+import { eq, and, inArray, isNull, isNotNull, lte, sql } from 'drizzle-orm';
+import { OrganisationError } from '../types/auth';
+import { auditService } from './audit';
+import { roleService } from './role';
+import { logger } from '../utils/logger';
+
+export class OrganisationService {
+  private readonly graceDays: number;
+
+  constructor() {
+    this.graceDays = parseInt(process.env.ORG_DELETION_GRACE_DAYS || '30', 10);
+  }
+
+  /**
+   * Whether the organisation exists and has not been deleted
+   */
+  async isActive(organisationId: string): Promise<boolean> {
+    const db = getDatabase();
+    const [org] = await db
+      .select({ id: organisations.id })
+      .from(organisations)
+      .where(and(eq(organisations.id, organisationId), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    return Boolean(org);
+  }
+
+  /**
+   * Soft-delete an organisation. It can be restored until the grace period ends.
+   */
+  async softDelete(
+    organisationId: string,
+    confirmSlug: string,
+    actorId: string,
+    reason?: string
+  ): Promise<Organisation> {
+    const org = await this.getOrganisation(organisationId);
+
+    if (org.deletedAt) {
+      throw new OrganisationError('Organisation is already deleted', 'ALREADY_DELETED', 409);
+    }
+
+    if (org.slug !== confirmSlug) {
+      throw new OrganisationError('Confirmation does not match the organisation slug', 'CONFIRMATION_MISMATCH');
+    }
+
+    const deletedAt = new Date();
+    const purgeAfter = new Date(deletedAt);
+    purgeAfter.setDate(purgeAfter.getDate() + this.graceDays);
+
+    const db = getDatabase();
+    const [deleted] = await db
+      .update(organisations)
+      .set({ deletedAt, deletedBy: actorId, purgeAfter, updatedAt: deletedAt })
+      .where(eq(organisations.id, organisationId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'organisation.deleted',
+      'organisation',
+      organisationId,
+      { reason, purgeAfter: purgeAfter.toISOString() }
+    );
+
+    return deleted;
+  }
+
+  /**
+   * Undo a soft delete during the grace period
+   */
+  async restore(organisationId: string, actorId: string): Promise<Organisation> {
+    const org = await this.getOrganisation(organisationId);
+
+    if (!org.deletedAt) {
+      throw new OrganisationError('Organisation is not deleted', 'NOT_DELETED', 409);
+    }
+
+    if (org.purgedAt || (org.purgeAfter && org.purgeAfter <= new Date())) {
+      throw new OrganisationError('The restore window for this organisation has ended', 'RESTORE_EXPIRED', 410);
+    }
+
+    const db = getDatabase();
+    const [restored] = await db
+      .update(organisations)
+      .set({ deletedAt: null, deletedBy: null, purgeAfter: null, updatedAt: new Date() })
+      .where(eq(organisations.id, organisationId))
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'organisation.restored',
+      'organisation',
+      organisationId,
+      { deletedAt: org.deletedAt.toISOString(), deletedBy: org.deletedBy }
+    );
+
+    return restored;
+  }
+
+  /**
+   * Purge every organisation whose grace period has ended. Run from the
+   * purge:organisations script (e.g. nightly cron).
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const db = getDatabase();
+    const expired = await db
+      .select({ id: organisations.id })
+      .from(organisations)
+      .where(and(
+        isNotNull(organisations.deletedAt),
+        isNull(organisations.purgedAt),
+        lte(organisations.purgeAfter, now)
+      ));
+
+    let purged = 0;
+    for (const { id } of expired) {
+      try {
+        await this.purge(id);
+        purged++;
+      } catch (error) {
+        // Keep going; the organisation is retried on the next run
+        logger.error('Failed to purge organisation', { organisationId: id, error });
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Remove an organisation's invites, roles and memberships. Members left
+   * without any organisation are signed out and anonymised. The organisation
+   * row itself is kept as a tombstone so audit logs still reference it.
+   */
+  private async purge(organisationId: string): Promise<void> {
+    const db = getDatabase();
+
+    const result = await db.transaction(async (tx) => {
+      const memberships = await tx
+        .selectDistinct({ userId: userRoles.userId })
+        .from(userRoles)
+        .where(eq(userRoles.organisationId, organisationId));
+      const memberIds = memberships.map(m => m.userId);
+
+      const deletedInvites = await tx
+        .delete(invites)
+        .where(eq(invites.organisationId, organisationId))
+        .returning({ id: invites.id });
+
+      await tx.delete(organisationJoinRequests).where(eq(organisationJoinRequests.organisationId, organisationId));
+      await tx.delete(organisationSsoConfigs).where(eq(organisationSsoConfigs.organisationId, organisationId));
+      await tx.delete(ltiPlatforms).where(eq(ltiPlatforms.organisationId, organisationId));
+      await tx.delete(webhookEndpoints).where(eq(webhookEndpoints.organisationId, organisationId));
+
+      // API keys go with their service accounts
+      const deletedKeys = await tx
+        .delete(apiKeys)
+        .where(eq(apiKeys.organisationId, organisationId))
+        .returning({ serviceAccountId: apiKeys.serviceAccountId });
+      if (deletedKeys.length > 0) {
+        await tx
+          .update(users)
+          .set({ deletedAt: new Date(), updatedAt: new Date() })
+          .where(and(inArray(users.id, deletedKeys.map(k => k.serviceAccountId)), isNull(users.deletedAt)));
+      }
+
+      await tx.delete(courses).where(eq(courses.organisationId, organisationId));
+      await tx.delete(userIdentities).where(eq(userIdentities.organisationId, organisationId));
+      await tx.delete(userRoles).where(eq(userRoles.organisationId, organisationId));
+
+      const deletedRoles = await tx
+        .delete(roles)
+        .where(eq(roles.organisationId, organisationId))
+        .returning({ id: roles.id });
+
+      // Members who still belong to another organisation keep their account
+      let orphanIds: string[] = [];
+      if (memberIds.length > 0) {
+        const stillMembers = await tx
+          .selectDistinct({ userId: userRoles.userId })
+          .from(userRoles)
+          .where(and(inArray(userRoles.userId, memberIds), isNotNull(userRoles.organisationId)));
+        const retained = new Set(stillMembers.map(m => m.userId));
+        orphanIds = memberIds.filter(id => !retained.has(id));
+      }
+
+      if (orphanIds.length > 0) {
+        await tx.delete(sessions).where(inArray(sessions.userId, orphanIds));
+        await tx.delete(userTwoFactor).where(inArray(userTwoFactor.userId, orphanIds));
+        await tx.delete(twoFactorRecoveryCodes).where(inArray(twoFactorRecoveryCodes.userId, orphanIds));
+        await tx
+          .update(users)
+          .set({
+            email: sql`'deleted-' || ${users.id} || '@deleted.invalid'`,
+            passwordHash: '!',
+            firstName: null,
+            lastName: null,
+            avatarUrl: null,
+            deletedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(and(inArray(users.id, orphanIds), isNull(users.deletedAt)));
+      }
+
+      await tx
+        .update(organisations)
+        .set({
+          name: 'Deleted organisation',
+          slug: `deleted-${organisationId}`,
+          verifiedDomain: null,
+          purgedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(organisations.id, organisationId));
+
+      return {
+        memberIds,
+        invitesDeleted: deletedInvites.length,
+        rolesDeleted: deletedRoles.length,
+        usersDeleted: orphanIds.length,
+      };
+    });
+
+    // Drop the organisation from any access tokens still in circulation
+    await roleService.invalidateTokens(result.memberIds);
+
+    await auditService.log({
+      action: 'organisation.purged',
+      resourceType: 'organisation',
+      resourceId: organisationId,
+      organisationId,
+      metadata: {
+        membersRemoved: result.memberIds.length,
+        invitesDeleted: result.invitesDeleted,
+        rolesDeleted: result.rolesDeleted,
+        usersDeleted: result.usersDeleted,
+      },
+    });
+  }
+
+  private async getOrganisation(organisationId: string): Promise<Organisation> {
+    const db = getDatabase();
+    const [org] = await db
+      .select()
+      .from(organisations)
+      .where(eq(organisations.id, organisationId))
+      .limit(1);
+
+    if (!org || org.purgedAt) {
+      throw new OrganisationError('Organisation not found', 'NOT_FOUND', 404);
+    }
+
+    return org;
+  }
+}
+
+export const organisationService = new OrganisationService();
@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { InvoiceLine, InvoiceStatus } from '../types/auth';
+import { logger } from '../utils/logger';
+
+export interface ProviderCustomerRequest {
+  organisationId: string;
+  name: string;
+  email?: string;
+}
+
+export interface ProviderInvoiceRequest {
+  customerId: string;
+  currency: string;
+  description: string;
+  lines: InvoiceLine[];
+  metadata: Record<string, string>;
+}
+
+export interface ProviderInvoice {
+  id: string;
+  number: string;
+  status: InvoiceStatus;
+  hostedUrl: string | null;
+}
+
+/**
+ * A payment provider keeps a customer per organisation, issues invoices and
+ * collects payment for them
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCustomer(customer: ProviderCustomerRequest): Promise<string>;
+  createInvoice(invoice: ProviderInvoiceRequest): Promise<ProviderInvoice>;
+}
+
+/**
+ * Keeps customers and invoices in memory, for local development and tests.
+ * Invoices are numbered in sequence and left open.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly customers = new Map<string, ProviderCustomerRequest>();
+  readonly invoices: Array<ProviderInvoice & ProviderInvoiceRequest> = [];
+
+  async createCustomer(customer: ProviderCustomerRequest): Promise<string> {
+    const id = `cus_fake_${randomUUID()}`;
+    this.customers.set(id, customer);
+    return id;
+  }
+
+  async createInvoice(invoice: ProviderInvoiceRequest): Promise<ProviderInvoice> {
+    if (!this.customers.has(invoice.customerId)) {
+      throw new Error(`Unknown customer: ${invoice.customerId}`);
+    }
+
+    const issued: ProviderInvoice = {
+      id: `in_fake_${randomUUID()}`,
+      number: `FAKE-${String(this.invoices.length + 1).padStart(6, '0')}`,
+      status: 'open',
+      hostedUrl: null,
+    };
+    this.invoices.push({ ...invoice, ...issued });
+    return issued;
+  }
+}
+
+/**
+ * Build the provider selected by PAYMENT_PROVIDER (only `fake` so far)
+ */
+export function createPaymentProviderFromEnv(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER || 'fake';
+
+  switch (provider) {
+    case 'fake':
+      if (process.env.NODE_ENV === 'production') {
+        logger.warn('PAYMENT_PROVIDER is fake; invoices are not sent to a real provider');
+      }
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+}
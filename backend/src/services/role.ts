@@ -0,0 +1,577 @@
+import { getDatabase } from '../database';
+import { permissions, rolePermissions, roles, userRoles, users, Role } from '../types/database';
+import { eq, and, or, gt, inArray, isNull, sql } from 'drizzle-orm';
+import {
+  CreateRoleRequest,
+  EffectivePermissions,
+  RoleError,
+  RoleWithPermissions,
+  UpdateRoleRequest,
+  UserRole,
+} from '../types/auth';
+import { auditService } from './audit';
+import { holdsPermission, UNGRANTABLE_PERMISSIONS } from '../utils/permissions';
+
+export class RoleService {
+  /**
+   * List roles usable in an organisation: global system roles plus its own roles
+   */
+  async listRoles(organisationId: string): Promise<RoleWithPermissions[]> {
+    const db = getDatabase();
+    const orgRoles = await db
+      .select()
+      .from(roles)
+      .where(and(
+        isNull(roles.deletedAt),
+        or(isNull(roles.organisationId), eq(roles.organisationId, organisationId))
+      ))
+      .orderBy(roles.name);
+
+    const grants = await this.getPermissionsByRole(orgRoles.map(r => r.id));
+    return orgRoles.map(role => this.toRoleWithPermissions(role, grants.get(role.id) || []));
+  }
+
+  /**
+   * List every permission that can be attached to a role
+   */
+  async listPermissions() {
+    const db = getDatabase();
+    return db
+      .select({
+        id: permissions.id,
+        name: permissions.name,
+        description: permissions.description,
+        resource: permissions.resource,
+        action: permissions.action,
+      })
+      .from(permissions)
+      .orderBy(permissions.resource, permissions.action);
+  }
+
+  /**
+   * Create an organisation-specific role with permissions the actor holds
+   */
+  async createRole(organisationId: string, data: CreateRoleRequest, actorId: string): Promise<RoleWithPermissions> {
+    const db = getDatabase();
+    await this.assertNameAvailable(organisationId, data.name);
+    if (data.permissionIds?.length) {
+      await this.assertGrantable(organisationId, actorId, await this.getPermissionNames(data.permissionIds));
+    }
+
+    const role = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(roles)
+        .values({
+          name: data.name,
+          description: data.description,
+          organisationId,
+          isSystemRole: false,
+        })
+        .returning();
+
+      if (data.permissionIds?.length) {
+        await tx
+          .insert(rolePermissions)
+          .values(data.permissionIds.map(permissionId => ({
+            roleId: created.id,
+            permissionId,
+            grantedBy: actorId,
+          })))
+          .onConflictDoNothing();
+      }
+
+      return created;
+    });
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'role.created',
+      'role',
+      role.id,
+      { name: data.name, permissionIds: data.permissionIds || [] }
+    );
+
+    return this.getRole(organisationId, role.id);
+  }
+
+  /**
+   * Get a single role visible to the organisation
+   */
+  async getRole(organisationId: string, roleId: string): Promise<RoleWithPermissions> {
+    const role = await this.findRole(organisationId, roleId);
+    const grants = await this.getPermissionsByRole([role.id]);
+    return this.toRoleWithPermissions(role, grants.get(role.id) || []);
+  }
+
+  /**
+   * Rename or describe an organisation role
+   */
+  async updateRole(
+    organisationId: string,
+    roleId: string,
+    data: UpdateRoleRequest,
+    actorId: string
+  ): Promise<RoleWithPermissions> {
+    const role = await this.findEditableRole(organisationId, roleId);
+    const db = getDatabase();
+
+    if (data.name && data.name !== role.name) {
+      await this.assertNameAvailable(organisationId, data.name);
+    }
+
+    await db
+      .update(roles)
+      .set({
+        name: data.name ?? role.name,
+        description: data.description ?? role.description,
+        updatedAt: new Date(),
+      })
+      .where(eq(roles.id, role.id));
+
+    await auditService.log({
+      actorId,
+      action: 'role.updated',
+      resourceType: 'role',
+      resourceId: role.id,
+      organisationId,
+      oldValues: { name: role.name, description: role.description },
+      newValues: { ...data },
+    });
+
+    return this.getRole(organisationId, role.id);
+  }
+
+  /**
+   * Soft-delete an organisation role; holders lose it immediately
+   */
+  async deleteRole(organisationId: string, roleId: string, actorId: string): Promise<void> {
+    const role = await this.findEditableRole(organisationId, roleId);
+    const db = getDatabase();
+    const holders = await this.getRoleHolders(role.id);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(roles)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(eq(roles.id, role.id));
+
+      await tx.delete(userRoles).where(eq(userRoles.roleId, role.id));
+    });
+
+    await this.invalidateTokens(holders);
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'role.deleted',
+      'role',
+      role.id,
+      { name: role.name, affectedUsers: holders.length }
+    );
+  }
+
+  /**
+   * Attach permissions the actor holds to an organisation role
+   */
+  async attachPermissions(
+    organisationId: string,
+    roleId: string,
+    permissionIds: string[],
+    actorId: string
+  ): Promise<RoleWithPermissions> {
+    const role = await this.findEditableRole(organisationId, roleId);
+    await this.assertGrantable(organisationId, actorId, await this.getPermissionNames(permissionIds));
+    const db = getDatabase();
+
+    await db
+      .insert(rolePermissions)
+      .values(permissionIds.map(permissionId => ({
+        roleId: role.id,
+        permissionId,
+        grantedBy: actorId,
+      })))
+      .onConflictDoNothing();
+
+    await this.invalidateTokens(await this.getRoleHolders(role.id));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'role.permissions_attached',
+      'role',
+      role.id,
+      { permissionIds }
+    );
+
+    return this.getRole(organisationId, role.id);
+  }
+
+  /**
+   * Detach a permission from an organisation role
+   */
+  async detachPermission(
+    organisationId: string,
+    roleId: string,
+    permissionId: string,
+    actorId: string
+  ): Promise<RoleWithPermissions> {
+    const role = await this.findEditableRole(organisationId, roleId);
+    const db = getDatabase();
+
+    await db
+      .delete(rolePermissions)
+      .where(and(eq(rolePermissions.roleId, role.id), eq(rolePermissions.permissionId, permissionId)));
+
+    await this.invalidateTokens(await this.getRoleHolders(role.id));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'role.permission_detached',
+      'role',
+      role.id,
+      { permissionId }
+    );
+
+    return this.getRole(organisationId, role.id);
+  }
+
+  /**
+   * Assign one of the organisation's own roles to an existing member,
+   * optionally until `expiresAt`. The actor must hold every permission the
+   * role carries.
+   */
+  async assignRole(
+    organisationId: string,
+    userId: string,
+    roleId: string,
+    actorId: string,
+    expiresAt?: Date
+  ): Promise<EffectivePermissions> {
+    const role = await this.findRole(organisationId, roleId);
+    if (role.organisationId !== organisationId) {
+      throw new RoleError('Only roles of this organisation can be assigned', 'SYSTEM_ROLE', 403);
+    }
+    await this.assertMember(organisationId, userId);
+    await this.assertGrantable(organisationId, actorId, (await this.getPermissionsByRole([role.id])).get(role.id) || []);
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new RoleError('Expiry must be in the future', 'INVALID_EXPIRY', 400);
+    }
+
+    const db = getDatabase();
+    await db
+      .insert(userRoles)
+      .values({
+        userId,
+        roleId: role.id,
+        organisationId,
+        assignedBy: actorId,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: [userRoles.userId, userRoles.roleId, userRoles.organisationId],
+        set: { assignedBy: actorId, assignedAt: new Date(), expiresAt: expiresAt ?? null },
+      });
+
+    await this.invalidateTokens([userId]);
+
+    await auditService.log({
+      actorId,
+      action: 'role.assigned',
+      resourceType: 'user',
+      resourceId: userId,
+      organisationId,
+      newValues: { roleId: role.id, roleName: role.name, expiresAt: expiresAt?.toISOString() },
+    });
+
+    return this.getEffectivePermissions(userId, organisationId);
+  }
+
+  /**
+   * Check that the actor may hand out a role, for example when adding a
+   * member with it. The role must be global or the organisation's own, and
+   * carry only permissions the actor holds and anyone may grant.
+   */
+  async assertRoleGrantable(organisationId: string, roleId: string, actorId: string): Promise<void> {
+    const role = await this.findRole(organisationId, roleId);
+    await this.assertGrantable(organisationId, actorId, (await this.getPermissionsByRole([role.id])).get(role.id) || []);
+  }
+
+  /**
+   * Remove a role from an organisation member. As with assigning, the actor
+   * must hold every permission the role carries.
+   */
+  async unassignRole(
+    organisationId: string,
+    userId: string,
+    roleId: string,
+    actorId: string
+  ): Promise<EffectivePermissions> {
+    await this.assertRoleGrantable(organisationId, roleId, actorId);
+
+    const db = getDatabase();
+    const removed = await db
+      .delete(userRoles)
+      .where(and(
+        eq(userRoles.userId, userId),
+        eq(userRoles.roleId, roleId),
+        eq(userRoles.organisationId, organisationId)
+      ))
+      .returning({ id: userRoles.id });
+
+    if (removed.length === 0) {
+      throw new RoleError('User does not have this role', 'ROLE_NOT_ASSIGNED', 404);
+    }
+
+    await this.invalidateTokens([userId]);
+
+    await auditService.log({
+      actorId,
+      action: 'role.unassigned',
+      resourceType: 'user',
+      resourceId: userId,
+      organisationId,
+      oldValues: { roleId },
+    });
+
+    return this.getEffectivePermissions(userId, organisationId);
+  }
+
+  /**
+   * Grant a global system role (e.g. ADMIN) within an organisation
+   */
+  async grantSystemRole(userId: string, organisationId: string, roleName: string, assignedBy: string): Promise<void> {
+    const db = getDatabase();
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(and(eq(roles.name, roleName), isNull(roles.organisationId), isNull(roles.deletedAt)))
+      .limit(1);
+
+    if (!role) {
+      throw new RoleError(`System role ${roleName} not found`, 'ROLE_NOT_FOUND', 404);
+    }
+
+    await db
+      .insert(userRoles)
+      .values({ userId, roleId: role.id, organisationId, assignedBy })
+      .onConflictDoNothing();
+
+    await this.invalidateTokens([userId]);
+  }
+
+  /**
+   * Resolve the active roles and 'resource.action' permissions of a user.
+   * Without an organisation, the organisation of the user's earliest
+   * org-scoped assignment is used.
+   */
+  async getEffectivePermissions(userId: string, organisationId?: string): Promise<EffectivePermissions> {
+    const db = getDatabase();
+    const assignments = await db
+      .select({
+        id: roles.id,
+        name: roles.name,
+        organisationId: userRoles.organisationId,
+      })
+      .from(userRoles)
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .where(and(
+        eq(userRoles.userId, userId),
+        isNull(roles.deletedAt),
+        or(isNull(userRoles.expiresAt), gt(userRoles.expiresAt, new Date()))
+      ))
+      .orderBy(userRoles.assignedAt);
+
+    const orgId = organisationId ?? assignments.find(a => a.organisationId)?.organisationId ?? undefined;
+    const activeRoles: UserRole[] = assignments
+      .filter(a => !a.organisationId || a.organisationId === orgId)
+      .map(a => ({ id: a.id, name: a.name, organisationId: a.organisationId || undefined }));
+
+    const grants = await this.getPermissionsByRole(activeRoles.map(r => r.id));
+    const permissionSet = new Set<string>();
+    for (const rolePerms of grants.values()) {
+      rolePerms.forEach(p => permissionSet.add(p));
+    }
+
+    return {
+      userId,
+      organisationId: orgId,
+      roles: activeRoles,
+      permissions: [...permissionSet].sort(),
+    };
+  }
+
+  /**
+   * Bump token versions so existing access tokens are rejected
+   */
+  async invalidateTokens(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const db = getDatabase();
+    await db
+      .update(users)
+      .set({ tokenVersion: sql`${users.tokenVersion} + 1` })
+      .where(inArray(users.id, userIds));
+  }
+
+  /**
+   * Map role ids to their 'resource.action' permission strings
+   */
+  private async getPermissionsByRole(roleIds: string[]): Promise<Map<string, string[]>> {
+    const result = new Map<string, string[]>();
+    if (roleIds.length === 0) return result;
+
+    const db = getDatabase();
+    const rows = await db
+      .select({
+        roleId: rolePermissions.roleId,
+        resource: permissions.resource,
+        action: permissions.action,
+      })
+      .from(rolePermissions)
+      .innerJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+      .where(inArray(rolePermissions.roleId, roleIds));
+
+    for (const row of rows) {
+      const list = result.get(row.roleId) || [];
+      list.push(`${row.resource}.${row.action}`);
+      result.set(row.roleId, list);
+    }
+
+    return result;
+  }
+
+  private toRoleWithPermissions(role: Role, rolePerms: string[]): RoleWithPermissions {
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description || undefined,
+      isSystemRole: role.isSystemRole ?? false,
+      organisationId: role.organisationId || undefined,
+      permissions: [...rolePerms].sort(),
+    };
+  }
+
+  /**
+   * Find a role that is global or belongs to the organisation
+   */
+  private async findRole(organisationId: string, roleId: string): Promise<Role> {
+    const db = getDatabase();
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(and(
+        eq(roles.id, roleId),
+        isNull(roles.deletedAt),
+        or(isNull(roles.organisationId), eq(roles.organisationId, organisationId))
+      ))
+      .limit(1);
+
+    if (!role) {
+      throw new RoleError('Role not found', 'ROLE_NOT_FOUND', 404);
+    }
+
+    return role;
+  }
+
+  /**
+   * Find a role the organisation may change (system roles are shared by everyone)
+   */
+  private async findEditableRole(organisationId: string, roleId: string): Promise<Role> {
+    const role = await this.findRole(organisationId, roleId);
+
+    if (role.isSystemRole || role.organisationId !== organisationId) {
+      throw new RoleError('System roles cannot be modified', 'SYSTEM_ROLE', 403);
+    }
+
+    return role;
+  }
+
+  private async assertNameAvailable(organisationId: string, name: string): Promise<void> {
+    const db = getDatabase();
+    const [existing] = await db
+      .select({ id: roles.id })
+      .from(roles)
+      .where(and(
+        eq(roles.name, name),
+        isNull(roles.deletedAt),
+        or(isNull(roles.organisationId), eq(roles.organisationId, organisationId))
+      ))
+      .limit(1);
+
+    if (existing) {
+      throw new RoleError('A role with this name already exists', 'ROLE_EXISTS', 409);
+    }
+  }
+
+  /**
+   * 'resource.action' names of the permissions, which must all exist
+   */
+  private async getPermissionNames(permissionIds: string[]): Promise<string[]> {
+    const db = getDatabase();
+    const found = await db
+      .select({ resource: permissions.resource, action: permissions.action })
+      .from(permissions)
+      .where(inArray(permissions.id, permissionIds));
+
+    if (found.length !== new Set(permissionIds).size) {
+      throw new RoleError('One or more permissions do not exist', 'PERMISSION_NOT_FOUND', 400);
+    }
+    return found.map(p => `${p.resource}.${p.action}`);
+  }
+
+  /**
+   * Roles can only pass on permissions the actor holds in the organisation,
+   * so no one can give themselves or others more access than they have
+   */
+  private async assertGrantable(organisationId: string, actorId: string, permissionNames: string[]): Promise<void> {
+    const forbidden = permissionNames.filter(name => UNGRANTABLE_PERMISSIONS.includes(name));
+    if (forbidden.length > 0) {
+      throw new RoleError(`These permissions cannot be granted: ${forbidden.join(', ')}`, 'PERMISSION_NOT_GRANTABLE', 403);
+    }
+
+    const { permissions: held } = await this.getEffectivePermissions(actorId, organisationId);
+    const notHeld = permissionNames.filter(name => !holdsPermission(held, name));
+    if (notHeld.length > 0) {
+      throw new RoleError(
+        `You cannot grant permissions you do not hold: ${notHeld.join(', ')}`,
+        'PERMISSION_NOT_GRANTABLE',
+        403
+      );
+    }
+  }
+
+  /**
+   * Only users who already belong to the organisation can be given roles in it
+   */
+  private async assertMember(organisationId: string, userId: string): Promise<void> {
+    const db = getDatabase();
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .innerJoin(users, eq(users.id, userRoles.userId))
+      .where(and(
+        eq(userRoles.userId, userId),
+        eq(userRoles.organisationId, organisationId),
+        isNull(users.deletedAt)
+      ))
+      .limit(1);
+
+    if (!membership) {
+      throw new RoleError('User is not a member of this organisation', 'NOT_A_MEMBER', 404);
+    }
+  }
+
+  private async getRoleHolders(roleId: string): Promise<string[]> {
+    const db = getDatabase();
+    const rows = await db
+      .selectDistinct({ userId: userRoles.userId })
+      .from(userRoles)
+      .where(eq(userRoles.roleId, roleId));
+    return rows.map(r => r.userId);
+  }
+}
+
+export const roleService = new RoleService();
@@ -0,0 +1,582 @@
+import { getDatabase } from '../database';
+import {
+  classEnrolments,
+  classSections,
+  courses,
+  invites,
+  roles,
+  userRoles,
+  users,
+  Invite,
+} from '../types/database';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import {
+  EnrolmentRole,
+  OrganisationError,
+  PendingEnrolment,
+  RoleError,
+  RoleWithPermissions,
+  RosterImportResult,
+  RosterRowAction,
+  RosterRowResult,
+} from '../types/auth';
+import { parseCsv, toCsvRow } from '../utils/csv';
+import { errorMessage } from '../utils/errors';
+import { auditService } from './audit';
+import { billingService } from './billing';
+import { inviteService } from './invite';
+import { roleService } from './role';
+import { logger } from '../utils/logger';
+
+const MAX_ROSTER_ROWS = 5000;
+const DEFAULT_ROLE = 'STUDENT';
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+// Accepted header spellings for each roster column
+const COLUMN_ALIASES: Record<string, RosterColumn> = {
+  'email': 'email',
+  'email address': 'email',
+  'name': 'name',
+  'full name': 'name',
+  'first name': 'firstName',
+  'first_name': 'firstName',
+  'firstname': 'firstName',
+  'last name': 'lastName',
+  'last_name': 'lastName',
+  'lastname': 'lastName',
+  'role': 'role',
+  'roles': 'role',
+  'class': 'class',
+  'classes': 'class',
+  'section': 'class',
+};
+
+const EXPORT_HEADER = ['email', 'first_name', 'last_name', 'role', 'class', 'status'];
+
+type RosterColumn = 'email' | 'name' | 'firstName' | 'lastName' | 'role' | 'class';
+
+interface RosterActor {
+  id: string;
+  name?: string;
+}
+
+interface SectionRef {
+  id: string;
+  label: string;
+  courseNameLabel: string;
+}
+
+interface PlannedRow extends RosterRowResult {
+  firstName?: string;
+  lastName?: string;
+  roleIds: string[];
+  enrolments: PendingEnrolment[];
+  userId?: string;
+  newRoleIds: string[];
+  newEnrolments: PendingEnrolment[];
+  pendingInvite?: Invite;
+}
+
+export class RosterService {
+  /**
+   * Import a roster CSV (email, name or first/last name, role, class).
+   * Members gain missing roles, classes and names; everyone else is invited.
+   * Re-importing the same file changes nothing. With `dryRun` only the
+   * per-row outcome is reported.
+   */
+  async importRoster(
+    organisationId: string,
+    csvText: string,
+    options: { dryRun: boolean },
+    actor: RosterActor
+  ): Promise<RosterImportResult> {
+    const records = this.parseRecords(csvText);
+    const columns = this.mapHeader(records[0]);
+    const plan = await this.planRows(organisationId, records.slice(1), columns, actor.id);
+
+    // New invites take a seat each; rows past the plan's free seats fail
+    const { available } = await billingService.getSeatUsage(organisationId);
+    let seatsLeft = available;
+    for (const row of plan) {
+      if (row.action !== 'invite') continue;
+      if (seatsLeft > 0) {
+        seatsLeft--;
+      } else {
+        row.action = 'error';
+        row.errors = ['No seats left on the plan'];
+      }
+    }
+
+    const counts = {
+      total: plan.length,
+      invited: plan.filter(row => row.action === 'invite').length,
+      updated: plan.filter(row => row.action === 'update').length,
+      unchanged: plan.filter(row => row.action === 'unchanged').length,
+      failed: plan.filter(row => row.action === 'error').length,
+    };
+
+    if (!options.dryRun) {
+      await this.applyPlan(organisationId, plan, actor);
+
+      await auditService.logOrganisationAction(
+        actor.id,
+        organisationId,
+        'roster.imported',
+        'organisation',
+        organisationId,
+        counts
+      );
+    }
+
+    return {
+      dryRun: options.dryRun,
+      counts,
+      rows: plan.map(({ row, email, action, errors }) => ({ row, email, action, ...(errors ? { errors } : {}) })),
+    };
+  }
+
+  /**
+   * Current members and pending invites as CSV, in the import format
+   */
+  async exportRoster(organisationId: string): Promise<string> {
+    const db = getDatabase();
+    const sections = await this.getSections(organisationId);
+    const sectionLabels = new Map(sections.map(section => [section.id, section.label]));
+
+    const memberships = await db
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        roleName: roles.name,
+      })
+      .from(userRoles)
+      .innerJoin(users, eq(users.id, userRoles.userId))
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .where(and(eq(userRoles.organisationId, organisationId), isNull(users.deletedAt)))
+      .orderBy(users.email, roles.name);
+
+    const enrolments = sections.length === 0 ? [] : await db
+      .select({ userId: classEnrolments.userId, sectionId: classEnrolments.sectionId })
+      .from(classEnrolments)
+      .where(inArray(classEnrolments.sectionId, sections.map(section => section.id)));
+
+    const classesByUser = new Map<string, string[]>();
+    for (const enrolment of enrolments) {
+      const labels = classesByUser.get(enrolment.userId) || [];
+      labels.push(sectionLabels.get(enrolment.sectionId)!);
+      classesByUser.set(enrolment.userId, labels);
+    }
+
+    const members = new Map<string, { email: string; firstName: string | null; lastName: string | null; roles: string[] }>();
+    for (const membership of memberships) {
+      const member = members.get(membership.userId)
+        || { email: membership.email, firstName: membership.firstName, lastName: membership.lastName, roles: [] };
+      member.roles.push(membership.roleName);
+      members.set(membership.userId, member);
+    }
+
+    let csv = toCsvRow(EXPORT_HEADER);
+    for (const [userId, member] of members) {
+      csv += toCsvRow([
+        member.email,
+        member.firstName,
+        member.lastName,
+        member.roles.join(';'),
+        (classesByUser.get(userId) || []).sort().join(';'),
+        'member',
+      ]);
+    }
+
+    const pendingInvites = await db
+      .select({ invite: invites, roleName: roles.name })
+      .from(invites)
+      .innerJoin(roles, eq(roles.id, invites.roleId))
+      .where(and(eq(invites.organisationId, organisationId), eq(invites.status, 'pending')))
+      .orderBy(invites.email);
+
+    for (const { invite, roleName } of pendingInvites) {
+      if (invite.expiresAt <= new Date()) continue;
+
+      csv += toCsvRow([
+        invite.email,
+        invite.firstName,
+        invite.lastName,
+        roleName,
+        invite.sectionEnrolments
+          .map(e => sectionLabels.get(e.sectionId))
+          .filter(Boolean)
+          .sort()
+          .join(';'),
+        'invited',
+      ]);
+    }
+
+    return csv;
+  }
+
+  /**
+   * Parse the upload, requiring a header and at least one row
+   */
+  private parseRecords(csvText: string): string[][] {
+    let records: string[][];
+    try {
+      records = parseCsv(csvText);
+    } catch (error) {
+      throw new OrganisationError(`Invalid CSV: ${errorMessage(error, 'could not be parsed')}`, 'INVALID_CSV', 400);
+    }
+
+    if (records.length < 2) {
+      throw new OrganisationError('CSV must have a header row and at least one roster row', 'INVALID_CSV', 400);
+    }
+    if (records.length - 1 > MAX_ROSTER_ROWS) {
+      throw new OrganisationError(`A roster can have at most ${MAX_ROSTER_ROWS} rows`, 'ROSTER_TOO_LARGE', 400);
+    }
+
+    return records;
+  }
+
+  /**
+   * Map roster columns to their index in the header row
+   */
+  private mapHeader(header: string[]): Partial<Record<RosterColumn, number>> {
+    const columns: Partial<Record<RosterColumn, number>> = {};
+    header.forEach((name, index) => {
+      const column = COLUMN_ALIASES[name.trim().toLowerCase()];
+      if (column && columns[column] === undefined) {
+        columns[column] = index;
+      }
+    });
+
+    if (columns.email === undefined) {
+      throw new OrganisationError('CSV must have an email column', 'INVALID_CSV', 400);
+    }
+
+    return columns;
+  }
+
+  /**
+   * Validate each row and work out what importing it would change (reads only)
+   */
+  private async planRows(
+    organisationId: string,
+    records: string[][],
+    columns: Partial<Record<RosterColumn, number>>,
+    actorId: string
+  ): Promise<PlannedRow[]> {
+    const db = getDatabase();
+    const cell = (record: string[], column: RosterColumn) =>
+      columns[column] === undefined ? '' : (record[columns[column]!] || '').trim();
+
+    const orgRoles = await roleService.listRoles(organisationId);
+    const rolesByName = new Map(orgRoles.map(role => [role.name.toLowerCase(), role]));
+    const rowRoleNames = (record: string[]) => {
+      const names = this.splitList(cell(record, 'role'));
+      return names.length > 0 ? names : [DEFAULT_ROLE];
+    };
+
+    // Importing can only hand out roles the importer could assign by hand
+    const ungrantableRoleIds = new Set<string>();
+    for (const name of new Set(records.flatMap(record => rowRoleNames(record).map(n => n.toLowerCase())))) {
+      const role = rolesByName.get(name);
+      if (!role) continue;
+      try {
+        await roleService.assertRoleGrantable(organisationId, role.id, actorId);
+      } catch (error) {
+        if (!(error instanceof RoleError)) throw error;
+        ungrantableRoleIds.add(role.id);
+      }
+    }
+    const sectionsByKey = this.indexSections(await this.getSections(organisationId));
+
+    const emails = [...new Set(records.map(record => cell(record, 'email').toLowerCase()).filter(Boolean))];
+    const existingUsers = emails.length === 0 ? [] : await db
+      .select()
+      .from(users)
+      .where(inArray(users.email, emails));
+    const usersByEmail = new Map(existingUsers.map(user => [user.email.toLowerCase(), user]));
+
+    const userIds = existingUsers.map(user => user.id);
+    const memberships = userIds.length === 0 ? [] : await db
+      .select({ userId: userRoles.userId, roleId: userRoles.roleId, organisationId: userRoles.organisationId })
+      .from(userRoles)
+      .where(inArray(userRoles.userId, userIds));
+    const enrolments = userIds.length === 0 || sectionsByKey.size === 0 ? [] : await db
+      .select({ userId: classEnrolments.userId, sectionId: classEnrolments.sectionId })
+      .from(classEnrolments)
+      .where(inArray(classEnrolments.userId, userIds));
+
+    const pendingInvites = emails.length === 0 ? [] : await db
+      .select()
+      .from(invites)
+      .where(and(
+        eq(invites.organisationId, organisationId),
+        eq(invites.status, 'pending'),
+        inArray(invites.email, emails)
+      ));
+    const now = new Date();
+    const invitesByEmail = new Map(
+      pendingInvites.filter(invite => invite.expiresAt > now).map(invite => [invite.email.toLowerCase(), invite])
+    );
+
+    const seen = new Set<string>();
+
+    return records.map((record, index): PlannedRow => {
+      const email = cell(record, 'email').toLowerCase();
+      const errors: string[] = [];
+
+      if (!EMAIL_PATTERN.test(email)) {
+        errors.push('Invalid email address');
+      } else if (seen.has(email)) {
+        errors.push('Email appears more than once in the file');
+      }
+      seen.add(email);
+
+      let firstName = cell(record, 'firstName') || undefined;
+      let lastName = cell(record, 'lastName') || undefined;
+      const fullName = cell(record, 'name');
+      if (fullName && !firstName && !lastName) {
+        const [first, ...rest] = fullName.split(/\s+/);
+        firstName = first;
+        lastName = rest.join(' ') || undefined;
+      }
+      if ((firstName && firstName.length > 100) || (lastName && lastName.length > 100)) {
+        errors.push('Names can be at most 100 characters');
+      }
+
+      const rowRoles: RoleWithPermissions[] = [];
+      for (const name of rowRoleNames(record)) {
+        const role = rolesByName.get(name.toLowerCase());
+        if (!role) {
+          errors.push(`Unknown role "${name}"`);
+        } else if (ungrantableRoleIds.has(role.id)) {
+          errors.push(`You cannot assign the role "${role.name}"`);
+        } else {
+          rowRoles.push(role);
+        }
+      }
+
+      // Holders of a role that can edit courses join their classes as teachers
+      const enrolmentRole: EnrolmentRole = rowRoles.some(role => role.permissions.includes('course.edit'))
+        ? 'teacher'
+        : 'student';
+      const rowEnrolments: PendingEnrolment[] = [];
+      for (const name of this.splitList(cell(record, 'class'))) {
+        const section = sectionsByKey.get(name.toLowerCase());
+        if (section === undefined) {
+          errors.push(`Unknown class "${name}"`);
+        } else if (section === null) {
+          errors.push(`Class "${name}" matches more than one section; use the section id`);
+        } else if (!rowEnrolments.some(e => e.sectionId === section.id)) {
+          rowEnrolments.push({ sectionId: section.id, role: enrolmentRole });
+        }
+      }
+
+      const planned: PlannedRow = {
+        row: index + 2,
+        email,
+        action: 'error',
+        firstName,
+        lastName,
+        roleIds: rowRoles.map(role => role.id),
+        enrolments: rowEnrolments,
+        newRoleIds: [],
+        newEnrolments: [],
+      };
+
+      const user = usersByEmail.get(email);
+      if (user?.deletedAt) {
+        errors.push('This account has been deleted');
+      }
+
+      const userMemberships = user ? memberships.filter(m => m.userId === user.id) : [];
+      if (userMemberships.some(m => m.organisationId && m.organisationId !== organisationId)) {
+        errors.push('User belongs to another organisation');
+      }
+
+      if (errors.length > 0) {
+        return { ...planned, errors };
+      }
+
+      const orgRoleIds = userMemberships.filter(m => m.organisationId === organisationId).map(m => m.roleId);
+      if (user && orgRoleIds.length > 0) {
+        const enrolledSectionIds = enrolments.filter(e => e.userId === user.id).map(e => e.sectionId);
+        planned.userId = user.id;
+        planned.newRoleIds = planned.roleIds.filter(id => !orgRoleIds.includes(id));
+        planned.newEnrolments = rowEnrolments.filter(e => !enrolledSectionIds.includes(e.sectionId));
+        planned.firstName = user.firstName ? undefined : firstName;
+        planned.lastName = user.lastName ? undefined : lastName;
+
+        const changed = planned.newRoleIds.length > 0
+          || planned.newEnrolments.length > 0
+          || Boolean(planned.firstName || planned.lastName);
+        return { ...planned, action: changed ? 'update' : 'unchanged' };
+      }
+
+      // Not a member yet: invited with the first listed role
+      const pendingInvite = invitesByEmail.get(email);
+      if (!pendingInvite) {
+        return { ...planned, action: 'invite' };
+      }
+
+      const sameEnrolments = pendingInvite.sectionEnrolments.length === rowEnrolments.length
+        && rowEnrolments.every(e => pendingInvite.sectionEnrolments.some(
+          p => p.sectionId === e.sectionId && p.role === e.role
+        ));
+      const action: RosterRowAction = pendingInvite.roleId === planned.roleIds[0]
+        && sameEnrolments
+        && (firstName === undefined || firstName === pendingInvite.firstName)
+        && (lastName === undefined || lastName === pendingInvite.lastName)
+        ? 'unchanged'
+        : 'update';
+
+      return { ...planned, action, pendingInvite };
+    });
+  }
+
+  /**
+   * Write the planned changes in one transaction, then send invite emails
+   */
+  private async applyPlan(organisationId: string, plan: PlannedRow[], actor: RosterActor): Promise<void> {
+    const db = getDatabase();
+
+    const created = await db.transaction(async (tx) => {
+      const issued: { invite: Invite; token: string }[] = [];
+
+      for (const row of plan) {
+        if (row.action !== 'invite' && row.action !== 'update') continue;
+
+        if (row.userId) {
+          if (row.newRoleIds.length > 0) {
+            await tx
+              .insert(userRoles)
+              .values(row.newRoleIds.map(roleId => ({
+                userId: row.userId!,
+                roleId,
+                organisationId,
+                assignedBy: actor.id,
+              })))
+              .onConflictDoNothing();
+          }
+
+          if (row.newEnrolments.length > 0) {
+            await tx
+              .insert(classEnrolments)
+              .values(row.newEnrolments.map(e => ({
+                sectionId: e.sectionId,
+                userId: row.userId!,
+                role: e.role,
+                enrolledBy: actor.id,
+              })))
+              .onConflictDoNothing();
+          }
+
+          if (row.firstName || row.lastName) {
+            await tx
+              .update(users)
+              .set({ firstName: row.firstName, lastName: row.lastName, updatedAt: new Date() })
+              .where(eq(users.id, row.userId));
+          }
+          continue;
+        }
+
+        if (row.pendingInvite) {
+          await tx
+            .update(invites)
+            .set({
+              roleId: row.roleIds[0],
+              firstName: row.firstName ?? row.pendingInvite.firstName,
+              lastName: row.lastName ?? row.pendingInvite.lastName,
+              sectionEnrolments: row.enrolments,
+              updatedAt: new Date(),
+            })
+            .where(eq(invites.id, row.pendingInvite.id));
+          continue;
+        }
+
+        const { token, tokenHash } = inviteService.generateToken();
+        const [invite] = await tx
+          .insert(invites)
+          .values({
+            organisationId,
+            invitedBy: actor.id,
+            email: row.email,
+            roleId: row.roleIds[0],
+            firstName: row.firstName,
+            lastName: row.lastName,
+            sectionEnrolments: row.enrolments,
+            tokenHash,
+            expiresAt: inviteService.getExpiryDate(),
+          })
+          .returning();
+        issued.push({ invite, token });
+      }
+
+      return issued;
+    });
+
+    const memberIds = plan.filter(row => row.userId && row.newRoleIds.length > 0).map(row => row.userId!);
+    await roleService.invalidateTokens(memberIds);
+
+    for (const { invite, token } of created) {
+      try {
+        await inviteService.sendInviteEmail(invite, token, actor.name);
+      } catch (error) {
+        logger.error('Failed to send roster invite', { email: invite.email, error });
+      }
+    }
+  }
+
+  /**
+   * Live class sections of the organisation, labelled "Course / Section"
+   * using the course code when there is one
+   */
+  private async getSections(organisationId: string): Promise<SectionRef[]> {
+    const db = getDatabase();
+    const rows = await db
+      .select({ id: classSections.id, name: classSections.name, courseName: courses.name, courseCode: courses.code })
+      .from(classSections)
+      .innerJoin(courses, eq(courses.id, classSections.courseId))
+      .where(and(
+        eq(courses.organisationId, organisationId),
+        isNull(courses.deletedAt),
+        isNull(classSections.deletedAt)
+      ));
+
+    return rows.map(row => ({
+      id: row.id,
+      label: `${row.courseCode || row.courseName} / ${row.name}`,
+      courseNameLabel: `${row.courseName} / ${row.name}`,
+    }));
+  }
+
+  /**
+   * Look up sections by id, "Code / Section" or "Course name / Section".
+   * Keys shared by several sections map to null.
+   */
+  private indexSections(sections: SectionRef[]): Map<string, SectionRef | null> {
+    const index = new Map<string, SectionRef | null>();
+    const add = (key: string, section: SectionRef) => {
+      const normalised = key.toLowerCase();
+      const existing = index.get(normalised);
+      index.set(normalised, existing === undefined || existing?.id === section.id ? section : null);
+    };
+
+    for (const section of sections) {
+      add(section.id, section);
+      add(section.label, section);
+      add(section.courseNameLabel, section);
+    }
+    return index;
+  }
+
+  /**
+   * Split a ';'-separated cell into trimmed, non-empty values
+   */
+  private splitList(value: string): string[] {
+    return value.split(';').map(item => item.trim()).filter(Boolean);
+  }
+}
+
+export const rosterService = new RosterService();
@@ -0,0 +1,481 @@
+import { getDatabase } from '../database';
+import {
+  organisationSsoConfigs,
+  organisations,
+  ssoLoginStates,
+  userIdentities,
+  userRoles,
+  users,
+  Organisation,
+  OrganisationSsoConfig,
+  User,
+} from '../types/database';
+import { eq, and, gt, lt, ne, isNull, isNotNull } from 'drizzle-orm';
+import { SsoAuthorization, SsoConfigInfo, SsoConfigRequest, SsoError, SsoLoginResult } from '../types/auth';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+import {
+  IdTokenClaims,
+  buildAuthorizationUrl,
+  discover,
+  exchangeCode,
+  generatePkce,
+  randomToken,
+  verifyIdToken,
+} from './oidc';
+import { authService } from './auth';
+import { auditService } from './audit';
+import { billingService } from './billing';
+import { roleService } from './role';
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const DEFAULT_ROLE = 'STUDENT';
+
+export class SsoService {
+  /**
+   * The organisation's identity provider settings (never includes the secret)
+   */
+  async getConfig(organisationId: string): Promise<SsoConfigInfo | null> {
+    const config = await this.findConfig(organisationId);
+    return config ? this.toConfigInfo(config) : null;
+  }
+
+  /**
+   * Create or replace the organisation's identity provider settings
+   */
+  async saveConfig(organisationId: string, data: SsoConfigRequest, actorId: string): Promise<SsoConfigInfo> {
+    for (const roleId of [data.defaultRoleId, ...(data.roleMappings || []).map(m => m.roleId)]) {
+      if (roleId) {
+        await roleService.getRole(organisationId, roleId);
+      }
+    }
+
+    const existing = await this.findConfig(organisationId);
+    const values = {
+      issuer: data.issuer.replace(/\/+$/, ''),
+      clientId: data.clientId,
+      // Keep the stored secret unless a new one is supplied
+      clientSecretEncrypted: data.clientSecret !== undefined
+        ? (data.clientSecret ? encryptSecret(data.clientSecret, this.getEncryptionKey()) : null)
+        : existing?.clientSecretEncrypted ?? null,
+      scopes: (data.scopes?.length ? data.scopes : DEFAULT_SCOPES).join(' '),
+      claimMapping: data.claimMapping || {},
+      roleMappings: data.roleMappings || [],
+      defaultRoleId: data.defaultRoleId ?? null,
+      trustEmailVerified: data.trustEmailVerified ?? false,
+      enabled: data.enabled ?? true,
+      updatedAt: new Date(),
+    };
+
+    const db = getDatabase();
+    const [config] = await db
+      .insert(organisationSsoConfigs)
+      .values({ organisationId, createdBy: actorId, ...values })
+      .onConflictDoUpdate({ target: organisationSsoConfigs.organisationId, set: values })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      existing ? 'sso.config_updated' : 'sso.config_created',
+      'sso_config',
+      organisationId,
+      { issuer: values.issuer, clientId: values.clientId, enabled: values.enabled }
+    );
+
+    return this.toConfigInfo(config);
+  }
+
+  /**
+   * Remove the organisation's identity provider; linked identities are kept
+   */
+  async deleteConfig(organisationId: string, actorId: string): Promise<void> {
+    const db = getDatabase();
+    const removed = await db
+      .delete(organisationSsoConfigs)
+      .where(eq(organisationSsoConfigs.organisationId, organisationId))
+      .returning({ issuer: organisationSsoConfigs.issuer });
+
+    if (removed.length === 0) {
+      throw new SsoError('Single sign-on is not configured', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'sso.config_deleted',
+      'sso_config',
+      organisationId,
+      { issuer: removed[0].issuer }
+    );
+  }
+
+  /**
+   * Start the authorization-code flow; returns the provider URL to redirect to
+   * and the state it carries
+   */
+  async startLogin(organisationSlug: string, returnTo?: string, loginHint?: string): Promise<SsoAuthorization> {
+    const db = getDatabase();
+    const [row] = await db
+      .select({ organisation: organisations, config: organisationSsoConfigs })
+      .from(organisations)
+      .innerJoin(organisationSsoConfigs, eq(organisationSsoConfigs.organisationId, organisations.id))
+      .where(and(eq(organisations.slug, organisationSlug), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    if (!row || !row.config.enabled) {
+      throw new SsoError('Single sign-on is not enabled for this organisation', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    const metadata = await discover(row.config.issuer);
+    const { codeVerifier, codeChallenge } = generatePkce();
+    const state = randomToken();
+    const nonce = randomToken();
+
+    // Opportunistically clear abandoned attempts
+    await db.delete(ssoLoginStates).where(lt(ssoLoginStates.expiresAt, new Date()));
+
+    await db.insert(ssoLoginStates).values({
+      state,
+      organisationId: row.organisation.id,
+      nonce,
+      codeVerifier,
+      returnTo,
+      expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+    });
+
+    const authorizationUrl = buildAuthorizationUrl(metadata, {
+      clientId: row.config.clientId,
+      redirectUri: this.getRedirectUri(),
+      scopes: row.config.scopes.split(' '),
+      state,
+      nonce,
+      codeChallenge,
+      loginHint,
+    });
+    return { authorizationUrl, state };
+  }
+
+  /**
+   * Finish the flow: validate the ID token, find, link or provision the
+   * user, apply role mappings and open a session
+   */
+  async handleCallback(state: string, code: string, ipAddress?: string, userAgent?: string): Promise<SsoLoginResult> {
+    const db = getDatabase();
+
+    // Each state value can be used once
+    const [login] = await db
+      .delete(ssoLoginStates)
+      .where(and(eq(ssoLoginStates.state, state), gt(ssoLoginStates.expiresAt, new Date())))
+      .returning();
+
+    if (!login) {
+      throw new SsoError('Sign-in request has expired, please try again', 'SSO_INVALID_STATE');
+    }
+
+    const [row] = await db
+      .select({ organisation: organisations, config: organisationSsoConfigs })
+      .from(organisations)
+      .innerJoin(organisationSsoConfigs, eq(organisationSsoConfigs.organisationId, organisations.id))
+      .where(and(eq(organisations.id, login.organisationId), isNull(organisations.deletedAt)))
+      .limit(1);
+
+    if (!row || !row.config.enabled) {
+      throw new SsoError('Single sign-on is not enabled for this organisation', 'SSO_NOT_CONFIGURED', 404);
+    }
+
+    const { organisation, config } = row;
+    const metadata = await discover(config.issuer);
+    const tokens = await exchangeCode(metadata, {
+      clientId: config.clientId,
+      clientSecret: config.clientSecretEncrypted
+        ? decryptSecret(config.clientSecretEncrypted, this.getEncryptionKey())
+        : undefined,
+      code,
+      redirectUri: this.getRedirectUri(),
+      codeVerifier: login.codeVerifier,
+    });
+
+    const claims = await verifyIdToken(tokens.id_token, {
+      metadata,
+      clientId: config.clientId,
+      nonce: login.nonce,
+    });
+
+    const user = await this.resolveUser(organisation, config, claims);
+    await this.applyRoleMappings(organisation.id, config, claims, user.id);
+
+    const session = await authService.completeExternalLogin(user.id, 'sso', ipAddress, userAgent);
+    return { ...session, returnTo: login.returnTo || undefined };
+  }
+
+  /**
+   * Find the linked account, link an existing account by verified email, or
+   * provision a new one. Only existing members, or accounts on the
+   * organisation's verified domain, are linked.
+   */
+  private async resolveUser(organisation: Organisation, config: OrganisationSsoConfig, claims: IdTokenClaims): Promise<User> {
+    const db = getDatabase();
+    const mapping = config.claimMapping;
+    const issuer = config.issuer;
+
+    const [linked] = await db
+      .select({ user: users, identityId: userIdentities.id })
+      .from(userIdentities)
+      .innerJoin(users, eq(users.id, userIdentities.userId))
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, claims.sub)))
+      .limit(1);
+
+    if (linked) {
+      if (linked.user.deletedAt) {
+        throw new SsoError('This account has been deleted', 'SSO_ACCOUNT_DELETED', 403);
+      }
+      await this.assertNotInOtherOrganisation(linked.user.id, organisation.id);
+
+      await db
+        .update(userIdentities)
+        .set({ lastLoginAt: new Date() })
+        .where(eq(userIdentities.id, linked.identityId));
+      return linked.user;
+    }
+
+    const email = this.stringClaim(claims, mapping.email || 'email')?.trim().toLowerCase();
+    if (!email) {
+      throw new SsoError('Identity provider did not return an email address', 'SSO_EMAIL_MISSING', 403);
+    }
+
+    const verifiedClaim = claims[mapping.emailVerified || 'email_verified'];
+    const emailVerified = config.trustEmailVerified || verifiedClaim === true || verifiedClaim === 'true';
+
+    const [existing] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), isNull(users.deletedAt)))
+      .limit(1);
+
+    let user: User;
+    if (existing) {
+      // Linking on an unverified address would let anyone take over the account
+      if (!emailVerified) {
+        throw new SsoError(
+          'Your identity provider has not verified this email address',
+          'SSO_EMAIL_NOT_VERIFIED',
+          403
+        );
+      }
+      await this.assertNotInOtherOrganisation(existing.id, organisation.id);
+      await this.assertMayLink(existing.id, organisation, email);
+      user = existing;
+
+      if (!existing.emailVerified) {
+        await db
+          .update(users)
+          .set({ emailVerified: true, emailVerifiedAt: new Date(), updatedAt: new Date() })
+          .where(eq(users.id, existing.id));
+      }
+    } else {
+      // New accounts join the organisation below, which takes a seat
+      await billingService.assertSeatsAvailable(organisation.id);
+
+      // SSO-only accounts get an unusable password hash
+      [user] = await db
+        .insert(users)
+        .values({
+          email,
+          passwordHash: '!',
+          firstName: this.stringClaim(claims, mapping.firstName || 'given_name'),
+          lastName: this.stringClaim(claims, mapping.lastName || 'family_name'),
+          emailVerified,
+          emailVerifiedAt: emailVerified ? new Date() : null,
+        })
+        .returning();
+
+      await auditService.log({
+        actorId: user.id,
+        action: 'user.provisioned',
+        resourceType: 'user',
+        resourceId: user.id,
+        organisationId: organisation.id,
+        metadata: { via: 'sso', issuer },
+      });
+    }
+
+    await db.insert(userIdentities).values({
+      userId: user.id,
+      organisationId: organisation.id,
+      issuer,
+      subject: claims.sub,
+      email,
+      lastLoginAt: new Date(),
+    });
+
+    await auditService.log({
+      actorId: user.id,
+      action: 'user.identity_linked',
+      resourceType: 'user',
+      resourceId: user.id,
+      organisationId: organisation.id,
+      metadata: { issuer, subject: claims.sub, provisioned: !existing },
+    });
+
+    return user;
+  }
+
+  /**
+   * Make sure the user is a member and holds every role mapped from their
+   * groups claim. Roles are only added here; removing them stays manual.
+   */
+  private async applyRoleMappings(
+    organisationId: string,
+    config: OrganisationSsoConfig,
+    claims: IdTokenClaims,
+    userId: string
+  ): Promise<void> {
+    const db = getDatabase();
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.organisationId, organisationId)))
+      .limit(1);
+
+    const groupsClaim = config.claimMapping.groups ? claims[config.claimMapping.groups] : undefined;
+    const groups = Array.isArray(groupsClaim) ? groupsClaim.map(String) : groupsClaim ? [String(groupsClaim)] : [];
+    const roleIds = config.roleMappings
+      .filter(mapping => groups.includes(mapping.claimValue))
+      .map(mapping => mapping.roleId);
+
+    if (roleIds.length === 0 && membership) {
+      return;
+    }
+    // Joining takes a seat; existing members are never locked out
+    if (!membership) {
+      await billingService.assertSeatsAvailable(organisationId);
+    }
+
+    if (roleIds.length === 0) {
+      if (config.defaultRoleId) {
+        roleIds.push(config.defaultRoleId);
+      } else {
+        await roleService.grantSystemRole(userId, organisationId, DEFAULT_ROLE, userId);
+        return;
+      }
+    }
+
+    const added = await db
+      .insert(userRoles)
+      .values(roleIds.map(roleId => ({ userId, roleId, organisationId, assignedBy: userId })))
+      .onConflictDoNothing()
+      .returning({ roleId: userRoles.roleId });
+
+    if (added.length > 0) {
+      await roleService.invalidateTokens([userId]);
+
+      await auditService.log({
+        actorId: userId,
+        action: 'role.assigned',
+        resourceType: 'user',
+        resourceId: userId,
+        organisationId,
+        newValues: { roleIds: added.map(r => r.roleId) },
+        metadata: { via: 'sso' },
+      });
+    }
+  }
+
+  /**
+   * Users belong to a single organisation
+   */
+  /**
+   * The organisation runs its own provider, which can claim any email
+   * address. Accounts outside the organisation and its verified domain have
+   * to sign in with their password and join first.
+   */
+  private async assertMayLink(userId: string, organisation: Organisation, email: string): Promise<void> {
+    if (organisation.domainVerifiedAt && email.split('@').pop() === organisation.verifiedDomain) {
+      return;
+    }
+
+    const db = getDatabase();
+    const [membership] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.organisationId, organisation.id)))
+      .limit(1);
+
+    if (!membership) {
+      throw new SsoError(
+        'An EduRank account with this email address already exists. Sign in with your password to join the organisation',
+        'SSO_EMAIL_IN_USE',
+        409
+      );
+    }
+  }
+
+  private async assertNotInOtherOrganisation(userId: string, organisationId: string): Promise<void> {
+    const db = getDatabase();
+    const [other] = await db
+      .select({ id: userRoles.id })
+      .from(userRoles)
+      .where(and(
+        eq(userRoles.userId, userId),
+        isNotNull(userRoles.organisationId),
+        ne(userRoles.organisationId, organisationId)
+      ))
+      .limit(1);
+
+    if (other) {
+      throw new SsoError('This account belongs to another organisation', 'SSO_ORGANISATION_MISMATCH', 403);
+    }
+  }
+
+  private async findConfig(organisationId: string): Promise<OrganisationSsoConfig | undefined> {
+    const db = getDatabase();
+    const [config] = await db
+      .select()
+      .from(organisationSsoConfigs)
+      .where(eq(organisationSsoConfigs.organisationId, organisationId))
+      .limit(1);
+    return config;
+  }
+
+  private stringClaim(claims: IdTokenClaims, name: string): string | undefined {
+    const value = claims[name];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  private toConfigInfo(config: OrganisationSsoConfig): SsoConfigInfo {
+    return {
+      organisationId: config.organisationId,
+      issuer: config.issuer,
+      clientId: config.clientId,
+      hasClientSecret: Boolean(config.clientSecretEncrypted),
+      scopes: config.scopes.split(' '),
+      claimMapping: config.claimMapping,
+      roleMappings: config.roleMappings,
+      defaultRoleId: config.defaultRoleId || undefined,
+      trustEmailVerified: config.trustEmailVerified,
+      enabled: config.enabled,
+      redirectUri: this.getRedirectUri(),
+    };
+  }
+
+  /**
+   * Callback URL registered with every identity provider
+   */
+  private getRedirectUri(): string {
+    return process.env.SSO_REDIRECT_URI || 'http://localhost:3001/api/sso/callback';
+  }
+
+  /**
+   * Key material from SSO_ENCRYPTION_KEY (falls back to the JWT secret)
+   */
+  private getEncryptionKey(): string {
+    const keyMaterial = process.env.SSO_ENCRYPTION_KEY || process.env.JWT_ACCESS_SECRET;
+    if (!keyMaterial) {
+      throw new Error('SSO_ENCRYPTION_KEY environment variable is required');
+    }
+    return keyMaterial;
+  }
+}
+
+export const ssoService = new SsoService();
@@ -0,0 +1,312 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDatabase } from '../database';
+import { organisations, twoFactorRecoveryCodes, userTwoFactor, users } from '../types/database';
+import { eq, and, or, lt, isNull } from 'drizzle-orm';
+import { AuthenticationError, TwoFactorSetup, TwoFactorStatus } from '../types/auth';
+import { buildOtpauthUri, generateSecret, verifyCode } from './totp';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+import { roleService } from './role';
+import { auditService } from './audit';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Roles that are never considered staff for 2FA enforcement
+const NON_STAFF_ROLES = ['STUDENT', 'IND_STUDENT'];
+
+export class TwoFactorService {
+  private readonly issuer: string;
+
+  constructor() {
+    this.issuer = process.env.TOTP_ISSUER || 'EduRank';
+  }
+
+  /**
+   * Two-factor status for the account settings page
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const db = getDatabase();
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    const remaining = await db
+      .select({ id: twoFactorRecoveryCodes.id })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+
+    return {
+      enabled: Boolean(record?.enabled),
+      required: await this.isRequired(userId),
+      recoveryCodesRemaining: record?.enabled ? remaining.length : 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const db = getDatabase();
+    const [record] = await db
+      .select({ enabled: userTwoFactor.enabled })
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    return Boolean(record?.enabled);
+  }
+
+  /**
+   * Whether the user's organisation requires 2FA and the user holds a staff role
+   */
+  async isRequired(userId: string): Promise<boolean> {
+    const access = await roleService.getEffectivePermissions(userId);
+    if (!access.organisationId) {
+      return false;
+    }
+
+    const db = getDatabase();
+    const [org] = await db
+      .select({ requireStaffTwoFactor: organisations.requireStaffTwoFactor })
+      .from(organisations)
+      .where(eq(organisations.id, access.organisationId))
+      .limit(1);
+
+    if (!org?.requireStaffTwoFactor) {
+      return false;
+    }
+
+    return access.roles.some(role => !NON_STAFF_ROLES.includes(role.name));
+  }
+
+  /**
+   * Start enrollment: store a new (not yet enabled) secret and return it
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorSetup> {
+    const db = getDatabase();
+    const [user] = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new AuthenticationError('User not found');
+    }
+
+    if (await this.isEnabled(userId)) {
+      throw new AuthenticationError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateSecret();
+    const secretEncrypted = this.encrypt(secret);
+
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, secretEncrypted, enabled: false })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secretEncrypted, enabled: false, enabledAt: null, lastUsedStep: null, updatedAt: new Date() },
+      });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first code; returns the recovery codes (shown once)
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const db = getDatabase();
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    if (!record) {
+      throw new AuthenticationError('Two-factor setup has not been started', 'TWO_FACTOR_NOT_STARTED');
+    }
+
+    if (record.enabled) {
+      throw new AuthenticationError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const step = verifyCode(this.decrypt(record.secretEncrypted), code);
+    if (step === null) {
+      throw new AuthenticationError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await db
+      .update(userTwoFactor)
+      .set({ enabled: true, enabledAt: new Date(), lastUsedStep: step, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.two_factor_enabled',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or an unused recovery code
+   */
+  async verify(userId: string, credentials: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const db = getDatabase();
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    if (!record?.enabled) {
+      return false;
+    }
+
+    if (credentials.code) {
+      const step = verifyCode(this.decrypt(record.secretEncrypted), credentials.code);
+
+      if (step === null) {
+        return false;
+      }
+
+      // Each code may only be used once: only one of two concurrent requests
+      // with the same code can move the step forward
+      const accepted = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step, updatedAt: new Date() })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        ))
+        .returning({ userId: userTwoFactor.userId });
+      return accepted.length > 0;
+    }
+
+    if (credentials.recoveryCode) {
+      const used = await db
+        .update(twoFactorRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          eq(twoFactorRecoveryCodes.codeHash, this.hashRecoveryCode(credentials.recoveryCode)),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        ))
+        .returning({ id: twoFactorRecoveryCodes.id });
+
+      if (used.length > 0) {
+        await auditService.log({
+          actorId: userId,
+          action: 'user.two_factor_recovery_code_used',
+          resourceType: 'user',
+          resourceId: userId,
+        });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Issue a fresh set of recovery codes, invalidating the old ones
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.verify(userId, { code }))) {
+      throw new AuthenticationError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.two_factor_recovery_codes_regenerated',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off 2FA (caller must have checked the password)
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    if (await this.isRequired(userId)) {
+      throw new AuthenticationError(
+        'Your organisation requires two-factor authentication',
+        'TWO_FACTOR_REQUIRED',
+        403
+      );
+    }
+
+    if (!(await this.verify(userId, { code }))) {
+      throw new AuthenticationError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const db = getDatabase();
+    await db.transaction(async (tx) => {
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    });
+
+    await auditService.log({
+      actorId: userId,
+      action: 'user.two_factor_disabled',
+      resourceType: 'user',
+      resourceId: userId,
+    });
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    const db = getDatabase();
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(
+        codes.map(code => ({ userId, codeHash: this.hashRecoveryCode(code) }))
+      );
+    });
+
+    return codes;
+  }
+
+  /**
+   * Recovery codes are random, so a plain SHA-256 is enough
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-f0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Key material from TOTP_ENCRYPTION_KEY (falls back to the JWT secret)
+   */
+  private getEncryptionKey(): string {
+    const keyMaterial = process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_ACCESS_SECRET;
+    if (!keyMaterial) {
+      throw new Error('TOTP_ENCRYPTION_KEY environment variable is required');
+    }
+    return keyMaterial;
+  }
+
+  private encrypt(plaintext: string): string {
+    return encryptSecret(plaintext, this.getEncryptionKey());
+  }
+
+  private decrypt(stored: string): string {
+    return decryptSecret(stored, this.getEncryptionKey());
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,51 @@
+import { UsageLine } from '../types/auth';
+import { callLearningAppFunction, LearningAppConfig, learningAppConfigFromEnv } from '../utils/learningApp';
+
+/**
+ * AI usage and credit pools live in the learning app (Supabase); members are
+ * matched to learning app accounts by email
+ */
+export interface UsageSource {
+  readonly name: string;
+  // Set the organisation's monthly credit pool and who may draw from it. The
+  // pool is refilled when periodStart moves on.
+  syncCreditPool(organisationId: string, monthlyCredits: number, periodStart: Date, memberEmails: string[]): Promise<void>;
+  // Usage per operation by the organisation's members in [from, to)
+  getUsage(organisationId: string, from: Date, to: Date): Promise<UsageLine[]>;
+}
+
+/**
+ * Calls the learning app's organisation-billing edge function
+ */
+export class SupabaseUsageSource implements UsageSource {
+  readonly name = 'supabase';
+
+  constructor(private readonly config: LearningAppConfig) {}
+
+  async syncCreditPool(organisationId: string, monthlyCredits: number, periodStart: Date, memberEmails: string[]): Promise<void> {
+    await callLearningAppFunction(this.config, 'organisation-billing', {
+      action: 'sync-pool',
+      organisationId,
+      monthlyCredits,
+      periodStart: periodStart.toISOString(),
+      memberEmails,
+    });
+  }
+
+  async getUsage(organisationId: string, from: Date, to: Date): Promise<UsageLine[]> {
+    const result = await callLearningAppFunction<{ lines: UsageLine[] }>(this.config, 'organisation-billing', {
+      action: 'usage',
+      organisationId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    return result.lines;
+  }
+}
+
+/**
+ * The learning app configured by SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ */
+export function createUsageSourceFromEnv(): UsageSource {
+  return new SupabaseUsageSource(learningAppConfigFromEnv('usage metering'));
+}
@@ -0,0 +1,664 @@
+import { createHmac, randomBytes } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { getDatabase } from '../database';
+import { webhookDeliveries, webhookEndpoints, WebhookDelivery, WebhookEndpoint } from '../types/database';
+import { eq, and, asc, desc, lte } from 'drizzle-orm';
+import {
+  AuditEvent,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookDeliveryStatus,
+  WebhookDeliverySummary,
+  WebhookError,
+  WebhookPayload,
+  WebhookSummary,
+} from '../types/auth';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+import { errorMessage } from '../utils/errors';
+import { auditService } from './audit';
+import { logger } from '../utils/logger';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_LEASE_MS = 60000; // a claimed delivery is retried if the worker dies mid-send
+const DELIVERY_BATCH_SIZE = 20;
+const RESPONSE_BODY_LIMIT = 2000;
+
+// Loopback, private, link-local (which includes cloud metadata endpoints such
+// as 169.254.169.254), shared, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex>`,
+ * where v1 is the HMAC-SHA256 of "<t>.<body>" keyed with the endpoint secret
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Whether an endpoint's subscriptions cover an event: exact names,
+ * 'user.*' for every user event, or '*' for everything
+ */
+export function matchesWebhookEvent(subscriptions: string[], event: string): boolean {
+  return subscriptions.some(pattern =>
+    pattern === '*'
+    || pattern === event
+    || (pattern.endsWith('.*') && event.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+/**
+ * Whether an IP address is one webhooks must not reach (anything that is not
+ * a public unicast address). BlockList checks IPv4-mapped IPv6 addresses
+ * against the IPv4 ranges.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves endpoint hostnames to IP addresses. Swap in a fake with
+ * setResolver() for tests.
+ */
+export interface HostResolver {
+  lookup(hostname: string): Promise<string[]>;
+}
+
+/**
+ * Resolves the way fetch will, through the system resolver
+ */
+export class SystemHostResolver implements HostResolver {
+  async lookup(hostname: string): Promise<string[]> {
+    const results = await dns.lookup(hostname, { all: true, verbatim: true });
+    return results.map(result => result.address);
+  }
+}
+
+export class WebhookService {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private processing = false;
+  private runRequested = false;
+  private timer?: NodeJS.Timeout;
+  private resolver: HostResolver = new SystemHostResolver();
+
+  constructor(options: { maxAttempts?: number; baseDelayMs?: number } = {}) {
+    this.maxAttempts = options.maxAttempts ?? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+    this.baseDelayMs = options.baseDelayMs ?? parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000');
+  }
+
+  setResolver(resolver: HostResolver): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Webhook endpoints of an organisation (secrets are never returned)
+   */
+  async list(organisationId: string): Promise<WebhookSummary[]> {
+    const db = getDatabase();
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.organisationId, organisationId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+
+    return endpoints.map(endpoint => this.toSummary(endpoint));
+  }
+
+  /**
+   * Subscribe an endpoint to events. The signing secret is only returned here
+   * and when it is rotated.
+   */
+  async create(
+    organisationId: string,
+    data: CreateWebhookRequest,
+    actorId: string
+  ): Promise<{ webhook: WebhookSummary; secret: string }> {
+    await this.assertUrlAllowed(data.url);
+
+    const secret = this.generateSecret();
+    const db = getDatabase();
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({
+        organisationId,
+        url: data.url,
+        description: data.description,
+        events: [...new Set(data.events)],
+        secretEncrypted: encryptSecret(secret, this.getEncryptionKey()),
+        enabled: data.enabled ?? true,
+        createdBy: actorId,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'webhook.created',
+      'webhook',
+      endpoint.id,
+      { url: endpoint.url, events: endpoint.events }
+    );
+
+    return { webhook: this.toSummary(endpoint), secret };
+  }
+
+  /**
+   * Change an endpoint's URL, description, events or enabled flag
+   */
+  async update(
+    organisationId: string,
+    webhookId: string,
+    data: UpdateWebhookRequest,
+    actorId: string
+  ): Promise<WebhookSummary> {
+    const existing = await this.findEndpoint(organisationId, webhookId);
+    if (data.url !== undefined) {
+      await this.assertUrlAllowed(data.url);
+    }
+
+    const db = getDatabase();
+    const [endpoint] = await db
+      .update(webhookEndpoints)
+      .set({
+        url: data.url,
+        description: data.description,
+        events: data.events ? [...new Set(data.events)] : undefined,
+        enabled: data.enabled,
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEndpoints.id, existing.id))
+      .returning();
+
+    await auditService.log({
+      actorId,
+      action: 'webhook.updated',
+      resourceType: 'webhook',
+      resourceId: endpoint.id,
+      organisationId,
+      oldValues: { url: existing.url, events: existing.events, enabled: existing.enabled },
+      newValues: { url: endpoint.url, events: endpoint.events, enabled: endpoint.enabled },
+    });
+
+    return this.toSummary(endpoint);
+  }
+
+  /**
+   * Remove an endpoint along with its delivery history
+   */
+  async delete(organisationId: string, webhookId: string, actorId: string): Promise<void> {
+    const endpoint = await this.findEndpoint(organisationId, webhookId);
+    const db = getDatabase();
+
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, endpoint.id));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'webhook.deleted',
+      'webhook',
+      endpoint.id,
+      { url: endpoint.url }
+    );
+  }
+
+  /**
+   * Replace the signing secret; deliveries from now on use the new one
+   */
+  async rotateSecret(organisationId: string, webhookId: string, actorId: string): Promise<string> {
+    const endpoint = await this.findEndpoint(organisationId, webhookId);
+    const secret = this.generateSecret();
+    const db = getDatabase();
+
+    await db
+      .update(webhookEndpoints)
+      .set({ secretEncrypted: encryptSecret(secret, this.getEncryptionKey()), updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, endpoint.id));
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'webhook.secret_rotated',
+      'webhook',
+      endpoint.id
+    );
+
+    return secret;
+  }
+
+  /**
+   * Recent deliveries to an endpoint, newest first
+   */
+  async listDeliveries(
+    organisationId: string,
+    webhookId: string,
+    filters: { status?: WebhookDeliveryStatus; limit?: number }
+  ): Promise<WebhookDeliverySummary[]> {
+    const endpoint = await this.findEndpoint(organisationId, webhookId);
+    const db = getDatabase();
+
+    const deliveries = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.endpointId, endpoint.id),
+        filters.status ? eq(webhookDeliveries.status, filters.status) : undefined
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(Math.min(filters.limit || 50, 100));
+
+    return deliveries.map(delivery => this.toDeliverySummary(delivery));
+  }
+
+  /**
+   * Send an earlier delivery's payload again as a new delivery
+   */
+  async replay(
+    organisationId: string,
+    webhookId: string,
+    deliveryId: string,
+    actorId: string
+  ): Promise<WebhookDeliverySummary> {
+    const endpoint = await this.findEndpoint(organisationId, webhookId);
+    const db = getDatabase();
+
+    const [original] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.endpointId, endpoint.id)))
+      .limit(1);
+
+    if (!original) {
+      throw new WebhookError('Delivery not found', 'DELIVERY_NOT_FOUND', 404);
+    }
+    if (!endpoint.enabled) {
+      throw new WebhookError('Enable the webhook before replaying deliveries', 'WEBHOOK_DISABLED', 409);
+    }
+
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        endpointId: endpoint.id,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload,
+        replayOf: original.id,
+      })
+      .returning();
+
+    await auditService.logOrganisationAction(
+      actorId,
+      organisationId,
+      'webhook.delivery_replayed',
+      'webhook',
+      endpoint.id,
+      { deliveryId: delivery.id, replayOf: original.id, event: original.event }
+    );
+
+    void this.processDue();
+    return this.toDeliverySummary(delivery);
+  }
+
+  /**
+   * Queue a delivery of an audited event to every endpoint subscribed to it.
+   * Called by AuditService.log; never throws.
+   */
+  async dispatch(eventId: string, createdAt: Date, event: AuditEvent): Promise<void> {
+    if (!event.organisationId) return;
+
+    try {
+      const db = getDatabase();
+      const endpoints = await db
+        .select({ id: webhookEndpoints.id, events: webhookEndpoints.events })
+        .from(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.organisationId, event.organisationId), eq(webhookEndpoints.enabled, true)));
+
+      const subscribed = endpoints.filter(endpoint => matchesWebhookEvent(endpoint.events, event.action));
+      if (subscribed.length === 0) return;
+
+      const payload: WebhookPayload = {
+        id: eventId,
+        event: event.action,
+        createdAt: createdAt.toISOString(),
+        organisationId: event.organisationId,
+        data: {
+          actorId: event.actorId,
+          resourceType: event.resourceType,
+          resourceId: event.resourceId,
+          oldValues: event.oldValues,
+          newValues: event.newValues,
+          metadata: event.metadata,
+        },
+      };
+
+      await db.insert(webhookDeliveries).values(subscribed.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId,
+        event: event.action,
+        payload,
+      })));
+
+      void this.processDue();
+    } catch (error) {
+      logger.error('Failed to queue webhooks', { action: event.action, error });
+    }
+  }
+
+  /**
+   * Send every delivery that is due, then schedule a wake-up for the next
+   * retry. Returns the number of delivery attempts made.
+   */
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      // Deliveries queued mid-run are picked up by another pass
+      this.runRequested = true;
+      return 0;
+    }
+    this.processing = true;
+    this.runRequested = false;
+
+    let attempted = 0;
+    try {
+      const db = getDatabase();
+
+      for (;;) {
+        const now = new Date();
+        const due = await db
+          .select({ id: webhookDeliveries.id })
+          .from(webhookDeliveries)
+          .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)))
+          .orderBy(asc(webhookDeliveries.nextAttemptAt))
+          .limit(DELIVERY_BATCH_SIZE);
+
+        if (due.length === 0) break;
+
+        for (const { id } of due) {
+          // Claim the delivery so other instances skip it while it is in flight
+          const [claimed] = await db
+            .update(webhookDeliveries)
+            .set({ nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) })
+            .where(and(
+              eq(webhookDeliveries.id, id),
+              eq(webhookDeliveries.status, 'pending'),
+              lte(webhookDeliveries.nextAttemptAt, now)
+            ))
+            .returning();
+
+          if (claimed) {
+            await this.deliver(claimed);
+            attempted++;
+          }
+        }
+      }
+
+      await this.scheduleNextRun();
+    } catch (error) {
+      logger.error('Webhook delivery run failed', { error });
+    } finally {
+      this.processing = false;
+    }
+
+    if (this.runRequested) {
+      void this.processDue();
+    }
+    return attempted;
+  }
+
+  /**
+   * Stop the retry timer (tests and graceful shutdown)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * POST the payload to the endpoint and record the outcome. Non-2xx
+   * responses (redirects included, which are not followed) and network
+   * errors are retried with exponential backoff.
+   */
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const db = getDatabase();
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, delivery.endpointId))
+      .limit(1);
+
+    const attempts = delivery.attempts + 1;
+
+    if (!endpoint?.enabled) {
+      await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', attempts, lastAttemptAt: new Date(), error: 'Webhook is disabled' })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      await this.assertUrlAllowed(endpoint.url);
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'EduRank-Webhooks/1.0',
+          'X-EduRank-Event': delivery.event,
+          'X-EduRank-Delivery': delivery.id,
+          'X-EduRank-Signature': signWebhookPayload(
+            decryptSecret(endpoint.secretEncrypted, this.getEncryptionKey()),
+            timestamp,
+            body
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = await this.readResponseStart(response);
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error && err.name === 'TimeoutError'
+        ? 'Timed out waiting for the endpoint'
+        : errorMessage(err, 'Request failed');
+    }
+
+    const succeeded = error === null;
+    const givenUp = !succeeded && attempts >= this.maxAttempts;
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: succeeded ? 'succeeded' : givenUp ? 'failed' : 'pending',
+        attempts,
+        lastAttemptAt: new Date(),
+        nextAttemptAt: succeeded || givenUp ? null : new Date(Date.now() + this.retryDelay(attempts)),
+        responseStatus,
+        responseBody,
+        error,
+        deliveredAt: succeeded ? new Date() : null,
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private retryDelay(attempts: number): number {
+    return this.baseDelayMs * 2 ** (attempts - 1) * (0.5 + Math.random() / 2);
+  }
+
+  /**
+   * Wake up when the earliest pending retry is due. The timer does not keep
+   * the process alive; `npm run webhooks:deliver` picks up anything left over.
+   */
+  private async scheduleNextRun(): Promise<void> {
+    const db = getDatabase();
+    const [next] = await db
+      .select({ nextAttemptAt: webhookDeliveries.nextAttemptAt })
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.status, 'pending'))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(1);
+
+    this.stop();
+    if (!next?.nextAttemptAt) return;
+
+    const delay = Math.max(next.nextAttemptAt.getTime() - Date.now(), 0);
+    this.timer = setTimeout(() => void this.processDue(), delay);
+    this.timer.unref();
+  }
+
+  /**
+   * The start of the response body, for the delivery log. The rest is not
+   * downloaded.
+   */
+  private async readResponseStart(response: Response): Promise<string> {
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let text = '';
+    try {
+      while (text.length < RESPONSE_BODY_LIMIT) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += value;
+      }
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+    return text.slice(0, RESPONSE_BODY_LIMIT);
+  }
+
+  /**
+   * Endpoints must be absolute http(s) URLs whose host resolves to public
+   * addresses only; production requires https. Checked again before every
+   * delivery, as DNS can change after the endpoint was saved.
+   * WEBHOOK_ALLOW_PRIVATE_URLS=true lifts the address check for local
+   * development.
+   */
+  private async assertUrlAllowed(url: string): Promise<void> {
+    const parsed = new URL(url);
+    if (process.env.NODE_ENV === 'production' && parsed.protocol !== 'https:') {
+      throw new WebhookError('Webhook URLs must use https', 'WEBHOOK_URL_INSECURE', 400);
+    }
+    if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') {
+      return;
+    }
+
+    let addresses: string[];
+    try {
+      // IPv6 literals keep their brackets in URL.hostname
+      addresses = await this.resolver.lookup(parsed.hostname.replace(/^\[(.*)\]$/, '$1'));
+    } catch {
+      throw new WebhookError('Webhook URL host could not be resolved', 'WEBHOOK_URL_UNRESOLVABLE', 400);
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      throw new WebhookError('Webhook URLs must point to a public address', 'WEBHOOK_URL_FORBIDDEN', 400);
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+  }
+
+  private toSummary(endpoint: WebhookEndpoint): WebhookSummary {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      createdAt: endpoint.createdAt,
+      updatedAt: endpoint.updatedAt,
+    };
+  }
+
+  /**
+   * Delivery log entry. The endpoint's response body is stored for support
+   * but never returned, so webhooks cannot be used to read other servers.
+   */
+  private toDeliverySummary(delivery: WebhookDelivery): WebhookDeliverySummary {
+    return {
+      id: delivery.id,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      replayOf: delivery.replayOf,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+
+  /**
+   * Find a webhook endpoint that belongs to the given organisation
+   */
+  private async findEndpoint(organisationId: string, webhookId: string): Promise<WebhookEndpoint> {
+    const db = getDatabase();
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, webhookId), eq(webhookEndpoints.organisationId, organisationId)))
+      .limit(1);
+
+    if (!endpoint) {
+      throw new WebhookError('Webhook not found', 'WEBHOOK_NOT_FOUND', 404);
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Key material from WEBHOOK_ENCRYPTION_KEY (falls back to the JWT secret)
+   */
+  private getEncryptionKey(): string {
+    const keyMaterial = process.env.WEBHOOK_ENCRYPTION_KEY || process.env.JWT_ACCESS_SECRET;
+    if (!keyMaterial) {
+      throw new Error('WEBHOOK_ENCRYPTION_KEY environment variable is required');
+    }
+    return keyMaterial;
+  }
+}
+
+export const webhookService = new WebhookService();
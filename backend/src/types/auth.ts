@@ -21,6 +21,7 @@ export interface TokenPayload {
   roles: string[];
   permissions: string[];
   tokenVersion: number;
+  sessionId?: string; // Absent in tokens issued before session tracking
   iat: number;
   exp: number;
 }
@@ -29,6 +30,7 @@ export interface RefreshTokenPayload {
   userId: string;
   tokenVersion: number;
   sessionId: string;
+  jti: string; // Unique per token so rotated tokens never collide
   iat: number;
   exp: number;
 }
@@ -39,6 +41,53 @@ export interface AuthTokens {
   expiresIn: number;
 }
 
+// Two-factor Types
+export interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: 'verify' | 'enroll'; // Enter a code, or set up 2FA required by the organisation
+  deviceFingerprint?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  purpose: 'verify' | 'enroll';
+  expiresIn: number;
+}
+
+export type LoginResult =
+  | { user: UserContext; tokens: AuthTokens }
+  | { twoFactor: TwoFactorChallenge };
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // Render as a QR code
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Enforced by the user's organisation
+  recoveryCodesRemaining: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  deviceFingerprint?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt?: Date;
+  lastUsedAt?: Date;
+  expiresAt: Date;
+  current: boolean; // The session the request was made with
+}
+
 export interface UserContext {
   id: string;
   email: string;
@@ -63,12 +112,273 @@ export interface CreateOrganisationRequest {
   verifiedDomain?: string;
 }
 
+export interface DeleteOrganisationRequest {
+  confirmSlug: string; // Must match the organisation's slug
+  reason?: string;
+}
+
 export interface InviteUserRequest {
   email: string;
   roleId: string;
   organisationId: string;
 }
 
+export interface ListOrganisationUsersQuery {
+  page?: number;
+  limit?: number;
+  role?: string; // Role name, e.g. 'TEACHER'
+  search?: string; // Matches email, first name or last name
+  sortOrder?: 'asc' | 'desc'; // Sort by last login
+}
+
+export interface OrganisationMemberRole extends UserRole {
+  assignedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface OrganisationMember {
+  id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  emailVerified: boolean;
+  lastLoginAt?: Date;
+  roles: OrganisationMemberRole[];
+}
+
+export type AutoJoinMode = 'disabled' | 'automatic' | 'approval';
+
+export interface DomainVerificationStatus {
+  domain: string | null;
+  verified: boolean;
+  verifiedAt?: Date;
+  recordName?: string; // TXT record host, e.g. _edurank-verification.school.edu
+  recordValue?: string;
+  autoJoinMode: AutoJoinMode;
+  autoJoinRoleId?: string;
+}
+
+export interface UpdateAutoJoinRequest {
+  mode: AutoJoinMode;
+  roleId?: string; // Defaults to the STUDENT system role
+}
+
+export interface JoinRequestInfo {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: Date | null;
+  reviewedAt?: Date;
+  user: {
+    id: string;
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    emailVerified: boolean;
+  };
+}
+
+// Single sign-on (OpenID Connect) Types
+export interface SsoClaimMapping {
+  email?: string; // Defaults to 'email'
+  emailVerified?: string; // Defaults to 'email_verified'
+  firstName?: string; // Defaults to 'given_name'
+  lastName?: string; // Defaults to 'family_name'
+  groups?: string; // Claim holding group/role values used by roleMappings
+}
+
+export interface SsoRoleMapping {
+  claimValue: string; // Value found in the groups claim
+  roleId: string;
+}
+
+export interface SsoConfigRequest {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Omit for public clients or to keep the stored secret
+  scopes?: string[];
+  claimMapping?: SsoClaimMapping;
+  roleMappings?: SsoRoleMapping[];
+  defaultRoleId?: string; // Used when no mapping matches; defaults to STUDENT
+  trustEmailVerified?: boolean; // For providers that omit email_verified
+  enabled?: boolean;
+}
+
+export interface SsoConfigInfo {
+  organisationId: string;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  scopes: string[];
+  claimMapping: SsoClaimMapping;
+  roleMappings: SsoRoleMapping[];
+  defaultRoleId?: string;
+  trustEmailVerified: boolean;
+  enabled: boolean;
+  redirectUri: string; // Register this with the identity provider
+}
+
+export interface SsoAuthorization {
+  authorizationUrl: string;
+  state: string; // Also kept in a cookie, so the callback only completes in this browser
+}
+
+export interface SsoLoginResult {
+  user: UserContext;
+  tokens: AuthTokens;
+  returnTo?: string;
+}
+
+// LTI 1.3 Types
+export type LtiTargetType = 'quiz' | 'todo';
+
+export interface LtiPlatformRequest {
+  name: string;
+  issuer: string;
+  clientId: string;
+  deploymentIds?: string[]; // Empty accepts any deployment
+  authLoginUrl: string;
+  authTokenUrl: string;
+  authTokenAudience?: string; // Defaults to authTokenUrl
+  jwksUrl: string;
+  enabled?: boolean;
+}
+
+export interface LtiToolConfiguration {
+  loginUrl: string; // OIDC login initiation URL
+  launchUrl: string; // Target link / redirect URI
+  deepLinkUrl: string;
+  jwksUrl: string;
+}
+
+export interface LtiDeepLinkItem {
+  type: LtiTargetType;
+  id: string;
+  title: string;
+  scoreMaximum?: number; // Creates a gradebook column when set
+}
+
+export interface LtiLaunchResult {
+  user: UserContext;
+  tokens: AuthTokens;
+  messageType: 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest';
+  launchId?: string;
+  target?: { type: LtiTargetType; id: string };
+  deepLinkToken?: string; // Present for deep linking requests
+}
+
+export interface LtiScoreRequest {
+  launchId: string;
+  comment?: string;
+}
+
+// Course Types
+export type EnrolmentRole = 'teacher' | 'student';
+
+// 'assigned' and 'missing' have no stored submission yet
+export type SubmissionStatus = 'assigned' | 'in_progress' | 'submitted' | 'graded' | 'missing';
+
+export interface CourseViewer {
+  userId: string;
+  canManage: boolean; // Holds course.edit: sees every course and section
+}
+
+export interface CreateCourseRequest {
+  name: string;
+  code?: string;
+  description?: string;
+}
+
+export interface UpdateCourseRequest {
+  name?: string;
+  code?: string | null;
+  description?: string | null;
+}
+
+export interface CreateSectionRequest {
+  name: string;
+  term?: string;
+}
+
+export interface UpdateSectionRequest {
+  name?: string;
+  term?: string | null;
+}
+
+export interface EnrolRequest {
+  userId: string;
+  role: EnrolmentRole;
+}
+
+export interface CreateAssignmentRequest {
+  title: string;
+  instructions?: string;
+  topicId?: string;
+  videoId?: string;
+  videoUrl?: string;
+  quizId?: string;
+  dueAt?: Date;
+}
+
+export interface UpdateAssignmentRequest {
+  title?: string;
+  instructions?: string | null;
+  topicId?: string | null;
+  videoId?: string | null;
+  videoUrl?: string | null;
+  quizId?: string | null;
+  dueAt?: Date | null;
+}
+
+export interface UpdateSubmissionRequest {
+  status: 'in_progress' | 'submitted';
+  score?: number; // Quiz score, when the assignment has a quiz
+}
+
+export interface GradeSubmissionRequest {
+  score?: number;
+  feedback?: string;
+}
+
+// Roster Import Types
+export interface PendingEnrolment {
+  sectionId: string;
+  role: EnrolmentRole;
+}
+
+export type RosterRowAction = 'invite' | 'update' | 'unchanged' | 'error';
+
+export interface RosterRowResult {
+  row: number; // CSV record number, the header being row 1
+  email: string;
+  action: RosterRowAction;
+  errors?: string[];
+}
+
+export interface RosterImportResult {
+  dryRun: boolean;
+  counts: {
+    total: number;
+    invited: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+  };
+  rows: RosterRowResult[];
+}
+
+export interface SubmissionSummary {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  status: SubmissionStatus;
+  score?: number;
+  feedback?: string;
+  submittedAt?: Date;
+  gradedAt?: Date;
+  late: boolean;
+}
+
 export interface AcceptInviteRequest {
   token: string;
   password: string;
@@ -76,6 +386,59 @@ export interface AcceptInviteRequest {
   lastName?: string;
 }
 
+export interface DeclineInviteRequest {
+  token: string;
+}
+
+export interface InviteDetails {
+  id: string;
+  email: string;
+  organisation: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+  role: {
+    id: string;
+    name: string;
+  };
+  expiresAt: Date;
+  existingAccount: boolean; // Invitee should log in with their current password
+}
+
+// Role Types
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  permissionIds?: string[];
+}
+
+export interface UpdateRoleRequest {
+  name?: string;
+  description?: string;
+}
+
+export interface AssignRoleRequest {
+  roleId: string;
+  expiresAt?: string; // ISO 8601; omit for a permanent assignment
+}
+
+export interface RoleWithPermissions {
+  id: string;
+  name: string;
+  description?: string;
+  isSystemRole: boolean;
+  organisationId?: string;
+  permissions: string[]; // 'resource.action'
+}
+
+export interface EffectivePermissions {
+  userId: string;
+  organisationId?: string;
+  roles: UserRole[];
+  permissions: string[]; // 'resource.action'
+}
+
 // Permission Types
 export type PermissionCheck = {
   resource: string;
@@ -116,9 +479,256 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+// Email Verification & Password Reset Types
+export type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface AccountDeletionStatus {
+  requestedAt: Date;
+  scheduledFor: Date;
+}
+
+// Everything the backend stores about a user, for data subject access requests
+export interface PersonalDataExport {
+  generatedAt: Date;
+  profile: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    avatarUrl: string | null;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    lastLoginAt: Date | null;
+    createdAt: Date | null;
+    deletion: AccountDeletionStatus | null;
+  };
+  memberships: { organisationId: string | null; organisationName: string | null; role: string; assignedAt: Date | null }[];
+  identities: { organisationId: string; issuer: string; subject: string; email: string | null; createdAt: Date | null }[];
+  sessions: { id: string; ipAddress: string | null; userAgent: string | null; createdAt: Date | null; lastUsedAt: Date | null; revoked: boolean }[];
+  enrolments: { sectionId: string; sectionName: string; role: string; enrolledAt: Date | null }[];
+  submissions: { assignmentId: string; assignmentTitle: string; status: string; score: number | null; feedback: string | null; submittedAt: Date | null }[];
+  activity: { action: string; resourceType: string; resourceId: string | null; organisationId: string | null; ipAddress: string | null; timestamp: Date | null }[];
+}
+
+// API Key Types
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: string[]; // 'resource.action' permission names
+  expiresAt?: Date;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  serviceAccountId: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdBy: string;
+  createdAt: Date | null;
+  revokedAt: Date | null;
+}
+
+// The API key a request was authenticated with
+export interface ApiKeyContext {
+  id: string;
+  prefix: string;
+  organisationId: string;
+}
+
+// Webhook Types
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  events: string[]; // 'user.invited', 'user.*' or '*'
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookRequest extends Partial<Omit<CreateWebhookRequest, 'description'>> {
+  description?: string | null;
+}
+
+// Body POSTed to webhook endpoints
+export interface WebhookPayload {
+  id: string; // audit log id; the same for every delivery and replay of the event
+  event: string;
+  createdAt: string;
+  organisationId: string;
+  data: {
+    actorId?: string;
+    resourceType: string;
+    resourceId?: string;
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+  };
+}
+
+export interface WebhookDeliverySummary {
+  id: string;
+  eventId: string;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  replayOf: string | null;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+// Billing Types
+export type SubscriptionStatus = 'active' | 'past_due' | 'cancelled';
+export type InvoiceStatus = 'open' | 'paid' | 'void';
+
+export interface BillingPlanSummary {
+  code: string;
+  name: string;
+  seatLimit: number | null; // Null when purchased seats are unlimited
+  pricePerSeatCents: number; // Per month
+  currency: string;
+  aiCreditsPerSeat: number; // Added to the organisation's monthly credit pool
+}
+
+// Members and pending invites both take a seat
+export interface SeatUsage {
+  limit: number;
+  members: number;
+  pendingInvites: number;
+  used: number;
+  available: number;
+}
+
+export interface BillingOverview {
+  plan: BillingPlanSummary;
+  status: SubscriptionStatus;
+  seats: SeatUsage;
+  monthlyCostCents: number;
+  monthlyCredits: number;
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+}
+
+export interface ChangePlanRequest {
+  planCode: string;
+  seats: number;
+}
+
+// AI usage of one operation, from the learning app's rate limit log
+export interface UsageLine {
+  operation: string;
+  requests: number;
+  successful: number;
+  users: number;
+  credits: number;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitAmountCents: number;
+  amountCents: number;
+}
+
+// Analytics Types
+export interface AnalyticsViewer {
+  userId: string;
+  canViewAll: boolean; // Holds user.manage: sees every class, not only those they teach
+}
+
+export interface AnalyticsQuery {
+  from: Date;
+  to: Date;
+  sectionId?: string;
+}
+
+export type AnalyticsReport = 'classes' | 'students' | 'at-risk' | 'mastery';
+
+// One learner's activity in the learning app, matched by email
+export interface LearnerStats {
+  email: string;
+  quizzes: number;
+  averageScore: number | null; // Percent
+  lastActivityDate: string | null;
+  currentStreak: number;
+  streakBroken: boolean; // A streak of 3+ days lapsed
+  weakTopics: number;
+  risingWeaknessTopics: number; // Weakness score rose during the period
+}
+
+export interface DailyActiveLearners {
+  date: string;
+  learners: number;
+}
+
+// Learners per strength status for one topic
+export interface TopicMastery {
+  topicId: string;
+  topicName: string;
+  strong: number;
+  moderate: number;
+  weak: number;
+  insufficientData: number;
+}
+
+// A learner's latest result for a quiz or todo, matched by email
+export interface QuizResult {
+  score: number; // Percent
+  correctAnswers: number;
+  totalQuestions: number;
+  completedAt: string;
+}
+
+export interface ClassAnalytics {
+  sectionId: string;
+  sectionName: string;
+  courseId: string;
+  courseName: string;
+  students: number;
+  studentsWithQuizzes: number;
+  quizzes: number;
+  averageScore: number | null; // Percent, over all quizzes taken
+}
+
+export type AtRiskReason = 'weakness_rising' | 'streak_broken';
+
+export interface AtRiskStudent {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  sectionIds: string[];
+  reasons: AtRiskReason[];
+  averageScore: number | null;
+  lastActivityDate: string | null;
+  currentStreak: number;
+  risingWeaknessTopics: number;
+}
+
 // Error Types
 export class AuthenticationError extends Error {
-  constructor(message: string, public code: string = 'AUTH_ERROR') {
+  constructor(message: string, public code: string = 'AUTH_ERROR', public status: number = 400) {
     super(message);
     this.name = 'AuthenticationError';
   }
@@ -131,6 +741,76 @@ export class AuthorizationError extends Error {
   }
 }
 
+export class InviteError extends Error {
+  constructor(message: string, public code: string = 'INVITE_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+export class RoleError extends Error {
+  constructor(message: string, public code: string = 'ROLE_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'RoleError';
+  }
+}
+
+export class OrganisationError extends Error {
+  constructor(message: string, public code: string = 'ORGANISATION_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'OrganisationError';
+  }
+}
+
+export class SsoError extends Error {
+  constructor(message: string, public code: string = 'SSO_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+export class CourseError extends Error {
+  constructor(message: string, public code: string = 'COURSE_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'CourseError';
+  }
+}
+
+export class LtiError extends Error {
+  constructor(message: string, public code: string = 'LTI_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'LtiError';
+  }
+}
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public code: string = 'API_KEY_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public code: string = 'WEBHOOK_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export class BillingError extends Error {
+  constructor(message: string, public code: string = 'BILLING_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+export class AnalyticsError extends Error {
+  constructor(message: string, public code: string = 'ANALYTICS_ERROR', public status: number = 400) {
+    super(message);
+    this.name = 'AnalyticsError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(message: string, public fields: Record<string, string[]>) {
     super('Validation failed');
@@ -148,4 +828,40 @@ export interface AuditEvent {
   newValues?: Record<string, any>;
   metadata?: Record<string, any>;
   organisationId?: string;
+  requestId?: string; // Defaults to the API request being handled
+}
+
+export interface AuditLogFilters {
+  organisationId?: string;
+  actorId?: string;
+  requestId?: string;
+  action?: string; // Exact action, or a prefix such as 'role.*'
+  resourceType?: string;
+  resourceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  cursor?: string; // Opaque, from AuditLogPage.nextCursor
+  limit?: number;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: Date | null;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  oldValues: unknown;
+  newValues: unknown;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  organisationId: string | null;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  nextCursor: string | null;
 }
\ No newline at end of file
@@ -1,5 +1,19 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, inet, jsonb, integer, index, uniqueIndex, check } from 'drizzle-orm/pg-core';
+import { pgTable, AnyPgColumn, uuid, varchar, text, boolean, timestamp, inet, jsonb, integer, bigint, doublePrecision, index, uniqueIndex, check } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
+import type {
+  AccountTokenPurpose,
+  EnrolmentRole,
+  InvoiceLine,
+  InvoiceStatus,
+  LtiTargetType,
+  PendingEnrolment,
+  SsoClaimMapping,
+  SsoRoleMapping,
+  SubscriptionStatus,
+  UsageLine,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from './auth';
 
 // Users table
 export const users = pgTable('users', {
@@ -16,12 +30,17 @@ export const users = pgTable('users', {
   accountLockedUntil: timestamp('account_locked_until', { withTimezone: true }),
   failedLoginAttempts: integer('failed_login_attempts').default(0),
   lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+  tokenVersion: integer('token_version').notNull().default(1),
+  isServiceAccount: boolean('is_service_account').notNull().default(false),
+  deletionRequestedAt: timestamp('deletion_requested_at', { withTimezone: true }),
+  deletionScheduledFor: timestamp('deletion_scheduled_for', { withTimezone: true }), // End of the cooling-off period
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   deletedAt: timestamp('deleted_at', { withTimezone: true }), // Soft delete
 }, (table) => ({
   emailIdx: index('idx_users_email').on(table.email).where(sql`${table.deletedAt} IS NULL`),
   emailVerifiedIdx: index('idx_users_email_verified').on(table.emailVerified).where(sql`${table.deletedAt} IS NULL`),
+  deletionScheduledIdx: index('idx_users_deletion_scheduled_for').on(table.deletionScheduledFor).where(sql`${table.deletionScheduledFor} IS NOT NULL AND ${table.deletedAt} IS NULL`),
 }));
 
 // Organisations table
@@ -31,14 +50,25 @@ export const organisations = pgTable('organisations', {
   slug: varchar('slug', { length: 100 }).notNull().unique(),
   verifiedDomain: varchar('verified_domain', { length: 255 }),
   status: varchar('status', { length: 50 }).default('active').$type<'active' | 'suspended' | 'pending'>(),
+  requireStaffTwoFactor: boolean('require_staff_two_factor').notNull().default(false),
   createdBy: uuid('created_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   deletedAt: timestamp('deleted_at', { withTimezone: true }), // Soft delete
+  deletedBy: uuid('deleted_by').references(() => users.id),
+  purgeAfter: timestamp('purge_after', { withTimezone: true }), // End of the restore window
+  purgedAt: timestamp('purged_at', { withTimezone: true }),
+  domainVerificationToken: varchar('domain_verification_token', { length: 255 }),
+  domainVerifiedAt: timestamp('domain_verified_at', { withTimezone: true }),
+  autoJoinMode: varchar('auto_join_mode', { length: 20 }).notNull().default('disabled').$type<'disabled' | 'automatic' | 'approval'>(),
+  autoJoinRoleId: uuid('auto_join_role_id').references((): AnyPgColumn => roles.id, { onDelete: 'set null' }),
 }, (table) => ({
   slugIdx: index('idx_organisations_slug').on(table.slug).where(sql`${table.deletedAt} IS NULL`),
   createdByIdx: index('idx_organisations_created_by').on(table.createdBy),
+  purgeAfterIdx: index('idx_organisations_purge_after').on(table.purgeAfter).where(sql`${table.deletedAt} IS NOT NULL AND ${table.purgedAt} IS NULL`),
   statusCheck: check('status_check', sql`${table.status} IN ('active', 'suspended', 'pending')`),
+  verifiedDomainUnique: uniqueIndex('organisations_verified_domain_unique').on(table.verifiedDomain).where(sql`${table.domainVerifiedAt} IS NOT NULL AND ${table.deletedAt} IS NULL`),
+  autoJoinModeCheck: check('auto_join_mode_check', sql`${table.autoJoinMode} IN ('disabled', 'automatic', 'approval')`),
 }));
 
 // Roles table
@@ -52,7 +82,7 @@ export const roles = pgTable('roles', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   deletedAt: timestamp('deleted_at', { withTimezone: true }), // Soft delete
 }, (table) => ({
-  nameOrgUnique: uniqueIndex('roles_name_org_unique').on(table.name, table.organisationId),
+  nameOrgUnique: uniqueIndex('roles_name_org_unique').on(table.name, table.organisationId).where(sql`${table.deletedAt} IS NULL`),
   orgIdx: index('idx_roles_organisation_id').on(table.organisationId).where(sql`${table.deletedAt} IS NULL`),
 }));
 
@@ -115,6 +145,15 @@ export const sessions = pgTable('sessions', {
   tokenIdx: index('idx_sessions_refresh_token_hash').on(table.refreshTokenHash).where(sql`NOT ${table.revoked} AND ${table.expiresAt} > NOW()`),
 }));
 
+// Refresh tokens that have already been rotated out of a session
+export const sessionRefreshTokens = pgTable('session_refresh_tokens', {
+  tokenHash: varchar('token_hash', { length: 255 }).primaryKey(),
+  sessionId: uuid('session_id').notNull().references(() => sessions.id, { onDelete: 'cascade' }),
+  rotatedAt: timestamp('rotated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  sessionIdx: index('idx_session_refresh_tokens_session_id').on(table.sessionId),
+}));
+
 // Audit logs table
 export const auditLogs = pgTable('audit_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -128,6 +167,7 @@ export const auditLogs = pgTable('audit_logs', {
   metadata: jsonb('metadata'),
   ipAddress: inet('ip_address'),
   userAgent: text('user_agent'),
+  requestId: varchar('request_id', { length: 128 }),
   timestamp: timestamp('timestamp', { withTimezone: true }).defaultNow(),
   organisationId: uuid('organisation_id').references(() => organisations.id),
 }, (table) => ({
@@ -135,6 +175,7 @@ export const auditLogs = pgTable('audit_logs', {
   resourceIdx: index('idx_audit_logs_resource').on(table.resourceType, table.resourceId),
   timestampIdx: index('idx_audit_logs_timestamp').on(table.timestamp).desc(),
   orgIdx: index('idx_audit_logs_organisation_id').on(table.organisationId),
+  requestIdx: index('idx_audit_logs_request_id').on(table.requestId),
 }));
 
 // Invites table
@@ -145,18 +186,385 @@ export const invites = pgTable('invites', {
   email: varchar('email', { length: 255 }).notNull(),
   roleId: uuid('role_id').notNull().references(() => roles.id),
   tokenHash: varchar('token_hash', { length: 255 }).notNull().unique(),
-  status: varchar('status', { length: 50 }).default('pending').$type<'pending' | 'accepted' | 'expired' | 'cancelled'>(),
+  firstName: varchar('first_name', { length: 100 }),
+  lastName: varchar('last_name', { length: 100 }),
+  sectionEnrolments: jsonb('section_enrolments').notNull().default([]).$type<PendingEnrolment[]>(),
+  status: varchar('status', { length: 50 }).default('pending').$type<'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled'>(),
   expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
   acceptedAt: timestamp('accepted_at', { withTimezone: true }),
   acceptedBy: uuid('accepted_by').references(() => users.id),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
-  orgEmailStatusUnique: uniqueIndex('invites_org_email_status_unique').on(table.organisationId, table.email, table.status),
+  orgEmailPendingUnique: uniqueIndex('invites_org_email_pending_unique').on(table.organisationId, table.email).where(sql`${table.status} = 'pending'`),
   orgIdx: index('idx_invites_organisation_id').on(table.organisationId),
   emailIdx: index('idx_invites_email').on(table.email),
   tokenIdx: index('idx_invites_token_hash').on(table.tokenHash).where(sql`${table.status} = 'pending' AND ${table.expiresAt} > NOW()`),
-  statusCheck: check('status_check', sql`${table.status} IN ('pending', 'accepted', 'expired', 'cancelled')`),
+  statusCheck: check('status_check', sql`${table.status} IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')`),
+}));
+
+// Domain-based requests to join an organisation, awaiting admin review
+export const organisationJoinRequests = pgTable('organisation_join_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: varchar('status', { length: 20 }).notNull().default('pending').$type<'pending' | 'approved' | 'rejected'>(),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgUserPendingUnique: uniqueIndex('organisation_join_requests_pending_unique').on(table.organisationId, table.userId).where(sql`${table.status} = 'pending'`),
+  orgIdx: index('idx_organisation_join_requests_organisation_id').on(table.organisationId, table.status),
+  statusCheck: check('status_check', sql`${table.status} IN ('pending', 'approved', 'rejected')`),
+}));
+
+// OpenID Connect identity provider per organisation
+export const organisationSsoConfigs = pgTable('organisation_sso_configs', {
+  organisationId: uuid('organisation_id').primaryKey().references(() => organisations.id, { onDelete: 'cascade' }),
+  issuer: varchar('issuer', { length: 500 }).notNull(),
+  clientId: varchar('client_id', { length: 255 }).notNull(),
+  clientSecretEncrypted: text('client_secret_encrypted'),
+  scopes: text('scopes').notNull().default('openid email profile'),
+  claimMapping: jsonb('claim_mapping').notNull().default({}).$type<SsoClaimMapping>(),
+  roleMappings: jsonb('role_mappings').notNull().default([]).$type<SsoRoleMapping[]>(),
+  defaultRoleId: uuid('default_role_id').references(() => roles.id, { onDelete: 'set null' }),
+  trustEmailVerified: boolean('trust_email_verified').notNull().default(false),
+  enabled: boolean('enabled').notNull().default(true),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+// Accounts linked to a subject at an external identity provider
+export const userIdentities = pgTable('user_identities', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  issuer: varchar('issuer', { length: 500 }).notNull(),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  email: varchar('email', { length: 255 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+}, (table) => ({
+  issuerSubjectUnique: uniqueIndex('user_identities_issuer_subject_key').on(table.issuer, table.subject),
+  userIdx: index('idx_user_identities_user_id').on(table.userId),
+}));
+
+// In-flight OIDC authorization requests
+export const ssoLoginStates = pgTable('sso_login_states', {
+  state: varchar('state', { length: 255 }).primaryKey(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  nonce: varchar('nonce', { length: 255 }).notNull(),
+  codeVerifier: varchar('code_verifier', { length: 255 }).notNull(),
+  returnTo: text('return_to'),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  expiresIdx: index('idx_sso_login_states_expires_at').on(table.expiresAt),
+}));
+
+// LMS platforms registered for LTI 1.3 launches
+export const ltiPlatforms = pgTable('lti_platforms', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  issuer: varchar('issuer', { length: 500 }).notNull(),
+  clientId: varchar('client_id', { length: 255 }).notNull(),
+  deploymentIds: jsonb('deployment_ids').notNull().default([]).$type<string[]>(),
+  authLoginUrl: text('auth_login_url').notNull(),
+  authTokenUrl: text('auth_token_url').notNull(),
+  authTokenAudience: text('auth_token_audience'),
+  jwksUrl: text('jwks_url').notNull(),
+  enabled: boolean('enabled').notNull().default(true),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  issuerClientUnique: uniqueIndex('lti_platforms_issuer_client_id_key').on(table.issuer, table.clientId),
+  orgIdx: index('idx_lti_platforms_organisation_id').on(table.organisationId),
+}));
+
+// In-flight LTI OIDC login initiations
+export const ltiLoginStates = pgTable('lti_login_states', {
+  state: varchar('state', { length: 255 }).primaryKey(),
+  platformId: uuid('platform_id').notNull().references(() => ltiPlatforms.id, { onDelete: 'cascade' }),
+  nonce: varchar('nonce', { length: 255 }).notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  expiresIdx: index('idx_lti_login_states_expires_at').on(table.expiresAt),
+}));
+
+// LMS placements and the quiz or todo they open
+export const ltiResourceLinks = pgTable('lti_resource_links', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  platformId: uuid('platform_id').notNull().references(() => ltiPlatforms.id, { onDelete: 'cascade' }),
+  resourceLinkId: varchar('resource_link_id', { length: 255 }).notNull(),
+  contextId: varchar('context_id', { length: 255 }),
+  contextTitle: varchar('context_title', { length: 500 }),
+  title: varchar('title', { length: 500 }),
+  targetType: varchar('target_type', { length: 20 }).$type<LtiTargetType>(),
+  targetId: uuid('target_id'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  platformLinkUnique: uniqueIndex('lti_resource_links_platform_id_resource_link_id_key').on(table.platformId, table.resourceLinkId),
+  targetTypeCheck: check('target_type_check', sql`${table.targetType} IN ('quiz', 'todo')`),
+}));
+
+// A user's latest launch of a resource link, including the AGS line item
+export const ltiLaunches = pgTable('lti_launches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  resourceLinkId: uuid('resource_link_id').notNull().references(() => ltiResourceLinks.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  ltiUserId: varchar('lti_user_id', { length: 255 }).notNull(),
+  lineItemUrl: text('line_item_url'),
+  agsScopes: jsonb('ags_scopes').notNull().default([]).$type<string[]>(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  lastLaunchedAt: timestamp('last_launched_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  linkUserUnique: uniqueIndex('lti_launches_resource_link_id_user_id_key').on(table.resourceLinkId, table.userId),
+  userIdx: index('idx_lti_launches_user_id').on(table.userId),
+}));
+
+// Courses offered by an organisation
+export const courses = pgTable('courses', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  code: varchar('code', { length: 50 }),
+  description: text('description'),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+}, (table) => ({
+  orgIdx: index('idx_courses_organisation_id').on(table.organisationId),
+}));
+
+// Class sections: groups of students taking a course
+export const classSections = pgTable('class_sections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  courseId: uuid('course_id').notNull().references(() => courses.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  term: varchar('term', { length: 100 }),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+}, (table) => ({
+  courseIdx: index('idx_class_sections_course_id').on(table.courseId),
+}));
+
+// Teachers and students in a class section
+export const classEnrolments = pgTable('class_enrolments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sectionId: uuid('section_id').notNull().references(() => classSections.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 20 }).notNull().$type<EnrolmentRole>(),
+  enrolledBy: uuid('enrolled_by').notNull().references(() => users.id),
+  enrolledAt: timestamp('enrolled_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  sectionUserUnique: uniqueIndex('class_enrolments_section_id_user_id_key').on(table.sectionId, table.userId),
+  userIdx: index('idx_class_enrolments_user_id').on(table.userId),
+  roleCheck: check('role_check', sql`${table.role} IN ('teacher', 'student')`),
+}));
+
+// Work set for a class section: a topic, a video and a quiz with a due date
+export const assignments = pgTable('assignments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sectionId: uuid('section_id').notNull().references(() => classSections.id, { onDelete: 'cascade' }),
+  title: varchar('title', { length: 255 }).notNull(),
+  instructions: text('instructions'),
+  topicId: uuid('topic_id'),
+  videoId: varchar('video_id', { length: 100 }),
+  videoUrl: text('video_url'),
+  quizId: uuid('quiz_id'),
+  dueAt: timestamp('due_at', { withTimezone: true }),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+}, (table) => ({
+  sectionIdx: index('idx_assignments_section_id').on(table.sectionId),
+}));
+
+// Per-student progress on an assignment
+export const assignmentSubmissions = pgTable('assignment_submissions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  assignmentId: uuid('assignment_id').notNull().references(() => assignments.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: varchar('status', { length: 20 }).notNull().default('in_progress').$type<'in_progress' | 'submitted' | 'graded'>(),
+  score: doublePrecision('score'),
+  feedback: text('feedback'),
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow(),
+  submittedAt: timestamp('submitted_at', { withTimezone: true }),
+  gradedAt: timestamp('graded_at', { withTimezone: true }),
+  gradedBy: uuid('graded_by').references(() => users.id),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  assignmentUserUnique: uniqueIndex('assignment_submissions_assignment_id_user_id_key').on(table.assignmentId, table.userId),
+  userIdx: index('idx_assignment_submissions_user_id').on(table.userId),
+  statusCheck: check('status_check', sql`${table.status} IN ('in_progress', 'submitted', 'graded')`),
+}));
+
+// Outbound webhook subscriptions of an organisation
+export const webhookEndpoints = pgTable('webhook_endpoints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  description: varchar('description', { length: 255 }),
+  events: jsonb('events').notNull().default([]).$type<string[]>(),
+  secretEncrypted: text('secret_encrypted').notNull(),
+  enabled: boolean('enabled').notNull().default(true),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('idx_webhook_endpoints_organisation_id').on(table.organisationId),
+}));
+
+// Each event sent to a webhook endpoint, with the outcome of the last attempt
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  endpointId: uuid('endpoint_id').notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  eventId: uuid('event_id').notNull(),
+  event: varchar('event', { length: 100 }).notNull(),
+  payload: jsonb('payload').notNull().$type<WebhookPayload>(),
+  status: varchar('status', { length: 20 }).notNull().default('pending').$type<WebhookDeliveryStatus>(),
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow(),
+  lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+  responseStatus: integer('response_status'),
+  responseBody: text('response_body'),
+  error: text('error'),
+  replayOf: uuid('replay_of').references((): AnyPgColumn => webhookDeliveries.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+}, (table) => ({
+  endpointIdx: index('idx_webhook_deliveries_endpoint_id').on(table.endpointId, table.createdAt),
+  dueIdx: index('idx_webhook_deliveries_due').on(table.nextAttemptAt).where(sql`${table.status} = 'pending'`),
+  statusCheck: check('status_check', sql`${table.status} IN ('pending', 'succeeded', 'failed')`),
+}));
+
+// Organisation API keys; each acts as its own service account user
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  serviceAccountId: uuid('service_account_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  prefix: varchar('prefix', { length: 20 }).notNull().unique(),
+  keyHash: varchar('key_hash', { length: 255 }).notNull().unique(),
+  scopes: jsonb('scopes').notNull().default([]).$type<string[]>(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  lastUsedIp: inet('last_used_ip'),
+  createdBy: uuid('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => ({
+  orgIdx: index('idx_api_keys_organisation_id').on(table.organisationId),
+}));
+
+// Single-use email verification and password reset tokens
+export const accountTokens = pgTable('account_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: varchar('purpose', { length: 30 }).notNull().$type<AccountTokenPurpose>(),
+  tokenHash: varchar('token_hash', { length: 255 }).notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  requestedIp: inet('requested_ip'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_account_tokens_user_id').on(table.userId, table.purpose),
+  purposeCheck: check('purpose_check', sql`${table.purpose} IN ('email_verification', 'password_reset')`),
+}));
+
+// TOTP two-factor secrets
+export const userTwoFactor = pgTable('user_two_factor', {
+  userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secretEncrypted: text('secret_encrypted').notNull(),
+  enabled: boolean('enabled').default(false),
+  enabledAt: timestamp('enabled_at', { withTimezone: true }),
+  lastUsedStep: bigint('last_used_step', { mode: 'number' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+// Two-factor recovery codes
+export const twoFactorRecoveryCodes = pgTable('two_factor_recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: varchar('code_hash', { length: 255 }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_two_factor_recovery_codes_user_id').on(table.userId).where(sql`${table.usedAt} IS NULL`),
+}));
+
+// Seat plans, priced per seat per month
+export const billingPlans = pgTable('billing_plans', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 50 }).notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull(),
+  seatLimit: integer('seat_limit'), // Null when purchased seats are unlimited
+  pricePerSeatCents: integer('price_per_seat_cents').notNull().default(0),
+  currency: varchar('currency', { length: 3 }).notNull().default('GBP'),
+  aiCreditsPerSeat: integer('ai_credits_per_seat').notNull().default(0),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
+// An organisation's plan and purchased seats; none means the free plan
+export const organisationSubscriptions = pgTable('organisation_subscriptions', {
+  organisationId: uuid('organisation_id').primaryKey().references(() => organisations.id, { onDelete: 'cascade' }),
+  planId: uuid('plan_id').notNull().references(() => billingPlans.id),
+  seats: integer('seats').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('active').$type<SubscriptionStatus>(),
+  currentPeriodStart: timestamp('current_period_start', { withTimezone: true }).notNull(),
+  currentPeriodEnd: timestamp('current_period_end', { withTimezone: true }).notNull(),
+  providerCustomerId: varchar('provider_customer_id', { length: 255 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  periodEndIdx: index('idx_organisation_subscriptions_period_end').on(table.currentPeriodEnd).where(sql`${table.status} <> 'cancelled'`),
+}));
+
+// AI usage of an organisation's members for one billing period
+export const usageStatements = pgTable('usage_statements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+  periodEnd: timestamp('period_end', { withTimezone: true }).notNull(),
+  lines: jsonb('lines').notNull().default([]).$type<UsageLine[]>(),
+  totalRequests: integer('total_requests').notNull().default(0),
+  creditsUsed: integer('credits_used').notNull().default(0),
+  creditsIncluded: integer('credits_included').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  periodIdx: uniqueIndex('usage_statements_organisation_id_period_start_key').on(table.organisationId, table.periodStart),
+}));
+
+// Invoices issued through the payment provider, one per organisation and period
+export const invoices = pgTable('invoices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organisationId: uuid('organisation_id').notNull().references(() => organisations.id, { onDelete: 'cascade' }),
+  statementId: uuid('statement_id').references(() => usageStatements.id, { onDelete: 'set null' }),
+  number: varchar('number', { length: 100 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('open').$type<InvoiceStatus>(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  lines: jsonb('lines').notNull().default([]).$type<InvoiceLine[]>(),
+  totalCents: integer('total_cents').notNull(),
+  periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+  periodEnd: timestamp('period_end', { withTimezone: true }).notNull(),
+  provider: varchar('provider', { length: 50 }).notNull(),
+  providerInvoiceId: varchar('provider_invoice_id', { length: 255 }).notNull(),
+  hostedUrl: text('hosted_url'),
+  issuedAt: timestamp('issued_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  periodIdx: uniqueIndex('invoices_organisation_id_period_start_key').on(table.organisationId, table.periodStart),
+  orgIdx: index('idx_invoices_organisation_id').on(table.organisationId, table.issuedAt),
 }));
 
 // Type exports
@@ -181,8 +589,74 @@ export type NewUserRole = typeof userRoles.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 
+export type SessionRefreshToken = typeof sessionRefreshTokens.$inferSelect;
+export type NewSessionRefreshToken = typeof sessionRefreshTokens.$inferInsert;
+
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 
 export type Invite = typeof invites.$inferSelect;
-export type NewInvite = typeof invites.$inferInsert;
\ No newline at end of file
+export type NewInvite = typeof invites.$inferInsert;
+
+export type OrganisationJoinRequest = typeof organisationJoinRequests.$inferSelect;
+export type NewOrganisationJoinRequest = typeof organisationJoinRequests.$inferInsert;
+
+export type OrganisationSsoConfig = typeof organisationSsoConfigs.$inferSelect;
+export type NewOrganisationSsoConfig = typeof organisationSsoConfigs.$inferInsert;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+
+export type LtiPlatform = typeof ltiPlatforms.$inferSelect;
+export type NewLtiPlatform = typeof ltiPlatforms.$inferInsert;
+
+export type LtiResourceLink = typeof ltiResourceLinks.$inferSelect;
+export type NewLtiResourceLink = typeof ltiResourceLinks.$inferInsert;
+
+export type LtiLaunch = typeof ltiLaunches.$inferSelect;
+export type NewLtiLaunch = typeof ltiLaunches.$inferInsert;
+
+export type Course = typeof courses.$inferSelect;
+export type NewCourse = typeof courses.$inferInsert;
+
+export type ClassSection = typeof classSections.$inferSelect;
+export type NewClassSection = typeof classSections.$inferInsert;
+
+export type ClassEnrolment = typeof classEnrolments.$inferSelect;
+export type NewClassEnrolment = typeof classEnrolments.$inferInsert;
+
+export type Assignment = typeof assignments.$inferSelect;
+export type NewAssignment = typeof assignments.$inferInsert;
+
+export type AssignmentSubmission = typeof assignmentSubmissions.$inferSelect;
+export type NewAssignmentSubmission = typeof assignmentSubmissions.$inferInsert;
+
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type NewAccountToken = typeof accountTokens.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type NewUserTwoFactor = typeof userTwoFactor.$inferInsert;
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type NewTwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferInsert;
+
+export type BillingPlan = typeof billingPlans.$inferSelect;
+export type NewBillingPlan = typeof billingPlans.$inferInsert;
+
+export type OrganisationSubscription = typeof organisationSubscriptions.$inferSelect;
+export type NewOrganisationSubscription = typeof organisationSubscriptions.$inferInsert;
+
+export type UsageStatement = typeof usageStatements.$inferSelect;
+export type NewUsageStatement = typeof usageStatements.$inferInsert;
+
+export type Invoice = typeof invoices.$inferSelect;
+export type NewInvoice = typeof invoices.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// AES-256-GCM for secrets that must be readable again (TOTP seeds, OIDC
+// client secrets). Output is "iv:tag:ciphertext", each part base64.
+
+/**
+ * Derive a 256-bit key from arbitrary key material
+ */
+function deriveKey(keyMaterial: string): Buffer {
+  return createHash('sha256').update(keyMaterial).digest();
+}
+
+export function encryptSecret(plaintext: string, keyMaterial: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(stored: string, keyMaterial: string): string {
+  const [iv, tag, ciphertext] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
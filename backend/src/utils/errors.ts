@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import {
+  AnalyticsError,
+  ApiKeyError,
+  ApiResponse,
+  AuthenticationError,
+  BillingError,
+  CourseError,
+  InviteError,
+  LtiError,
+  OrganisationError,
+  RoleError,
+  SsoError,
+  WebhookError,
+} from '../types/auth';
+
+/**
+ * An error a service throws on purpose, with the code and HTTP status the
+ * client should see
+ */
+export interface ServiceError extends Error {
+  code: string;
+  status: number;
+}
+
+const SERVICE_ERRORS = [
+  AnalyticsError,
+  ApiKeyError,
+  AuthenticationError,
+  BillingError,
+  CourseError,
+  InviteError,
+  LtiError,
+  OrganisationError,
+  RoleError,
+  SsoError,
+  WebhookError,
+];
+
+export function isServiceError(error: unknown): error is ServiceError {
+  return SERVICE_ERRORS.some((ServiceErrorClass) => error instanceof ServiceErrorClass);
+}
+
+/**
+ * Message of a caught value, which need not be an Error
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Answer with a service error's own code and status, or a 500 with the
+ * fallback code for anything unexpected
+ */
+export function sendServiceError(
+  res: Response<ApiResponse>,
+  error: unknown,
+  fallbackCode: string,
+  fallbackMessage: string
+): void {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: fallbackCode,
+      message: errorMessage(error, fallbackMessage),
+    },
+  });
+}
@@ -0,0 +1,49 @@
+const HTTP_TIMEOUT_MS = 15000;
+
+/**
+ * The learning app (Supabase) holds quizzes, topic performance and AI usage.
+ * The backend reaches it through edge functions that only accept the service
+ * role key.
+ */
+export interface LearningAppConfig {
+  url: string;
+  serviceRoleKey: string;
+}
+
+/**
+ * Read SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; `feature` names what needs
+ * them in the error message
+ */
+export function learningAppConfigFromEnv(feature: string): LearningAppConfig {
+  const url = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    throw new Error(`SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables are required for ${feature}`);
+  }
+  return { url, serviceRoleKey };
+}
+
+/**
+ * POST a JSON body to an edge function and return its JSON response
+ */
+export async function callLearningAppFunction<T = unknown>(
+  config: LearningAppConfig,
+  name: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(`${config.url.replace(/\/+$/, '')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${name} returned HTTP ${response.status}`);
+  }
+  return await response.json() as T;
+}
@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+import winston from 'winston';
+
+export interface RequestContext {
+  requestId: string;
+  request: Request;
+}
+
+/**
+ * The request being handled, set by the requestContext middleware for the
+ * rest of that request's async work
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * ID of the request being handled, if any
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Node system errors and this API's own errors carry a code
+type CodedError = Error & { code?: unknown };
+
+function serializeError(error: CodedError): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.code ? { code: error.code } : {}),
+    stack: error.stack,
+  };
+}
+
+// Adds the request, user and organisation to every entry logged during a request
+const withRequestContext = winston.format(info => {
+  const context = requestContext.getStore();
+  if (context) {
+    info.requestId = info.requestId || context.requestId;
+    info.userId = info.userId || context.request.user?.id;
+    info.organisationId = info.organisationId
+      || context.request.user?.organisationId
+      || context.request.params?.organisationId;
+  }
+
+  // Error properties are not enumerable, so JSON would drop them
+  if (info.error instanceof Error) {
+    info.error = serializeError(info.error);
+  }
+  return info;
+});
+
+/**
+ * Structured JSON logger. LOG_LEVEL sets the minimum level (default info);
+ * tests are silent unless LOG_LEVEL is set.
+ */
+export const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  silent: process.env.NODE_ENV === 'test' && !process.env.LOG_LEVEL,
+  defaultMeta: { service: 'edurank-auth-backend' },
+  format: winston.format.combine(
+    withRequestContext(),
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [new winston.transports.Console()],
+});
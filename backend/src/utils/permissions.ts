@@ -0,0 +1,15 @@
+// Only the seeded system roles carry these; no one can grant them to a role or key
+export const UNGRANTABLE_PERMISSIONS = ['system.admin'];
+
+/**
+ * Whether a permission list covers a 'resource.action' permission. Same
+ * matching as the authorize middleware: exact, 'resource.*', '*.action' or
+ * '*.*'
+ */
+export function holdsPermission(held: string[], permission: string): boolean {
+  const [resource, action] = permission.split('.');
+  return held.includes(permission)
+    || held.includes(`${resource}.*`)
+    || held.includes(`*.${action}`)
+    || held.includes('*.*');
+}
@@ -0,0 +1,59 @@
+import { Fragment, type ReactNode } from 'react';
+
+interface MarkdownNotesProps {
+  content: string;
+  streaming?: boolean;
+}
+
+// **bold** and `code` within a line
+const renderInline = (text: string): ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*|`[^`]+`)/g).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={index} className="px-1 rounded bg-muted text-xs">{part.slice(1, -1)}</code>;
+    }
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+
+/**
+ * Renders the markdown the notes generator produces (headings, lists, bold),
+ * line by line, so partial notes can be shown while they stream in
+ */
+const MarkdownNotes = ({ content, streaming = false }: MarkdownNotesProps) => {
+  const lines = content.split('\n');
+
+  return (
+    <div className="space-y-2 text-sm">
+      {lines.map((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('```')) return null;
+
+        const heading = trimmed.match(/^(#{1,4})\s+(.*)$/);
+        if (heading) {
+          return heading[1].length <= 2 ? (
+            <h3 key={index} className="font-semibold text-base pt-2">{renderInline(heading[2])}</h3>
+          ) : (
+            <h4 key={index} className="font-medium pt-1">{renderInline(heading[2])}</h4>
+          );
+        }
+
+        const bullet = trimmed.match(/^(?:[-*•]|\d+[.)])\s+(.*)$/);
+        if (bullet) {
+          return (
+            <div key={index} className="flex gap-2 pl-1">
+              <span className="text-primary">•</span>
+              <p>{renderInline(bullet[1])}</p>
+            </div>
+          );
+        }
+
+        return <p key={index} className="text-muted-foreground">{renderInline(trimmed)}</p>;
+      })}
+      {streaming && <span className="inline-block w-2 h-4 bg-primary animate-pulse align-middle" />}
+    </div>
+  );
+};
+
+export default MarkdownNotes;
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Download, Loader2, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+interface ExportJob {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+  createdAt: string;
+  expiresAt: string | null;
+  downloadUrl: string | null;
+}
+
+interface PendingDeletion {
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+});
+
+const DataPrivacyPanel = () => {
+  const [exportJob, setExportJob] = useState<ExportJob | null>(null);
+  const [deletion, setDeletion] = useState<PendingDeletion | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [updatingDeletion, setUpdatingDeletion] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const [exportResult, deletionResult] = await Promise.all([
+        supabase.functions.invoke('export-user-data', { body: { action: 'latest' } }),
+        supabase.functions.invoke('delete-account', { body: { action: 'status' } }),
+      ]);
+
+      if (exportResult.error) throw exportResult.error;
+      if (deletionResult.error) throw deletionResult.error;
+
+      setExportJob(exportResult.data?.job ?? null);
+      setDeletion(deletionResult.data?.deletion ?? null);
+    } catch (error) {
+      console.error('Error loading privacy status:', error);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('export-user-data', {
+        body: { action: 'create' },
+      });
+
+      if (error) throw error;
+
+      setExportJob(data.job);
+      if (data.job?.downloadUrl) {
+        window.location.assign(data.job.downloadUrl);
+        toast.success('Your data export is ready');
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Failed to export your data. You can request one export per hour.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDeletion = async (action: 'request' | 'cancel') => {
+    setUpdatingDeletion(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('delete-account', {
+        body: { action },
+      });
+
+      if (error) throw error;
+
+      setDeletion(data.deletion);
+      toast.success(action === 'request'
+        ? `Your account will be deleted on ${formatDate(data.deletion.scheduledFor)}`
+        : 'Account deletion cancelled');
+    } catch (error) {
+      console.error('Error updating account deletion:', error);
+      toast.error('Failed to update account deletion');
+    } finally {
+      setUpdatingDeletion(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 ml-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm">Download your data</p>
+          <p className="text-xs text-muted-foreground">
+            {exportJob?.status === 'completed' && exportJob.expiresAt
+              ? `Last export available until ${formatDate(exportJob.expiresAt)}`
+              : 'Profile, notes, quizzes, results, mastery, chats and achievements as JSON files in a ZIP'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {exportJob?.downloadUrl && (
+            <Button variant="ghost" size="sm" asChild>
+              <a href={exportJob.downloadUrl}>Download</a>
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            {!exporting && 'Export'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm">Delete account</p>
+          <p className="text-xs text-muted-foreground">
+            {deletion
+              ? `Scheduled for ${formatDate(deletion.scheduledFor)}. You can cancel until then.`
+              : 'Permanently removes your data after a cooling-off period'}
+          </p>
+        </div>
+        {deletion ? (
+          <Button variant="outline" size="sm" onClick={() => handleDeletion('cancel')} disabled={updatingDeletion}>
+            {updatingDeletion ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+            {!updatingDeletion && 'Cancel deletion'}
+          </Button>
+        ) : (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm" disabled={updatingDeletion}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your todos, notes, quizzes, results, chats and achievements will be permanently deleted
+                  after a cooling-off period, and your leaderboard entry will be anonymised. You can cancel
+                  from this page until then. Consider exporting your data first.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep account</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handleDeletion('request')}>
+                  Delete account
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataPrivacyPanel;
@@ -0,0 +1,39 @@
+import createClient, { type Middleware } from 'openapi-fetch';
+import type { paths } from './schema';
+
+// Types in ./schema.d.ts are generated from backend/openapi.json:
+// run `npm run openapi` in backend/ after changing routes, then `npm run api:types`.
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+let accessToken: string | null = null;
+
+/**
+ * Set the backend access token sent as a Bearer token with every request
+ * (null to stop sending one, e.g. after logout)
+ */
+export function setBackendAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+const authMiddleware: Middleware = {
+  onRequest({ request }) {
+    if (accessToken && !request.headers.has('Authorization')) {
+      request.headers.set('Authorization', `Bearer ${accessToken}`);
+    }
+    return request;
+  },
+};
+
+// Import the backend client like this:
+// import { backend } from "@/integrations/backend/client";
+// const { data, error } = await backend.POST("/api/auth/login", { body: { email, password } });
+
+export const backend = createClient<paths>({
+  baseUrl: BACKEND_URL,
+  credentials: 'include',
+});
+
+backend.use(authMiddleware);
+
+export type { paths };
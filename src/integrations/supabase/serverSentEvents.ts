@@ -0,0 +1,61 @@
+export interface StreamEvent {
+  event: string;
+  data: unknown; // Parsed JSON, or the raw text when it is not JSON
+}
+
+/**
+ * Parse complete server-sent events from the buffer and return the
+ * unfinished remainder
+ */
+export function parseEvents(buffer: string, onEvent: (event: StreamEvent) => void): string {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (data.length === 0) continue;
+
+    const text = data.join('\n');
+    let payload: unknown = text;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      // Plain text data
+    }
+    onEvent({ event, data: payload });
+  }
+  return rest;
+}
+
+/**
+ * Read server-sent events from a response body until it ends, calling
+ * onEvent for each. The body is cancelled if onEvent throws.
+ */
+export async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  // Read the body itself rather than a piped stream, so cancelling the
+  // reader reaches the connection
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // A character may be split across chunks
+      buffer = parseEvents(buffer + decoder.decode(value, { stream: true }), onEvent);
+    }
+    parseEvents(`${buffer}${decoder.decode()}\n\n`, onEvent);
+  } finally {
+    // Closes the connection if onEvent threw part way through
+    await reader.cancel().catch(() => undefined);
+  }
+}
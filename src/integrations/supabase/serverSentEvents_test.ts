@@ -0,0 +1,66 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseEvents, readEvents, type StreamEvent } from "./serverSentEvents.ts";
+
+function streamOf(chunks: Uint8Array[], onCancel: () => void = () => undefined): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) controller.enqueue(chunk);
+      else controller.close();
+    },
+    cancel: onCancel,
+  });
+}
+
+Deno.test("complete events are parsed and the unfinished remainder returned", () => {
+  const events: StreamEvent[] = [];
+
+  const rest = parseEvents(
+    'event: delta\ndata: {"text":"# Notes"}\n\n: keep-alive\n\ndata: plain text\r\n\r\nevent: done\ndata: {"sav',
+    (event) => events.push(event)
+  );
+
+  assertEquals(events, [
+    { event: 'delta', data: { text: '# Notes' } },
+    { event: 'message', data: 'plain text' },
+  ]);
+  assertEquals(rest, 'event: done\ndata: {"sav');
+});
+
+Deno.test("data lines of one event are joined with newlines", () => {
+  const events: StreamEvent[] = [];
+
+  parseEvents('data: first\ndata: second\n\n', (event) => events.push(event));
+
+  assertEquals(events, [{ event: 'message', data: 'first\nsecond' }]);
+});
+
+Deno.test("events split across chunks, even inside a character, are read whole", async () => {
+  const bytes = new TextEncoder().encode('event: delta\ndata: {"text":"½ + ¼"}\n\nevent: done\ndata: {"saved":true}');
+  const chunks = [bytes.slice(0, 10), bytes.slice(10, 30), bytes.slice(30)];
+  const events: StreamEvent[] = [];
+
+  await readEvents(streamOf(chunks), (event) => events.push(event));
+
+  // The last event has no blank line after it but still counts once the body ends
+  assertEquals(events, [
+    { event: 'delta', data: { text: '½ + ¼' } },
+    { event: 'done', data: { saved: true } },
+  ]);
+});
+
+Deno.test("the body is cancelled when the handler throws", async () => {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const body = streamOf(
+    [encoder.encode('event: delta\ndata: {"text":"a"}\n\n'), encoder.encode('event: delta\ndata: {"text":"b"}\n\n')],
+    () => { cancelled = true; }
+  );
+
+  await assertRejects(
+    () => readEvents(body, () => { throw new Error('Component unmounted'); }),
+    Error,
+    'Component unmounted'
+  );
+  assert(cancelled);
+});
@@ -0,0 +1,52 @@
+import { supabase } from './client';
+import { readEvents, type StreamEvent } from './serverSentEvents';
+
+export type { StreamEvent } from './serverSentEvents';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export class StreamFunctionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'StreamFunctionError';
+  }
+}
+
+// Import like this:
+// import { streamFunction } from "@/integrations/supabase/streamFunction";
+// await streamFunction('generate-notes', { ...body, stream: true }, ({ event, data }) => { ... }, controller.signal);
+
+/**
+ * Call an edge function that answers with server-sent events, calling
+ * onEvent for each event. Aborting the signal closes the connection, which
+ * cancels the function's work.
+ */
+export async function streamFunction(
+  name: string,
+  body: Record<string, unknown>,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      apikey: SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  // Errors before streaming starts come back as JSON
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new StreamFunctionError(payload.error || `Request failed with status ${response.status}`, response.status);
+  }
+
+  await readEvents(response.body, onEvent);
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, User, Coins, RefreshCw, Loader2, Trophy, Award, TrendingUp, Camera, Settings, Bell, Shield, Palette } from 'lucide-react';
+import { ArrowLeft, User, Coins, RefreshCw, Loader2, Trophy, Award, TrendingUp, Camera, Settings, Bell, Shield, Palette, Database } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -13,6 +13,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import AchievementsPanel from '@/components/achievements/AchievementsPanel';
 import ImprovementChart from '@/components/ImprovementChart';
+import DataPrivacyPanel from '@/components/profile/DataPrivacyPanel';
 
 interface UserCredits {
   credits_remaining: number;
@@ -343,6 +344,17 @@ const Profile = () => {
 
             <Separator />
 
+            {/* Your data */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <Database className="h-5 w-5 text-primary" />
+                <h3 className="font-medium">Your Data</h3>
+              </div>
+              <DataPrivacyPanel />
+            </div>
+
+            <Separator />
+
             {/* Appearance */}
             <div className="space-y-4">
               <div className="flex items-center gap-3">
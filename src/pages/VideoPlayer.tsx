@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import YouTube, { YouTubeEvent, YouTubePlayer } from 'react-youtube';
 import {
@@ -10,14 +10,17 @@ import {
   CheckCircle,
   AlertCircle,
   User,
+  Square,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import Logo from '@/components/Logo';
 import { supabase } from '@/integrations/supabase/client';
+import { streamFunction } from '@/integrations/supabase/streamFunction';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAchievements } from '@/hooks/useAchievements';
 import SubtasksSidebar from '@/components/SubtasksSidebar';
+import MarkdownNotes from '@/components/MarkdownNotes';
 
 interface Todo {
   id: string;
@@ -54,6 +57,8 @@ const VideoPlayer = () => {
   const [showNotes, setShowNotes] = useState(false);
   const [isGeneratingNotes, setIsGeneratingNotes] = useState(false);
   const [notes, setNotes] = useState<string[]>([]);
+  const [streamedNotes, setStreamedNotes] = useState('');
+  const notesAbortRef = useRef<AbortController | null>(null);
   const [todo, setTodo] = useState<Todo | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastSavedProgress, setLastSavedProgress] = useState(0);
@@ -66,6 +71,9 @@ const VideoPlayer = () => {
     }
   }, [todoId, user]);
 
+  // Stop generating notes when leaving the page
+  useEffect(() => () => notesAbortRef.current?.abort(), []);
+
   const fetchTodoAndProgress = async () => {
     try {
       // Fetch todo
@@ -225,10 +233,18 @@ const VideoPlayer = () => {
     setIsGeneratingNotes(true);
     setShowNotes(true);
 
+    const controller = new AbortController();
+    notesAbortRef.current = controller;
+    setStreamedNotes('');
+
     try {
-      // Call server-side Supabase Edge Function to generate notes (uses bytez.js SDK server-side)
-      const { data, error } = await supabase.functions.invoke('generate-notes', {
-        body: {
+      // Notes stream in as markdown over server-sent events and are saved once complete
+      let generatedText = '';
+      let result: { saved?: boolean; error?: string } | null = null;
+
+      await streamFunction(
+        'generate-notes',
+        {
           videoTitle: todo.title || 'Study Material',
           videoId: todo.video_id,
           todoId,
@@ -238,66 +254,50 @@ const VideoPlayer = () => {
           topic: '',
           notesStyle: 'exam-oriented',
           difficulty: 'medium',
+          stream: true,
         },
-      });
-
-      if (error) {
-        console.error('Function invoke error:', error);
-        throw error;
-      }
-
-      // If the function returned notes even when saving failed, prefer those
-      const resp = data || {};
-      let generatedRaw: any = resp.notes ?? resp;
-
-      // Normalize different shapes (string, object with role/content, JSON string)
-      let generatedText = '';
-      try {
-        if (!generatedRaw) {
-          generatedText = '';
-        } else if (typeof generatedRaw === 'string') {
-          // Might be JSON string or plain markdown
-          try {
-            const parsed = JSON.parse(generatedRaw);
-            generatedText = parsed.notes || parsed.notes_text || parsed?.notes?.content || generatedRaw;
-          } catch (e) {
-            generatedText = generatedRaw;
+        ({ event, data }) => {
+          const payload = data as { text?: string; saved?: boolean; error?: string; status?: number };
+          if (event === 'delta') {
+            generatedText += payload.text ?? '';
+            setStreamedNotes(generatedText);
+          } else if (event === 'done') {
+            result = payload;
+          } else if (event === 'error') {
+            throw Object.assign(new Error(payload.error), { status: payload.status });
           }
-        } else if (typeof generatedRaw === 'object') {
-          if (generatedRaw.role && generatedRaw.content) generatedText = generatedRaw.content;
-          else if (generatedRaw.notes) generatedText = typeof generatedRaw.notes === 'string' ? generatedRaw.notes : JSON.stringify(generatedRaw.notes);
-          else generatedText = JSON.stringify(generatedRaw);
-        } else {
-          generatedText = String(generatedRaw);
-        }
-      } catch (e) {
-        console.error('Failed to normalize notes response:', e);
-        generatedText = '';
-      }
+        },
+        controller.signal
+      );
 
-      if (!generatedText) {
-        if (resp?.error) throw new Error(resp.error);
+      if (!result || !generatedText.trim()) {
         throw new Error('No notes returned from server');
       }
 
-      const noteLines = (generatedText || '').split('\n').filter((n: string) => n.trim());
+      const noteLines = generatedText.split('\n').filter((n: string) => n.trim());
       setNotes(noteLines);
 
-      if (resp.saved === false) {
+      const { saved, error: saveError } = result;
+      if (saved === false) {
         toast.success('✨ AI Notes generated (not saved).');
-        console.warn('Notes were generated but failed to save:', resp.error || 'unknown');
+        console.warn('Notes were generated but failed to save:', saveError || 'unknown');
       } else {
         toast.success('✨ AI Notes generated successfully!');
         // Track achievement
         trackNotesGenerated();
       }
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        setShowNotes(false);
+        toast.info('Notes generation cancelled.');
+        return;
+      }
       console.error('Error generating notes:', error);
       
       const errorMsg = error?.message?.toLowerCase() || '';
-      if (errorMsg.includes('429') || errorMsg.includes('rate limit')) {
+      if (error?.status === 429 || errorMsg.includes('429') || errorMsg.includes('rate limit')) {
         toast.error('Rate limit exceeded. Please try again later.');
-      } else if (errorMsg.includes('402') || errorMsg.includes('credit')) {
+      } else if (error?.status === 402 || errorMsg.includes('402') || errorMsg.includes('credit')) {
         toast.error('Please add credits to continue using AI features.');
       } else if (errorMsg.includes('network') || errorMsg.includes('fetch')) {
         toast.error('Network error. Please check your internet connection.');
@@ -305,10 +305,16 @@ const VideoPlayer = () => {
         toast.error('Failed to generate notes. Please try again.');
       }
     } finally {
+      notesAbortRef.current = null;
+      setStreamedNotes('');
       setIsGeneratingNotes(false);
     }
   };
 
+  const handleCancelNotes = () => {
+    notesAbortRef.current?.abort();
+  };
+
   const opts = {
     width: '100%',
     height: '100%',
@@ -461,10 +467,20 @@ const VideoPlayer = () => {
 
             <div className="p-4 space-y-3 max-h-[60vh] lg:max-h-[calc(100vh-200px)] overflow-y-auto">
               {isGeneratingNotes ? (
-                <div className="flex flex-col items-center justify-center py-12">
-                  <Loader2 className="h-8 w-8 text-primary animate-spin mb-4" />
-                  <p className="text-muted-foreground">Generating AI notes...</p>
-                </div>
+                <>
+                  {streamedNotes ? (
+                    <MarkdownNotes content={streamedNotes} streaming />
+                  ) : (
+                    <div className="flex flex-col items-center justify-center py-12">
+                      <Loader2 className="h-8 w-8 text-primary animate-spin mb-4" />
+                      <p className="text-muted-foreground">Generating AI notes...</p>
+                    </div>
+                  )}
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleCancelNotes}>
+                    <Square className="h-3 w-3 mr-2" />
+                    Stop generating
+                  </Button>
+                </>
               ) : (
                 notes.slice(0, 15).map((note, index) => (
                   <div
@@ -0,0 +1,366 @@
+/**
+ * AI text generation for edge functions
+ *
+ * generateText routes a task to its models (bytezModels.ts), tries them in
+ * order with per-attempt timeouts and jittered retries, and reports which
+ * model answered with its token usage and latency. generateJSON adds schema
+ * validation, asking the model to repair invalid replies; streamText passes
+ * text on as it arrives.
+ */
+
+import { AITask, getModelRoute } from "./bytezModels.ts";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatMessage,
+  createAIProviderFromEnv,
+  TokenUsage,
+} from "./aiProvider.ts";
+import { parseModelJSON, type Validator } from "./aiSchemas.ts";
+
+export type { AITask } from "./bytezModels.ts";
+export type { ChatMessage } from "./aiProvider.ts";
+
+export interface GenerateOptions {
+  temperature?: number; // Defaults to the task's route
+  maxTokens?: number;
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Per model, for retryable errors
+  provider?: AIProvider; // Defaults to AI_PROVIDER
+}
+
+export interface AIAttempt {
+  model: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface AIResult {
+  content: string;
+  task: AITask;
+  provider: string;
+  model: string; // The model that answered
+  usage: TokenUsage;
+  latencyMs: number; // Including failed attempts and backoff
+  attempts: AIAttempt[];
+}
+
+export interface StreamOptions extends GenerateOptions {
+  signal?: AbortSignal; // Cancels the stream, e.g. when the client disconnects
+}
+
+export interface GenerateJSONOptions extends GenerateOptions {
+  repairs?: number; // Re-asks after an invalid reply
+}
+
+export interface AIJSONResult<T> extends AIResult {
+  value: T;
+  rounds: number; // Model replies, including the repaired ones
+}
+
+/**
+ * The model kept replying with output that does not match the schema
+ */
+export class AIOutputError extends Error {
+  status = 502;
+
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'AIOutputError';
+  }
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_REPAIRS = 2;
+const MAX_REPORTED_ERRORS = 10;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 4000;
+// Stay well inside the edge function wall-clock limit
+const TOTAL_BUDGET_MS = 120000;
+const MIN_ATTEMPT_MS = 2000;
+
+// Problems with the account rather than the model; no other model will help
+const FATAL_STATUSES = [401, 402, 403];
+
+let defaultProvider: AIProvider | undefined;
+
+function getDefaultProvider(): AIProvider {
+  if (!defaultProvider) {
+    defaultProvider = createAIProviderFromEnv();
+  }
+  return defaultProvider;
+}
+
+// Full jitter: a random delay up to the exponential backoff for this retry
+function backoffDelay(retry: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** retry);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function logCall(task: AITask, provider: string, attempts: AIAttempt[], latencyMs: number, result?: AIResult): void {
+  const entry = {
+    event: 'ai_call',
+    task,
+    provider,
+    ok: Boolean(result),
+    model: result?.model ?? null,
+    attempts: attempts.length,
+    failedModels: [...new Set(attempts.filter((a) => !a.ok).map((a) => a.model))],
+    latencyMs,
+    ...(result?.usage ?? {}),
+  };
+
+  if (result) {
+    console.log(JSON.stringify(entry));
+  } else {
+    console.error(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Generate text for a task. Throws the last provider error when every model
+ * fails, or straight away for authentication and payment errors.
+ */
+export async function generateText(
+  task: AITask,
+  messages: ChatMessage[],
+  options: GenerateOptions = {}
+): Promise<AIResult> {
+  const route = getModelRoute(task);
+  const provider = options.provider ?? getDefaultProvider();
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const attempts: AIAttempt[] = [];
+  const startedAt = Date.now();
+  let lastError: AIProviderError | undefined;
+
+  for (const model of route.models) {
+    for (let retry = 0; retry <= retries; retry++) {
+      if (retry > 0) {
+        await sleep(backoffDelay(retry - 1));
+      }
+
+      const remainingMs = TOTAL_BUDGET_MS - (Date.now() - startedAt);
+      if (remainingMs < MIN_ATTEMPT_MS) break;
+
+      const attemptStartedAt = Date.now();
+      try {
+        const completion = await provider.complete({
+          task,
+          model,
+          messages,
+          temperature: options.temperature ?? route.temperature,
+          maxTokens: options.maxTokens ?? route.maxTokens,
+          signal: AbortSignal.timeout(Math.min(options.timeoutMs ?? route.timeoutMs, remainingMs)),
+        });
+
+        if (!completion.content.trim()) {
+          // Not retried: the same model tends to answer empty again
+          throw new AIProviderError(`${model} returned no content`);
+        }
+
+        attempts.push({ model, ok: true, latencyMs: Date.now() - attemptStartedAt });
+        const latencyMs = Date.now() - startedAt;
+        const result: AIResult = {
+          content: completion.content,
+          task,
+          provider: provider.name,
+          model,
+          usage: completion.usage,
+          latencyMs,
+          attempts,
+        };
+
+        logCall(task, provider.name, attempts, latencyMs, result);
+        return result;
+      } catch (error) {
+        // Unexpected errors (e.g. a timeout while reading the body) are treated as transient
+        lastError = error instanceof AIProviderError
+          ? error
+          : new AIProviderError(error instanceof Error ? error.message : String(error), undefined, true);
+
+        attempts.push({
+          model,
+          ok: false,
+          status: lastError.status,
+          error: lastError.message,
+          latencyMs: Date.now() - attemptStartedAt,
+        });
+
+        if (lastError.status !== undefined && FATAL_STATUSES.includes(lastError.status)) {
+          logCall(task, provider.name, attempts, Date.now() - startedAt);
+          throw lastError;
+        }
+        if (!lastError.retryable) break;
+      }
+    }
+  }
+
+  logCall(task, provider.name, attempts, Date.now() - startedAt);
+  throw lastError ?? new AIProviderError(`No models available for ${task}`);
+}
+
+/**
+ * Generate JSON for a task and validate it. An invalid reply is sent back to
+ * the model with the problems found, up to `repairs` times, before giving up
+ * with an AIOutputError.
+ */
+export async function generateJSON<T>(
+  task: AITask,
+  messages: ChatMessage[],
+  validate: Validator<T>,
+  options: GenerateJSONOptions = {}
+): Promise<AIJSONResult<T>> {
+  const repairs = options.repairs ?? DEFAULT_REPAIRS;
+  const conversation = [...messages];
+  let errors: string[] = [];
+
+  for (let round = 1; round <= repairs + 1; round++) {
+    const result = await generateText(task, conversation, options);
+
+    let data: unknown;
+    try {
+      data = parseModelJSON(result.content);
+    } catch {
+      data = undefined;
+    }
+
+    const validation = data === undefined
+      ? { ok: false as const, errors: ['The reply is not valid JSON'] }
+      : validate(data);
+
+    if (validation.ok) {
+      return { ...result, value: validation.value, rounds: round };
+    }
+
+    errors = validation.errors.slice(0, MAX_REPORTED_ERRORS);
+    console.error(JSON.stringify({ event: 'ai_output_invalid', task, model: result.model, round, errors }));
+
+    conversation.push(
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: `Your reply does not match the required format:\n${errors.map((error) => `- ${error}`).join('\n')}\n\nReply again with ONLY the corrected JSON, no markdown and no commentary.`,
+      }
+    );
+  }
+
+  throw new AIOutputError(`The AI returned invalid ${task} output. Please try again.`, errors);
+}
+
+/**
+ * Stream text for a task, calling onDelta with each piece as it arrives.
+ * Retries and fallback to the next model only happen before the first piece;
+ * after that a failure ends the stream. The route timeout is the wait for the
+ * first piece. Providers without streaming send the whole text as one piece.
+ */
+export async function streamText(
+  task: AITask,
+  messages: ChatMessage[],
+  onDelta: (text: string) => void,
+  options: StreamOptions = {}
+): Promise<AIResult> {
+  const route = getModelRoute(task);
+  const provider = options.provider ?? getDefaultProvider();
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const attempts: AIAttempt[] = [];
+  const startedAt = Date.now();
+  let lastError: AIProviderError | undefined;
+  let streamed = false;
+
+  for (const model of route.models) {
+    for (let retry = 0; retry <= retries; retry++) {
+      if (retry > 0) {
+        await sleep(backoffDelay(retry - 1));
+      }
+
+      const remainingMs = TOTAL_BUDGET_MS - (Date.now() - startedAt);
+      if (remainingMs < MIN_ATTEMPT_MS || options.signal?.aborted) break;
+
+      const attemptStartedAt = Date.now();
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+      const budgetTimer = setTimeout(onAbort, remainingMs);
+      const firstDeltaTimer = setTimeout(onAbort, options.timeoutMs ?? route.timeoutMs);
+
+      const request = {
+        task,
+        model,
+        messages,
+        temperature: options.temperature ?? route.temperature,
+        maxTokens: options.maxTokens ?? route.maxTokens,
+        signal: controller.signal,
+      };
+      const forward = (text: string) => {
+        if (!streamed) {
+          streamed = true;
+          clearTimeout(firstDeltaTimer);
+        }
+        onDelta(text);
+      };
+
+      try {
+        const completion = provider.stream
+          ? await provider.stream(request, forward)
+          : await provider.complete(request);
+
+        if (!completion.content.trim()) {
+          throw new AIProviderError(`${model} returned no content`);
+        }
+        if (!provider.stream) {
+          forward(completion.content);
+        }
+
+        attempts.push({ model, ok: true, latencyMs: Date.now() - attemptStartedAt });
+        const latencyMs = Date.now() - startedAt;
+        const result: AIResult = {
+          content: completion.content,
+          task,
+          provider: provider.name,
+          model,
+          usage: completion.usage,
+          latencyMs,
+          attempts,
+        };
+
+        logCall(task, provider.name, attempts, latencyMs, result);
+        return result;
+      } catch (error) {
+        lastError = error instanceof AIProviderError
+          ? error
+          : new AIProviderError(error instanceof Error ? error.message : String(error), undefined, true);
+
+        attempts.push({
+          model,
+          ok: false,
+          status: lastError.status,
+          error: lastError.message,
+          latencyMs: Date.now() - attemptStartedAt,
+        });
+
+        // The client already has part of this answer, so another model cannot take over
+        const fatal = lastError.status !== undefined && FATAL_STATUSES.includes(lastError.status);
+        if (streamed || fatal || options.signal?.aborted) {
+          logCall(task, provider.name, attempts, Date.now() - startedAt);
+          throw lastError;
+        }
+        if (!lastError.retryable) break;
+      } finally {
+        clearTimeout(budgetTimer);
+        clearTimeout(firstDeltaTimer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  logCall(task, provider.name, attempts, Date.now() - startedAt);
+  if (options.signal?.aborted) {
+    throw new AIProviderError(`${task} stream cancelled`);
+  }
+  throw lastError ?? new AIProviderError(`No models available for ${task}`);
+}
@@ -0,0 +1,308 @@
+/**
+ * AI providers for edge functions
+ *
+ * A provider turns one chat completion request for one model into text and
+ * token counts. Routing, fallback, retries and accounting live in ai.ts.
+ */
+
+import type { AITask } from "./bytezModels.ts";
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: AITask;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface Completion {
+  content: string;
+  usage: TokenUsage;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<Completion>;
+  // Like complete, calling onDelta with each piece of text as it arrives
+  stream?(request: CompletionRequest, onDelta: (text: string) => void): Promise<Completion>;
+}
+
+/**
+ * A failed completion. Retryable errors (rate limits, timeouts, 5xx) are
+ * retried and then fall through to the next model; the others stop the call.
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public status?: number, public retryable: boolean = false) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+// Rough estimate for providers that do not report usage (about 4 characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Any OpenAI-compatible /chat/completions API (Bytez, OpenAI, OpenRouter,
+ * a local vLLM or Ollama server)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || '';
+
+    return { content, usage: this.usage(request, content, data.usage) };
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<Completion> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new AIProviderError(`${this.name} returned no stream`, undefined, true);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let content = '';
+    let reportedUsage: Record<string, number> | undefined;
+
+    // Server-sent events: "data: {...}" lines, ending with "data: [DONE]"
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        try {
+          const chunk = JSON.parse(data);
+          const text: string = chunk.choices?.[0]?.delta?.content || '';
+          if (chunk.usage) reportedUsage = chunk.usage;
+          if (text) {
+            content += text;
+            onDelta(text);
+          }
+        } catch {
+          // Keep-alive comments and partial frames
+        }
+      }
+    }
+
+    return { content, usage: this.usage(request, content, reportedUsage) };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+          ...(stream ? { stream: true } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      // Timeouts and network failures
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AIProviderError(`${this.name} request failed: ${message}`, undefined, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error(`${this.name} error:`, response.status, errorText.slice(0, 500));
+
+      if (response.status === 429) {
+        throw new AIProviderError('Rate limit exceeded. Please try again later.', 429, true);
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new AIProviderError('Invalid API key or authentication failed.', response.status);
+      }
+      if (response.status === 402) {
+        throw new AIProviderError(`Payment required. Please add funds to your ${this.name} account.`, 402);
+      }
+      // 5xx are transient; 400/404/422 usually mean this model cannot serve the request
+      throw new AIProviderError(`${this.name} error: ${response.status}`, response.status, response.status >= 500);
+    }
+
+    return response;
+  }
+
+  // Reported usage when the API sends it, otherwise an estimate
+  private usage(request: CompletionRequest, content: string, reported?: Record<string, number>): TokenUsage {
+    const promptTokens = reported?.prompt_tokens ?? estimateTokens(request.messages.map((m) => m.content).join('\n'));
+    const completionTokens = reported?.completion_tokens ?? estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+// Stable short hash so mock output differs per prompt but never between runs
+function hashText(text: string): string {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function mockQuestion(id: number, tag: string) {
+  return {
+    id,
+    type: 'concept_check',
+    difficulty: 'medium',
+    question: `Mock question ${id} (${tag})?`,
+    options: [1, 2, 3, 4].map((option) => `Mock answer ${id}.${option}`),
+    correctAnswer: (id - 1) % 4,
+    explanation: `Mock explanation ${id}.`,
+  };
+}
+
+/**
+ * Canned output in the format each task's prompt asks for
+ */
+function mockContent(task: AITask, tag: string): string {
+  switch (task) {
+    case 'notes':
+      return JSON.stringify({
+        notes: `# Mock notes (${tag})\n\n## Concept Overview\n- Key idea one\n- Key idea two`,
+        shortNotes: ['Key idea one', 'Key idea two'],
+        mindmap: ['Topic', '- Key idea one', '- Key idea two'],
+        revisionSheet: 'Key idea one; key idea two.',
+        examTips: ['Define terms precisely'],
+        commonMistakes: ['Confusing idea one with idea two'],
+        metadata: { mock: true },
+      });
+    case 'notes_markdown':
+      return `# Mock notes (${tag})\n\n## Concept Overview\n- Key idea one\n- Key idea two\n\n## Exam Tips\n- **Define terms precisely**\n`;
+    case 'summarize':
+      return `Mock summary (${tag}).`;
+    case 'quiz':
+      return JSON.stringify([1, 2, 3, 4, 5].map((id) => mockQuestion(id, tag)));
+    case 'practice':
+      return JSON.stringify({
+        questions: [1, 2, 3].map((id) => ({ ...mockQuestion(id, tag), topicName: 'Mock Topic' })),
+      });
+    case 'adaptive':
+      return JSON.stringify({ ...mockQuestion(1, tag), type: 'adaptive' });
+    case 'analysis':
+      return JSON.stringify(['Mock Topic']);
+    case 'video':
+      return JSON.stringify({
+        subtasks: [
+          { title: `Introduction (${tag})`, searchQuery: 'introduction tutorial' },
+          { title: `Core concepts (${tag})`, searchQuery: 'explained for beginners' },
+          { title: `Practice (${tag})`, searchQuery: 'examples practice' },
+        ],
+        mainSearchQuery: 'tutorial explained',
+      });
+  }
+}
+
+const MOCK_CHUNK_LENGTH = 16;
+
+/**
+ * Deterministic offline provider (AI_PROVIDER=mock). Returns valid canned
+ * output for each task, tagged with a hash of the prompt. Models listed in
+ * failModels fail with a retryable error, to exercise fallback.
+ */
+export class MockAIProvider implements AIProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly failModels: string[] = []) {}
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (this.failModels.includes(request.model)) {
+      throw new AIProviderError(`mock error for ${request.model}`, 503, true);
+    }
+
+    const prompt = request.messages.map((m) => `${m.role}:${m.content}`).join('\n');
+    const content = mockContent(request.task, hashText(`${request.model}\n${prompt}`));
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  // Streams the same canned output in fixed-size pieces
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<Completion> {
+    const completion = await this.complete(request);
+    for (let i = 0; i < completion.content.length; i += MOCK_CHUNK_LENGTH) {
+      if (request.signal?.aborted) {
+        throw new AIProviderError('mock stream aborted', undefined, true);
+      }
+      onDelta(completion.content.slice(i, i + MOCK_CHUNK_LENGTH));
+    }
+    return completion;
+  }
+}
+
+/**
+ * Provider chosen by AI_PROVIDER:
+ * - bytez (default): Bytez's OpenAI-compatible API with BYTEZ_API_KEY
+ * - openai-compatible: AI_BASE_URL with AI_API_KEY
+ * - mock: MockAIProvider (AI_MOCK_FAIL_MODELS lists models that fail)
+ */
+export function createAIProviderFromEnv(): AIProvider {
+  const provider = Deno.env.get('AI_PROVIDER') || 'bytez';
+
+  switch (provider) {
+    case 'bytez': {
+      const apiKey = Deno.env.get('BYTEZ_API_KEY');
+      if (!apiKey) {
+        throw new Error('BYTEZ_API_KEY is not configured');
+      }
+      return new OpenAICompatibleProvider('Bytez', 'https://api.bytez.ai/v1', apiKey);
+    }
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('AI_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('AI_BASE_URL is not configured');
+      }
+      return new OpenAICompatibleProvider(Deno.env.get('AI_PROVIDER_NAME') || 'AI provider', baseUrl, Deno.env.get('AI_API_KEY') || '');
+    }
+    case 'mock': {
+      const failModels = (Deno.env.get('AI_MOCK_FAIL_MODELS') || '').split(',').map((m) => m.trim()).filter(Boolean);
+      return new MockAIProvider(failModels);
+    }
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Schemas for structured AI output
+ *
+ * Validators check a parsed model reply and either return the cleaned value
+ * or the list of problems, which generateJSON (ai.ts) sends back to the model
+ * to repair its answer.
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export type Validator<T> = (data: unknown) => ValidationResult<T>;
+
+export const QUIZ_QUESTION_TYPES = [
+  'concept_check',
+  'mechanism_check',
+  'application_check',
+  'misconception_trap',
+  'why_question',
+] as const;
+
+export const ADAPTIVE_QUESTION_TYPES = ['adaptive', ...QUIZ_QUESTION_TYPES] as const;
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = typeof DIFFICULTIES[number];
+
+const OPTION_COUNT = 4;
+
+// Filler options such as "Option A" or "Statement 2" that say nothing
+const PLACEHOLDER_OPTION = /^(option|answer|choice|statement|reason|application|misconception)\s*[a-d1-4]$/i;
+
+export interface QuizQuestion {
+  id: number;
+  type: string;
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  explanation: string;
+}
+
+export interface AdaptiveQuestion extends QuizQuestion {
+  difficulty: Difficulty;
+}
+
+export interface NotesPayload {
+  notes: string;
+  shortNotes: string[];
+  mindmap: string[];
+  revisionSheet: string;
+  examTips: string[];
+  commonMistakes: string[];
+  metadata: Record<string, unknown>;
+  examMode?: Record<string, unknown>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Parse a model reply as JSON, ignoring markdown code fences and any text
+ * around the outermost object or array
+ */
+export function parseModelJSON(content: string): unknown {
+  let clean = content.trim();
+  if (clean.startsWith('```json')) clean = clean.slice(7);
+  if (clean.startsWith('```')) clean = clean.slice(3);
+  if (clean.endsWith('```')) clean = clean.slice(0, -3);
+  clean = clean.trim();
+
+  try {
+    return JSON.parse(clean);
+  } catch (error) {
+    const match = clean.match(/[[{][\s\S]*[\]}]/);
+    if (!match) throw error;
+    return JSON.parse(match[0]);
+  }
+}
+
+function checkQuestion(
+  data: unknown,
+  allowedTypes: readonly string[],
+  path: string,
+  errors: string[]
+): QuizQuestion | undefined {
+  if (!isRecord(data)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  const before = errors.length;
+
+  if (typeof data.type !== 'string' || !allowedTypes.includes(data.type)) {
+    errors.push(`${path}.type must be one of ${allowedTypes.join(', ')}`);
+  }
+  if (!isNonEmptyString(data.question)) {
+    errors.push(`${path}.question must be a non-empty string`);
+  }
+
+  const options = data.options;
+  if (!Array.isArray(options) || options.length !== OPTION_COUNT || !options.every(isNonEmptyString)) {
+    errors.push(`${path}.options must be an array of ${OPTION_COUNT} non-empty strings`);
+  } else {
+    const distinct = new Set(options.map((option) => option.trim().toLowerCase()));
+    if (distinct.size !== OPTION_COUNT) {
+      errors.push(`${path}.options must all be different`);
+    }
+    if (options.some((option) => PLACEHOLDER_OPTION.test(option.trim()))) {
+      errors.push(`${path}.options must be real answers, not placeholders like "Option A"`);
+    }
+  }
+
+  // A single index means exactly one correct option
+  const correctAnswer = data.correctAnswer;
+  if (typeof correctAnswer !== 'number' || !Number.isInteger(correctAnswer) || correctAnswer < 0 || correctAnswer >= OPTION_COUNT) {
+    errors.push(`${path}.correctAnswer must be a single integer index from 0 to ${OPTION_COUNT - 1}`);
+  }
+  if (!isNonEmptyString(data.explanation)) {
+    errors.push(`${path}.explanation must be a non-empty string`);
+  }
+
+  if (errors.length > before) {
+    return undefined;
+  }
+
+  return {
+    id: typeof data.id === 'number' ? data.id : 1,
+    type: data.type as string,
+    question: (data.question as string).trim(),
+    options: (options as string[]).map((option) => option.trim()),
+    correctAnswer: correctAnswer as number,
+    explanation: (data.explanation as string).trim(),
+  };
+}
+
+/**
+ * A quiz of exactly `count` questions, numbered from 1
+ */
+export function quizSchema(count: number): Validator<QuizQuestion[]> {
+  return (data) => {
+    if (!Array.isArray(data)) {
+      return { ok: false, errors: ['The reply must be a JSON array of questions'] };
+    }
+
+    const errors: string[] = [];
+    if (data.length !== count) {
+      errors.push(`The array must contain exactly ${count} questions, not ${data.length}`);
+    }
+
+    const questions = data.map((item, index) => checkQuestion(item, QUIZ_QUESTION_TYPES, `questions[${index}]`, errors));
+    if (errors.length > 0) {
+      return { ok: false, errors };
+    }
+
+    return {
+      ok: true,
+      value: (questions as QuizQuestion[]).map((question, index) => ({ ...question, id: index + 1 })),
+    };
+  };
+}
+
+/**
+ * One adaptive follow-up question. The difficulty was chosen by the caller,
+ * so it replaces whatever the model labelled the question with.
+ */
+export function adaptiveQuestionSchema(difficulty: Difficulty): Validator<AdaptiveQuestion> {
+  return (data) => {
+    const errors: string[] = [];
+    const question = checkQuestion(data, ADAPTIVE_QUESTION_TYPES, 'question', errors);
+    if (!question) {
+      return { ok: false, errors };
+    }
+
+    return { ok: true, value: { ...question, difficulty } };
+  };
+}
+
+function checkStringList(data: Record<string, unknown>, key: string, errors: string[]): string[] {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  // Models sometimes return a list as one bulleted string
+  if (typeof value === 'string') {
+    return value.split('\n').map((line) => line.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    errors.push(`${key} must be an array of strings`);
+    return [];
+  }
+  return value.map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Study notes as requested by generate-notes. Only `notes` is required; the
+ * other sections are normalised when present.
+ */
+export const notesSchema: Validator<NotesPayload> = (data) => {
+  if (!isRecord(data)) {
+    return { ok: false, errors: ['The reply must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(data.notes)) {
+    errors.push('notes must be a non-empty markdown string');
+  }
+  if (data.revisionSheet !== undefined && data.revisionSheet !== null && typeof data.revisionSheet !== 'string') {
+    errors.push('revisionSheet must be a string');
+  }
+  if (data.metadata !== undefined && data.metadata !== null && !isRecord(data.metadata)) {
+    errors.push('metadata must be an object');
+  }
+  if (data.examMode !== undefined && data.examMode !== null && !isRecord(data.examMode)) {
+    errors.push('examMode must be an object');
+  }
+
+  const shortNotes = checkStringList(data, 'shortNotes', errors);
+  const mindmap = checkStringList(data, 'mindmap', errors);
+  const examTips = checkStringList(data, 'examTips', errors);
+  const commonMistakes = checkStringList(data, 'commonMistakes', errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      notes: (data.notes as string).trim(),
+      shortNotes,
+      mindmap,
+      revisionSheet: typeof data.revisionSheet === 'string' ? data.revisionSheet : '',
+      examTips,
+      commonMistakes,
+      metadata: isRecord(data.metadata) ? data.metadata : {},
+      ...(isRecord(data.examMode) ? { examMode: data.examMode } : {}),
+    },
+  };
+};
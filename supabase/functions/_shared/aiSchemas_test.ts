@@ -0,0 +1,78 @@
+import { assert, assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { adaptiveQuestionSchema, notesSchema, parseModelJSON, quizSchema } from "./aiSchemas.ts";
+
+function question(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: 'concept_check',
+    question: `What is ${id} + ${id}?`,
+    options: [`${id * 2}`, `${id * 2 + 1}`, `${id * 2 + 2}`, `${id * 2 + 3}`],
+    correctAnswer: 0,
+    explanation: `${id} + ${id} = ${id * 2}.`,
+    ...overrides,
+  };
+}
+
+function errorsOf(result: { ok: boolean; errors?: string[] }): string[] {
+  assert(!result.ok, 'expected the value to be rejected');
+  return result.errors ?? [];
+}
+
+Deno.test("model JSON is read from code fences and surrounding text", () => {
+  assertEquals(parseModelJSON('```json\n{"notes": "# Fractions"}\n```'), { notes: '# Fractions' });
+  assertEquals(parseModelJSON('Here is your quiz:\n[1, 2]\nGood luck!'), [1, 2]);
+  assertThrows(() => parseModelJSON('Sorry, I cannot help with that.'));
+});
+
+Deno.test("a valid quiz is accepted and renumbered from 1", () => {
+  const result = quizSchema(2)([question(7), question(3, { options: [' 6 ', '7', '8', '9'] })]);
+
+  assert(result.ok);
+  assertEquals(result.value.map((q) => q.id), [1, 2]);
+  assertEquals(result.value[1].options[0], '6');
+});
+
+Deno.test("a quiz with the wrong number of questions is rejected", () => {
+  const errors = errorsOf(quizSchema(3)([question(1), question(2)]));
+
+  assertEquals(errors, ['The array must contain exactly 3 questions, not 2']);
+});
+
+Deno.test("each problem with a question is reported with its path", () => {
+  const errors = errorsOf(quizSchema(3)([
+    question(1, { options: ['Option A', 'Option B', 'Option C', 'Option D'] }),
+    question(2, { options: ['4', '4', '5', '6'], correctAnswer: [0, 1] }),
+    question(3, { type: 'trivia', explanation: '' }),
+  ]));
+
+  assertEquals(errors, [
+    'questions[0].options must be real answers, not placeholders like "Option A"',
+    'questions[1].options must all be different',
+    'questions[1].correctAnswer must be a single integer index from 0 to 3',
+    'questions[2].type must be one of concept_check, mechanism_check, application_check, misconception_trap, why_question',
+    'questions[2].explanation must be a non-empty string',
+  ]);
+});
+
+Deno.test("an adaptive question takes the difficulty the caller chose", () => {
+  const result = adaptiveQuestionSchema('hard')({ ...question(1, { type: 'adaptive' }), difficulty: 'easy' });
+
+  assert(result.ok);
+  assertEquals(result.value.difficulty, 'hard');
+  assertEquals(errorsOf(adaptiveQuestionSchema('easy')([question(1)])), ['question must be an object']);
+});
+
+Deno.test("notes only require the markdown and normalise the other sections", () => {
+  const result = notesSchema({ notes: ' # Fractions ', shortNotes: '- Halves\n- Quarters\n', examTips: ['Simplify'] });
+
+  assert(result.ok);
+  assertEquals(result.value.notes, '# Fractions');
+  assertEquals(result.value.shortNotes, ['- Halves', '- Quarters']);
+  assertEquals(result.value.mindmap, []);
+  assertEquals(result.value.metadata, {});
+
+  assertEquals(errorsOf(notesSchema({ notes: '', commonMistakes: [1] })), [
+    'notes must be a non-empty markdown string',
+    'commonMistakes must be an array of strings',
+  ]);
+});
@@ -0,0 +1,151 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AIOutputError, generateJSON, generateText, streamText } from "./ai.ts";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatMessage,
+  Completion,
+  CompletionRequest,
+  MockAIProvider,
+} from "./aiProvider.ts";
+import { quizSchema } from "./aiSchemas.ts";
+import { MODEL_ROUTES } from "./bytezModels.ts";
+
+const [PRIMARY, FALLBACK] = MODEL_ROUTES.quiz.models;
+const MESSAGES: ChatMessage[] = [{ role: 'user', content: 'Make a quiz about fractions' }];
+
+/**
+ * Replies with the next scripted outcome for the model, then with "ok"
+ */
+class ScriptedProvider implements AIProvider {
+  readonly name = 'scripted';
+  calls: string[] = [];
+  conversations: ChatMessage[][] = [];
+
+  constructor(private readonly outcomes: Record<string, Array<string | AIProviderError>> = {}) {}
+
+  complete(request: CompletionRequest): Promise<Completion> {
+    this.calls.push(request.model);
+    this.conversations.push(request.messages);
+    const outcome = this.outcomes[request.model]?.shift() ?? 'ok';
+    if (outcome instanceof AIProviderError) return Promise.reject(outcome);
+    return Promise.resolve({ content: outcome, usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } });
+  }
+}
+
+const unavailable = () => new AIProviderError('Service unavailable', 503, true);
+
+Deno.test("mock provider output is deterministic per prompt and matches the task format", async () => {
+  const provider = new MockAIProvider();
+  const request = { task: 'quiz' as const, model: PRIMARY, messages: MESSAGES, temperature: 0.7 };
+
+  const first = await provider.complete(request);
+  const again = await provider.complete(request);
+  const other = await provider.complete({ ...request, messages: [{ role: 'user', content: 'Make a quiz about decimals' }] });
+
+  assertEquals(first.content, again.content);
+  assert(first.content !== other.content);
+  assertEquals(JSON.parse(first.content).length, 5);
+});
+
+Deno.test("retryable errors are retried, then fall back to the next model", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: [unavailable(), unavailable()] });
+
+  const result = await generateText('quiz', MESSAGES, { provider, retries: 1 });
+
+  assertEquals(provider.calls, [PRIMARY, PRIMARY, FALLBACK]);
+  assertEquals(result.model, FALLBACK);
+  assertEquals(result.attempts.map((attempt) => attempt.ok), [false, false, true]);
+});
+
+Deno.test("a model that cannot serve the request is not retried", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: [new AIProviderError('Not found', 404)] });
+
+  const result = await generateText('quiz', MESSAGES, { provider, retries: 2 });
+
+  assertEquals(provider.calls, [PRIMARY, FALLBACK]);
+  assertEquals(result.content, 'ok');
+});
+
+Deno.test("empty replies fall back to the next model", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: ['  '] });
+
+  const result = await generateText('quiz', MESSAGES, { provider, retries: 2 });
+
+  assertEquals(provider.calls, [PRIMARY, FALLBACK]);
+  assertEquals(result.model, FALLBACK);
+});
+
+Deno.test("authentication errors stop without trying another model", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: [new AIProviderError('Invalid API key', 401)] });
+
+  await assertRejects(() => generateText('quiz', MESSAGES, { provider }), AIProviderError, 'Invalid API key');
+  assertEquals(provider.calls, [PRIMARY]);
+});
+
+Deno.test("the last error is thrown when every model fails", async () => {
+  const provider = new MockAIProvider([PRIMARY, FALLBACK]);
+
+  await assertRejects(() => generateText('quiz', MESSAGES, { provider, retries: 0 }), AIProviderError, FALLBACK);
+});
+
+Deno.test("streams pieces in order and falls back before the first piece", async () => {
+  const provider = new MockAIProvider([MODEL_ROUTES.notes_markdown.models[0]]);
+  const pieces: string[] = [];
+
+  const result = await streamText('notes_markdown', MESSAGES, (text) => pieces.push(text), { provider, retries: 0 });
+
+  assertEquals(result.model, MODEL_ROUTES.notes_markdown.models[1]);
+  assert(pieces.length > 1);
+  assertEquals(pieces.join(''), result.content);
+});
+
+Deno.test("a stream that fails after its first piece is not restarted on another model", async () => {
+  const calls: string[] = [];
+  const provider: AIProvider = {
+    name: 'flaky',
+    complete: () => Promise.reject(new Error('not used')),
+    stream: (request, onDelta) => {
+      calls.push(request.model);
+      onDelta('# Notes');
+      return Promise.reject(unavailable());
+    },
+  };
+  const pieces: string[] = [];
+
+  await assertRejects(
+    () => streamText('notes_markdown', MESSAGES, (text) => pieces.push(text), { provider, retries: 2 }),
+    AIProviderError,
+    'Service unavailable'
+  );
+  assertEquals(calls, [MODEL_ROUTES.notes_markdown.models[0]]);
+  assertEquals(pieces, ['# Notes']);
+});
+
+const VALID_QUIZ = JSON.stringify([1, 2, 3, 4, 5].map((id) => ({
+  id,
+  type: 'concept_check',
+  question: `What is ${id} halved?`,
+  options: [`${id / 2}`, `${id * 3}`, `${id + 100}`, `${id + 20}`],
+  correctAnswer: 0,
+  explanation: `Halving ${id} gives ${id / 2}.`,
+})));
+
+Deno.test("an invalid reply is sent back with its problems and the repaired reply is used", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: ['[]', VALID_QUIZ] });
+
+  const result = await generateJSON('quiz', MESSAGES, quizSchema(5), { provider });
+
+  assertEquals(result.rounds, 2);
+  assertEquals(result.value.length, 5);
+  const repair = provider.conversations[1];
+  assertEquals(repair.slice(0, 2), [...MESSAGES, { role: 'assistant', content: '[]' }]);
+  assert(repair[2].content.includes('- The array must contain exactly 5 questions, not 0'));
+});
+
+Deno.test("the repair loop gives up after the allowed repairs", async () => {
+  const provider = new ScriptedProvider({ [PRIMARY]: ['not json', '{}', '[]'] });
+
+  await assertRejects(() => generateJSON('quiz', MESSAGES, quizSchema(5), { provider, repairs: 1 }), AIOutputError);
+  assertEquals(provider.calls.length, 2);
+});
@@ -1,6 +1,7 @@
 /**
  * Bytez AI Model Configuration
- * Centralized model management for all AI operations with optimization strategies
+ * Centralized model routing for all AI operations: which models serve each
+ * task type, in fallback order, and the generation settings for the task
  */
 
 /**
@@ -18,140 +19,46 @@ export const AI_MODELS = {
   GEMINI_FLASH: 'mlfoundations-dev/oh-dcft-v3.1-gemini-1.5-flash',
 } as const;
 
-/**
- * Model selection logic with performance optimization
- * Prioritizes Qwen3-4B for speed-critical operations (notes, summarization)
- */
-export function selectModel(taskType: 'notes' | 'summarize' | 'quiz' | 'video' | 'analysis' | 'adaptive'): string {
-  // Qwen3-4B for ultra-fast note generation and summarization
-  if (['notes', 'summarize'].includes(taskType)) {
-    return AI_MODELS.QWEN3_4B;
-  }
-
-  // DeepSeek V3.2 for complex reasoning when needed
-  if (['quiz', 'analysis'].includes(taskType)) {
-    return AI_MODELS.DEEPSEEK_V3_2;
-  }
-
-  // Gemini Flash for faster, lighter operations
-  if (['video', 'adaptive'].includes(taskType)) {
-    return AI_MODELS.GEMINI_FLASH;
-  }
+export type AITask = 'notes' | 'notes_markdown' | 'summarize' | 'quiz' | 'practice' | 'video' | 'analysis' | 'adaptive';
 
-  // Default to Qwen for unknown tasks (fastest fallback)
-  return AI_MODELS.QWEN3_4B;
+export interface ModelRoute {
+  models: string[]; // Tried in order; later models are fallbacks
+  temperature: number;
+  maxTokens?: number; // Omitted from the request when unset (some models reject it)
+  timeoutMs: number; // Per attempt
 }
 
 /**
- * Call Bytez AI API with the specified model
- * Optimized for performance with appropriate defaults
+ * Routing per task type. Speed-critical tasks start on Qwen3-4B; quiz
+ * generation starts on DeepSeek for stronger reasoning.
  */
-export async function callBytezAI(
-  apiKey: string,
-  taskType: 'notes' | 'summarize' | 'quiz' | 'video' | 'analysis' | 'adaptive',
-  messages: { role: string; content: string }[],
-  options?: {
-    temperature?: number;
-    max_tokens?: number;
-    timeout?: number;
-  }
-): Promise<string> {
-  const model = selectModel(taskType);
-  
-  // Optimize temperature and max_tokens based on task type
-  const temperature = options?.temperature ?? (taskType === 'summarize' ? 0.3 : 0.7);
-  const max_tokens = options?.max_tokens ?? (taskType === 'summarize' ? 1500 : 2000);
-  
-  console.log(`Calling Bytez AI (${model}) for ${taskType}...`);
-
-  const controller = new AbortController();
-  const timeout = options?.timeout ?? 30000; // 30 second default timeout
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch('https://api.bytez.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        max_tokens,
-      }),
-      signal: controller.signal as any,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Bytez AI error:', response.status);
-
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (response.status === 401) {
-        throw new Error('Invalid API key or authentication failed.');
-      }
-      if (response.status === 402) {
-        throw new Error('Payment required. Please add funds to your Bytez account.');
-      }
-
-      throw new Error(`Bytez AI error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
-}
+export const MODEL_ROUTES: Record<AITask, ModelRoute> = {
+  notes: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.DEEPSEEK_V3_2], temperature: 0.3, timeoutMs: 45000 },
+  // Streamed notes; the timeout is the wait for the first token
+  notes_markdown: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.DEEPSEEK_V3_2], temperature: 0.3, timeoutMs: 20000 },
+  summarize: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.DEEPSEEK_V3_2], temperature: 0.3, maxTokens: 1500, timeoutMs: 30000 },
+  quiz: { models: [AI_MODELS.DEEPSEEK_V3_2, AI_MODELS.QWEN3_4B], temperature: 0.7, maxTokens: 2000, timeoutMs: 60000 },
+  practice: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.DEEPSEEK_V3_2], temperature: 0.4, maxTokens: 1200, timeoutMs: 45000 },
+  video: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.GEMINI_FLASH], temperature: 0.4, maxTokens: 1200, timeoutMs: 30000 },
+  analysis: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.DEEPSEEK_V3_2], temperature: 0.4, maxTokens: 1200, timeoutMs: 30000 },
+  adaptive: { models: [AI_MODELS.QWEN3_4B, AI_MODELS.GEMINI_FLASH], temperature: 0.4, maxTokens: 1200, timeoutMs: 20000 },
+};
 
 /**
- * Fast summarization using Qwen3-4B
- * Optimized for speed with minimal token usage
+ * Route for a task. AI_MODELS_<TASK> (comma-separated, e.g. AI_MODELS_QUIZ)
+ * replaces the model list without a deploy.
  */
-export async function quickSummarize(
-  apiKey: string,
-  content: string,
-  maxLength: number = 500
-): Promise<string> {
-  const prompt = `Summarize the following content in ${maxLength} words or less. Be concise and extract only the most important points:
+export function getModelRoute(taskType: AITask): ModelRoute {
+  const route = MODEL_ROUTES[taskType];
+  const override = Deno.env.get(`AI_MODELS_${taskType.toUpperCase()}`);
+  const models = override?.split(',').map((model) => model.trim()).filter(Boolean);
 
-${content}`;
-
-  return callBytezAI(apiKey, 'summarize', [
-    {
-      role: 'user',
-      content: prompt,
-    },
-  ], {
-    temperature: 0.3,
-    max_tokens: Math.min(Math.ceil(maxLength / 4), 800), // Rough token estimate
-  });
+  return models && models.length > 0 ? { ...route, models } : route;
 }
 
 /**
- * Batch process multiple prompts in parallel for maximum efficiency
- * Useful for generating multiple summaries or notes in one operation
+ * Primary model for a task
  */
-export async function batchCallBytezAI(
-  apiKey: string,
-  taskType: 'notes' | 'summarize' | 'quiz' | 'video' | 'analysis' | 'adaptive',
-  messagesBatch: Array<{ role: string; content: string }[]>,
-  options?: {
-    temperature?: number;
-    max_tokens?: number;
-  }
-): Promise<string[]> {
-  const promises = messagesBatch.map(messages =>
-    callBytezAI(apiKey, taskType, messages, options)
-  );
-
-  return Promise.all(promises);
+export function selectModel(taskType: AITask): string {
+  return getModelRoute(taskType).models[0];
 }
-
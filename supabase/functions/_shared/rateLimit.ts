@@ -188,5 +188,11 @@ export const DEFAULT_RATE_LIMITS = {
     limitsPerDay: 10,
     costCredits: 4,
     description: 'Weak areas quiz generation'
+  },
+  'export-user-data': {
+    limitsPerHour: 1,
+    limitsPerDay: 3,
+    costCredits: 0,
+    description: 'Personal data export archive'
   }
 };
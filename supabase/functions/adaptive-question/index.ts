@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIOutputError, generateJSON } from "../_shared/ai.ts";
+import { adaptiveQuestionSchema, type Difficulty } from "../_shared/aiSchemas.ts";
 
 // Allowed origins for CORS - prevents CSRF attacks
 const ALLOWED_ORIGINS = [
@@ -74,49 +76,6 @@ function sanitizeInput(input: string, maxLength: number): { isValid: boolean; sa
   return { isValid: true, sanitized };
 }
 
-// Bytez AI call function (using Qwen3-4B for ultra-fast adaptive questions)
-async function callBytezAI(messages: { role: string; content: string }[]): Promise<string> {
-  const BYTEZ_API_KEY = Deno.env.get('BYTEZ_API_KEY');
-  if (!BYTEZ_API_KEY) {
-    throw new Error('BYTEZ_API_KEY is not configured');
-  }
-
-  console.log('Calling Bytez AI (Qwen3-4B) for fast adaptive question generation...');
-  
-  const response = await fetch('https://api.bytez.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${BYTEZ_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'Qwen/Qwen3-4B-Instruct-2507',
-      messages,
-      temperature: 0.4,
-      max_tokens: 1200,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Bytez AI error:', response.status, errorText);
-    
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 401) {
-      throw new Error('Invalid API key or authentication failed.');
-    }
-    if (response.status === 402) {
-      throw new Error('Payment required. Please add funds to your Bytez account.');
-    }
-    throw new Error(`Bytez AI error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || '';
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -166,7 +125,7 @@ serve(async (req) => {
     }
 
     const currentDifficulty = difficulty || 'medium';
-    let newDifficulty: string;
+    let newDifficulty: Difficulty;
     let difficultyInstruction: string;
 
     if (wasCorrect) {
@@ -227,23 +186,11 @@ Student answered: ${wasCorrect ? 'CORRECTLY' : 'INCORRECTLY'}
 
 Generate an appropriate follow-up question.`;
 
-    const questionContent = await callBytezAI([{ role: 'user', content: prompt }]);
-
-    if (!questionContent) {
-      throw new Error("No content generated from AI");
-    }
-
-    let question;
-    try {
-      let cleanContent = questionContent.trim();
-      if (cleanContent.startsWith('```json')) cleanContent = cleanContent.slice(7);
-      if (cleanContent.startsWith('```')) cleanContent = cleanContent.slice(3);
-      if (cleanContent.endsWith('```')) cleanContent = cleanContent.slice(0, -3);
-      question = JSON.parse(cleanContent.trim());
-    } catch (parseError) {
-      console.error("Failed to parse question:", parseError);
-      throw new Error("Failed to generate adaptive question");
-    }
+    const { value: question } = await generateJSON(
+      'adaptive',
+      [{ role: 'user', content: prompt }],
+      adaptiveQuestionSchema(newDifficulty)
+    );
 
     return new Response(
       JSON.stringify({ question, difficulty: newDifficulty }),
@@ -255,7 +202,7 @@ Generate an appropriate follow-up question.`;
     const errorCorsHeaders = getCORSHeaders(null);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
+      { status: error instanceof AIOutputError ? error.status : 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
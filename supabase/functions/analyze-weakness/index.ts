@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateText } from "../_shared/ai.ts";
 
 // Allowed origins for CORS - prevents CSRF attacks
 const ALLOWED_ORIGINS = [
@@ -127,49 +128,6 @@ function classifyStrength(weaknessScore: number, totalQuestions: number): string
   return "weak";
 }
 
-// Bytez AI call function (using Qwen3-4B for fast weakness analysis)
-async function callBytezAI(messages: { role: string; content: string }[]): Promise<string> {
-  const BYTEZ_API_KEY = Deno.env.get('BYTEZ_API_KEY');
-  if (!BYTEZ_API_KEY) {
-    throw new Error('BYTEZ_API_KEY is not configured');
-  }
-
-  console.log('Calling Bytez AI (Qwen3-4B) for fast weakness analysis...');
-  
-  const response = await fetch('https://api.bytez.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${BYTEZ_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'Qwen/Qwen3-4B-Instruct-2507',
-      messages,
-      temperature: 0.4,
-      max_tokens: 1200,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Bytez AI error:', response.status, errorText);
-    
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 401) {
-      throw new Error('Invalid API key or authentication failed.');
-    }
-    if (response.status === 402) {
-      throw new Error('Payment required. Please add funds to your Bytez account.');
-    }
-    throw new Error(`Bytez AI error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || '';
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -227,7 +185,7 @@ serve(async (req) => {
     try {
       const questionTexts = questions.map((q: any) => q.questionText).join("\n---\n");
       
-      const topicsText = await callBytezAI([
+      const { content: topicsText } = await generateText('analysis', [
         {
           role: 'user',
           content: `You are an educational topic classifier. For each question, identify the main concept/topic being tested. 
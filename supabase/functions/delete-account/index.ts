@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCORSHeaders, handleCORSPreflight } from "../_shared/cors.ts";
+
+// Days before a requested deletion is carried out; the user can cancel until then
+const COOLING_OFF_DAYS = parseInt(Deno.env.get('ACCOUNT_DELETION_COOLING_OFF_DAYS') || '14', 10);
+const MAX_REASON_LENGTH = 1000;
+
+interface DeletionRequestRow {
+  id: string;
+  requested_at: string;
+  scheduled_for: string;
+}
+
+function describeRequest(request: DeletionRequestRow | null) {
+  return request
+    ? {
+      requestedAt: request.requested_at,
+      scheduledFor: request.scheduled_for,
+    }
+    : null;
+}
+
+serve(async (req) => {
+  const preflight = handleCORSPreflight(req);
+  if (preflight) return preflight;
+
+  const corsHeaders = getCORSHeaders(req.headers.get('origin'));
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json({ error: "No authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Validate JWT
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await supabaseClient.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      console.error("Auth error:", claimsError);
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const userId = claimsData.claims.sub as string;
+    const { action = 'status', reason } = await req.json().catch(() => ({}));
+
+    const { data: existing, error: existingError } = await serviceClient
+      .from('account_deletion_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (action === 'status') {
+      return json({ deletion: describeRequest(existing) });
+    }
+
+    if (action === 'request') {
+      if (existing) {
+        return json({ deletion: describeRequest(existing) });
+      }
+      if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+        return json({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` }, 400);
+      }
+
+      const scheduledFor = new Date(Date.now() + COOLING_OFF_DAYS * 24 * 60 * 60 * 1000);
+      const { data: created, error } = await serviceClient
+        .from('account_deletion_requests')
+        .insert({ user_id: userId, reason: reason?.trim() || null, scheduled_for: scheduledFor.toISOString() })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      await serviceClient.rpc('log_audit_event', {
+        p_user_id: userId,
+        p_action: 'account_deletion_requested',
+        p_resource_type: 'account',
+        p_resource_id: userId,
+        p_metadata: { scheduledFor: created.scheduled_for },
+      });
+
+      return json({ deletion: describeRequest(created) }, 201);
+    }
+
+    if (action === 'cancel') {
+      if (!existing) {
+        return json({ error: "No account deletion is pending" }, 404);
+      }
+
+      const { error } = await serviceClient
+        .from('account_deletion_requests')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) throw error;
+
+      await serviceClient.rpc('log_audit_event', {
+        p_user_id: userId,
+        p_action: 'account_deletion_cancelled',
+        p_resource_type: 'account',
+        p_resource_id: userId,
+        p_metadata: { scheduledFor: existing.scheduled_for },
+      });
+
+      return json({ deletion: null });
+    }
+
+    return json({ error: "action must be 'status', 'request' or 'cancel'" }, 400);
+  } catch (error) {
+    console.error('Error in delete-account:', error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
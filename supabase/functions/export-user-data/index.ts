@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { getCORSHeaders, handleCORSPreflight } from "../_shared/cors.ts";
+import { checkRateLimit, logRateLimitRequest, DEFAULT_RATE_LIMITS } from "../_shared/rateLimit.ts";
+import { EXPORT_SOURCES, type ExportSource } from "./sources.ts";
+
+const EXPORT_BUCKET = 'data-exports';
+// Archives are kept for a week; download links are reissued on request
+const EXPORT_RETENTION_DAYS = 7;
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+const PAGE_SIZE = 1000;
+
+interface ExportJobRow {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  file_path: string | null;
+  error: string | null;
+  expires_at: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// Read every row for the user, a page at a time
+async function fetchAllRows(
+  serviceClient: SupabaseClient,
+  source: ExportSource,
+  userId: string
+): Promise<unknown[]> {
+  const rows: unknown[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await serviceClient
+      .from(source.table)
+      .select(source.select || '*')
+      .eq(source.userColumn, userId)
+      .order(source.orderColumn, { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read ${source.table}: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+async function buildArchive(serviceClient: SupabaseClient, userId: string, email?: string): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const counts: Record<string, number> = {};
+
+  for (const source of EXPORT_SOURCES) {
+    const rows = await fetchAllRows(serviceClient, source, userId);
+    counts[source.file] = rows.length;
+    // The profile is a single object rather than a list
+    const content = source.file === 'profile' ? (rows[0] ?? null) : rows;
+    zip.file(`${source.file}.json`, JSON.stringify(content, null, 2));
+  }
+
+  zip.file('manifest.json', JSON.stringify({
+    userId,
+    email,
+    generatedAt: new Date().toISOString(),
+    files: counts,
+  }, null, 2));
+
+  return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+async function describeJob(serviceClient: SupabaseClient, job: ExportJobRow) {
+  const expired = job.expires_at && new Date(job.expires_at) <= new Date();
+  let downloadUrl: string | null = null;
+
+  if (job.status === 'completed' && job.file_path && !expired) {
+    const { data, error } = await serviceClient.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(job.file_path, DOWNLOAD_URL_TTL_SECONDS, { download: `edurank-data-${job.id}.zip` });
+
+    if (error) {
+      console.error('Error signing export URL:', error);
+    } else {
+      downloadUrl = data.signedUrl;
+    }
+  }
+
+  return {
+    id: job.id,
+    status: expired ? 'expired' : job.status,
+    createdAt: job.created_at,
+    completedAt: job.completed_at,
+    expiresAt: job.expires_at,
+    error: job.error,
+    downloadUrl,
+  };
+}
+
+serve(async (req) => {
+  const preflight = handleCORSPreflight(req);
+  if (preflight) return preflight;
+
+  const corsHeaders = getCORSHeaders(req.headers.get('origin'));
+  const json = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json({ error: "No authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Validate JWT
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await supabaseClient.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      console.error("Auth error:", claimsError);
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const userId = claimsData.claims.sub as string;
+    const email = claimsData.claims.email as string | undefined;
+    const { action = 'create' } = await req.json().catch(() => ({}));
+
+    if (action === 'latest') {
+      const { data: job, error } = await serviceClient
+        .from('data_export_jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return json({ job: job ? await describeJob(serviceClient, job) : null });
+    }
+
+    if (action !== 'create') {
+      return json({ error: "action must be 'create' or 'latest'" }, 400);
+    }
+
+    const limits = DEFAULT_RATE_LIMITS['export-user-data'];
+    const rateLimit = await checkRateLimit(serviceClient, {
+      operation: 'export-user-data',
+      userId,
+      limitsPerHour: limits.limitsPerHour,
+      limitsPerDay: limits.limitsPerDay,
+    });
+
+    if (!rateLimit.allowed) {
+      return json({ error: rateLimit.message }, 429);
+    }
+
+    const { data: job, error: jobError } = await serviceClient
+      .from('data_export_jobs')
+      .insert({ user_id: userId, status: 'processing' })
+      .select('*')
+      .single();
+
+    if (jobError) throw jobError;
+
+    try {
+      const archive = await buildArchive(serviceClient, userId, email);
+      const filePath = `${userId}/${job.id}.zip`;
+
+      const { error: uploadError } = await serviceClient.storage
+        .from(EXPORT_BUCKET)
+        .upload(filePath, archive, { contentType: 'application/zip', upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const expiresAt = new Date(Date.now() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const { data: completed, error: updateError } = await serviceClient
+        .from('data_export_jobs')
+        .update({
+          status: 'completed',
+          file_path: filePath,
+          expires_at: expiresAt.toISOString(),
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', job.id)
+        .select('*')
+        .single();
+
+      if (updateError) throw updateError;
+
+      await logRateLimitRequest(serviceClient, userId, 'export-user-data', true, { jobId: job.id });
+      await serviceClient.rpc('log_audit_event', {
+        p_user_id: userId,
+        p_action: 'data_exported',
+        p_resource_type: 'data_export',
+        p_resource_id: job.id,
+        p_metadata: { bytes: archive.byteLength },
+      });
+
+      return json({ job: await describeJob(serviceClient, completed) });
+    } catch (error) {
+      console.error('Data export failed:', error);
+      await serviceClient
+        .from('data_export_jobs')
+        .update({ status: 'failed', error: 'Export could not be generated' })
+        .eq('id', job.id);
+      await logRateLimitRequest(serviceClient, userId, 'export-user-data', false, { jobId: job.id });
+
+      return json({ error: "Export could not be generated. Please try again later." }, 500);
+    }
+  } catch (error) {
+    console.error('Error in export-user-data:', error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,29 @@
+// Each entry becomes <file>.json in the archive. Rows are paged in
+// orderColumn order, with id breaking ties so pages never overlap.
+export interface ExportSource {
+  file: string;
+  table: string;
+  userColumn: string;
+  orderColumn: string;
+  select?: string;
+}
+
+export const EXPORT_SOURCES: ExportSource[] = [
+  { file: 'profile', table: 'profiles', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'todos', table: 'todos', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'notes', table: 'notes', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'quizzes', table: 'quizzes', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'quiz_results', table: 'quiz_results', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'question_attempts', table: 'question_attempts', userColumn: 'user_id', orderColumn: 'created_at' },
+  { file: 'topic_mastery', table: 'topic_mastery', userColumn: 'user_id', orderColumn: 'created_at', select: '*, topics(name)' },
+  { file: 'chat_messages', table: 'chat_messages', userColumn: 'sender_id', orderColumn: 'created_at' },
+  // user_achievements has no created_at
+  {
+    file: 'achievements',
+    table: 'user_achievements',
+    userColumn: 'user_id',
+    orderColumn: 'unlocked_at',
+    select: '*, achievements(name, description)',
+  },
+  { file: 'leaderboard_stats', table: 'leaderboard_stats', userColumn: 'user_id', orderColumn: 'created_at' },
+];
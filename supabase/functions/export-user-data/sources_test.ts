@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { EXPORT_SOURCES } from "./sources.ts";
+
+const MIGRATIONS_DIR = new URL("../../migrations/", import.meta.url);
+
+// Table and constraint definitions that are not columns
+const NOT_COLUMNS = new Set(['constraint', 'primary', 'unique', 'foreign', 'check', 'exclude']);
+
+/**
+ * Columns of each public table after applying the migrations in order. A
+ * later CREATE TABLE IF NOT EXISTS leaves an existing table as it was.
+ */
+async function migratedColumns(): Promise<Map<string, Set<string>>> {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(MIGRATIONS_DIR)) {
+    if (entry.isFile && entry.name.endsWith('.sql')) files.push(entry.name);
+  }
+
+  const tables = new Map<string, Set<string>>();
+  for (const file of files.sort()) {
+    const sql = await Deno.readTextFile(new URL(file, MIGRATIONS_DIR));
+
+    for (const match of sql.matchAll(/CREATE TABLE (?:IF NOT EXISTS )?(?:public\.)?(\w+)\s*\(([\s\S]*?)\n\);/gi)) {
+      const [, table, body] = match;
+      if (tables.has(table)) continue;
+
+      const columns = body
+        .split('\n')
+        .map((line) => line.trim().split(/\s+/)[0].toLowerCase())
+        .filter((name) => /^\w+$/.test(name) && !NOT_COLUMNS.has(name));
+      tables.set(table, new Set(columns));
+    }
+
+    for (const match of sql.matchAll(/ALTER TABLE (?:IF EXISTS )?(?:ONLY )?(?:public\.)?(\w+)([^;]*);/gi)) {
+      const [, table, actions] = match;
+      for (const added of actions.matchAll(/ADD COLUMN (?:IF NOT EXISTS )?(\w+)/gi)) {
+        tables.get(table)?.add(added[1].toLowerCase());
+      }
+    }
+  }
+  return tables;
+}
+
+Deno.test("export sources only read columns their tables have", async () => {
+  const tables = await migratedColumns();
+
+  for (const source of EXPORT_SOURCES) {
+    const columns = tables.get(source.table);
+    assert(columns, `${source.table} is not created by any migration`);
+    for (const column of [source.userColumn, source.orderColumn, 'id']) {
+      assert(columns.has(column), `${source.table} has no ${column} column`);
+    }
+  }
+});
+
+Deno.test("export sources write distinct files", () => {
+  const files = EXPORT_SOURCES.map((source) => source.file);
+  assertEquals(new Set(files).size, files.length);
+});
+
+Deno.test("achievements are ordered by unlock time", () => {
+  const achievements = EXPORT_SOURCES.find((source) => source.table === 'user_achievements');
+  assertEquals(achievements?.orderColumn, 'unlocked_at');
+});
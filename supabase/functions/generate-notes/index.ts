@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIOutputError, generateJSON, streamText, type ChatMessage } from "../_shared/ai.ts";
+import { notesSchema } from "../_shared/aiSchemas.ts";
 
 // Allowed origins for CORS - prevents CSRF attacks
 const ALLOWED_ORIGINS = [
@@ -154,60 +156,118 @@ Focus on educational content that would help a student understand this topic tho
   }
 }
 
-// Bytez AI call function (using Qwen3-4B-Instruct for ultra-fast notes generation)
-async function callBytezAI(messages: { role: string; content: string }[]): Promise<string> {
-  const BYTEZ_API_KEY = Deno.env.get('BYTEZ_API_KEY');
-  if (!BYTEZ_API_KEY) {
-    throw new Error('BYTEZ_API_KEY is not configured');
-  }
-  console.log('Calling Bytez AI (Qwen3-4B-Instruct) via bytez.js SDK for fast notes generation...');
-
-  try {
-    // Dynamically import bytez.js from esm.sh so this function can run in Deno-based runtimes
-    // Using esm.sh avoids bundling Node-only packages directly into the Deno function.
-    const module = await import('https://esm.sh/bytez.js@3');
-    const Bytez = module.default || module;
-    if (!Bytez) {
-      throw new Error('Failed to load bytez.js SDK');
-    }
-
-    const sdk = new Bytez(BYTEZ_API_KEY);
-    const model = sdk.model('Qwen/Qwen3-4B-Instruct-2507');
-    if (!model) {
-      throw new Error('Failed to load Qwen3-4B model');
-    }
+interface NotesTarget {
+  userId: string;
+  todoId: string;
+  videoId: string;
+}
 
-    // Some Bytez models don't accept `max_tokens`; omit it for compatibility
-    const result = await model.run(messages, { temperature: 0.3 });
+/**
+ * Save generated notes (markdown) for a todo. Returns the note id, or null
+ * when saving failed.
+ */
+async function saveNotes(
+  supabaseClient: SupabaseClient,
+  serviceClient: SupabaseClient,
+  target: NotesTarget,
+  content: string
+): Promise<string | null> {
+  // Check achievements after generating notes
+  await serviceClient.rpc('check_achievements', { uid: target.userId });
+
+  const { data: savedNote, error: saveError } = await supabaseClient
+    .from("notes")
+    .insert({
+      user_id: target.userId,
+      todo_id: target.todoId,
+      video_id: target.videoId,
+      content,
+      is_ai_generated: true,
+    })
+    .select()
+    .single();
+
+  if (saveError) {
+    console.error("Error saving notes:", saveError);
+    return null;
+  }
+  return savedNote.id;
+}
 
-    console.log('Bytez SDK raw result:', typeof result === 'object' ? JSON.stringify(result).slice(0, 2000) : String(result));
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-    if (!result) {
-      throw new Error('Empty response from Bytez SDK');
-    }
+/**
+ * Stream markdown notes as server-sent events:
+ * - delta: { text } for each piece of the notes
+ * - done: { saved, noteId } once the notes are complete and saved
+ * - error: { error, status } if generation fails
+ * Notes are only saved when the stream completes; a client that disconnects
+ * cancels generation and nothing is saved.
+ */
+function streamNotes(
+  req: Request,
+  corsHeaders: Record<string, string>,
+  messages: ChatMessage[],
+  save: (content: string) => Promise<string | null>
+): Response {
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) controller.enqueue(sseEvent(event, data));
+      };
+
+      try {
+        const { content, model } = await streamText(
+          'notes_markdown',
+          messages,
+          (text) => send('delta', { text }),
+          { signal: abort.signal }
+        );
 
-    if (result.error) {
-      console.error('Bytez SDK error:', result.error);
-      if (result.error?.toString().toLowerCase().includes('rate limit')) {
-        throw new Error('Rate limit exceeded. Please try again later.');
+        if (abort.signal.aborted) {
+          console.log("Notes stream cancelled by client; nothing saved");
+          return;
+        }
+
+        console.log(`Notes streamed successfully using ${model}`);
+        const noteId = await save(content.trim());
+        send('done', noteId ? { saved: true, noteId } : { saved: false, error: "Notes generated but failed to save" });
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log("Notes stream cancelled by client; nothing saved");
+          return;
+        }
+        console.error("Error streaming notes:", error);
+        send('error', {
+          error: error instanceof Error ? error.message : "Unknown error",
+          status: (error as { status?: number })?.status ?? 500,
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
       }
-      throw new Error(result.error?.toString() || 'Unknown Bytez SDK error');
-    }
-
-    // The SDK returns `output` like the browser/client code expects
-    return result.output || '';
-  } catch (err) {
-    console.error('Error calling Bytez SDK:', err instanceof Error ? err.message : String(err));
-    // Surface common errors as friendly messages
-    const msg = err instanceof Error ? err.message : String(err);
-    if (msg.includes('401') || /invalid api key/i.test(msg)) {
-      throw new Error('Invalid API key or authentication failed.');
-    }
-    if (msg.includes('rate limit') || msg.includes('429')) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    throw err;
-  }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
 }
 
 serve(async (req) => {
@@ -275,6 +335,8 @@ serve(async (req) => {
     const examType = body.examType || body.exam || '';
     const notesStyle = body.notesStyle || body.style || 'exam-oriented';
     const difficulty = body.difficulty || 'medium';
+    // Stream markdown over server-sent events instead of returning JSON at the end
+    const stream = body.stream === true;
 
     if (!videoTitle || !videoId || !todoId) {
       return new Response(
@@ -314,8 +376,8 @@ serve(async (req) => {
     // Fetch video context using Perplexity
     const videoContext = await fetchVideoContext(sanitizedTitle, videoId);
 
-    // Generate notes using Bytez AI according to the Edurank notes logic
-    const userPrompt = [];
+    // Generate notes according to the Edurank notes logic
+    const userPrompt: ChatMessage[] = [];
     // System role: core philosophy and strict rules
     userPrompt.push({ role: 'system', content: `You are Edurank — an AI that thinks like a topper, a teacher, and the YouTube algorithm combined.\nGoals: Save time, reduce overload, improve retention, align with exams.\nRules: No long paragraphs, no unnecessary theory, use simple language, prioritize exam relevance. Output JSON only when asked.` });
 
@@ -331,48 +393,29 @@ serve(async (req) => {
     userPrompt.push({ role: 'user', content: `You will produce study notes following the Edurank specification. Use the Subject→Chapter→Topic→Subtopic architecture.\n\n${inputSummary}\n${videoContext ? `Video Context:\n${videoContext}` : 'No additional video context provided.'}` });
 
     // Instructions: layered format, outputs, and formats
-    userPrompt.push({ role: 'user', content: `AI Notes Generation Instructions:\n1) Topic Understanding (definitions, core concepts, formulas, exam weightage, common mistakes). If you cannot confidently understand, respond with an explicit error.\n2) Structure notes in layers:\n   - Concept Overview (simple)\n   - Key Definitions\n   - Important Formulas\n   - Explanation with Example(s)\n   - Diagrams (text-based description or ASCII placeholders)\n   - Exam Tips\n   - Common Mistakes\n   - One-line Revision\n3) Difficulty scaling: produce versions for Easy, Medium, Hard tuned to the ` + difficulty + ` level.\n4) Smart compression: also output Short Notes (bullets), Mind-map bullets, and Last-day revision (very concise).\n5) Notes↔Video sync: where possible include timestamp placeholders like \"[video_timestamp:MM:SS]\" next to concepts (if unknown, leave as null).\n6) Output format: Return a single JSON object with keys: ` + "`notes` (full layered markdown), `shortNotes`, `mindmap`, `revisionSheet`, `examTips`, `commonMistakes`, `metadata`" + `. Ensure valid JSON only. Do not include extra commentary.` });
+    userPrompt.push({ role: 'user', content: `AI Notes Generation Instructions:\n1) Topic Understanding (definitions, core concepts, formulas, exam weightage, common mistakes). If you cannot confidently understand, respond with an explicit error.\n2) Structure notes in layers:\n   - Concept Overview (simple)\n   - Key Definitions\n   - Important Formulas\n   - Explanation with Example(s)\n   - Diagrams (text-based description or ASCII placeholders)\n   - Exam Tips\n   - Common Mistakes\n   - One-line Revision\n3) Difficulty scaling: produce versions for Easy, Medium, Hard tuned to the ` + difficulty + ` level.\n4) Smart compression: also output Short Notes (bullets), Mind-map bullets, and Last-day revision (very concise).\n5) Notes↔Video sync: where possible include timestamp placeholders like \"[video_timestamp:MM:SS]\" next to concepts (if unknown, leave as null).\n6) Output format: ` + (stream
+      ? "Return the full layered notes as markdown only, using `## ` headings for each layer, then `## Short Notes`, `## Mind Map` and `## Last-day Revision` sections. Do not wrap the notes in JSON or code blocks. Do not include extra commentary."
+      : "Return a single JSON object with keys: `notes` (full layered markdown), `shortNotes`, `mindmap`, `revisionSheet`, `examTips`, `commonMistakes`, `metadata`. Ensure valid JSON only. Do not include extra commentary.") });
 
     // Request example-based exam mode content
-    userPrompt.push({ role: 'user', content: `Also provide an optional 'examMode' object containing: expected questions (3 sample questions with answers in PYQ style), and a formula-only sheet. Keep answers concise.` });
+    userPrompt.push({ role: 'user', content: stream
+      ? `Finish with an '## Exam Mode' section containing: expected questions (3 sample questions with answers in PYQ style), and a formula-only sheet. Keep answers concise.`
+      : `Also provide an optional 'examMode' object containing: expected questions (3 sample questions with answers in PYQ style), and a formula-only sheet. Keep answers concise.` });
 
-    const generatedNotes = await callBytezAI(userPrompt);
+    const target: NotesTarget = { userId: user.id, todoId, videoId };
+    const save = (content: string) => saveNotes(supabaseClient, serviceClient, target, content);
 
-    if (!generatedNotes) {
-      throw new Error("No content generated from AI");
+    if (stream) {
+      return streamNotes(req, corsHeaders, userPrompt, save);
     }
 
-    console.log("Notes generated successfully using Qwen3-4B (fast generation)");
-
-    // Attempt to parse JSON result; fall back to raw text
-    let parsed: any = null;
-    let notesText = '';
-    try {
-      parsed = JSON.parse(generatedNotes);
-      notesText = parsed.notes || parsed.notes_text || JSON.stringify(parsed);
-    } catch (e) {
-      // Not JSON — treat entire output as notes markdown
-      notesText = generatedNotes;
-      parsed = { notes: generatedNotes };
-    }
+    const { value: parsed, model } = await generateJSON('notes', userPrompt, notesSchema);
+    const generatedNotes = JSON.stringify(parsed);
+
+    console.log(`Notes generated successfully using ${model}`);
 
-    // Check achievements after generating notes
-    await serviceClient.rpc('check_achievements', { uid: user.id });
-
-    const { data: savedNote, error: saveError } = await supabaseClient
-      .from("notes")
-      .insert({
-        user_id: user.id,
-        todo_id: todoId,
-        video_id: videoId,
-        content: notesText,
-        is_ai_generated: true,
-      })
-      .select()
-      .single();
-
-    if (saveError) {
-      console.error("Error saving notes:", saveError);
+    const noteId = await save(parsed.notes);
+    if (!noteId) {
       return new Response(
         JSON.stringify({ 
           notes: generatedNotes, 
@@ -387,7 +430,7 @@ serve(async (req) => {
       JSON.stringify({ 
         notes: generatedNotes, 
         saved: true,
-        noteId: savedNote.id 
+        noteId
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -397,7 +440,7 @@ serve(async (req) => {
     const errorCorsHeaders = getCORSHeaders(null);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
+      { status: error instanceof AIOutputError ? error.status : 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
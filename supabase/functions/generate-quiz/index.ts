@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIOutputError, generateJSON } from "../_shared/ai.ts";
+import { quizSchema } from "../_shared/aiSchemas.ts";
 
 // Allowed origins for CORS - prevents CSRF attacks
 const ALLOWED_ORIGINS = [
@@ -32,6 +34,7 @@ function getCORSHeaders(originHeader: string | null): Record<string, string> {
 // Input validation and sanitization constants
 const MAX_NOTES_LENGTH = 50000;
 const MAX_ID_LENGTH = 100;
+const QUIZ_LENGTH = 5;
 const FORBIDDEN_PATTERNS = [
   /ignore\s+(all\s+)?previous\s+instructions/i,
   /disregard\s+(all\s+)?previous/i,
@@ -127,49 +130,6 @@ Each question must have this structure:
 Types: concept_check, mechanism_check, application_check, misconception_trap, why_question
 correctAnswer is the 0-based index of the correct option.`;
 
-// Bytez AI call function (using DeepSeek V3.2 Exp for quiz generation)
-async function callBytezAI(messages: { role: string; content: string }[]): Promise<string> {
-  const BYTEZ_API_KEY = Deno.env.get('BYTEZ_API_KEY');
-  if (!BYTEZ_API_KEY) {
-    throw new Error('BYTEZ_API_KEY is not configured');
-  }
-
-  console.log('Calling Bytez AI (DeepSeek V3.2 Exp) for quiz generation...');
-  
-  const response = await fetch('https://api.bytez.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${BYTEZ_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-ai/DeepSeek-V3.2-Exp',
-      messages,
-      temperature: 0.7,
-      max_tokens: 2000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Bytez AI error:', response.status, errorText);
-    
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 401) {
-      throw new Error('Invalid API key or authentication failed.');
-    }
-    if (response.status === 402) {
-      throw new Error('Payment required. Please add funds to your Bytez account.');
-    }
-    throw new Error(`Bytez AI error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || '';
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -252,66 +212,10 @@ serve(async (req) => {
 
     console.log(`Generating new quiz for user ${userId}`);
 
-    const questionsContent = await callBytezAI([
-      { role: 'user', content: `${SYSTEM_PROMPT}\n\nGenerate 5 MCQ questions based on these study notes:\n\n${sanitizedNotes}` }
-    ]);
-
-    if (!questionsContent) {
-      throw new Error("No content generated from AI");
-    }
-
-    let questions;
-    try {
-      let cleanContent = questionsContent.trim();
-      if (cleanContent.startsWith('```json')) cleanContent = cleanContent.slice(7);
-      if (cleanContent.startsWith('```')) cleanContent = cleanContent.slice(3);
-      if (cleanContent.endsWith('```')) cleanContent = cleanContent.slice(0, -3);
-      questions = JSON.parse(cleanContent.trim());
-    } catch (parseError) {
-      console.error("Failed to parse questions:", parseError);
-      questions = [
-        {
-          id: 1,
-          type: "concept_check",
-          question: "What is the main concept covered in this material?",
-          options: ["Option A", "Option B", "Option C", "Option D"],
-          correctAnswer: 0,
-          explanation: "This tests your understanding of the core concept presented."
-        },
-        {
-          id: 2,
-          type: "mechanism_check",
-          question: "How does this process work?",
-          options: ["Statement A", "Statement B", "Statement C", "Statement D"],
-          correctAnswer: 1,
-          explanation: "Understanding the mechanism helps you apply the concept."
-        },
-        {
-          id: 3,
-          type: "application_check",
-          question: "How can this knowledge be applied in practice?",
-          options: ["Application A", "Application B", "Application C", "Application D"],
-          correctAnswer: 2,
-          explanation: "Real-world application demonstrates true understanding."
-        },
-        {
-          id: 4,
-          type: "misconception_trap",
-          question: "Which of the following is a common misconception?",
-          options: ["Misconception A", "Misconception B", "Misconception C", "Correct understanding"],
-          correctAnswer: 3,
-          explanation: "Identifying misconceptions helps solidify correct understanding."
-        },
-        {
-          id: 5,
-          type: "why_question",
-          question: "Why is this concept important?",
-          options: ["Reason A", "Reason B", "Reason C", "Reason D"],
-          correctAnswer: 1,
-          explanation: "Understanding 'why' deepens your comprehension."
-        }
-      ];
-    }
+    // Invalid output is repaired or rejected; nothing is saved unless it validates
+    const { value: questions } = await generateJSON('quiz', [
+      { role: 'user', content: `${SYSTEM_PROMPT}\n\nGenerate ${QUIZ_LENGTH} MCQ questions based on these study notes:\n\n${sanitizedNotes}` }
+    ], quizSchema(QUIZ_LENGTH));
 
     console.log("Quiz generated successfully");
 
@@ -343,7 +247,7 @@ serve(async (req) => {
     const errorCorsHeaders = getCORSHeaders(null);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
+      { status: error instanceof AIOutputError ? error.status : 500, headers: { ...errorCorsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Called by the EduRank backend with the service role key. The backend decides
+// which learners a teacher or admin may see and sends their emails:
+//   learners: quizzes, average score, streak and weak topics per learner
+//   activity: active learners per day
+//   mastery:  learners per strength status for each topic
+//   quiz-result: one learner's latest result for an LMS quiz or todo
+
+interface LearnerRow {
+  email: string;
+  quizzes: number;
+  average_score: number | null;
+  last_activity_date: string | null;
+  current_streak: number;
+  streak_broken: boolean;
+  weak_topics: number;
+  rising_weakness_topics: number;
+}
+
+interface ActivityRow {
+  day: string;
+  learners: number;
+}
+
+interface MasteryRow {
+  topic_id: string;
+  topic_name: string;
+  strong: number;
+  moderate: number;
+  weak: number;
+  insufficient_data: number;
+}
+
+interface QuizResultRow {
+  score: number;
+  correct_answers: number;
+  total_questions: number;
+  completed_at: string;
+}
+
+const MAX_LEARNERS = 10000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+async function getLearners(serviceClient: SupabaseClient, emails: string[], from: string, to: string) {
+  const { data, error } = await serviceClient.rpc("learner_analytics", { p_emails: emails, p_from: from, p_to: to });
+  if (error) throw error;
+
+  return {
+    learners: ((data || []) as LearnerRow[]).map((row) => ({
+      email: row.email,
+      quizzes: Number(row.quizzes),
+      averageScore: row.average_score === null ? null : Number(row.average_score),
+      lastActivityDate: row.last_activity_date,
+      currentStreak: row.current_streak,
+      streakBroken: row.streak_broken,
+      weakTopics: Number(row.weak_topics),
+      risingWeaknessTopics: Number(row.rising_weakness_topics),
+    })),
+  };
+}
+
+async function getActivity(serviceClient: SupabaseClient, emails: string[], from: string, to: string) {
+  const { data, error } = await serviceClient.rpc("learner_activity_by_day", { p_emails: emails, p_from: from, p_to: to });
+  if (error) throw error;
+
+  return {
+    days: ((data || []) as ActivityRow[]).map((row) => ({ date: row.day, learners: Number(row.learners) })),
+  };
+}
+
+async function getMastery(serviceClient: SupabaseClient, emails: string[]) {
+  const { data, error } = await serviceClient.rpc("topic_mastery_distribution", { p_emails: emails });
+  if (error) throw error;
+
+  return {
+    topics: ((data || []) as MasteryRow[]).map((row) => ({
+      topicId: row.topic_id,
+      topicName: row.topic_name,
+      strong: Number(row.strong),
+      moderate: Number(row.moderate),
+      weak: Number(row.weak),
+      insufficientData: Number(row.insufficient_data),
+    })),
+  };
+}
+
+async function getQuizResult(serviceClient: SupabaseClient, email: string, targetType: string, targetId: string) {
+  const { data, error } = await serviceClient.rpc("learner_quiz_result", {
+    p_email: email,
+    p_target_type: targetType,
+    p_target_id: targetId,
+  });
+  if (error) throw error;
+
+  const row = ((data || []) as QuizResultRow[])[0];
+  return {
+    result: row
+      ? {
+        score: Number(row.score),
+        correctAnswers: row.correct_answers,
+        totalQuestions: row.total_questions,
+        completedAt: row.completed_at,
+      }
+      : null,
+  };
+}
+
+serve(async (req) => {
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the EduRank backend (holding the service role key) may call this
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const emails = body?.emails;
+    if (
+      !Array.isArray(emails) || emails.length > MAX_LEARNERS ||
+      !emails.every((email: unknown) => typeof email === "string")
+    ) {
+      return jsonResponse({ error: `emails must be a list of at most ${MAX_LEARNERS} addresses` }, 400);
+    }
+
+    const needsRange = body.action === "learners" || body.action === "activity";
+    if (needsRange && (!isDate(body.from) || !isDate(body.to))) {
+      return jsonResponse({ error: "from and to are required" }, 400);
+    }
+    if (
+      body.action === "quiz-result" &&
+      (emails.length !== 1 || !["quiz", "todo"].includes(body.targetType) ||
+        typeof body.targetId !== "string" || !UUID_PATTERN.test(body.targetId))
+    ) {
+      return jsonResponse({ error: "One email, targetType and targetId are required" }, 400);
+    }
+
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL")!, supabaseServiceKey);
+
+    switch (body.action) {
+      case "learners":
+        return jsonResponse(await getLearners(serviceClient, emails, body.from, body.to));
+      case "activity":
+        return jsonResponse(await getActivity(serviceClient, emails, body.from, body.to));
+      case "mastery":
+        return jsonResponse(await getMastery(serviceClient, emails));
+      case "quiz-result":
+        return jsonResponse(await getQuizResult(serviceClient, emails[0], body.targetType, body.targetId));
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error('Error in organisation-analytics:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
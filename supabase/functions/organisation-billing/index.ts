@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_RATE_LIMITS } from "../_shared/rateLimit.ts";
+
+// Called by the EduRank backend with the service role key:
+//   sync-pool: set an organisation's monthly AI credit pool and its members
+//   usage:     requests and credits per operation for a billing period
+
+interface UsageRow {
+  operation: string;
+  requests: number;
+  successful: number;
+  users: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_MEMBERS = 100000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Credits charged per successful request, from the rate limit table
+function creditsFor(operation: string): number {
+  const limits = DEFAULT_RATE_LIMITS[operation as keyof typeof DEFAULT_RATE_LIMITS];
+  return limits ? limits.costCredits : 0;
+}
+
+async function syncPool(serviceClient: SupabaseClient, body: Record<string, unknown>): Promise<Response> {
+  const { organisationId, monthlyCredits, periodStart, memberEmails } = body;
+
+  if (
+    !Number.isInteger(monthlyCredits) || (monthlyCredits as number) < 0 ||
+    !isDate(periodStart) ||
+    !Array.isArray(memberEmails) || memberEmails.length > MAX_MEMBERS ||
+    !memberEmails.every((email) => typeof email === "string")
+  ) {
+    return jsonResponse({ error: "monthlyCredits, periodStart and memberEmails are required" }, 400);
+  }
+
+  const { error } = await serviceClient.rpc("sync_organisation_credit_pool", {
+    p_organisation_id: organisationId,
+    p_monthly_credits: monthlyCredits,
+    p_period_start: periodStart,
+    p_member_emails: memberEmails,
+  });
+  if (error) throw error;
+
+  return jsonResponse({ synced: true });
+}
+
+async function getUsage(serviceClient: SupabaseClient, body: Record<string, unknown>): Promise<Response> {
+  const { organisationId, from, to } = body;
+
+  if (!isDate(from) || !isDate(to)) {
+    return jsonResponse({ error: "from and to are required" }, 400);
+  }
+
+  const { data, error } = await serviceClient.rpc("organisation_usage", {
+    p_organisation_id: organisationId,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+
+  const lines = ((data || []) as UsageRow[]).map((row) => ({
+    operation: row.operation,
+    requests: Number(row.requests),
+    successful: Number(row.successful),
+    users: Number(row.users),
+    credits: Number(row.successful) * creditsFor(row.operation),
+  }));
+
+  return jsonResponse({ lines });
+}
+
+serve(async (req) => {
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the EduRank backend (holding the service role key) may call this
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || typeof body.organisationId !== "string" || !UUID_PATTERN.test(body.organisationId)) {
+      return jsonResponse({ error: "organisationId is required" }, 400);
+    }
+
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL")!, supabaseServiceKey);
+
+    switch (body.action) {
+      case "sync-pool":
+        return await syncPool(serviceClient, body);
+      case "usage":
+        return await getUsage(serviceClient, body);
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error('Error in organisation-billing:', error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Scheduled job (e.g. hourly cron calling this function with the service role
+// key): deletes accounts whose cooling-off period has ended and removes
+// expired export archives.
+
+const BATCH_SIZE = 50;
+
+// Remove every object under <userId>/ in a bucket
+async function removeUserFolder(serviceClient: SupabaseClient, bucket: string, userId: string): Promise<void> {
+  const { data: objects, error } = await serviceClient.storage.from(bucket).list(userId, { limit: 1000 });
+  if (error) {
+    throw new Error(`Failed to list ${bucket}/${userId}: ${error.message}`);
+  }
+  if (!objects || objects.length === 0) return;
+
+  const { error: removeError } = await serviceClient.storage
+    .from(bucket)
+    .remove(objects.map((object: { name: string }) => `${userId}/${object.name}`));
+
+  if (removeError) {
+    throw new Error(`Failed to remove ${bucket}/${userId}: ${removeError.message}`);
+  }
+}
+
+async function deleteAccount(serviceClient: SupabaseClient, userId: string): Promise<void> {
+  // Tables without a foreign key to auth.users, plus leaderboard anonymisation
+  const { error: dataError } = await serviceClient.rpc('delete_user_data', { p_user_id: userId });
+  if (dataError) {
+    throw new Error(`delete_user_data failed: ${dataError.message}`);
+  }
+
+  await removeUserFolder(serviceClient, 'avatars', userId);
+  await removeUserFolder(serviceClient, 'data-exports', userId);
+
+  // Cascades through every table that references auth.users, including the request itself
+  const { error: authError } = await serviceClient.auth.admin.deleteUser(userId);
+  if (authError) {
+    throw new Error(`Failed to delete auth user: ${authError.message}`);
+  }
+}
+
+async function processDueDeletions(serviceClient: SupabaseClient): Promise<{ deleted: number; failed: number }> {
+  const { data: due, error } = await serviceClient
+    .from('account_deletion_requests')
+    .select('user_id')
+    .lte('scheduled_for', new Date().toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  let deleted = 0;
+  let failed = 0;
+  for (const request of due || []) {
+    try {
+      await deleteAccount(serviceClient, request.user_id);
+      deleted++;
+    } catch (deleteError) {
+      // Left in place so the next run retries it; the reason goes to the
+      // user's audit trail, which is kept until the deletion succeeds
+      failed++;
+      await serviceClient.rpc('log_audit_event', {
+        p_user_id: request.user_id,
+        p_action: 'account_deletion_failed',
+        p_resource_type: 'account',
+        p_resource_id: request.user_id,
+        p_metadata: { error: deleteError instanceof Error ? deleteError.message : String(deleteError) },
+      });
+    }
+  }
+
+  return { deleted, failed };
+}
+
+async function removeExpiredExports(serviceClient: SupabaseClient): Promise<number> {
+  const { data: expired, error } = await serviceClient
+    .from('data_export_jobs')
+    .select('id, file_path')
+    .eq('status', 'completed')
+    .not('file_path', 'is', null)
+    .lte('expires_at', new Date().toISOString())
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  if (!expired || expired.length === 0) return 0;
+
+  const { error: removeError } = await serviceClient.storage
+    .from('data-exports')
+    .remove(expired.map((job: { file_path: string }) => job.file_path));
+
+  if (removeError) throw removeError;
+
+  const { error: updateError } = await serviceClient
+    .from('data_export_jobs')
+    .update({ file_path: null })
+    .in('id', expired.map((job: { id: string }) => job.id));
+
+  if (updateError) throw updateError;
+  return expired.length;
+}
+
+serve(async (req) => {
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the scheduler (holding the service role key) may run this
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL")!, supabaseServiceKey);
+
+    const deletions = await processDueDeletions(serviceClient);
+    const exportsRemoved = await removeExpiredExports(serviceClient);
+
+    return new Response(
+      JSON.stringify({ ...deletions, exportsRemoved }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error('Error in process-privacy-requests:', error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+-- Migration: Personal data export and account deletion
+-- Date: 2026-10-19
+-- Purpose: Let users download their data and delete their account after a cooling-off period
+
+-- Export jobs (one ZIP of JSON files per job, stored in the data-exports bucket)
+CREATE TABLE IF NOT EXISTS public.data_export_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  file_path TEXT,
+  error TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Pending account deletions; cancelling removes the row, completing deletes the user
+CREATE TABLE IF NOT EXISTS public.account_deletion_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.data_export_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own jobs and requests; edge functions write them with the service role
+CREATE POLICY "Users can view their own data export jobs"
+ON public.data_export_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own deletion request"
+ON public.account_deletion_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS data_export_jobs_user_created
+ON public.data_export_jobs(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS account_deletion_requests_scheduled
+ON public.account_deletion_requests(scheduled_for);
+
+GRANT SELECT, INSERT, UPDATE ON public.data_export_jobs TO service_role;
+GRANT SELECT, INSERT, DELETE ON public.account_deletion_requests TO service_role;
+
+-- Private bucket for export archives, stored as <user_id>/<job_id>.zip
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can download their own data exports"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'data-exports' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Remove a user's rows from tables that do not cascade from auth.users, and
+-- anonymise their leaderboard entry so rankings stay consistent. The caller
+-- deletes the auth user afterwards, which cascades through the remaining tables.
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.leaderboard_stats
+  SET display_name = 'Deleted user'
+  WHERE user_id = p_user_id;
+
+  DELETE FROM public.question_attempts WHERE user_id = p_user_id;
+  DELETE FROM public.quizzes WHERE user_id = p_user_id;
+  DELETE FROM public.subtask_videos WHERE user_id = p_user_id;
+  DELETE FROM public.subtasks WHERE user_id = p_user_id;
+  DELETE FROM public.topic_mastery WHERE user_id = p_user_id;
+  DELETE FROM public.user_topic_performance WHERE user_id = p_user_id;
+  DELETE FROM public.video_topic_analysis WHERE user_id = p_user_id;
+  DELETE FROM public.recommendation_queue WHERE user_id = p_user_id;
+  DELETE FROM public.user_achievements WHERE user_id = p_user_id;
+  DELETE FROM public.achievement_progress WHERE user_id = p_user_id;
+  DELETE FROM public.user_rewards WHERE user_id = p_user_id;
+  DELETE FROM public.user_credits WHERE user_id = p_user_id;
+  DELETE FROM public.study_reminders WHERE user_id = p_user_id;
+  DELETE FROM public.user_daily_challenges WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_user_data(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_data(UUID) TO service_role;
@@ -0,0 +1,199 @@
+-- Migration: Organisation AI credit pools and usage metering
+-- Date: 2026-10-19
+-- Purpose: Let organisation members draw AI credits from a pool paid for by their
+-- organisation, and report their usage for monthly billing statements. The
+-- EduRank backend owns plans and seats and keeps these tables in sync through
+-- the organisation-billing edge function.
+
+-- One pool per organisation, refilled at the start of each billing period
+CREATE TABLE IF NOT EXISTS public.organisation_credit_pools (
+  organisation_id UUID NOT NULL PRIMARY KEY, -- Organisation ID in the EduRank backend
+  monthly_credits INTEGER NOT NULL DEFAULT 0 CHECK (monthly_credits >= 0),
+  credits_remaining INTEGER NOT NULL DEFAULT 0 CHECK (credits_remaining >= 0),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Learning app accounts matched to organisation members by email
+CREATE TABLE IF NOT EXISTS public.organisation_credit_members (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisation_credit_pools(organisation_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.organisation_credit_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_credit_members ENABLE ROW LEVEL SECURITY;
+
+-- Members can see their membership and their organisation's pool; only the
+-- service role writes
+CREATE POLICY "Users can view their own organisation credit membership"
+ON public.organisation_credit_members
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Members can view their organisation credit pool"
+ON public.organisation_credit_pools
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.organisation_credit_members m
+  WHERE m.organisation_id = organisation_credit_pools.organisation_id
+    AND m.user_id = auth.uid()
+));
+
+CREATE INDEX IF NOT EXISTS organisation_credit_members_organisation
+ON public.organisation_credit_members(organisation_id);
+
+GRANT SELECT, INSERT, UPDATE ON public.organisation_credit_pools TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.organisation_credit_members TO service_role;
+
+-- Set an organisation's monthly credits and members. A new period refills the
+-- pool; a plan change within the period adds or removes the difference.
+CREATE OR REPLACE FUNCTION public.sync_organisation_credit_pool(
+  p_organisation_id uuid,
+  p_monthly_credits integer,
+  p_period_start timestamp with time zone,
+  p_member_emails text[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.organisation_credit_pools (organisation_id, monthly_credits, credits_remaining, period_start)
+  VALUES (p_organisation_id, p_monthly_credits, p_monthly_credits, p_period_start)
+  ON CONFLICT (organisation_id) DO UPDATE
+  SET credits_remaining = CASE
+        WHEN public.organisation_credit_pools.period_start <> EXCLUDED.period_start THEN EXCLUDED.monthly_credits
+        ELSE GREATEST(
+          public.organisation_credit_pools.credits_remaining
+            + EXCLUDED.monthly_credits - public.organisation_credit_pools.monthly_credits,
+          0
+        )
+      END,
+      monthly_credits = EXCLUDED.monthly_credits,
+      period_start = EXCLUDED.period_start,
+      updated_at = now();
+
+  DELETE FROM public.organisation_credit_members m
+  WHERE m.organisation_id = p_organisation_id
+    AND m.user_id NOT IN (
+      SELECT u.id FROM auth.users u
+      WHERE lower(u.email) = ANY (SELECT lower(e) FROM unnest(p_member_emails) AS e)
+    );
+
+  INSERT INTO public.organisation_credit_members (user_id, organisation_id)
+  SELECT u.id, p_organisation_id
+  FROM auth.users u
+  WHERE lower(u.email) = ANY (SELECT lower(e) FROM unnest(p_member_emails) AS e)
+  ON CONFLICT (user_id) DO UPDATE SET organisation_id = EXCLUDED.organisation_id;
+END;
+$$;
+
+-- Requests per operation by the organisation's current members in [p_from, p_to)
+CREATE OR REPLACE FUNCTION public.organisation_usage(
+  p_organisation_id uuid,
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+RETURNS TABLE(operation text, requests bigint, successful bigint, users bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT l.operation,
+         count(*) AS requests,
+         count(*) FILTER (WHERE l.success) AS successful,
+         count(DISTINCT l.user_id) AS users
+  FROM public.rate_limit_logs l
+  JOIN public.organisation_credit_members m ON m.user_id = l.user_id
+  WHERE m.organisation_id = p_organisation_id
+    AND l.created_at >= p_from
+    AND l.created_at < p_to
+  GROUP BY l.operation
+  ORDER BY l.operation;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_organisation_credit_pool(uuid, integer, timestamp with time zone, text[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.organisation_usage(uuid, timestamp with time zone, timestamp with time zone) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sync_organisation_credit_pool(uuid, integer, timestamp with time zone, text[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.organisation_usage(uuid, timestamp with time zone, timestamp with time zone) TO service_role;
+
+-- consume_credits: members whose own credits run short are topped up from
+-- their organisation's pool
+CREATE OR REPLACE FUNCTION public.consume_credits(uid uuid, amount integer DEFAULT 1)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  current_credits integer;
+  last_reset timestamp with time zone;
+  shortfall integer;
+  pool_id uuid;
+BEGIN
+  -- First, ensure user has a credit record (auto-create if missing)
+  INSERT INTO public.user_credits (user_id, credits_remaining, credits_used, last_reset_at)
+  VALUES (uid, 50, 0, now())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Get current credits and last reset
+  SELECT credits_remaining, last_reset_at INTO current_credits, last_reset
+  FROM public.user_credits
+  WHERE user_id = uid;
+
+  -- Check if a month has passed since last reset - if so, reset credits
+  IF last_reset IS NULL OR (now() - last_reset) >= interval '30 days' THEN
+    UPDATE public.user_credits
+    SET
+      credits_remaining = 50,
+      credits_used = 0,
+      last_reset_at = now(),
+      updated_at = now()
+    WHERE user_id = uid;
+
+    current_credits := 50;
+  END IF;
+
+  -- Draw the shortfall from the organisation pool, if the user has one
+  IF current_credits < amount THEN
+    shortfall := amount - current_credits;
+
+    UPDATE public.organisation_credit_pools p
+    SET credits_remaining = p.credits_remaining - shortfall,
+        updated_at = now()
+    FROM public.organisation_credit_members m
+    WHERE m.user_id = uid
+      AND p.organisation_id = m.organisation_id
+      AND p.credits_remaining >= shortfall
+    RETURNING p.organisation_id INTO pool_id;
+
+    IF pool_id IS NOT NULL THEN
+      UPDATE public.user_credits
+      SET credits_remaining = credits_remaining + shortfall,
+          updated_at = now()
+      WHERE user_id = uid;
+
+      current_credits := amount;
+    END IF;
+  END IF;
+
+  -- Check if enough credits
+  IF current_credits < amount THEN
+    RETURN false;
+  END IF;
+
+  -- Consume credits atomically
+  UPDATE public.user_credits
+  SET
+    credits_remaining = credits_remaining - amount,
+    credits_used = credits_used + amount,
+    updated_at = now()
+  WHERE user_id = uid;
+
+  RETURN true;
+END;
+$$;
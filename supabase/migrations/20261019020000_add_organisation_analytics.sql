@@ -0,0 +1,152 @@
+-- Migration: Organisation analytics for teachers and admins
+-- Date: 2026-10-19
+-- Purpose: Aggregate quiz scores, topic mastery, activity and risk signals for
+-- a set of learners chosen by the EduRank backend (matched by email). Called
+-- through the organisation-analytics edge function with the service role.
+
+-- Keep the previous weakness score so a rising trend can be detected
+ALTER TABLE public.user_topic_performance
+  ADD COLUMN IF NOT EXISTS previous_weakness_score NUMERIC,
+  ADD COLUMN IF NOT EXISTS weakness_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.track_weakness_score_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.weakness_score IS DISTINCT FROM OLD.weakness_score THEN
+    NEW.previous_weakness_score := OLD.weakness_score;
+    NEW.weakness_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_weakness_score_change ON public.user_topic_performance;
+CREATE TRIGGER track_weakness_score_change
+BEFORE UPDATE ON public.user_topic_performance
+FOR EACH ROW
+EXECUTE FUNCTION public.track_weakness_score_change();
+
+-- Per learner: quizzes and average score in [p_from, p_to), streak, weak topics
+-- and topics whose weakness score rose since p_from
+CREATE OR REPLACE FUNCTION public.learner_analytics(
+  p_emails text[],
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+RETURNS TABLE(
+  email text,
+  quizzes bigint,
+  average_score numeric,
+  last_activity_date date,
+  current_streak integer,
+  streak_broken boolean,
+  weak_topics bigint,
+  rising_weakness_topics bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH learners AS (
+    SELECT u.id, lower(u.email) AS email
+    FROM auth.users u
+    WHERE lower(u.email) = ANY (SELECT lower(e) FROM unnest(p_emails) AS e)
+  )
+  SELECT l.email,
+         coalesce(q.quizzes, 0),
+         q.average_score,
+         s.last_activity_date,
+         coalesce(s.current_streak, 0),
+         -- A streak of three or more days that lapsed without activity yesterday or today
+         coalesce(s.current_streak >= 3 AND s.last_activity_date < current_date - 1, false),
+         coalesce(t.weak_topics, 0),
+         coalesce(t.rising_weakness_topics, 0)
+  FROM learners l
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS quizzes, round(avg(r.score), 1) AS average_score
+    FROM public.quiz_results r
+    WHERE r.user_id = l.id AND r.created_at >= p_from AND r.created_at < p_to
+  ) q ON true
+  LEFT JOIN public.leaderboard_stats s ON s.user_id = l.id
+  LEFT JOIN LATERAL (
+    SELECT count(*) FILTER (WHERE p.strength_status = 'weak') AS weak_topics,
+           count(*) FILTER (
+             WHERE p.weakness_score > p.previous_weakness_score AND p.weakness_changed_at >= p_from
+           ) AS rising_weakness_topics
+    FROM public.user_topic_performance p
+    WHERE p.user_id = l.id
+  ) t ON true
+  ORDER BY l.email;
+$$;
+
+-- Learners with a quiz result or an AI request on each day of [p_from, p_to)
+CREATE OR REPLACE FUNCTION public.learner_activity_by_day(
+  p_emails text[],
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+RETURNS TABLE(day date, learners bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH learners AS (
+    SELECT u.id
+    FROM auth.users u
+    WHERE lower(u.email) = ANY (SELECT lower(e) FROM unnest(p_emails) AS e)
+  ),
+  activity AS (
+    SELECT r.user_id, r.created_at FROM public.quiz_results r
+    WHERE r.user_id IN (SELECT id FROM learners) AND r.created_at >= p_from AND r.created_at < p_to
+    UNION ALL
+    SELECT g.user_id, g.created_at FROM public.rate_limit_logs g
+    WHERE g.user_id IN (SELECT id FROM learners) AND g.created_at >= p_from AND g.created_at < p_to
+  )
+  SELECT (a.created_at AT TIME ZONE 'UTC')::date AS day, count(DISTINCT a.user_id) AS learners
+  FROM activity a
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Learners per strength status for each topic they have been assessed on
+CREATE OR REPLACE FUNCTION public.topic_mastery_distribution(p_emails text[])
+RETURNS TABLE(
+  topic_id uuid,
+  topic_name text,
+  strong bigint,
+  moderate bigint,
+  weak bigint,
+  insufficient_data bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT t.id,
+         t.name,
+         count(*) FILTER (WHERE p.strength_status = 'strong'),
+         count(*) FILTER (WHERE p.strength_status = 'moderate'),
+         count(*) FILTER (WHERE p.strength_status = 'weak'),
+         count(*) FILTER (WHERE p.strength_status IN ('unknown', 'insufficient_data'))
+  FROM public.user_topic_performance p
+  JOIN public.topics t ON t.id = p.topic_id
+  WHERE p.user_id IN (
+    SELECT u.id FROM auth.users u
+    WHERE lower(u.email) = ANY (SELECT lower(e) FROM unnest(p_emails) AS e)
+  )
+  GROUP BY t.id, t.name
+  ORDER BY t.name;
+$$;
+
+REVOKE ALL ON FUNCTION public.learner_analytics(text[], timestamp with time zone, timestamp with time zone) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.learner_activity_by_day(text[], timestamp with time zone, timestamp with time zone) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.topic_mastery_distribution(text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.learner_analytics(text[], timestamp with time zone, timestamp with time zone) TO service_role;
+GRANT EXECUTE ON FUNCTION public.learner_activity_by_day(text[], timestamp with time zone, timestamp with time zone) TO service_role;
+GRANT EXECUTE ON FUNCTION public.topic_mastery_distribution(text[]) TO service_role;
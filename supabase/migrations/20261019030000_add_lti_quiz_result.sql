@@ -0,0 +1,38 @@
+-- Migration: Quiz results for LMS grade passback
+-- Date: 2026-10-19
+-- Purpose: The latest result a learner (matched by email) has for a quiz or
+-- todo placed in an LMS. The EduRank backend sends this to the gradebook
+-- rather than a score reported by the browser. Called through the
+-- organisation-analytics edge function with the service role.
+
+CREATE OR REPLACE FUNCTION public.learner_quiz_result(
+  p_email text,
+  p_target_type text,
+  p_target_id uuid
+)
+RETURNS TABLE(
+  score numeric,
+  correct_answers integer,
+  total_questions integer,
+  completed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT r.score, r.correct_answers, r.total_questions, r.created_at
+  FROM public.quiz_results r
+  JOIN auth.users u ON u.id = r.user_id
+  WHERE lower(u.email) = lower(p_email)
+    -- Results are stored against the todo a quiz was generated for
+    AND r.todo_id = CASE p_target_type
+      WHEN 'quiz' THEN (SELECT q.todo_id FROM public.quizzes q WHERE q.id = p_target_id)
+      ELSE p_target_id
+    END
+  ORDER BY r.created_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.learner_quiz_result(text, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.learner_quiz_result(text, text, uuid) TO service_role;